@@ -0,0 +1,100 @@
+import { config } from 'dotenv';
+import { and, eq, isNotNull, isNull, ne } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { gmailOAuthTokens } from '../src/db/schema';
+import { currentTokenKeyVersion, encryptTokens, rewrapDataKey } from '../src/lib/token-crypto';
+
+config({ path: '.env' });
+
+/**
+ * Encrypt Gmail OAuth tokens at rest, or rotate the master key they are wrapped with
+ *
+ * Without flags, encrypts the tokens of rows stored before encryption (null key version).
+ * With --rotate, re-wraps the data keys of rows encrypted with an older master key so that
+ * key can be removed from TOKEN_ENCRYPTION_KEYS. The tokens themselves are not re-encrypted.
+ *
+ * Rows are updated one by one, each only if it is unchanged since it was read, so the script
+ * is safe to re-run and to run while the app is writing tokens.
+ *
+ * Usage:
+ *   bun run scripts/encrypt-oauth-tokens.ts            # encrypt plaintext rows
+ *   bun run scripts/encrypt-oauth-tokens.ts --rotate   # after adding a new key version
+ */
+
+async function encryptPlaintextRows(db: ReturnType<typeof drizzle>) {
+  const rows = await db
+    .select({
+      id: gmailOAuthTokens.id,
+      accessToken: gmailOAuthTokens.accessToken,
+      refreshToken: gmailOAuthTokens.refreshToken,
+    })
+    .from(gmailOAuthTokens)
+    .where(isNull(gmailOAuthTokens.keyVersion));
+
+  console.log(`Found ${rows.length} token row(s) without encryption`);
+
+  let encrypted = 0;
+  for (const row of rows) {
+    const result = await db
+      .update(gmailOAuthTokens)
+      .set(encryptTokens({ accessToken: row.accessToken, refreshToken: row.refreshToken }))
+      .where(and(eq(gmailOAuthTokens.id, row.id), isNull(gmailOAuthTokens.keyVersion)))
+      .returning({ id: gmailOAuthTokens.id });
+    encrypted += result.length;
+  }
+
+  console.log(`✓ Encrypted ${encrypted} token row(s)`);
+}
+
+async function rotateMasterKey(db: ReturnType<typeof drizzle>) {
+  const currentVersion = currentTokenKeyVersion();
+  const rows = await db
+    .select({
+      id: gmailOAuthTokens.id,
+      encryptedDataKey: gmailOAuthTokens.encryptedDataKey,
+      keyVersion: gmailOAuthTokens.keyVersion,
+    })
+    .from(gmailOAuthTokens)
+    .where(
+      and(isNotNull(gmailOAuthTokens.keyVersion), ne(gmailOAuthTokens.keyVersion, currentVersion))
+    );
+
+  console.log(
+    `Found ${rows.length} token row(s) wrapped with an older key than v${currentVersion}`
+  );
+
+  let rotated = 0;
+  for (const row of rows) {
+    if (!row.encryptedDataKey || row.keyVersion === null) continue;
+    const result = await db
+      .update(gmailOAuthTokens)
+      .set(rewrapDataKey(row.encryptedDataKey, row.keyVersion))
+      .where(and(eq(gmailOAuthTokens.id, row.id), eq(gmailOAuthTokens.keyVersion, row.keyVersion)))
+      .returning({ id: gmailOAuthTokens.id });
+    rotated += result.length;
+  }
+
+  console.log(`✓ Re-wrapped ${rotated} token row(s) with key v${currentVersion}`);
+}
+
+async function main() {
+  const rotate = process.argv.includes('--rotate');
+  const client = postgres(process.env.DATABASE_URL || '');
+  const db = drizzle(client);
+
+  try {
+    if (rotate) {
+      await rotateMasterKey(db);
+    } else {
+      await encryptPlaintextRows(db);
+    }
+  } catch (error) {
+    console.error(`✗ Failed to ${rotate ? 'rotate' : 'encrypt'} OAuth tokens:`, error);
+    process.exit(1);
+  } finally {
+    await client.end();
+  }
+}
+
+main();
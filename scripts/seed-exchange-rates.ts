@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { config } from 'dotenv';
+import { isNull } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { exchangeRates } from '../src/db/schema';
+
+config({ path: '.env' });
+
+/**
+ * Seed shared exchange rates from a local JSON file
+ *
+ * The file is an array of { fromCurrency, toCurrency, rate, effectiveDate } entries,
+ * where 1 unit of fromCurrency = rate units of toCurrency.
+ * Entries that already exist (same pair and effective date) are skipped.
+ *
+ * Usage: bun run scripts/seed-exchange-rates.ts [path/to/rates.json]
+ * Defaults to scripts/data/exchange-rates.json
+ */
+
+interface RateFileEntry {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  effectiveDate: string;
+}
+
+function loadRateFile(path: string): RateFileEntry[] {
+  const entries = JSON.parse(readFileSync(path, 'utf-8')) as RateFileEntry[];
+  if (!Array.isArray(entries)) {
+    throw new Error(`Expected an array of rates in ${path}`);
+  }
+  for (const entry of entries) {
+    if (
+      !/^[A-Z]{3}$/.test(entry.fromCurrency) ||
+      !/^[A-Z]{3}$/.test(entry.toCurrency) ||
+      !(entry.rate > 0) ||
+      Number.isNaN(new Date(entry.effectiveDate).getTime())
+    ) {
+      throw new Error(`Invalid rate entry: ${JSON.stringify(entry)}`);
+    }
+  }
+  return entries;
+}
+
+async function seedExchangeRates() {
+  const filePath = process.argv[2] ?? join(process.cwd(), 'scripts/data/exchange-rates.json');
+  const client = postgres(process.env.DATABASE_URL || '');
+  const db = drizzle(client);
+
+  try {
+    console.log(`Loading exchange rates from ${filePath}...`);
+    const entries = loadRateFile(filePath);
+
+    const existingRates = await db.select().from(exchangeRates).where(isNull(exchangeRates.userId));
+    const existingKeys = new Set(
+      existingRates.map((r) => `${r.fromCurrency}:${r.toCurrency}:${r.effectiveDate.getTime()}`)
+    );
+
+    const ratesToInsert = entries
+      .map((entry) => ({
+        id: crypto.randomUUID(),
+        userId: null, // null for shared rates
+        fromCurrency: entry.fromCurrency,
+        toCurrency: entry.toCurrency,
+        rate: entry.rate.toString(),
+        effectiveDate: new Date(entry.effectiveDate),
+        source: 'file',
+      }))
+      .filter(
+        (r) => !existingKeys.has(`${r.fromCurrency}:${r.toCurrency}:${r.effectiveDate.getTime()}`)
+      );
+
+    if (ratesToInsert.length === 0) {
+      console.log('✓ All exchange rates already exist');
+      return;
+    }
+
+    await db.insert(exchangeRates).values(ratesToInsert);
+
+    console.log(`✓ Created ${ratesToInsert.length} exchange rates:`);
+    ratesToInsert.forEach((r) => {
+      console.log(
+        `  + 1 ${r.fromCurrency} = ${r.rate} ${r.toCurrency} (from ${r.effectiveDate.toISOString()})`
+      );
+    });
+  } catch (error) {
+    console.error('✗ Failed to seed exchange rates:', error);
+    process.exit(1);
+  } finally {
+    await client.end();
+  }
+}
+
+seedExchangeRates();
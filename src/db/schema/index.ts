@@ -1,5 +1,17 @@
-import { relations } from 'drizzle-orm';
-import { boolean, jsonb, numeric, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import { relations, type SQL, sql } from 'drizzle-orm';
+import {
+  type AnyPgColumn,
+  boolean,
+  date,
+  index,
+  integer,
+  jsonb,
+  numeric,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
 
 /**
  * User profile table in public schema
@@ -34,6 +46,10 @@ export const users = pgTable('users', {
   id: text('id').primaryKey(),
   email: text('email').notNull().unique(),
   timezone: text('timezone').notNull().default('Asia/Kathmandu'), // IANA timezone identifier
+  baseCurrency: text('base_currency').notNull().default('NPR'), // ISO 4217 code that totals are reported in
+  reviewThreshold: numeric('review_threshold', { precision: 3, scale: 2 })
+    .notNull()
+    .default('0.70'), // AI extractions less confident than this wait for review; 0 disables
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
@@ -44,29 +60,184 @@ export type NewUser = typeof users.$inferInsert;
 /**
  * Gmail OAuth tokens table
  *
- * Stores OAuth2 tokens for Gmail API access per user.
- * Tokens are encrypted at rest (application-level encryption recommended).
+ * Stores OAuth2 tokens for Gmail API access, one row per connected Gmail account.
+ * A user can connect several accounts (e.g. their own and a spouse's inbox); the row ID is the
+ * account ID used to route Gmail API calls, watches and backfills.
+ * Tokens are encrypted at rest with a per-row data key wrapped by a versioned master key
+ * (see lib/token-crypto.ts); GmailOAuthRepository encrypts on write and decrypts on read.
+ */
+export const gmailOAuthTokens = pgTable(
+  'gmail_oauth_tokens',
+  {
+    id: text('id').primaryKey(), // UUID or similar
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    emailAddress: text('email_address').notNull(), // Gmail email address
+    accessToken: text('access_token').notNull(), // Encrypted access token
+    refreshToken: text('refresh_token').notNull(), // Encrypted refresh token
+    encryptedDataKey: text('encrypted_data_key'), // Data key encrypting the tokens, wrapped by the master key
+    keyVersion: integer('key_version'), // Master key version; null for rows not encrypted yet
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(), // Token expiration time
+    scope: text('scope').notNull(), // OAuth scopes granted
+    historyId: text('history_id'), // Last processed Gmail history ID for watch notifications
+    watchLabelIds: jsonb('watch_label_ids').$type<string[]>().default([]),
+    autofinFilterIds: jsonb('autofin_filter_ids').$type<string[]>().default([]),
+    filterSenderEmails: jsonb('filter_sender_emails').$type<string[]>().default([]),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('gmail_oauth_tokens_user_email_idx').on(table.userId, table.emailAddress)]
+);
+
+export type GmailOAuthToken = typeof gmailOAuthTokens.$inferSelect;
+export type NewGmailOAuthToken = typeof gmailOAuthTokens.$inferInsert;
+
+/**
+ * Gmail backfills table
+ *
+ * Tracks historical imports of bank alerts that arrived before the Gmail watch was set up.
+ * Each row is one run of the `gmail-backfill` Inngest function; counters are updated per page.
+ */
+export const gmailBackfills = pgTable(
+  'gmail_backfills',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    accountId: text('account_id')
+      .notNull()
+      .references(() => gmailOAuthTokens.id, { onDelete: 'cascade' }), // Gmail account imported from
+    status: text('status').notNull().default('queued'), // 'queued' | 'running' | 'completed' | 'failed'
+    startDate: timestamp('start_date', { withTimezone: true }).notNull(),
+    endDate: timestamp('end_date', { withTimezone: true }).notNull(),
+    query: text('query'), // Gmail search query, set when the run starts
+    messagesFound: integer('messages_found').default(0).notNull(),
+    savedCount: integer('saved_count').default(0).notNull(), // new transactions saved
+    skippedCount: integer('skipped_count').default(0).notNull(), // already processed or not a transaction
+    failedCount: integer('failed_count').default(0).notNull(),
+    lastError: text('last_error'),
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('gmail_backfills_user_created_idx').on(table.userId, table.createdAt)]
+);
+
+export type GmailBackfill = typeof gmailBackfills.$inferSelect;
+export type NewGmailBackfill = typeof gmailBackfills.$inferInsert;
+
+/**
+ * Gmail OAuth states table
+ *
+ * One row per started Gmail authorization. The row ID is the random `state` sent to Google;
+ * the callback consumes (deletes) it, so a state can be used once and only before it expires.
+ * Holds the PKCE code verifier for the token exchange.
  */
-export const gmailOAuthTokens = pgTable('gmail_oauth_tokens', {
-  id: text('id').primaryKey(), // UUID or similar
+export const gmailOAuthStates = pgTable('gmail_oauth_states', {
+  id: text('id').primaryKey(), // Random nonce sent as the OAuth `state`
   userId: text('user_id')
     .notNull()
     .references(() => users.id, { onDelete: 'cascade' }),
-  emailAddress: text('email_address').notNull(), // Gmail email address
-  accessToken: text('access_token').notNull(), // Encrypted access token
-  refreshToken: text('refresh_token').notNull(), // Encrypted refresh token
-  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(), // Token expiration time
-  scope: text('scope').notNull(), // OAuth scopes granted
-  historyId: text('history_id'), // Last processed Gmail history ID for watch notifications
-  watchLabelIds: jsonb('watch_label_ids').$type<string[]>().default([]),
-  autofinFilterIds: jsonb('autofin_filter_ids').$type<string[]>().default([]),
-  filterSenderEmails: jsonb('filter_sender_emails').$type<string[]>().default([]),
+  codeVerifier: text('code_verifier').notNull(), // PKCE verifier; Google only sees its S256 hash
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
-export type GmailOAuthToken = typeof gmailOAuthTokens.$inferSelect;
-export type NewGmailOAuthToken = typeof gmailOAuthTokens.$inferInsert;
+export type GmailOAuthState = typeof gmailOAuthStates.$inferSelect;
+export type NewGmailOAuthState = typeof gmailOAuthStates.$inferInsert;
+
+/**
+ * Failed ingestions table (dead letter)
+ *
+ * Messages whose ingestion job (`gmail-ingest-message`) still failed after all retries, with the
+ * last error. One row per message: a failure after a replay updates the row, and a successful
+ * retry marks it resolved.
+ */
+export const failedIngestions = pgTable(
+  'failed_ingestions',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    accountId: text('account_id').references(() => gmailOAuthTokens.id, {
+      onDelete: 'set null',
+    }), // Gmail account the message is in
+    source: text('source').default('gmail').notNull(),
+    messageId: text('message_id').notNull(), // Gmail message ID
+    error: text('error').notNull(), // Last error
+    attempts: integer('attempts').notNull(), // Attempts in the last failed run
+    status: text('status').default('failed').notNull(), // 'failed' | 'replaying' | 'resolved'
+    replayCount: integer('replay_count').default(0).notNull(),
+    lastReplayedAt: timestamp('last_replayed_at', { withTimezone: true }),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('failed_ingestions_source_message_idx').on(
+      table.userId,
+      table.source,
+      table.messageId
+    ),
+    index('failed_ingestions_status_idx').on(table.status, table.updatedAt),
+  ]
+);
+
+export type FailedIngestion = typeof failedIngestions.$inferSelect;
+export type NewFailedIngestion = typeof failedIngestions.$inferInsert;
+
+/**
+ * Email ingestions table (audit log)
+ *
+ * One row per Gmail message run through the extract-and-save pipeline, describing the latest
+ * run: whether it carried a monitor label, hit an already saved transaction, what the extractor
+ * decided and how long each stage took. Lets users see why an email was skipped.
+ */
+export const emailIngestions = pgTable(
+  'email_ingestions',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    accountId: text('account_id').references(() => gmailOAuthTokens.id, {
+      onDelete: 'set null',
+    }),
+    mailbox: text('mailbox'), // Gmail address the message was in
+    messageId: text('message_id').notNull(), // Gmail message ID
+    trigger: text('trigger').notNull(), // 'notification' | 'backfill' | 'reprocess'
+    sender: text('sender'),
+    subject: text('subject'),
+    receivedAt: timestamp('received_at', { withTimezone: true }), // Gmail internalDate
+    labelMatched: boolean('label_matched'), // Has one of the account's monitor labels; null when none are set
+    duplicate: boolean('duplicate').default(false).notNull(), // Skipped: already saved as a transaction
+    isTransaction: boolean('is_transaction'), // Extractor verdict; null when extraction did not run
+    confidence: numeric('confidence', { precision: 4, scale: 3 }),
+    extractedBy: text('extracted_by'), // Bank parser ID or 'ai'; null when extraction did not run
+    outcome: text('outcome').notNull(), // 'saved' | 'duplicate' | 'not_transaction' | 'failed'
+    transactionId: text('transaction_id').references(() => transactions.id, {
+      onDelete: 'set null',
+    }),
+    error: text('error'),
+    fetchMs: integer('fetch_ms'),
+    extractionMs: integer('extraction_ms'),
+    totalMs: integer('total_ms').notNull(),
+    runCount: integer('run_count').default(1).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(), // First run
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(), // Latest run
+  },
+  (table) => [
+    uniqueIndex('email_ingestions_user_message_idx').on(table.userId, table.messageId),
+    index('email_ingestions_user_updated_idx').on(table.userId, table.updatedAt),
+  ]
+);
+
+export type EmailIngestion = typeof emailIngestions.$inferSelect;
+export type NewEmailIngestion = typeof emailIngestions.$inferInsert;
 
 /**
  * Categories table
@@ -89,47 +260,478 @@ export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
 
 /**
- * Transactions table
+ * Category rules table
  *
- * Stores financial transactions extracted from bank emails.
- * Each transaction is linked to a user and optionally to a category.
- * The emailId is unique to prevent duplicate processing from Pub/Sub.
+ * Stores per-user rules that categorize transactions deterministically.
+ * Rules run after extraction, highest priority first, and the first match overrides the AI's category.
+ * e.g. merchant contains "Daraz" -> Shopping, remarks regex "ESEWA.*TOPUP" -> Bills and Utilities
  */
-export const transactions = pgTable('transactions', {
+export const categoryRules = pgTable('category_rules', {
   id: text('id').primaryKey(),
   userId: text('user_id')
     .notNull()
     .references(() => users.id, { onDelete: 'cascade' }),
-  categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  categoryId: text('category_id')
+    .notNull()
+    .references(() => categories.id, { onDelete: 'cascade' }),
+  field: text('field').notNull(), // 'merchant' | 'remarks' | 'any' (merchant or remarks)
+  matchType: text('match_type').notNull(), // 'contains' | 'equals' | 'regex' (all case-insensitive)
+  pattern: text('pattern').notNull(),
+  priority: integer('priority').default(0).notNull(), // higher priority rules are evaluated first
+  isActive: boolean('is_active').default(true).notNull(),
+  hitCount: integer('hit_count').default(0).notNull(), // number of transactions categorized by this rule
+  lastMatchedAt: timestamp('last_matched_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
 
-  // Core transaction data
-  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
-  type: text('type').notNull(), // 'debit' | 'credit'
-  currency: text('currency').default('NPR'),
+export type CategoryRule = typeof categoryRules.$inferSelect;
+export type NewCategoryRule = typeof categoryRules.$inferInsert;
 
-  // Extracted metadata
-  merchant: text('merchant'),
-  accountNumber: text('account_number'), // last 4 digits
-  bankName: text('bank_name'),
-  transactionDate: timestamp('transaction_date', { withTimezone: true }),
-  remarks: text('remarks'),
+/**
+ * Category memories table
+ *
+ * Learned from user corrections: when a user changes a transaction's category,
+ * its merchant (or remarks when there is no merchant) is remembered with the chosen category.
+ * Memories are applied to later transactions with the same normalized key (after rules, before the AI)
+ * and sent to the AI as few-shot examples.
+ */
+export const categoryMemories = pgTable(
+  'category_memories',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    categoryId: text('category_id')
+      .notNull()
+      .references(() => categories.id, { onDelete: 'cascade' }),
+    matchField: text('match_field').notNull(), // 'merchant' | 'remarks'
+    matchKey: text('match_key').notNull(), // normalized merchant/remarks (see lib/normalize.ts)
+    merchant: text('merchant'), // merchant of the corrected transaction, as shown to the user and the AI
+    remarks: text('remarks'), // remarks of the corrected transaction
+    correctionCount: integer('correction_count').default(1).notNull(),
+    appliedCount: integer('applied_count').default(0).notNull(),
+    lastAppliedAt: timestamp('last_applied_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('category_memories_user_key_idx').on(
+      table.userId,
+      table.matchField,
+      table.matchKey
+    ),
+  ]
+);
 
-  // Source tracking - emailId is UNIQUE to prevent duplicate processing
-  emailId: text('email_id').unique(), // Gmail message ID (unique constraint)
-  rawEmailContent: text('raw_email_content'), // for debugging/re-extraction
+export type CategoryMemory = typeof categoryMemories.$inferSelect;
+export type NewCategoryMemory = typeof categoryMemories.$inferInsert;
 
-  // AI metadata
-  aiConfidence: numeric('ai_confidence', { precision: 3, scale: 2 }), // 0.00-1.00
-  aiExtractedData: jsonb('ai_extracted_data'), // full AI response for debugging
-  isAiCreated: boolean('is_ai_created').default(false).notNull(), // true if created by AI from email, false if created manually by user
+/**
+ * Accounts table
+ *
+ * The user's bank accounts, cards and wallets. Incoming transactions are linked to the account with
+ * the same bank and last digits of the account number. The balance is the opening balance plus the
+ * linked confirmed transactions; alert emails that state the available balance update
+ * `reportedBalance`.
+ */
+export const accounts = pgTable(
+  'accounts',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    bankName: text('bank_name').notNull(), // bank or wallet provider, e.g. "NIC Asia Bank", "eSewa"
+    accountNumber: text('account_number'), // masked number, e.g. "XXXX4567"; null for wallets without one
+    type: text('type').notNull(), // 'savings' | 'current' | 'credit_card' | 'wallet'
+    nickname: text('nickname'),
+    currency: text('currency').default('NPR').notNull(),
+    openingBalance: numeric('opening_balance', { precision: 12, scale: 2 }).default('0').notNull(),
+    reportedBalance: numeric('reported_balance', { precision: 12, scale: 2 }), // latest balance stated by the bank
+    reportedBalanceAt: timestamp('reported_balance_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('accounts_user_idx').on(table.userId)]
+);
 
-  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
-});
+export type Account = typeof accounts.$inferSelect;
+export type NewAccount = typeof accounts.$inferInsert;
+
+/**
+ * Merchants table
+ *
+ * Per-user directory of merchants. The AI returns free-text names ("DARAZ KAALIKA PVT", "Daraz",
+ * "daraz.com.np"); incoming transactions are linked to the merchant whose aliases contain their
+ * normalized merchant name (see lib/normalize.ts), creating the merchant when none does.
+ * Merging merchants moves the aliases and transactions of the others into one.
+ */
+export const merchants = pgTable(
+  'merchants',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(), // canonical name shown to the user
+    aliases: jsonb('aliases').$type<string[]>().default([]).notNull(), // normalized names matched on ingest
+    // Category for the merchant's transactions when no rule or learned memory matches (before the AI)
+    categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+    logo: text('logo'), // emoji or image URL
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('merchants_user_idx').on(table.userId),
+    index('merchants_aliases_idx').using('gin', table.aliases),
+  ]
+);
+
+export type Merchant = typeof merchants.$inferSelect;
+export type NewMerchant = typeof merchants.$inferInsert;
+
+/**
+ * Full-text search document for a transaction (merchant, remarks, bank name and raw email).
+ * Shared by the GIN index and search queries: Postgres only uses the index when the
+ * query expression is identical. The 'simple' config keeps names and reference numbers as-is.
+ */
+export function transactionSearchDocument(columns: {
+  merchant: AnyPgColumn;
+  remarks: AnyPgColumn;
+  bankName: AnyPgColumn;
+  rawEmailContent: AnyPgColumn;
+}): SQL {
+  return sql`to_tsvector('simple', coalesce(${columns.merchant}, '') || ' ' || coalesce(${columns.remarks}, '') || ' ' || coalesce(${columns.bankName}, '') || ' ' || coalesce(${columns.rawEmailContent}, ''))`;
+}
+
+/**
+ * Transactions table
+ *
+ * Stores financial transactions extracted from bank emails.
+ * Each transaction is linked to a user and optionally to a category.
+ * The emailId is unique to prevent duplicate processing from Pub/Sub.
+ * Deleting sets `deletedAt`: deleted transactions are left out of every query but keep their
+ * emailId, so the email is not ingested again, and can be restored.
+ */
+export const transactions = pgTable(
+  'transactions',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+    categoryRuleId: text('category_rule_id').references(() => categoryRules.id, {
+      onDelete: 'set null',
+    }), // rule that set the category, null if chosen by AI or user
+
+    // Core transaction data
+    amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+    type: text('type').notNull(), // 'debit' | 'credit'
+    currency: text('currency').default('NPR'), // ISO 4217 code the amount was charged in
+
+    // Extracted metadata
+    merchant: text('merchant'), // as extracted or entered
+    merchantId: text('merchant_id').references(() => merchants.id, { onDelete: 'set null' }),
+    accountNumber: text('account_number'), // last 4 digits
+    bankName: text('bank_name'),
+    accountId: text('account_id').references(() => accounts.id, { onDelete: 'set null' }),
+    transactionDate: timestamp('transaction_date', { withTimezone: true }),
+    remarks: text('remarks'),
+
+    // Source tracking - emailId is UNIQUE to prevent duplicate processing
+    emailId: text('email_id').unique(), // Gmail message ID (unique constraint)
+    mailbox: text('mailbox'), // Gmail address the email was received in
+    rawEmailContent: text('raw_email_content'), // for debugging/re-extraction
+
+    // AI metadata
+    aiConfidence: numeric('ai_confidence', { precision: 3, scale: 2 }), // 0.00-1.00
+    aiExtractedData: jsonb('ai_extracted_data'), // full AI response for debugging
+    isAiCreated: boolean('is_ai_created').default(false).notNull(), // true if created by AI from email, false if created manually by user
+    status: text('status').default('confirmed').notNull(), // 'confirmed' | 'pending_review' (left out of totals until approved)
+    // Other side of a transfer between the user's own accounts (left out of totals, budgets and insights)
+    transferPeerId: text('transfer_peer_id').references((): AnyPgColumn => transactions.id, {
+      onDelete: 'set null',
+    }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+    deletedAt: timestamp('deleted_at', { withTimezone: true }), // soft delete; null while active
+  },
+  (table) => [
+    index('transactions_search_idx').using('gin', transactionSearchDocument(table)),
+    index('transactions_transfer_peer_idx').on(table.transferPeerId),
+    index('transactions_merchant_idx').on(table.merchantId),
+    index('transactions_account_idx').on(table.accountId),
+  ]
+);
 
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
 
+/**
+ * Transaction splits table
+ *
+ * Parts of one transaction spread across categories (e.g. a supermarket bill covering groceries
+ * and household items). Split amounts add up to the transaction amount, in its currency. When a
+ * transaction has splits, category totals and budgets use them instead of its own category.
+ */
+export const transactionSplits = pgTable(
+  'transaction_splits',
+  {
+    id: text('id').primaryKey(),
+    transactionId: text('transaction_id')
+      .notNull()
+      .references(() => transactions.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+    amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+    note: text('note'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('transaction_splits_transaction_idx').on(table.transactionId),
+    index('transaction_splits_category_idx').on(table.categoryId),
+  ]
+);
+
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
+export type NewTransactionSplit = typeof transactionSplits.$inferInsert;
+
+/**
+ * Transaction revisions table
+ *
+ * Edit history of transactions. Each update that changes fields records them with their previous
+ * and new values; deleting and restoring record a revision without changes.
+ */
+export const transactionRevisions = pgTable(
+  'transaction_revisions',
+  {
+    id: text('id').primaryKey(),
+    transactionId: text('transaction_id')
+      .notNull()
+      .references(() => transactions.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    action: text('action').notNull(), // 'update' | 'delete' | 'restore'
+    changes: jsonb('changes').$type<TransactionRevisionChanges>().default({}).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('transaction_revisions_transaction_idx').on(table.transactionId, table.createdAt),
+  ]
+);
+
+/** Changed fields of a revision with their previous and new values, as stored in JSON */
+export type TransactionRevisionChanges = Record<string, { from: unknown; to: unknown }>;
+
+export type TransactionRevision = typeof transactionRevisions.$inferSelect;
+export type NewTransactionRevision = typeof transactionRevisions.$inferInsert;
+
+/**
+ * Statement imports table
+ *
+ * Statement text imports read by the AI in the background. Each row is one run of the
+ * `statement-import` Inngest function, which reads the text a batch of lines at a time and
+ * appends the rows and errors of every batch; the preview is built from them once it completes.
+ * CSV statements are parsed within the request and not stored.
+ */
+export const statementImports = pgTable(
+  'statement_imports',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    status: text('status').notNull().default('queued'), // 'queued' | 'running' | 'completed' | 'failed'
+    content: text('content').notNull(), // statement text
+    defaults: jsonb('defaults').$type<StatementImportDefaults>().default({}).notNull(),
+    batchCount: integer('batch_count').default(0).notNull(), // set when the run starts
+    processedBatches: integer('processed_batches').default(0).notNull(),
+    rows: jsonb('rows').$type<unknown[]>().default([]).notNull(), // statement rows read so far
+    errors: jsonb('errors').$type<unknown[]>().default([]).notNull(), // rows and batches not read
+    lastError: text('last_error'),
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('statement_imports_user_created_idx').on(table.userId, table.createdAt)]
+);
+
+/** Values applied to statement rows that do not state them, as stored in JSON */
+export type StatementImportDefaults = {
+  currency?: string;
+  bankName?: string;
+  accountNumber?: string;
+};
+
+export type StatementImport = typeof statementImports.$inferSelect;
+export type NewStatementImport = typeof statementImports.$inferInsert;
+
+/**
+ * Transaction re-extract jobs table
+ *
+ * Background re-extractions of a user's least confident transactions. Each row is one run of the
+ * `transaction-reextract` Inngest function; its results are the `transaction_reextractions` rows
+ * with the job's ID, and counters are updated after every batch.
+ */
+export const transactionReextractJobs = pgTable(
+  'transaction_reextract_jobs',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    status: text('status').notNull().default('queued'), // 'queued' | 'running' | 'completed' | 'failed'
+    modelId: text('model_id'), // null for the default model
+    maxConfidence: numeric('max_confidence', { precision: 4, scale: 3 }).notNull(),
+    maxTransactions: integer('max_transactions').notNull(),
+    apply: boolean('apply').default(false).notNull(), // apply every change instead of only previewing
+    transactionCount: integer('transaction_count').default(0).notNull(), // set when the run starts
+    processedCount: integer('processed_count').default(0).notNull(),
+    changedCount: integer('changed_count').default(0).notNull(), // results with changed fields
+    appliedCount: integer('applied_count').default(0).notNull(),
+    failedCount: integer('failed_count').default(0).notNull(),
+    lastError: text('last_error'),
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('transaction_reextract_jobs_user_created_idx').on(table.userId, table.createdAt),
+  ]
+);
+
+export type TransactionReextractJob = typeof transactionReextractJobs.$inferSelect;
+export type NewTransactionReextractJob = typeof transactionReextractJobs.$inferInsert;
+
+/**
+ * Transaction re-extractions table
+ *
+ * Previews of running the extractor again on a transaction's stored email, with the field-level
+ * differences from the saved row. Applying a preview writes the values stored here instead of
+ * extracting again, so the transaction gets exactly what the preview showed. Each preview can be
+ * applied once.
+ */
+export const transactionReextractions = pgTable(
+  'transaction_reextractions',
+  {
+    id: text('id').primaryKey(),
+    transactionId: text('transaction_id')
+      .notNull()
+      .references(() => transactions.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    jobId: text('job_id').references(() => transactionReextractJobs.id, {
+      onDelete: 'cascade',
+    }), // background job that made it; null when requested for the transaction
+    modelId: text('model_id'), // null for the default model
+    isTransaction: boolean('is_transaction').notNull(), // false when the email no longer reads as one
+    confidence: numeric('confidence', { precision: 4, scale: 3 }),
+    changes: jsonb('changes').$type<ReextractionChange[]>().default([]).notNull(),
+    categoryRuleId: text('category_rule_id').references(() => categoryRules.id, {
+      onDelete: 'set null',
+    }), // rule behind a proposed category
+    extraction: jsonb('extraction'), // extractor result, saved as the transaction's aiExtractedData
+    appliedAt: timestamp('applied_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index('transaction_reextractions_transaction_idx').on(table.transactionId, table.createdAt),
+    index('transaction_reextractions_job_idx').on(table.jobId),
+  ]
+);
+
+/** A changed field of a re-extraction with the saved and re-extracted values, as stored in JSON */
+export type ReextractionChange = { field: string; current: string | null; proposed: string | null };
+
+export type TransactionReextraction = typeof transactionReextractions.$inferSelect;
+export type NewTransactionReextraction = typeof transactionReextractions.$inferInsert;
+
+/**
+ * Recurring series table
+ *
+ * Repeating charges and credits (subscriptions, rent, EMIs, salary) found by the recurring
+ * detector: transactions with the same normalized merchant (or remarks), similar amounts and a
+ * regular weekly/monthly/yearly cadence. Dates are calendar dates in the user's timezone.
+ */
+export const recurringSeries = pgTable(
+  'recurring_series',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    matchField: text('match_field').notNull(), // 'merchant' | 'remarks'
+    matchKey: text('match_key').notNull(), // normalized merchant or remarks
+    merchant: text('merchant'), // display name from the latest transaction
+    type: text('type').notNull(), // 'debit' | 'credit'
+    currency: text('currency').notNull(),
+    cadence: text('cadence').notNull(), // 'weekly' | 'monthly' | 'yearly'
+    averageAmount: numeric('average_amount', { precision: 12, scale: 2 }).notNull(), // of the latest 3
+    lastAmount: numeric('last_amount', { precision: 12, scale: 2 }).notNull(),
+    occurrenceCount: integer('occurrence_count').notNull(),
+    firstDate: date('first_date', { mode: 'string' }).notNull(),
+    lastDate: date('last_date', { mode: 'string' }).notNull(),
+    nextExpectedDate: date('next_expected_date', { mode: 'string' }).notNull(),
+    lastTransactionId: text('last_transaction_id').references(() => transactions.id, {
+      onDelete: 'set null',
+    }),
+    status: text('status').default('active').notNull(), // 'active' | 'missed' | 'ended'
+    missedAlertedFor: date('missed_alerted_for', { mode: 'string' }), // expected date a missed alert was sent for
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index('recurring_series_user_idx').on(table.userId)]
+);
+
+export type RecurringSeries = typeof recurringSeries.$inferSelect;
+export type NewRecurringSeries = typeof recurringSeries.$inferInsert;
+
+/**
+ * Budgets table
+ *
+ * Spending limit per category and period, in the user's base currency.
+ * Periods follow the user's timezone (weeks start on Monday). With rollover, what was left of the
+ * previous period's limit (negative when overspent) is added to the current one.
+ */
+export const budgets = pgTable(
+  'budgets',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    categoryId: text('category_id')
+      .notNull()
+      .references(() => categories.id, { onDelete: 'cascade' }),
+    period: text('period').default('monthly').notNull(), // 'weekly' | 'monthly' | 'yearly'
+    amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+    rollover: boolean('rollover').default(false).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('budgets_user_category_period_idx').on(
+      table.userId,
+      table.categoryId,
+      table.period
+    ),
+  ]
+);
+
+export type Budget = typeof budgets.$inferSelect;
+export type NewBudget = typeof budgets.$inferInsert;
+
 /**
  * Financial insights table
  *
@@ -151,12 +753,44 @@ export const financialInsights = pgTable('financial_insights', {
 export type FinancialInsight = typeof financialInsights.$inferSelect;
 export type NewFinancialInsight = typeof financialInsights.$inferInsert;
 
+/**
+ * Exchange rates table
+ *
+ * Stores currency conversion rates used to convert transaction amounts into a user's base currency.
+ * A row means: 1 unit of fromCurrency = rate units of toCurrency, effective from effectiveDate.
+ * Shared rates (seeded from a local file) have userId = null.
+ * Rates entered by hand have userId set and win over shared rates for that user.
+ */
+export const exchangeRates = pgTable('exchange_rates', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // null for shared rates
+  fromCurrency: text('from_currency').notNull(), // ISO 4217 code
+  toCurrency: text('to_currency').notNull(), // ISO 4217 code
+  rate: numeric('rate', { precision: 18, scale: 8 }).notNull(),
+  effectiveDate: timestamp('effective_date', { withTimezone: true }).notNull(),
+  source: text('source').notNull().default('manual'), // 'manual' | 'file'
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   gmailTokens: many(gmailOAuthTokens),
+  gmailBackfills: many(gmailBackfills),
+  transactionReextractJobs: many(transactionReextractJobs),
+  statementImports: many(statementImports),
+  recurringSeries: many(recurringSeries),
+  budgets: many(budgets),
   categories: many(categories),
   transactions: many(transactions),
   financialInsights: many(financialInsights),
+  exchangeRates: many(exchangeRates),
+  categoryRules: many(categoryRules),
+  categoryMemories: many(categoryMemories),
+  merchants: many(merchants),
+  accounts: many(accounts),
 }));
 
 export const financialInsightsRelations = relations(financialInsights, ({ one }) => ({
@@ -166,11 +800,23 @@ export const financialInsightsRelations = relations(financialInsights, ({ one })
   }),
 }));
 
-export const gmailOAuthTokensRelations = relations(gmailOAuthTokens, ({ one }) => ({
+export const gmailOAuthTokensRelations = relations(gmailOAuthTokens, ({ one, many }) => ({
   user: one(users, {
     fields: [gmailOAuthTokens.userId],
     references: [users.id],
   }),
+  backfills: many(gmailBackfills),
+}));
+
+export const gmailBackfillsRelations = relations(gmailBackfills, ({ one }) => ({
+  user: one(users, {
+    fields: [gmailBackfills.userId],
+    references: [users.id],
+  }),
+  account: one(gmailOAuthTokens, {
+    fields: [gmailBackfills.accountId],
+    references: [gmailOAuthTokens.id],
+  }),
 }));
 
 export const categoriesRelations = relations(categories, ({ one, many }) => ({
@@ -179,9 +825,57 @@ export const categoriesRelations = relations(categories, ({ one, many }) => ({
     references: [users.id],
   }),
   transactions: many(transactions),
+  rules: many(categoryRules),
+  memories: many(categoryMemories),
+  budgets: many(budgets),
+  transactionSplits: many(transactionSplits),
+  merchants: many(merchants),
+}));
+
+export const categoryRulesRelations = relations(categoryRules, ({ one, many }) => ({
+  user: one(users, {
+    fields: [categoryRules.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [categoryRules.categoryId],
+    references: [categories.id],
+  }),
+  transactions: many(transactions),
+}));
+
+export const categoryMemoriesRelations = relations(categoryMemories, ({ one }) => ({
+  user: one(users, {
+    fields: [categoryMemories.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [categoryMemories.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const accountsRelations = relations(accounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [accounts.userId],
+    references: [users.id],
+  }),
+  transactions: many(transactions),
+}));
+
+export const merchantsRelations = relations(merchants, ({ one, many }) => ({
+  user: one(users, {
+    fields: [merchants.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [merchants.categoryId],
+    references: [categories.id],
+  }),
+  transactions: many(transactions),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, {
     fields: [transactions.userId],
     references: [users.id],
@@ -190,4 +884,103 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
     fields: [transactions.categoryId],
     references: [categories.id],
   }),
+  categoryRule: one(categoryRules, {
+    fields: [transactions.categoryRuleId],
+    references: [categoryRules.id],
+  }),
+  merchantRecord: one(merchants, {
+    fields: [transactions.merchantId],
+    references: [merchants.id],
+  }),
+  account: one(accounts, {
+    fields: [transactions.accountId],
+    references: [accounts.id],
+  }),
+  splits: many(transactionSplits),
+  revisions: many(transactionRevisions),
+  reextractions: many(transactionReextractions),
+}));
+
+export const transactionRevisionsRelations = relations(transactionRevisions, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionRevisions.transactionId],
+    references: [transactions.id],
+  }),
+  user: one(users, {
+    fields: [transactionRevisions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const statementImportsRelations = relations(statementImports, ({ one }) => ({
+  user: one(users, {
+    fields: [statementImports.userId],
+    references: [users.id],
+  }),
+}));
+
+export const transactionReextractJobsRelations = relations(
+  transactionReextractJobs,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [transactionReextractJobs.userId],
+      references: [users.id],
+    }),
+    reextractions: many(transactionReextractions),
+  })
+);
+
+export const transactionReextractionsRelations = relations(transactionReextractions, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionReextractions.transactionId],
+    references: [transactions.id],
+  }),
+  user: one(users, {
+    fields: [transactionReextractions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const transactionSplitsRelations = relations(transactionSplits, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionSplits.transactionId],
+    references: [transactions.id],
+  }),
+  user: one(users, {
+    fields: [transactionSplits.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [transactionSplits.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const recurringSeriesRelations = relations(recurringSeries, ({ one }) => ({
+  user: one(users, {
+    fields: [recurringSeries.userId],
+    references: [users.id],
+  }),
+  lastTransaction: one(transactions, {
+    fields: [recurringSeries.lastTransactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const budgetsRelations = relations(budgets, ({ one }) => ({
+  user: one(users, {
+    fields: [budgets.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [budgets.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const exchangeRatesRelations = relations(exchangeRates, ({ one }) => ({
+  user: one(users, {
+    fields: [exchangeRates.userId],
+    references: [users.id],
+  }),
 }));
@@ -0,0 +1,157 @@
+import { NonRetriableError } from 'inngest';
+import { db } from '@/db/connection';
+import { inngest } from '@/inngest/client';
+import { createContainer } from '@/lib/container';
+import type { GmailBackfillProgress } from '@/repositories/gmail-backfill.repository';
+import type { GmailAccount } from '@/services/gmail.service';
+
+type GmailBackfillRequestedEvent = {
+  name: 'gmail/backfill.requested';
+  data: {
+    userId: string;
+    accountId: string;
+    backfillId: string;
+  };
+};
+
+/** Messages listed and processed per step */
+const BACKFILL_PAGE_SIZE = 25;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Imports bank alerts that arrived before the Gmail watch was set up.
+ *
+ * Pages through the messages matching the account's sender filter (or monitor label) in the
+ * backfill's date range and runs each one through the same extract-and-save pipeline as
+ * push notifications. Messages already saved are skipped before calling the AI, and AI
+ * calls are spaced out (GMAIL_BACKFILL_AI_INTERVAL_MS, default 2s) to stay under rate limits.
+ * Progress is written to the `gmail_backfills` row after every page.
+ *
+ * Triggered by: `gmail/backfill.requested`
+ */
+export const gmailBackfill = inngest.createFunction(
+  {
+    id: 'gmail-backfill',
+    concurrency: {
+      limit: 1,
+      key: 'event.data.accountId',
+    },
+    onFailure: async ({ event, error }) => {
+      const { backfillId } = (event.data.event as GmailBackfillRequestedEvent).data;
+      const container = createContainer(db);
+      await container.gmailBackfillRepo.update(backfillId, {
+        status: 'failed',
+        lastError: error.message,
+        completedAt: new Date(),
+      });
+    },
+  },
+  { event: 'gmail/backfill.requested' },
+  async ({ event, step }) => {
+    const { userId, backfillId } = (event as GmailBackfillRequestedEvent).data;
+    const aiInterval = Number(process.env.GMAIL_BACKFILL_AI_INTERVAL_MS || 2000);
+
+    // Create container on-demand inside the function runtime.
+    const container = createContainer(db);
+
+    const { account, query } = await step.run('start-backfill', async () => {
+      const backfill = await container.gmailBackfillRepo.findById(backfillId);
+      if (!backfill) {
+        throw new NonRetriableError(`Gmail backfill ${backfillId} not found`);
+      }
+      const token = await container.gmailOAuthRepo.findById(backfill.accountId, userId);
+      if (!token) {
+        throw new NonRetriableError(`Gmail account ${backfill.accountId} not found`);
+      }
+      const query = await container.gmailService.getBackfillQuery(
+        token.id,
+        backfill.startDate,
+        backfill.endDate
+      );
+      await container.gmailBackfillRepo.update(backfillId, {
+        status: 'running',
+        query,
+        startedAt: new Date(),
+      });
+      const account: GmailAccount = {
+        id: token.id,
+        userId: token.userId,
+        emailAddress: token.emailAddress,
+      };
+      return { account, query };
+    });
+
+    let pageToken: string | null = null;
+    do {
+      const currentPageToken: string | null = pageToken;
+      pageToken = await step.run('process-page', async () => {
+        const page = await container.gmailService.listMessages(
+          account.id,
+          query,
+          BACKFILL_PAGE_SIZE,
+          currentPageToken ?? undefined
+        );
+        const messages = page.messages ?? [];
+        const context = await container.gmailService.getExtractionContext(userId);
+
+        const progress: GmailBackfillProgress = {
+          messagesFound: messages.length,
+          savedCount: 0,
+          skippedCount: 0,
+          failedCount: 0,
+        };
+        let lastAiCallAt = 0;
+
+        for (const { id: messageId } of messages) {
+          // Skip saved messages without waiting for the AI rate limit
+          if (await container.transactionRepo.findByEmailId(messageId)) {
+            progress.skippedCount++;
+            continue;
+          }
+
+          const wait = lastAiCallAt + aiInterval - Date.now();
+          if (wait > 0) await sleep(wait);
+          lastAiCallAt = Date.now();
+
+          try {
+            const outcome = await container.gmailService.processMessage(
+              account,
+              messageId,
+              context,
+              { markAsRead: false, trigger: 'backfill' } // old mail keeps its read state
+            );
+            if (outcome === 'saved') progress.savedCount++;
+            else progress.skippedCount++;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            // Token expired or revoked: fail the step so it is retried
+            if (errorMessage.includes('401') || errorMessage.includes('invalid_grant')) {
+              throw error;
+            }
+            // Deleted since it was listed
+            if (errorMessage.includes('404') || errorMessage.includes('notFound')) {
+              progress.skippedCount++;
+              continue;
+            }
+
+            console.error(`Backfill failed to process message ${messageId}:`, error);
+            progress.failedCount++;
+            progress.lastError = `${messageId}: ${errorMessage}`;
+          }
+        }
+
+        await container.gmailBackfillRepo.addProgress(backfillId, progress);
+        return page.nextPageToken ?? null;
+      });
+    } while (pageToken);
+
+    await step.run('complete-backfill', async () => {
+      await container.gmailBackfillRepo.update(backfillId, {
+        status: 'completed',
+        completedAt: new Date(),
+      });
+    });
+  }
+);
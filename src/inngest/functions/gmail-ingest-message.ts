@@ -0,0 +1,96 @@
+import { NonRetriableError } from 'inngest';
+import { db } from '@/db/connection';
+import { inngest } from '@/inngest/client';
+import { createContainer } from '@/lib/container';
+import type { EmailIngestionTrigger } from '@/services/gmail.service';
+
+export type GmailMessageReceivedEvent = {
+  name: 'gmail/message.received';
+  data: {
+    userId: string;
+    accountId: string;
+    messageId: string;
+    trigger?: EmailIngestionTrigger; // defaults to 'notification'
+    replayOf?: string; // failed ingestion being replayed
+  };
+};
+
+/** Retries after the first attempt; Inngest spaces them with exponential backoff */
+const INGEST_RETRIES = 5;
+
+/**
+ * Ingests one Gmail message found by a Pub/Sub notification: fetch, AI extraction, save,
+ * mark as read.
+ *
+ * Errors (Gmail or AI outages, rate limits, expired tokens) fail the run and are retried with
+ * backoff. Once retries run out, the message and its last error are kept in
+ * `failed_ingestions` so it can be replayed from the admin routes. A successful run marks an
+ * earlier failure of the same message as resolved.
+ *
+ * Triggered by: `gmail/message.received`
+ */
+export const gmailIngestMessage = inngest.createFunction(
+  {
+    id: 'gmail-ingest-message',
+    retries: INGEST_RETRIES,
+    concurrency: {
+      limit: 1,
+      key: 'event.data.userId',
+    },
+    onFailure: async ({ event, error }) => {
+      const { userId, accountId, messageId } = (event.data.event as GmailMessageReceivedEvent).data;
+      const container = createContainer(db);
+      // The account may have been disconnected in the meantime
+      const account = await container.gmailOAuthRepo.findById(accountId);
+      await container.failedIngestionRepo.recordFailure({
+        userId,
+        accountId: account ? accountId : null,
+        source: 'gmail',
+        messageId,
+        error: error.message,
+        attempts: INGEST_RETRIES + 1,
+      });
+    },
+  },
+  { event: 'gmail/message.received' },
+  async ({ event, step }) => {
+    const {
+      userId,
+      accountId,
+      messageId,
+      trigger = 'notification',
+    } = (event as GmailMessageReceivedEvent).data;
+
+    // Create container on-demand inside the function runtime.
+    const container = createContainer(db);
+
+    const outcome = await step.run('ingest-message', async () => {
+      const account = await container.gmailOAuthRepo.findById(accountId, userId);
+      if (!account) {
+        throw new NonRetriableError(`Gmail account ${accountId} not found`);
+      }
+
+      const context = await container.gmailService.getExtractionContext(userId);
+      try {
+        return await container.gmailService.processMessage(account, messageId, context, {
+          markAsRead: true,
+          trigger,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        // Deleted before we could fetch it
+        if (errorMessage.includes('404') || errorMessage.includes('notFound')) {
+          console.warn(`Message ${messageId} not found (may have been deleted)`);
+          return 'deleted' as const;
+        }
+        throw error;
+      }
+    });
+
+    await step.run('resolve-failure', async () => {
+      await container.failedIngestionRepo.markResolved(userId, 'gmail', messageId);
+    });
+
+    return { messageId, outcome };
+  }
+);
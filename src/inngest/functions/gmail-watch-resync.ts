@@ -6,6 +6,7 @@ type GmailWatchStartedEvent = {
   name: 'gmail/watch.started';
   data: {
     userId: string;
+    accountId?: string; // missing on events sent before multiple accounts were supported
     topicName: string;
     labelIds?: string[];
   };
@@ -16,30 +17,35 @@ type GmailWatchStartedEvent = {
  *
  * Triggered by: `gmail/watch.started`
  * Cancelled by:
- * - `gmail/watch.stopped` (same userId)
- * - a newer `gmail/watch.started` (same userId), to avoid duplicate loops per user
+ * - `gmail/watch.stopped` (same accountId)
+ * - a newer `gmail/watch.started` (same accountId), to avoid duplicate loops per account
  */
 export const gmailWatchResync = inngest.createFunction(
   {
     id: 'gmail-watch-resync',
     concurrency: {
       limit: 1,
-      key: 'event.data.userId',
+      key: 'event.data.accountId',
     },
     cancelOn: [
       {
         event: 'gmail/watch.stopped',
-        if: 'async.data.userId == event.data.userId',
+        if: 'async.data.accountId == event.data.accountId',
       },
       {
         event: 'gmail/watch.started',
-        if: 'async.data.userId == event.data.userId',
+        if: 'async.data.accountId == event.data.accountId',
       },
     ],
   },
   { event: 'gmail/watch.started' },
   async ({ event, step }) => {
-    const { userId, topicName, labelIds: eventLabelIds } = (event as GmailWatchStartedEvent).data;
+    const {
+      userId,
+      accountId,
+      topicName,
+      labelIds: eventLabelIds,
+    } = (event as GmailWatchStartedEvent).data;
 
     // Default to 12h; can be overridden with env var compatible with `ms` (e.g. "6h", "1d")
     const interval = process.env.GMAIL_WATCH_RESYNC_INTERVAL || '1d';
@@ -52,11 +58,12 @@ export const gmailWatchResync = inngest.createFunction(
     // eslint-disable-next-line no-constant-condition
     while (true) {
       await step.run('renew-watch', async () => {
+        const account = await container.gmailService.resolveAccount(userId, accountId);
         const labelIds = eventLabelIds?.length
           ? eventLabelIds
-          : await container.gmailService.getWatchLabelIds(userId);
-        const response = await container.gmailService.watch(userId, topicName, labelIds);
-        await container.gmailOAuthRepo.updateHistoryId(userId, response.historyId);
+          : await container.gmailService.getWatchLabelIds(account.id);
+        const response = await container.gmailService.watch(account.id, topicName, labelIds);
+        await container.gmailOAuthRepo.updateHistoryId(account.id, response.historyId);
         return { historyId: response.historyId, expiration: response.expiration };
       });
 
@@ -0,0 +1,38 @@
+import { db } from '@/db/connection';
+import { inngest } from '@/inngest/client';
+import { createContainer } from '@/lib/container';
+
+/**
+ * Re-detects every user's recurring series once a day, which also marks charges that did not
+ * arrive on time as missed and sends the Discord alerts. Each user runs in its own step so a
+ * failure for one user is retried without repeating the others.
+ *
+ * Triggered by: daily cron (RECURRING_DETECTION_CRON, default 06:00 Asia/Kathmandu)
+ */
+export const recurringDetection = inngest.createFunction(
+  { id: 'recurring-detection' },
+  { cron: process.env.RECURRING_DETECTION_CRON || 'TZ=Asia/Kathmandu 0 6 * * *' },
+  async ({ step }) => {
+    // Create container on-demand inside the function runtime.
+    const container = createContainer(db);
+
+    const userIds = await step.run('list-users', async () => {
+      const users = await container.userRepo.findAll();
+      return users.map((user) => user.id);
+    });
+
+    for (const userId of userIds) {
+      await step.run('detect-recurring', async () => {
+        const result = await container.recurringService.detectForUser(userId);
+        return {
+          userId,
+          seriesCount: result.series.length,
+          missedAlerts: result.missedAlerts,
+          amountChangeAlerts: result.amountChangeAlerts,
+        };
+      });
+    }
+
+    return { users: userIds.length };
+  }
+);
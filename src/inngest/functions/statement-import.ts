@@ -0,0 +1,86 @@
+import { NonRetriableError } from 'inngest';
+import { db } from '@/db/connection';
+import { inngest } from '@/inngest/client';
+import { createContainer } from '@/lib/container';
+import { batchStatementText } from '@/services/transaction-import.service';
+
+export type StatementImportRequestedEvent = {
+  name: 'transactions/import.requested';
+  data: {
+    userId: string;
+    importId: string;
+  };
+};
+
+/**
+ * Reads a statement text import with the AI.
+ *
+ * Splits the statement into batches of lines that start at a row, then reads one batch per step,
+ * spacing the AI calls out (STATEMENT_IMPORT_AI_INTERVAL_MS, default 2s) to stay under rate limits.
+ * The rows and errors of every batch are appended to the `statement_imports` row, which
+ * GET /transactions/import/{importId} turns into a preview once the import completes.
+ *
+ * Triggered by: `transactions/import.requested`
+ */
+export const statementImport = inngest.createFunction(
+  {
+    id: 'statement-import',
+    concurrency: {
+      limit: 1,
+      key: 'event.data.userId',
+    },
+    onFailure: async ({ event, error }) => {
+      const { importId } = (event.data.event as StatementImportRequestedEvent).data;
+      const container = createContainer(db);
+      await container.statementImportRepo.update(importId, {
+        status: 'failed',
+        lastError: error.message,
+        completedAt: new Date(),
+      });
+    },
+  },
+  { event: 'transactions/import.requested' },
+  async ({ event, step }) => {
+    const { userId, importId } = (event as StatementImportRequestedEvent).data;
+    const aiInterval = Number(process.env.STATEMENT_IMPORT_AI_INTERVAL_MS || 2000);
+
+    // Create container on-demand inside the function runtime.
+    const container = createContainer(db);
+
+    const batchCount = await step.run('start-import', async () => {
+      const statementImport = await container.statementImportRepo.findById(importId, userId);
+      if (!statementImport) {
+        throw new NonRetriableError(`Statement import ${importId} not found`);
+      }
+      const batchCount = batchStatementText(statementImport.content).length;
+      await container.statementImportRepo.update(importId, {
+        status: 'running',
+        batchCount,
+        startedAt: new Date(),
+      });
+      return batchCount;
+    });
+
+    for (let i = 0; i < batchCount; i++) {
+      if (i > 0) {
+        await step.sleep('wait-for-rate-limit', aiInterval);
+      }
+
+      await step.run('read-batch', async () => {
+        const statementImport = await container.statementImportRepo.findById(importId, userId);
+        if (!statementImport) {
+          throw new NonRetriableError(`Statement import ${importId} not found`);
+        }
+        const batch = await container.transactionImportService.readTextBatch(statementImport, i);
+        await container.statementImportRepo.addBatch(importId, batch);
+      });
+    }
+
+    await step.run('complete-import', async () => {
+      await container.statementImportRepo.update(importId, {
+        status: 'completed',
+        completedAt: new Date(),
+      });
+    });
+  }
+);
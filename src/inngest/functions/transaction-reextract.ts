@@ -0,0 +1,122 @@
+import { NonRetriableError } from 'inngest';
+import { db } from '@/db/connection';
+import { inngest } from '@/inngest/client';
+import { createContainer } from '@/lib/container';
+import type { TransactionReextractJobProgress } from '@/repositories/transaction-reextract-job.repository';
+
+export type TransactionReextractRequestedEvent = {
+  name: 'transactions/reextract.requested';
+  data: {
+    userId: string;
+    jobId: string;
+  };
+};
+
+/** Transactions re-extracted per step */
+const REEXTRACT_BATCH_SIZE = 10;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Re-extracts a user's least confident transactions from their stored emails.
+ *
+ * Lists the transactions below the job's confidence threshold when it starts, then runs them
+ * through the re-extract service in batches, one AI call at a time spaced out
+ * (REEXTRACT_AI_INTERVAL_MS, default 2s) to stay under rate limits. Every result is stored under
+ * the job, and applied right away when the job applies changes. Progress is written to the
+ * `transaction_reextract_jobs` row after every batch.
+ *
+ * Triggered by: `transactions/reextract.requested`
+ */
+export const transactionReextract = inngest.createFunction(
+  {
+    id: 'transaction-reextract',
+    concurrency: {
+      limit: 1,
+      key: 'event.data.userId',
+    },
+    onFailure: async ({ event, error }) => {
+      const { jobId } = (event.data.event as TransactionReextractRequestedEvent).data;
+      const container = createContainer(db);
+      await container.transactionReextractJobRepo.update(jobId, {
+        status: 'failed',
+        lastError: error.message,
+        completedAt: new Date(),
+      });
+    },
+  },
+  { event: 'transactions/reextract.requested' },
+  async ({ event, step }) => {
+    const { userId, jobId } = (event as TransactionReextractRequestedEvent).data;
+    const aiInterval = Number(process.env.REEXTRACT_AI_INTERVAL_MS || 2000);
+
+    // Create container on-demand inside the function runtime.
+    const container = createContainer(db);
+
+    const transactionIds = await step.run('start-job', async () => {
+      const job = await container.transactionReextractJobRepo.findById(jobId, userId);
+      if (!job) {
+        throw new NonRetriableError(`Re-extract job ${jobId} not found`);
+      }
+      const transactions = await container.transactionRepo.findLowConfidenceForUser(
+        userId,
+        Number(job.maxConfidence),
+        job.maxTransactions
+      );
+      await container.transactionReextractJobRepo.update(jobId, {
+        status: 'running',
+        transactionCount: transactions.length,
+        startedAt: new Date(),
+      });
+      return transactions.map((transaction) => transaction.id);
+    });
+
+    for (let i = 0; i < transactionIds.length; i += REEXTRACT_BATCH_SIZE) {
+      const batch = transactionIds.slice(i, i + REEXTRACT_BATCH_SIZE);
+      await step.run('reextract-batch', async () => {
+        const job = await container.transactionReextractJobRepo.findById(jobId, userId);
+        if (!job) {
+          throw new NonRetriableError(`Re-extract job ${jobId} not found`);
+        }
+
+        const progress: TransactionReextractJobProgress = {
+          processedCount: 0,
+          changedCount: 0,
+          appliedCount: 0,
+          failedCount: 0,
+        };
+        let lastAiCallAt = 0;
+
+        for (const transactionId of batch) {
+          const wait = lastAiCallAt + aiInterval - Date.now();
+          if (wait > 0) await sleep(wait);
+          lastAiCallAt = Date.now();
+
+          try {
+            const result = await container.transactionReextractService.reextractForJob(
+              job,
+              transactionId
+            );
+            progress.processedCount++;
+            if (result.changes.length > 0) progress.changedCount++;
+            if (result.applied) progress.appliedCount++;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`Re-extract job failed on transaction ${transactionId}:`, error);
+            progress.failedCount++;
+            progress.lastError = `${transactionId}: ${errorMessage}`;
+          }
+        }
+
+        await container.transactionReextractJobRepo.addProgress(jobId, progress);
+      });
+    }
+
+    await step.run('complete-job', async () => {
+      await container.transactionReextractJobRepo.update(jobId, {
+        status: 'completed',
+        completedAt: new Date(),
+      });
+    });
+  }
+);
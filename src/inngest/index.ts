@@ -1,5 +1,17 @@
+import { gmailBackfill } from '@/inngest/functions/gmail-backfill';
+import { gmailIngestMessage } from '@/inngest/functions/gmail-ingest-message';
 import { gmailWatchResync } from '@/inngest/functions/gmail-watch-resync';
+import { recurringDetection } from '@/inngest/functions/recurring-detection';
+import { statementImport } from '@/inngest/functions/statement-import';
+import { transactionReextract } from '@/inngest/functions/transaction-reextract';
 
 export { inngest } from '@/inngest/client';
 
-export const functions = [gmailWatchResync];
+export const functions = [
+  gmailWatchResync,
+  gmailBackfill,
+  gmailIngestMessage,
+  recurringDetection,
+  transactionReextract,
+  statementImport,
+];
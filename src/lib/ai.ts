@@ -45,13 +45,32 @@ export function getDefaultModelId(): string {
 }
 
 /**
- * Get the AI model instance ready for use with generateObject/generateText
+ * Get the AI model instance ready for use with generateObject/generateText.
+ * Pass a model ID of the configured provider to use it instead of the default one.
  */
-export function getAIModel() {
+export function getAIModel(modelId?: string) {
   const provider = getAIProvider();
-  const modelId = getDefaultModelId();
 
-  return provider(modelId);
+  return provider(modelId ?? getDefaultModelId());
+}
+
+/**
+ * Model IDs a request may choose instead of the default one: the default model plus those listed
+ * in the comma-separated AI_ALLOWED_MODELS environment variable
+ */
+export function getAllowedModelIds(): string[] {
+  const configured = (process.env.AI_ALLOWED_MODELS ?? '')
+    .split(',')
+    .map((modelId) => modelId.trim())
+    .filter(Boolean);
+  return [getDefaultModelId(), ...configured];
+}
+
+/**
+ * Check whether a model ID requested by a user is allowed (see getAllowedModelIds)
+ */
+export function isAllowedModelId(modelId: string): boolean {
+  return getAllowedModelIds().includes(modelId);
 }
 
 /** Model ID for Gemini 2.5 Flash (full model, not lite) - used for insights generation */
@@ -0,0 +1,40 @@
+/**
+ * Tests for the deterministic bank alert parsers, run against the sample emails in ./fixtures.
+ * Run with: bun test src/lib/bank-parsers
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { BANK_EMAIL_FIXTURES } from './fixtures';
+import { BANK_PARSERS, findBankParsers, parseBankEmail, toPlainText } from './index';
+
+describe('parseBankEmail', () => {
+  for (const [bank, fixtures] of Object.entries(BANK_EMAIL_FIXTURES)) {
+    describe(bank, () => {
+      test.each(
+        fixtures.map((fixture) => [fixture.name, fixture] as const)
+      )('%s', (_name, fixture) => {
+        expect(parseBankEmail(fixture.email)).toEqual(fixture.expected);
+      });
+    });
+  }
+
+  test('every registered parser has fixtures', () => {
+    for (const parser of BANK_PARSERS) {
+      expect(BANK_EMAIL_FIXTURES[parser.id]?.length ?? 0).toBeGreaterThan(0);
+    }
+  });
+
+  test('leaves emails from unknown senders to the AI', () => {
+    const email = BANK_EMAIL_FIXTURES.nic_asia[0].email;
+    expect(parseBankEmail({ ...email, from: 'alerts@example.com' })).toBeNull();
+    expect(findBankParsers({ from: undefined, subject: undefined })).toEqual([]);
+  });
+});
+
+describe('toPlainText', () => {
+  test('strips tags and entities and collapses whitespace', () => {
+    expect(toPlainText('<style>p{}</style><p>NPR&nbsp;10</p>\n\n<b>A &amp; B</b>')).toBe(
+      'NPR 10 A & B'
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import type { BankEmailFixture } from './index';
+
+const from = 'Global IME Bank <noreply@gibl.com.np>';
+
+export const globalImeFixtures: BankEmailFixture[] = [
+  {
+    name: 'QR payment debit',
+    email: {
+      from,
+      subject: 'Account Debited',
+      body: 'Dear Valued Customer, NPR 2,000.00 has been withdrawn from your account ##1234 on 2026-01-05 14:20:11. Remarks: FONEPAY QR PAYMENT TO HIMALAYAN JAVA. For queries call 01-5970123.',
+    },
+    expected: {
+      parser: 'global_ime',
+      transaction: {
+        amount: 2000,
+        currency: 'NPR',
+        type: 'debit',
+        merchant: 'HIMALAYAN JAVA',
+        accountLastFour: '1234',
+        bankName: 'Global IME Bank',
+        date: '2026-01-05',
+        time: '14:20:11',
+        remarks: 'FONEPAY QR PAYMENT TO HIMALAYAN JAVA',
+        availableBalance: null,
+        confidence: 1,
+      },
+    },
+  },
+  {
+    name: 'deposit in rupees',
+    email: {
+      from,
+      subject: 'Account Credited',
+      body: 'Dear Valued Customer,\nRs. 12,345.50 has been deposited to your account ##1234 on 2026-02-01 09:05.\nRemarks: CONNECTIPS TRANSFER FROM RAM SHARMA\nThank you.',
+    },
+    expected: {
+      parser: 'global_ime',
+      transaction: {
+        amount: 12345.5,
+        currency: 'NPR',
+        type: 'credit',
+        merchant: 'RAM SHARMA',
+        accountLastFour: '1234',
+        bankName: 'Global IME Bank',
+        date: '2026-02-01',
+        time: '09:05:00',
+        remarks: 'CONNECTIPS TRANSFER FROM RAM SHARMA',
+        availableBalance: null,
+        confidence: 1,
+      },
+    },
+  },
+  {
+    name: 'monthly statement notice',
+    email: {
+      from,
+      subject: 'Your e-Statement for January 2026',
+      body: 'Dear Valued Customer, please find attached your account statement for January 2026.',
+    },
+    expected: null,
+  },
+];
@@ -0,0 +1,21 @@
+import type { EmailInput } from '@/services/transaction-extractor.service';
+import type { BankParseResult } from '../index';
+import { globalImeFixtures } from './global-ime';
+import { nabilFixtures } from './nabil';
+import { nicAsiaFixtures } from './nic-asia';
+
+/**
+ * A sample email and what the parsers should read from it (null: left to the AI)
+ */
+export interface BankEmailFixture {
+  name: string;
+  email: EmailInput;
+  expected: BankParseResult | null;
+}
+
+/** Sample alert emails per bank, used by the parser tests */
+export const BANK_EMAIL_FIXTURES: Record<string, BankEmailFixture[]> = {
+  nic_asia: nicAsiaFixtures,
+  global_ime: globalImeFixtures,
+  nabil: nabilFixtures,
+};
@@ -0,0 +1,63 @@
+import type { BankEmailFixture } from './index';
+
+const from = 'Nabil Bank <ebanking@nabilbank.com>';
+
+export const nabilFixtures: BankEmailFixture[] = [
+  {
+    name: 'wallet load debit',
+    email: {
+      from,
+      subject: 'Nabil Bank Transaction Alert',
+      body: 'Dear Customer, Your account 01XXXXXX5678 has been Debited with NPR 450.00 on 05-JAN-2026. Narration: ESEWA LOAD 9841XXXXXX. Balance: NPR 10,230.50. -Nabil Bank',
+    },
+    expected: {
+      parser: 'nabil',
+      transaction: {
+        amount: 450,
+        currency: 'NPR',
+        type: 'debit',
+        merchant: 'ESEWA',
+        accountLastFour: '5678',
+        bankName: 'Nabil Bank',
+        date: '2026-01-05',
+        time: null,
+        remarks: 'ESEWA LOAD 9841XXXXXX',
+        availableBalance: 10230.5,
+        confidence: 1,
+      },
+    },
+  },
+  {
+    name: 'foreign currency credit',
+    email: {
+      from,
+      subject: 'Nabil Bank Transaction Alert',
+      body: 'Dear Customer, Your account 01XXXXXX5678 has been Credited with USD 120.00 on 12-Feb-2026 16:45. Narration: UPWORK PAYOUT REF 88213. Balance: USD 540.00. -Nabil Bank',
+    },
+    expected: {
+      parser: 'nabil',
+      transaction: {
+        amount: 120,
+        currency: 'USD',
+        type: 'credit',
+        merchant: 'UPWORK',
+        accountLastFour: '5678',
+        bankName: 'Nabil Bank',
+        date: '2026-02-12',
+        time: '16:45:00',
+        remarks: 'UPWORK PAYOUT REF 88213',
+        availableBalance: 540,
+        confidence: 1,
+      },
+    },
+  },
+  {
+    name: 'alert wording under another subject',
+    email: {
+      from,
+      subject: 'Login from a new device',
+      body: 'Your account 01XXXXXX5678 has been Debited with NPR 450.00 on 05-JAN-2026. Narration: TEST.',
+    },
+    expected: null,
+  },
+];
@@ -0,0 +1,63 @@
+import type { BankEmailFixture } from './index';
+
+const from = 'NIC ASIA Bank <alerts@nicasiabank.com>';
+
+export const nicAsiaFixtures: BankEmailFixture[] = [
+  {
+    name: 'card purchase debit',
+    email: {
+      from,
+      subject: 'Transaction Alert',
+      body: 'Dear Customer,\n\nYour A/C 0123XXXXXXX4567 has been debited by NPR 1,500.00 on 05/01/2026 10:15:32.\nRemarks: POS PURCHASE BHATBHATENI SUPERMARKET KTM.\nAvailable Balance: NPR 25,000.00.\n\nThank you for banking with NIC ASIA Bank.',
+    },
+    expected: {
+      parser: 'nic_asia',
+      transaction: {
+        amount: 1500,
+        currency: 'NPR',
+        type: 'debit',
+        merchant: 'BHATBHATENI SUPERMARKET KTM',
+        accountLastFour: '4567',
+        bankName: 'NIC Asia Bank',
+        date: '2026-01-05',
+        time: '10:15:32',
+        remarks: 'POS PURCHASE BHATBHATENI SUPERMARKET KTM',
+        availableBalance: 25000,
+        confidence: 1,
+      },
+    },
+  },
+  {
+    name: 'HTML credit without time',
+    email: {
+      from,
+      subject: 'Transaction Alert',
+      body: '<html><body><p>Dear Customer,</p><p>Your A/C 0123XXXXXXX4567 has been credited by NPR&nbsp;75,000.00 on 31/01/2026.</p><p>Remarks: SALARY FOR JAN 2026</p><p>Available Balance: NPR 100,000.00</p></body></html>',
+    },
+    expected: {
+      parser: 'nic_asia',
+      transaction: {
+        amount: 75000,
+        currency: 'NPR',
+        type: 'credit',
+        merchant: null,
+        accountLastFour: '4567',
+        bankName: 'NIC Asia Bank',
+        date: '2026-01-31',
+        time: null,
+        remarks: 'SALARY FOR JAN 2026',
+        availableBalance: 100000,
+        confidence: 1,
+      },
+    },
+  },
+  {
+    name: 'promotion from the alert sender',
+    email: {
+      from,
+      subject: 'Get 10% cashback this Dashain!',
+      body: 'Use your NIC ASIA debit card at partner stores and get 10% cashback up to NPR 1,000.',
+    },
+    expected: null,
+  },
+];
@@ -0,0 +1,30 @@
+import type { BankParser } from './index';
+import { merchantFromNarration } from './narration';
+
+/**
+ * Global IME Bank account alerts:
+ * "NPR 2,000.00 has been withdrawn from your account ##1234 on 2026-01-05 14:20:11.
+ * Remarks: FONEPAY QR PAYMENT TO HIMALAYAN JAVA."
+ */
+export const globalImeParser: BankParser = {
+  id: 'global_ime',
+  bankName: 'Global IME Bank',
+  senders: [/@gibl\.com\.np\b/i, /@globalimebank\.com\b/i],
+  templates: [
+    {
+      pattern:
+        /([A-Z]{3}|Rs\.?)\s*([\d,]+(?:\.\d+)?) has been (withdrawn from|deposited to|debited from|credited to) your (?:account|a\/c)\s+#*([\dX*]+) on (\d{4}-\d{2}-\d{2})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?\.?\s+Remarks:\s*(.+?)\.?\s*(?:For (?:any )?queries|Thank you|$)/i,
+      dateOrder: 'YMD',
+      read: (m) => ({
+        currency: m[1],
+        amount: m[2],
+        direction: m[3],
+        account: m[4],
+        date: m[5],
+        time: m[6],
+        remarks: m[7],
+        merchant: merchantFromNarration(m[7]),
+      }),
+    },
+  ],
+};
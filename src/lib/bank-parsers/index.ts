@@ -0,0 +1,149 @@
+import { DEFAULT_CURRENCY, normalizeCurrency } from '@/lib/currency';
+import { parseStatementAmount, parseStatementDate, type StatementDateOrder } from '@/lib/statement';
+import type { EmailInput, TransactionData } from '@/services/transaction-extractor.service';
+import { globalImeParser } from './global-ime';
+import { nabilParser } from './nabil';
+import { nicAsiaParser } from './nic-asia';
+
+/**
+ * Deterministic parsers for the templated alert emails of known banks.
+ *
+ * Alerts from a matching sender (and subject, when the parser sets patterns for it) are read with
+ * the bank's regex templates instead of the AI, with confidence 1. Emails no template matches
+ * (promotions, statements, changed templates) are left to the AI.
+ */
+
+/**
+ * Fields captured by a template, as written in the email
+ */
+export interface BankAlertMatch {
+  amount: string;
+  currency?: string; // defaults to NPR
+  direction: string; // "debited", "withdrawn from", "Credited", ...
+  account?: string;
+  date: string;
+  time?: string;
+  remarks?: string;
+  merchant?: string; // merchant or transfer counterparty, usually read from the remarks
+  balance?: string; // available balance after the transaction, when the alert states it
+}
+
+export interface BankAlertTemplate {
+  /** Matched against the email as plain text with whitespace collapsed */
+  pattern: RegExp;
+  /** Order of the day, month and year in the captured date */
+  dateOrder: StatementDateOrder;
+  read: (match: RegExpMatchArray) => BankAlertMatch;
+}
+
+export interface BankParser {
+  id: string;
+  bankName: string;
+  /** Patterns for the From header; the parser is only tried for these senders */
+  senders: RegExp[];
+  /** Patterns for the Subject header; when set, one must match as well */
+  subjects?: RegExp[];
+  templates: BankAlertTemplate[];
+}
+
+export interface BankParseResult {
+  parser: string; // ID of the parser that read the email
+  transaction: TransactionData;
+}
+
+/** Registered parsers, tried in order */
+export const BANK_PARSERS: BankParser[] = [nicAsiaParser, globalImeParser, nabilParser];
+
+const DEBIT_WORDS = /debit|withdraw|dr\b|spent|paid/i;
+const CREDIT_WORDS = /credit|deposit|cr\b|received/i;
+
+/**
+ * Convert an email body (plain text or HTML) to a single line of plain text
+ */
+export function toPlainText(body: string): string {
+  return body
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&#0?39;|&apos;/gi, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the parsers registered for an email's sender and subject
+ */
+export function findBankParsers(
+  email: Pick<EmailInput, 'from' | 'subject'>,
+  parsers: BankParser[] = BANK_PARSERS
+): BankParser[] {
+  const from = email.from ?? '';
+  const subject = email.subject ?? '';
+  return parsers.filter(
+    (parser) =>
+      parser.senders.some((pattern) => pattern.test(from)) &&
+      (!parser.subjects || parser.subjects.some((pattern) => pattern.test(subject)))
+  );
+}
+
+/**
+ * Read an email with the first parser template that matches it.
+ * Returns null when no parser is registered for the sender or none of its templates match.
+ */
+export function parseBankEmail(
+  email: EmailInput,
+  parsers: BankParser[] = BANK_PARSERS
+): BankParseResult | null {
+  const candidates = findBankParsers(email, parsers);
+  if (candidates.length === 0) return null;
+
+  const text = toPlainText(email.body);
+  for (const parser of candidates) {
+    for (const template of parser.templates) {
+      const match = text.match(template.pattern);
+      if (!match) continue;
+
+      const transaction = toTransactionData(parser, template, template.read(match));
+      if (transaction) {
+        return { parser: parser.id, transaction };
+      }
+    }
+  }
+  return null;
+}
+
+function toTransactionData(
+  parser: BankParser,
+  template: BankAlertTemplate,
+  alert: BankAlertMatch
+): TransactionData | null {
+  const amount = parseStatementAmount(alert.amount);
+  const date = parseStatementDate(
+    alert.time ? `${alert.date} ${alert.time}` : alert.date,
+    template.dateOrder
+  );
+  const type = DEBIT_WORDS.test(alert.direction)
+    ? 'debit'
+    : CREDIT_WORDS.test(alert.direction)
+      ? 'credit'
+      : null;
+  if (!amount || amount <= 0 || !date || !type) return null;
+
+  const accountDigits = (alert.account ?? '').replace(/\D/g, '');
+  const balance = alert.balance ? parseStatementAmount(alert.balance) : null;
+
+  return {
+    amount,
+    currency: normalizeCurrency(alert.currency, DEFAULT_CURRENCY),
+    type,
+    merchant: alert.merchant?.trim() || null,
+    accountLastFour: accountDigits ? accountDigits.slice(-4) : null,
+    bankName: parser.bankName,
+    date: date.date,
+    time: date.time,
+    remarks: alert.remarks?.trim() || null,
+    availableBalance: balance ?? null,
+    confidence: 1,
+  };
+}
@@ -0,0 +1,32 @@
+import type { BankParser } from './index';
+import { merchantFromNarration } from './narration';
+
+/**
+ * Nabil Bank account alerts:
+ * "Your account 01XXXXXX5678 has been Debited with NPR 450.00 on 05-JAN-2026.
+ * Narration: ESEWA LOAD 9841XXXXXX. Balance: NPR 10,230.50."
+ */
+export const nabilParser: BankParser = {
+  id: 'nabil',
+  bankName: 'Nabil Bank',
+  senders: [/@nabilbank\.com\b/i],
+  subjects: [/transaction alert/i],
+  templates: [
+    {
+      pattern:
+        /account\s+([\dX*]+)\s+has been (Debited|Credited) with ([A-Z]{3}|Rs\.?)\s*([\d,]+(?:\.\d+)?) on (\d{1,2}-[A-Za-z]{3}-\d{4})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?\.?\s+Narration:\s*(.+?)\.?\s*(?:Balance:\s*(?:[A-Z]{3}|Rs\.?)\s*([\d,]+(?:\.\d+)?)|-\s*Nabil Bank|$)/i,
+      dateOrder: 'DMY',
+      read: (m) => ({
+        account: m[1],
+        direction: m[2],
+        currency: m[3],
+        amount: m[4],
+        date: m[5],
+        time: m[6],
+        remarks: m[7],
+        merchant: merchantFromNarration(m[7]),
+        balance: m[8],
+      }),
+    },
+  ],
+};
@@ -0,0 +1,35 @@
+/**
+ * Counterparty named in a bank alert's remarks/narration, captured by the first pattern that
+ * matches
+ */
+const NARRATION_MERCHANT_PATTERNS: RegExp[] = [
+  // "FONEPAY QR PAYMENT TO HIMALAYAN JAVA"
+  /\b(?:payment|transfer|paid|sent)\s+to\s+(.+)$/i,
+  // "CONNECTIPS TRANSFER FROM RAM SHARMA"
+  /\b(?:payment|transfer|received)\s+from\s+(.+)$/i,
+  // "POS PURCHASE BHATBHATENI SUPERMARKET KTM"
+  /^(?:pos|ecom|e-com|online)\s+(?:purchase|payment|txn)\s+(?:at\s+)?(.+)$/i,
+  // "ESEWA LOAD 9841XXXXXX", "UPWORK PAYOUT REF 88213"
+  /^(\S+)\s+(?:load|top-?up|payout|bill|recharge)\b/i,
+];
+
+/** Reference and masked phone/card numbers after a merchant name */
+const TRAILING_REFERENCE = /\s+(?:ref\b.*|[\dX*]{4,}.*)$/i;
+
+/**
+ * Read the merchant (or the other party of a transfer) from an alert's remarks.
+ * Returns undefined when the remarks name none, e.g. "SALARY FOR JAN 2026".
+ *
+ * @example
+ * merchantFromNarration('FONEPAY QR PAYMENT TO HIMALAYAN JAVA') // 'HIMALAYAN JAVA'
+ */
+export function merchantFromNarration(narration: string | undefined): string | undefined {
+  const text = narration?.trim().replace(/\.$/, '');
+  if (!text) return undefined;
+
+  for (const pattern of NARRATION_MERCHANT_PATTERNS) {
+    const merchant = text.match(pattern)?.[1].replace(TRAILING_REFERENCE, '').trim();
+    if (merchant) return merchant;
+  }
+  return undefined;
+}
@@ -0,0 +1,31 @@
+import type { BankParser } from './index';
+import { merchantFromNarration } from './narration';
+
+/**
+ * NIC Asia Bank account alerts:
+ * "Your A/C 0123XXXXXXX4567 has been debited by NPR 1,500.00 on 05/01/2026 10:15:32.
+ * Remarks: POS PURCHASE BHATBHATENI KTM. Available Balance: NPR 25,000.00."
+ */
+export const nicAsiaParser: BankParser = {
+  id: 'nic_asia',
+  bankName: 'NIC Asia Bank',
+  senders: [/@nicasiabank\.com\b/i],
+  templates: [
+    {
+      pattern:
+        /A\/C\s+([\dX*]+)\s+has been (debited|credited) by ([A-Z]{3}|Rs\.?)\s*([\d,]+(?:\.\d+)?) on (\d{1,2}\/\d{1,2}\/\d{4})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?\.?\s+Remarks:\s*(.+?)\.?\s*(?:Available Balance:\s*(?:[A-Z]{3}|Rs\.?)\s*([\d,]+(?:\.\d+)?)|Thank you|$)/i,
+      dateOrder: 'DMY',
+      read: (m) => ({
+        account: m[1],
+        direction: m[2],
+        currency: m[3],
+        amount: m[4],
+        date: m[5],
+        time: m[6],
+        remarks: m[7],
+        merchant: merchantFromNarration(m[7]),
+        balance: m[8],
+      }),
+    },
+  ],
+};
@@ -1,14 +1,54 @@
 import type { Database } from '@/db/connection';
+import type { AccountRepository } from '@/repositories/account.repository';
+import { AccountRepository as AccountRepositoryImpl } from '@/repositories/account.repository';
+import type { AnalyticsRepository } from '@/repositories/analytics.repository';
+import { AnalyticsRepository as AnalyticsRepositoryImpl } from '@/repositories/analytics.repository';
+import type { BudgetRepository } from '@/repositories/budget.repository';
+import { BudgetRepository as BudgetRepositoryImpl } from '@/repositories/budget.repository';
 import type { CategoryRepository } from '@/repositories/category.repository';
 import { CategoryRepository as CategoryRepositoryImpl } from '@/repositories/category.repository';
+import type { CategoryMemoryRepository } from '@/repositories/category-memory.repository';
+import { CategoryMemoryRepository as CategoryMemoryRepositoryImpl } from '@/repositories/category-memory.repository';
+import type { CategoryRuleRepository } from '@/repositories/category-rule.repository';
+import { CategoryRuleRepository as CategoryRuleRepositoryImpl } from '@/repositories/category-rule.repository';
+import type { EmailIngestionRepository } from '@/repositories/email-ingestion.repository';
+import { EmailIngestionRepository as EmailIngestionRepositoryImpl } from '@/repositories/email-ingestion.repository';
+import type { ExchangeRateRepository } from '@/repositories/exchange-rate.repository';
+import { ExchangeRateRepository as ExchangeRateRepositoryImpl } from '@/repositories/exchange-rate.repository';
+import type { FailedIngestionRepository } from '@/repositories/failed-ingestion.repository';
+import { FailedIngestionRepository as FailedIngestionRepositoryImpl } from '@/repositories/failed-ingestion.repository';
+import type { GmailBackfillRepository } from '@/repositories/gmail-backfill.repository';
+import { GmailBackfillRepository as GmailBackfillRepositoryImpl } from '@/repositories/gmail-backfill.repository';
 import type { GmailOAuthRepository } from '@/repositories/gmail-oauth.repository';
 import { GmailOAuthRepository as GmailOAuthRepositoryImpl } from '@/repositories/gmail-oauth.repository';
+import type { GmailOAuthStateRepository } from '@/repositories/gmail-oauth-state.repository';
+import { GmailOAuthStateRepository as GmailOAuthStateRepositoryImpl } from '@/repositories/gmail-oauth-state.repository';
 import type { InsightsRepository } from '@/repositories/insights.repository';
 import { InsightsRepository as InsightsRepositoryImpl } from '@/repositories/insights.repository';
+import type { MerchantRepository } from '@/repositories/merchant.repository';
+import { MerchantRepository as MerchantRepositoryImpl } from '@/repositories/merchant.repository';
+import type { RecurringSeriesRepository } from '@/repositories/recurring-series.repository';
+import { RecurringSeriesRepository as RecurringSeriesRepositoryImpl } from '@/repositories/recurring-series.repository';
+import type { StatementImportRepository } from '@/repositories/statement-import.repository';
+import { StatementImportRepository as StatementImportRepositoryImpl } from '@/repositories/statement-import.repository';
 import type { TransactionRepository } from '@/repositories/transaction.repository';
 import { TransactionRepository as TransactionRepositoryImpl } from '@/repositories/transaction.repository';
+import type { TransactionReextractJobRepository } from '@/repositories/transaction-reextract-job.repository';
+import { TransactionReextractJobRepository as TransactionReextractJobRepositoryImpl } from '@/repositories/transaction-reextract-job.repository';
+import type { TransactionReextractionRepository } from '@/repositories/transaction-reextraction.repository';
+import { TransactionReextractionRepository as TransactionReextractionRepositoryImpl } from '@/repositories/transaction-reextraction.repository';
+import type { TransactionSplitRepository } from '@/repositories/transaction-split.repository';
+import { TransactionSplitRepository as TransactionSplitRepositoryImpl } from '@/repositories/transaction-split.repository';
 import type { UserRepository } from '@/repositories/user.repository';
 import { UserRepository as UserRepositoryImpl } from '@/repositories/user.repository';
+import type { AccountService } from '@/services/account.service';
+import { AccountServiceImpl } from '@/services/account.service';
+import type { AnalyticsService } from '@/services/analytics.service';
+import { AnalyticsServiceImpl } from '@/services/analytics.service';
+import type { BudgetService } from '@/services/budget.service';
+import { BudgetServiceImpl } from '@/services/budget.service';
+import type { CategorizationService } from '@/services/categorization.service';
+import { CategorizationServiceImpl } from '@/services/categorization.service';
 import type { DiscordService } from '@/services/discord.service';
 import { DiscordServiceImpl } from '@/services/discord.service';
 import type { GmailService } from '@/services/gmail.service';
@@ -17,8 +57,28 @@ import type { InsightsService } from '@/services/insights.service';
 import { InsightsServiceImpl } from '@/services/insights.service';
 import type { LoggerService } from '@/services/logger.service';
 import { LoggerServiceImpl } from '@/services/logger.service';
+import type { MerchantService } from '@/services/merchant.service';
+import { MerchantServiceImpl } from '@/services/merchant.service';
+import type { RecurringService } from '@/services/recurring.service';
+import { RecurringServiceImpl } from '@/services/recurring.service';
+import type { TransactionBulkService } from '@/services/transaction-bulk.service';
+import { TransactionBulkService as TransactionBulkServiceImpl } from '@/services/transaction-bulk.service';
+import type { TransactionExportService } from '@/services/transaction-export.service';
+import { TransactionExportServiceImpl } from '@/services/transaction-export.service';
 import type { TransactionExtractorService } from '@/services/transaction-extractor.service';
 import { TransactionExtractorService as TransactionExtractorServiceImpl } from '@/services/transaction-extractor.service';
+import type { TransactionImportService } from '@/services/transaction-import.service';
+import { TransactionImportService as TransactionImportServiceImpl } from '@/services/transaction-import.service';
+import type { TransactionIngestService } from '@/services/transaction-ingest.service';
+import { TransactionIngestServiceImpl } from '@/services/transaction-ingest.service';
+import type { TransactionReextractService } from '@/services/transaction-reextract.service';
+import { TransactionReextractServiceImpl } from '@/services/transaction-reextract.service';
+import type { TransactionReviewService } from '@/services/transaction-review.service';
+import { TransactionReviewServiceImpl } from '@/services/transaction-review.service';
+import type { TransactionSplitService } from '@/services/transaction-split.service';
+import { TransactionSplitServiceImpl } from '@/services/transaction-split.service';
+import type { TransferService } from '@/services/transfer.service';
+import { TransferServiceImpl } from '@/services/transfer.service';
 import type { UserService } from '@/services/user.service';
 import { UserService as UserServiceImpl } from '@/services/user.service';
 
@@ -31,16 +91,46 @@ export interface Container {
   // Repositories
   readonly userRepo: UserRepository;
   readonly gmailOAuthRepo: GmailOAuthRepository;
+  readonly gmailOAuthStateRepo: GmailOAuthStateRepository;
+  readonly gmailBackfillRepo: GmailBackfillRepository;
+  readonly failedIngestionRepo: FailedIngestionRepository;
+  readonly emailIngestionRepo: EmailIngestionRepository;
   readonly categoryRepo: CategoryRepository;
+  readonly categoryRuleRepo: CategoryRuleRepository;
+  readonly categoryMemoryRepo: CategoryMemoryRepository;
   readonly transactionRepo: TransactionRepository;
+  readonly transactionSplitRepo: TransactionSplitRepository;
+  readonly transactionReextractionRepo: TransactionReextractionRepository;
+  readonly transactionReextractJobRepo: TransactionReextractJobRepository;
   readonly insightsRepo: InsightsRepository;
+  readonly exchangeRateRepo: ExchangeRateRepository;
+  readonly recurringSeriesRepo: RecurringSeriesRepository;
+  readonly statementImportRepo: StatementImportRepository;
+  readonly budgetRepo: BudgetRepository;
+  readonly analyticsRepo: AnalyticsRepository;
+  readonly merchantRepo: MerchantRepository;
+  readonly accountRepo: AccountRepository;
   // Services
   readonly loggerService: LoggerService;
   readonly discordService: DiscordService;
   readonly userService: UserService;
   readonly gmailService: GmailService;
   readonly transactionExtractor: TransactionExtractorService;
+  readonly categorizationService: CategorizationService;
+  readonly transactionIngest: TransactionIngestService;
+  readonly transactionBulkService: TransactionBulkService;
+  readonly transactionExportService: TransactionExportService;
+  readonly transactionImportService: TransactionImportService;
+  readonly transactionReextractService: TransactionReextractService;
+  readonly transactionReviewService: TransactionReviewService;
+  readonly transactionSplitService: TransactionSplitService;
+  readonly transferService: TransferService;
   readonly insightsService: InsightsService;
+  readonly recurringService: RecurringService;
+  readonly budgetService: BudgetService;
+  readonly analyticsService: AnalyticsService;
+  readonly merchantService: MerchantService;
+  readonly accountService: AccountService;
 }
 
 /**
@@ -57,9 +147,27 @@ export function createContainer(db: Database): Container {
   // Repositories (depend on db)
   const userRepo: UserRepository = new UserRepositoryImpl(db);
   const gmailOAuthRepo: GmailOAuthRepository = new GmailOAuthRepositoryImpl(db);
+  const gmailOAuthStateRepo: GmailOAuthStateRepository = new GmailOAuthStateRepositoryImpl(db);
+  const gmailBackfillRepo: GmailBackfillRepository = new GmailBackfillRepositoryImpl(db);
+  const failedIngestionRepo: FailedIngestionRepository = new FailedIngestionRepositoryImpl(db);
+  const emailIngestionRepo: EmailIngestionRepository = new EmailIngestionRepositoryImpl(db);
   const categoryRepo: CategoryRepository = new CategoryRepositoryImpl(db);
+  const categoryRuleRepo: CategoryRuleRepository = new CategoryRuleRepositoryImpl(db);
+  const categoryMemoryRepo: CategoryMemoryRepository = new CategoryMemoryRepositoryImpl(db);
   const transactionRepo: TransactionRepository = new TransactionRepositoryImpl(db);
+  const transactionSplitRepo: TransactionSplitRepository = new TransactionSplitRepositoryImpl(db);
+  const transactionReextractionRepo: TransactionReextractionRepository =
+    new TransactionReextractionRepositoryImpl(db);
+  const transactionReextractJobRepo: TransactionReextractJobRepository =
+    new TransactionReextractJobRepositoryImpl(db);
   const insightsRepo: InsightsRepository = new InsightsRepositoryImpl(db);
+  const exchangeRateRepo: ExchangeRateRepository = new ExchangeRateRepositoryImpl(db);
+  const recurringSeriesRepo: RecurringSeriesRepository = new RecurringSeriesRepositoryImpl(db);
+  const statementImportRepo: StatementImportRepository = new StatementImportRepositoryImpl(db);
+  const budgetRepo: BudgetRepository = new BudgetRepositoryImpl(db);
+  const analyticsRepo: AnalyticsRepository = new AnalyticsRepositoryImpl(db);
+  const merchantRepo: MerchantRepository = new MerchantRepositoryImpl(db);
+  const accountRepo: AccountRepository = new AccountRepositoryImpl(db);
 
   // Services (depend on db and repositories)
   const loggerService: LoggerService = new LoggerServiceImpl();
@@ -69,32 +177,143 @@ export function createContainer(db: Database): Container {
     loggerService,
     discordService
   );
+  const categorizationService: CategorizationService = new CategorizationServiceImpl(
+    categoryRuleRepo,
+    categoryMemoryRepo
+  );
+  const budgetService: BudgetService = new BudgetServiceImpl(
+    budgetRepo,
+    transactionRepo,
+    userRepo,
+    categoryRepo,
+    discordService
+  );
+  const transferService: TransferService = new TransferServiceImpl(transactionRepo);
+  const merchantService: MerchantService = new MerchantServiceImpl(merchantRepo, categoryRepo);
+  const accountService: AccountService = new AccountServiceImpl(accountRepo, userRepo);
+  const transactionIngest: TransactionIngestService = new TransactionIngestServiceImpl(
+    transactionRepo,
+    categoryRepo,
+    userRepo,
+    categorizationService,
+    discordService,
+    budgetService,
+    transferService,
+    merchantService,
+    accountService,
+    transactionExtractor
+  );
   const gmailService: GmailService = new GmailServiceImpl(
     db,
     gmailOAuthRepo,
     transactionRepo,
     categoryRepo,
+    transactionExtractor,
+    categorizationService,
+    transactionIngest,
+    emailIngestionRepo
+  );
+  const transactionBulkService: TransactionBulkService = new TransactionBulkServiceImpl(
+    db,
+    transactionRepo
+  );
+  const transactionExportService: TransactionExportService = new TransactionExportServiceImpl(
+    transactionRepo,
+    exchangeRateRepo
+  );
+  const transactionImportService: TransactionImportService = new TransactionImportServiceImpl(
+    db,
+    transactionRepo,
     userRepo,
+    categorizationService,
     transactionExtractor,
+    statementImportRepo
+  );
+  const transactionReextractService: TransactionReextractService =
+    new TransactionReextractServiceImpl(
+      transactionRepo,
+      categoryRepo,
+      userRepo,
+      categorizationService,
+      transactionExtractor,
+      transactionSplitRepo,
+      merchantService,
+      accountService,
+      emailIngestionRepo,
+      transactionReextractionRepo,
+      transactionReextractJobRepo
+    );
+  const transactionReviewService: TransactionReviewService = new TransactionReviewServiceImpl(
+    transactionRepo,
+    categorizationService,
+    budgetService,
+    transferService,
+    merchantService
+  );
+  const transactionSplitService: TransactionSplitService = new TransactionSplitServiceImpl(
+    transactionRepo,
+    transactionSplitRepo,
+    categoryRepo
+  );
+  const insightsService: InsightsService = new InsightsServiceImpl(
+    transactionRepo,
+    insightsRepo,
+    exchangeRateRepo,
+    transactionSplitRepo
+  );
+  const recurringService: RecurringService = new RecurringServiceImpl(
+    transactionRepo,
+    recurringSeriesRepo,
+    userRepo,
     discordService
   );
-  const insightsService: InsightsService = new InsightsServiceImpl(transactionRepo, insightsRepo);
+  const analyticsService: AnalyticsService = new AnalyticsServiceImpl(analyticsRepo, userRepo);
 
   return {
     db,
     // Repositories
     userRepo,
     gmailOAuthRepo,
+    gmailOAuthStateRepo,
+    gmailBackfillRepo,
+    failedIngestionRepo,
+    emailIngestionRepo,
     categoryRepo,
+    categoryRuleRepo,
+    categoryMemoryRepo,
     transactionRepo,
+    transactionSplitRepo,
+    transactionReextractionRepo,
+    transactionReextractJobRepo,
     insightsRepo,
+    exchangeRateRepo,
+    recurringSeriesRepo,
+    statementImportRepo,
+    budgetRepo,
+    analyticsRepo,
+    merchantRepo,
+    accountRepo,
     // Services
     loggerService,
     discordService,
     userService,
     gmailService,
     transactionExtractor,
+    categorizationService,
+    transactionIngest,
+    transactionBulkService,
+    transactionExportService,
+    transactionImportService,
+    transactionReextractService,
+    transactionReviewService,
+    transactionSplitService,
+    transferService,
     insightsService,
+    recurringService,
+    budgetService,
+    analyticsService,
+    merchantService,
+    accountService,
   };
 }
 
@@ -0,0 +1,55 @@
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF/LF line endings).
+ * Returns rows as arrays of raw cell strings; blank lines are skipped.
+ *
+ * @example
+ * parseCsv('a,"b, c"\n1,"say ""hi"""') // [['a', 'b, c'], ['1', 'say "hi"']]
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // Strip a UTF-8 byte order mark (common in spreadsheet exports)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
@@ -0,0 +1,87 @@
+import type { ExchangeRate } from '@/db/schema';
+
+/** Currency assumed when neither the message nor the user specify one */
+export const DEFAULT_CURRENCY = 'NPR';
+
+/**
+ * Symbols and local spellings the extractor (or a user) may return instead of an ISO code.
+ * "Rs" is ambiguous between NPR and INR; we resolve it to NPR since most alerts are from Nepali banks.
+ */
+const CURRENCY_ALIASES: Record<string, string> = {
+  RS: 'NPR',
+  NRS: 'NPR',
+  'RS.': 'NPR',
+  'NRS.': 'NPR',
+  IRS: 'INR',
+  '₹': 'INR',
+  $: 'USD',
+  US$: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+/**
+ * Normalize a currency value to an uppercase ISO 4217 code.
+ * Falls back to `fallback` when the value is empty or unrecognizable.
+ *
+ * @example
+ * normalizeCurrency('usd', 'NPR') // 'USD'
+ * normalizeCurrency('Rs.', 'USD') // 'NPR'
+ * normalizeCurrency(null, 'NPR') // 'NPR'
+ */
+export function normalizeCurrency(value: string | null | undefined, fallback: string): string {
+  if (!value) return fallback;
+  const trimmed = value.trim().toUpperCase();
+  if (/^[A-Z]{3}$/.test(trimmed)) return trimmed;
+  return CURRENCY_ALIASES[trimmed] ?? fallback;
+}
+
+/**
+ * Converts an amount in `currency` to the converter's base currency.
+ * Returns null when no rate is known for the currency pair.
+ */
+export type CurrencyConverter = (
+  amount: number,
+  currency: string | null,
+  date: Date | null
+) => number | null;
+
+/**
+ * Build an in-memory converter from a list of exchange rates.
+ *
+ * Rate selection mirrors `baseAmountSql()` in the exchange rate repository:
+ * 1. Rates effective on or before the transaction date win over later ones
+ * 2. Among those, the closest effective date wins
+ * 3. On the same date, a user's own rate wins over a shared one
+ * Inverse pairs (base -> currency) are used as 1 / rate when no direct pair exists.
+ */
+export function createCurrencyConverter(
+  rates: ExchangeRate[],
+  baseCurrency: string
+): CurrencyConverter {
+  return (amount, currency, date) => {
+    const from = currency ?? DEFAULT_CURRENCY;
+    if (from === baseCurrency) return amount;
+
+    const at = (date ?? new Date()).getTime();
+    const candidates = rates.filter(
+      (r) =>
+        (r.fromCurrency === from && r.toCurrency === baseCurrency) ||
+        (r.fromCurrency === baseCurrency && r.toCurrency === from)
+    );
+    if (candidates.length === 0) return null;
+
+    const best = candidates.sort((a, b) => {
+      const aBefore = a.effectiveDate.getTime() <= at ? 0 : 1;
+      const bBefore = b.effectiveDate.getTime() <= at ? 0 : 1;
+      if (aBefore !== bBefore) return aBefore - bBefore;
+      const aDistance = Math.abs(at - a.effectiveDate.getTime());
+      const bDistance = Math.abs(at - b.effectiveDate.getTime());
+      if (aDistance !== bDistance) return aDistance - bDistance;
+      return (a.userId ? 0 : 1) - (b.userId ? 0 : 1);
+    })[0];
+
+    const rate = Number.parseFloat(best.rate);
+    return best.fromCurrency === from ? amount * rate : amount / rate;
+  };
+}
@@ -0,0 +1,165 @@
+import { createPublicKey, type KeyObject, verify } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Verification of Google-signed OIDC ID tokens (RS256 JWTs), e.g. the token Pub/Sub push
+ * subscriptions send in the Authorization header.
+ *
+ * Signing keys come from Google's JWKS endpoint, cached for the response's max-age, or from a
+ * local JWKS file (for tests and offline environments).
+ */
+
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+
+/** Used when the JWKS response has no Cache-Control max-age */
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000;
+/** Minimum time between refetches triggered by an unknown key ID */
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+/** Allowed clock difference for exp/iat checks */
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface GoogleIdTokenClaims {
+  iss: string;
+  aud: string;
+  sub: string;
+  exp: number;
+  iat: number;
+  email?: string;
+  email_verified?: boolean;
+}
+
+export type GoogleIdTokenVerification =
+  | { valid: true; claims: GoogleIdTokenClaims }
+  | { valid: false; reason: string };
+
+export interface GoogleOidcVerifierOptions {
+  /** Expected `aud` claim (the push endpoint URL or the audience set on the subscription) */
+  audience: string;
+  /** Expected `email` claim (the push service account); not checked when unset */
+  email?: string;
+  /** Load keys from this JWKS file instead of Google's endpoint */
+  jwksFile?: string;
+  jwksUrl?: string;
+}
+
+type JwksKey = JsonWebKey & { kid?: string; kty?: string };
+
+const decodeSegment = (segment: string): unknown =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+
+export class GoogleOidcVerifier {
+  private keys = new Map<string, KeyObject>();
+  private keysExpireAt = 0;
+  private lastFetchAt = 0;
+
+  constructor(private readonly options: GoogleOidcVerifierOptions) {}
+
+  /**
+   * Verify a JWT's signature, issuer, audience, expiry and (when configured) email
+   */
+  async verify(token: string, now: Date = new Date()): Promise<GoogleIdTokenVerification> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      return { valid: false, reason: 'malformed_token' };
+    }
+
+    let header: { alg?: string; kid?: string };
+    let claims: GoogleIdTokenClaims;
+    try {
+      header = decodeSegment(segments[0]) as typeof header;
+      claims = decodeSegment(segments[1]) as GoogleIdTokenClaims;
+    } catch {
+      return { valid: false, reason: 'malformed_token' };
+    }
+
+    if (header.alg !== 'RS256' || !header.kid) {
+      return { valid: false, reason: 'unsupported_algorithm' };
+    }
+
+    const key = await this.getKey(header.kid);
+    if (!key) {
+      return { valid: false, reason: 'unknown_key' };
+    }
+
+    const signatureValid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${segments[0]}.${segments[1]}`),
+      key,
+      Buffer.from(segments[2], 'base64url')
+    );
+    if (!signatureValid) {
+      return { valid: false, reason: 'invalid_signature' };
+    }
+
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    if (!GOOGLE_ISSUERS.includes(claims.iss)) {
+      return { valid: false, reason: 'invalid_issuer' };
+    }
+    if (claims.aud !== this.options.audience) {
+      return { valid: false, reason: 'invalid_audience' };
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+      return { valid: false, reason: 'token_expired' };
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > nowSeconds) {
+      return { valid: false, reason: 'token_not_yet_valid' };
+    }
+    if (
+      this.options.email &&
+      (claims.email !== this.options.email || claims.email_verified !== true)
+    ) {
+      return { valid: false, reason: 'invalid_email' };
+    }
+
+    return { valid: true, claims };
+  }
+
+  /**
+   * Find a signing key by ID, reloading the key set when it is stale or (rate-limited) when
+   * the ID is unknown, since Google rotates its keys
+   */
+  private async getKey(kid: string): Promise<KeyObject | null> {
+    const now = Date.now();
+    const stale = now >= this.keysExpireAt;
+    const unknown = !this.keys.has(kid) && now - this.lastFetchAt >= JWKS_REFETCH_INTERVAL_MS;
+
+    if (stale || unknown) {
+      try {
+        await this.loadKeys();
+      } catch (error) {
+        // Keep using the previous keys if Google's endpoint is unreachable
+        console.error('Failed to load Google JWKS:', error);
+      }
+    }
+
+    return this.keys.get(kid) ?? null;
+  }
+
+  private async loadKeys(): Promise<void> {
+    this.lastFetchAt = Date.now();
+
+    let jwks: { keys?: JwksKey[] };
+    let ttl = DEFAULT_JWKS_TTL_MS;
+    if (this.options.jwksFile) {
+      jwks = JSON.parse(await readFile(this.options.jwksFile, 'utf-8'));
+    } else {
+      const response = await fetch(this.options.jwksUrl ?? GOOGLE_JWKS_URL);
+      if (!response.ok) {
+        throw new Error(`JWKS request failed: ${response.status} ${response.statusText}`);
+      }
+      jwks = await response.json();
+      const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '');
+      if (maxAge) ttl = Number(maxAge[1]) * 1000;
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys ?? []) {
+      if (!jwk.kid || jwk.kty !== 'RSA') continue;
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    this.keys = keys;
+    this.keysExpireAt = Date.now() + ttl;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Tests for the normalization of merchant names and remarks.
+ * Run with: bun test src/lib/normalize.test.ts
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { isMerchantKeyMatch, normalizeMerchant, normalizeRemarks } from './normalize';
+
+describe('normalizeMerchant', () => {
+  test.each([
+    ['DARAZ KAALIKA PVT', 'daraz kaalika'],
+    ['DARAZ KAALIKA PVT. LTD #0231', 'daraz kaalika'],
+    ['Daraz', 'daraz'],
+    ['daraz.com.np', 'daraz'],
+    ['www.foodmandu.com', 'foodmandu'],
+    ['Nepal Telecom Co. Ltd', 'nepal telecom'],
+    ['ESEWA*TOPUP 9841', 'esewa topup'],
+  ])('%s -> %s', (name, key) => {
+    expect(normalizeMerchant(name)).toBe(key);
+  });
+
+  test('keeps a company type word that is the whole name', () => {
+    expect(normalizeMerchant('Limited')).toBe('limited');
+  });
+
+  test('returns null when nothing is left', () => {
+    expect(normalizeMerchant('#1234')).toBeNull();
+    expect(normalizeMerchant(null)).toBeNull();
+  });
+});
+
+describe('isMerchantKeyMatch', () => {
+  test('unifies the spellings of one merchant', () => {
+    const keys = ['DARAZ KAALIKA PVT', 'Daraz', 'daraz.com.np'].map(
+      (name) => normalizeMerchant(name) as string
+    );
+    for (const a of keys) {
+      for (const b of keys) {
+        expect(isMerchantKeyMatch(a, b)).toBe(true);
+      }
+    }
+  });
+
+  test('compares whole words', () => {
+    expect(isMerchantKeyMatch('nepal telecom', 'nepal airlines')).toBe(false);
+    expect(isMerchantKeyMatch('dara', 'daraz')).toBe(false);
+  });
+});
+
+describe('normalizeRemarks', () => {
+  test('replaces digit runs and collapses whitespace', () => {
+    expect(normalizeRemarks('QR Payment  98412345 to FOODMANDU')).toBe('qr payment # to foodmandu');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Normalization of free-text transaction fields so that the same merchant
+ * or remarks pattern compares equal across messages.
+ */
+
+/** Web address parts dropped from merchant names ("www.daraz.com.np" -> "daraz") */
+const WEB_ADDRESS = /\bwww\.|\.(com|net|org|co|gov|edu|info|io|app|shop|store|np|in|uk|us)\b/g;
+
+/** Company type words dropped from the end of merchant names ("Daraz Kaalika Pvt. Ltd.") */
+const LEGAL_SUFFIXES = /( (pvt|private|ltd|limited|inc|llc|llp|plc|corp|co))+$/;
+
+/**
+ * Normalize a merchant name: lowercase, drop web address parts, digits (terminal/store numbers),
+ * punctuation and trailing company type words, collapse whitespace. Returns null when nothing is
+ * left.
+ *
+ * @example
+ * normalizeMerchant('DARAZ KAALIKA PVT. LTD #0231') // 'daraz kaalika'
+ * normalizeMerchant('daraz.com.np') // 'daraz'
+ */
+export function normalizeMerchant(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const normalized = value
+    .toLowerCase()
+    .replace(WEB_ADDRESS, ' ')
+    .replace(/[0-9]+/g, ' ')
+    .replace(/[.,:;!?'"`()[\]{}#*@+\-_/\\|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEGAL_SUFFIXES, '');
+  return normalized || null;
+}
+
+/**
+ * Whether two normalized merchant names belong to the same merchant: they are equal, or one is
+ * the other followed by more words
+ *
+ * @example
+ * isMerchantKeyMatch('daraz', 'daraz kaalika') // true
+ * isMerchantKeyMatch('nepal telecom', 'nepal airlines') // false
+ */
+export function isMerchantKeyMatch(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+}
+
+/**
+ * Normalize remarks: lowercase, replace digit runs (reference numbers, dates) with "#",
+ * collapse whitespace and cap the length. Returns null when nothing is left.
+ *
+ * @example
+ * normalizeRemarks('QR Payment 98412345 to FOODMANDU') // 'qr payment # to foodmandu'
+ */
+export function normalizeRemarks(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const normalized = value
+    .toLowerCase()
+    .replace(/[0-9]+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 200);
+  return normalized || null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Tests for statement date and amount parsing and batching of statement text.
+ * Run with: bun test src/lib/statement.test.ts
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  batchStatementLines,
+  isStatementRowStart,
+  parseStatementAmount,
+  parseStatementDate,
+} from './statement';
+
+describe('parseStatementDate', () => {
+  test.each([
+    ['2026-01-15', 'YMD', '2026-01-15', null],
+    ['15/01/2026', 'DMY', '2026-01-15', null],
+    ['01/15/2026', 'MDY', '2026-01-15', null],
+    ['15.01.26', 'DMY', '2026-01-15', null],
+    ['15-Jan-2026', 'YMD', '2026-01-15', null],
+    ['Jan 15, 2026', 'DMY', '2026-01-15', null],
+    ['2026 January 15', 'MDY', '2026-01-15', null],
+    ['2026-01-15 9:05', 'YMD', '2026-01-15', '09:05:00'],
+    ['15/01/2026 14:30:15', 'DMY', '2026-01-15', '14:30:15'],
+  ] as const)('%s (%s)', (value, order, date, time) => {
+    expect(parseStatementDate(value, order)).toEqual({ date, time });
+  });
+
+  test.each([
+    ['2026-02-30', 'YMD'],
+    ['15/13/2026', 'DMY'],
+    ['15/01/2026', 'MDY'],
+    ['Foo 15 2026', 'YMD'],
+    ['2026-01', 'YMD'],
+    ['', 'YMD'],
+  ] as const)('rejects %p (%s)', (value, order) => {
+    expect(parseStatementDate(value, order)).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  test.each([
+    ['1,250.00', 1250],
+    ['45.5', 45.5],
+    ['-45.5', -45.5],
+    ['(45.50)', -45.5],
+    ['45.50 DR', -45.5],
+    ['45.50 Cr', 45.5],
+    ['45.50-', -45.5],
+    ['Rs. 100', 100],
+    ['.75', 0.75],
+  ])('%s -> %d', (value, amount) => {
+    expect(parseStatementAmount(value)).toBe(amount);
+  });
+
+  test.each(['', '  ', '-', 'n/a'])('returns null for %p', (value) => {
+    expect(parseStatementAmount(value)).toBeNull();
+  });
+});
+
+describe('isStatementRowStart', () => {
+  test.each([
+    ['05/01/2026 POS PURCHASE 1,500.00', true],
+    ['2026-01-05 Salary 50,000.00', true],
+    ['5 Jan 2026 ATM withdrawal', true],
+    ['Jan 5, 2026 ATM withdrawal', true],
+    ['  KATHMANDU NP', false],
+    ['Opening balance 1,000.00', false],
+    ['9841234567 ESEWA LOAD', false],
+    ['45/45/2026 not a date', false],
+  ])('%p -> %p', (line, expected) => {
+    expect(isStatementRowStart(line)).toBe(expected);
+  });
+});
+
+describe('batchStatementLines', () => {
+  const row = (day: number, wrapped = 0) => [
+    `2026-01-${String(day).padStart(2, '0')} PAYMENT ${day}`,
+    ...Array.from({ length: wrapped }, (_, i) => `  detail ${day}.${i + 1}`),
+  ];
+
+  test('keeps every line in order', () => {
+    const lines = ['Statement of account', ...row(1, 2), ...row(2), ...row(3, 1), ...row(4)];
+    const batches = batchStatementLines(lines, 3);
+    expect(batches.flat()).toEqual(lines);
+    expect(batches.every((batch) => batch.length <= 3)).toBe(true);
+  });
+
+  test('cuts before a row start so wrapped lines stay with their row', () => {
+    const lines = [...row(1), ...row(2, 2), ...row(3)];
+    expect(batchStatementLines(lines, 3)).toEqual([row(1), row(2, 2), row(3)]);
+  });
+
+  test('cuts at the size limit when a batch holds a single row', () => {
+    const lines = row(1, 4);
+    expect(batchStatementLines(lines, 3)).toEqual([lines.slice(0, 3), lines.slice(3)]);
+  });
+
+  test('returns no batches for no lines', () => {
+    expect(batchStatementLines([], 60)).toEqual([]);
+  });
+});
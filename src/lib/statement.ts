@@ -0,0 +1,117 @@
+/**
+ * Parsing of the dates and amounts found in bank statements and alerts
+ */
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Order of the day, month and year parts in a statement's dates.
+ * Month names ("15-Jan-2026") and a trailing time ("2026-01-15 14:30") are accepted in any order.
+ */
+export type StatementDateOrder = 'YMD' | 'DMY' | 'MDY';
+
+/**
+ * Parse a statement date into YYYY-MM-DD and an optional HH:MM:SS time.
+ * Returns null when the value is not a real calendar date.
+ */
+export function parseStatementDate(
+  value: string,
+  order: StatementDateOrder
+): { date: string; time: string | null } | null {
+  const timeMatch = value.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  const datePart = timeMatch ? value.slice(0, timeMatch.index) : value;
+  const parts = datePart
+    .trim()
+    .split(/[\s/.,-]+/)
+    .filter(Boolean);
+  if (parts.length !== 3) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  const monthNameIndex = parts.findIndex((part) => /^[a-z]{3,}$/i.test(part));
+
+  if (monthNameIndex !== -1) {
+    month = MONTHS.indexOf(parts[monthNameIndex].slice(0, 3).toLowerCase()) + 1;
+    const numbers = parts.filter((_, i) => i !== monthNameIndex).map(Number);
+    // "15 Jan 2026" / "Jan 15 2026" / "2026 Jan 15": the year is the 4-digit (or last) number
+    const yearIndex = numbers[0] > 31 ? 0 : 1;
+    year = numbers[yearIndex];
+    day = numbers[1 - yearIndex];
+  } else {
+    const [a, b, c] = parts.map(Number);
+    [year, month, day] = order === 'YMD' ? [a, b, c] : order === 'DMY' ? [c, b, a] : [c, a, b];
+  }
+
+  if (year < 100) year += 2000;
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (
+    !month ||
+    Number.isNaN(parsed.getTime()) ||
+    parsed.getUTCFullYear() !== year ||
+    parsed.getUTCMonth() !== month - 1 ||
+    parsed.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  const pad = (n: number | string) => String(n).padStart(2, '0');
+  const time = timeMatch
+    ? `${pad(timeMatch[1])}:${timeMatch[2]}:${pad(timeMatch[3] ?? '00')}`
+    : null;
+  return { date: `${year}-${pad(month)}-${pad(day)}`, time };
+}
+
+/**
+ * Parse a statement amount such as "1,250.00", "-45.5", "(45.50)", "45.50 DR" or "Rs. 100".
+ * Returns the signed amount (negative for parentheses, a minus sign or a DR suffix),
+ * or null when the cell is empty.
+ */
+export function parseStatementAmount(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === '-') return null;
+
+  const number = trimmed.replace(/,/g, '').match(/\d+(\.\d+)?|\.\d+/);
+  if (!number) return null;
+
+  const negative =
+    /^\(.*\)$/.test(trimmed) || /-\s*[\d.]/.test(trimmed) || /-$|\bdr\.?$/i.test(trimmed);
+  const amount = Number.parseFloat(number[0]);
+  return negative ? -amount : amount;
+}
+
+/** A leading date in any of the formats parseStatementDate reads, e.g. "05/01/2026" or "5 Jan 2026" */
+const LEADING_DATE =
+  /^\s*(\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}|\d{1,2}[\s/.-]+[a-z]{3,9}[\s/.-]+\d{2,4}|[a-z]{3,9}[\s/.-]+\d{1,2},?[\s/.-]+\d{4})(?=\s|$)/i;
+
+/**
+ * Whether a line of statement text starts a transaction row, i.e. starts with a date
+ */
+export function isStatementRowStart(line: string): boolean {
+  const match = line.match(LEADING_DATE);
+  return (
+    match !== null &&
+    (['YMD', 'DMY', 'MDY'] as const).some((order) => parseStatementDate(match[1], order) !== null)
+  );
+}
+
+/**
+ * Split statement lines into batches of at most `maxLines`, cutting before the last row start
+ * in a batch so a row wrapped over several lines is never split between batches. A batch is
+ * only cut mid-row when it holds no other row start.
+ */
+export function batchStatementLines(lines: string[], maxLines: number): string[][] {
+  const batches: string[][] = [];
+  let start = 0;
+  while (start < lines.length) {
+    let end = Math.min(start + maxLines, lines.length);
+    if (end < lines.length && !isStatementRowStart(lines[end])) {
+      let cut = end - 1;
+      while (cut > start && !isStatementRowStart(lines[cut])) cut--;
+      if (cut > start) end = cut;
+    }
+    batches.push(lines.slice(start, end));
+    start = end;
+  }
+  return batches;
+}
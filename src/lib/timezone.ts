@@ -1,4 +1,6 @@
-import { fromZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+export type CalendarPeriod = 'weekly' | 'monthly' | 'yearly';
 
 /**
  * Convert a local date/time string from a specific timezone to a UTC Date object.
@@ -38,3 +40,44 @@ export function filterDateToUtc(isoDateStr: string, timezone: string): Date {
   // Otherwise, interpret as local time in the given timezone
   return fromZonedTime(isoDateStr, timezone);
 }
+
+/**
+ * Get the calendar week, month or year containing `at` in the given timezone.
+ * Weeks start on Monday.
+ *
+ * @param period - 'weekly' | 'monthly' | 'yearly'
+ * @param at - Any instant inside the period
+ * @param timezone - IANA timezone identifier
+ * @returns UTC instants of the local start of the period and of the next one (exclusive end)
+ *
+ * @example
+ * // January 2026 in Nepal Time -> 2025-12-31T18:15:00Z to 2026-01-31T18:15:00Z
+ * localPeriodRange('monthly', new Date('2026-01-15T00:00:00Z'), 'Asia/Kathmandu')
+ */
+export function localPeriodRange(
+  period: CalendarPeriod,
+  at: Date,
+  timezone: string
+): { start: Date; end: Date } {
+  const [year, month, day] = formatInTimeZone(at, timezone, 'yyyy-MM-dd').split('-').map(Number);
+
+  // Local calendar dates, computed as UTC midnights
+  let start: Date;
+  let end: Date;
+  if (period === 'weekly') {
+    const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+    start = new Date(Date.UTC(year, month - 1, day - daysSinceMonday));
+    end = new Date(Date.UTC(year, month - 1, day - daysSinceMonday + 7));
+  } else if (period === 'monthly') {
+    start = new Date(Date.UTC(year, month - 1, 1));
+    end = new Date(Date.UTC(year, month, 1));
+  } else {
+    start = new Date(Date.UTC(year, 0, 1));
+    end = new Date(Date.UTC(year + 1, 0, 1));
+  }
+
+  return {
+    start: localToUtc(start.toISOString().slice(0, 10), null, timezone),
+    end: localToUtc(end.toISOString().slice(0, 10), null, timezone),
+  };
+}
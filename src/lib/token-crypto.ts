@@ -0,0 +1,133 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+/**
+ * Envelope encryption for OAuth tokens stored in the database.
+ *
+ * Each row gets its own random data key (AES-256-GCM) that encrypts the tokens; the data key
+ * is itself encrypted ("wrapped") with a master key from `TOKEN_ENCRYPTION_KEYS` and stored
+ * next to the tokens with the master key's version. Rotating the master key only re-wraps
+ * the data keys (see scripts/encrypt-oauth-tokens.ts --rotate).
+ *
+ * `TOKEN_ENCRYPTION_KEYS` is a comma-separated list of `version:base64key` entries with
+ * 32-byte keys, e.g. "1:q2Fz...,2:Zm9v...". The highest version encrypts new rows; older
+ * versions are kept only to decrypt rows that have not been rotated yet.
+ * Generate a key with `openssl rand -base64 32`.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export interface PlainTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface EncryptedTokens extends PlainTokens {
+  encryptedDataKey: string;
+  keyVersion: number;
+}
+
+let cachedKeyring: { source: string; keys: Map<number, Buffer>; currentVersion: number } | null =
+  null;
+
+function getKeyring() {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS ?? '';
+  if (cachedKeyring?.source === source) return cachedKeyring;
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of source.split(',')) {
+    if (!entry.trim()) continue;
+    const [version, key] = entry.trim().split(':');
+    const parsedVersion = Number(version);
+    const parsedKey = Buffer.from(key ?? '', 'base64');
+    if (!Number.isInteger(parsedVersion) || parsedVersion < 1 || parsedKey.length !== KEY_LENGTH) {
+      throw new Error(
+        `Invalid TOKEN_ENCRYPTION_KEYS entry for version "${version}": expected version:base64 32-byte key`
+      );
+    }
+    keys.set(parsedVersion, parsedKey);
+  }
+  if (keys.size === 0) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not configured');
+  }
+
+  cachedKeyring = { source, keys, currentVersion: Math.max(...Array.from(keys.keys())) };
+  return cachedKeyring;
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = getKeyring().keys.get(version);
+  if (!key) {
+    throw new Error(`Token encryption key version ${version} is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+  return key;
+}
+
+/** iv | auth tag | ciphertext, base64 encoded */
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Version of the master key new rows are encrypted with
+ */
+export function currentTokenKeyVersion(): number {
+  return getKeyring().currentVersion;
+}
+
+/**
+ * Encrypt a token pair with a new data key wrapped by the current master key
+ */
+export function encryptTokens(tokens: PlainTokens): EncryptedTokens {
+  const keyVersion = currentTokenKeyVersion();
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  return {
+    accessToken: seal(dataKey, Buffer.from(tokens.accessToken, 'utf-8')),
+    refreshToken: seal(dataKey, Buffer.from(tokens.refreshToken, 'utf-8')),
+    encryptedDataKey: seal(getMasterKey(keyVersion), dataKey),
+    keyVersion,
+  };
+}
+
+/**
+ * Decrypt a token pair encrypted by encryptTokens()
+ */
+export function decryptTokens(tokens: EncryptedTokens): PlainTokens {
+  const dataKey = open(getMasterKey(tokens.keyVersion), tokens.encryptedDataKey);
+
+  return {
+    accessToken: open(dataKey, tokens.accessToken).toString('utf-8'),
+    refreshToken: open(dataKey, tokens.refreshToken).toString('utf-8'),
+  };
+}
+
+/**
+ * Re-wrap a row's data key with the current master key. The tokens themselves are unchanged.
+ */
+export function rewrapDataKey(
+  encryptedDataKey: string,
+  keyVersion: number
+): { encryptedDataKey: string; keyVersion: number } {
+  const currentVersion = currentTokenKeyVersion();
+  const dataKey = open(getMasterKey(keyVersion), encryptedDataKey);
+  return {
+    encryptedDataKey: seal(getMasterKey(currentVersion), dataKey),
+    keyVersion: currentVersion,
+  };
+}
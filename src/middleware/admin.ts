@@ -0,0 +1,26 @@
+import type { Context, Next } from 'hono';
+import type { AuthUser } from '@/middleware/auth';
+
+type AdminEnv = {
+  Variables: {
+    user: AuthUser;
+  };
+};
+
+/**
+ * Admin middleware - only lets through users listed in ADMIN_USER_IDS (comma-separated
+ * Supabase user IDs). Must run after authMiddleware.
+ */
+export const adminMiddleware = async (c: Context<AdminEnv>, next: Next) => {
+  const adminIds = (process.env.ADMIN_USER_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const user = c.get('user');
+
+  if (!user || !adminIds.includes(user.id)) {
+    return c.json({ error: 'Admin access required' }, 403);
+  }
+
+  await next();
+};
@@ -0,0 +1,147 @@
+/**
+ * Tests for the Gmail Pub/Sub push authentication middleware.
+ * Tokens are signed with a local RSA key served from a JWKS file, so no Google access is needed.
+ * Run with: bun test src/middleware/gmail_auth.test.ts
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { generateKeyPairSync, type KeyObject, sign } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Hono } from 'hono';
+import { getGmailAuthRejections, gmailAuth } from './gmail_auth';
+
+const AUDIENCE = 'https://api.example.com/webhooks/gmail';
+const SERVICE_ACCOUNT = 'pubsub-push@example.iam.gserviceaccount.com';
+const KID = 'test-key';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signJwt(privateKey: KeyObject, claims: Record<string, unknown>, kid = KID): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: 'RS256', kid, typ: 'JWT' });
+  const payload = encode({
+    iss: 'https://accounts.google.com',
+    aud: AUDIENCE,
+    sub: '1234',
+    email: SERVICE_ACCOUNT,
+    email_verified: true,
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  });
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+function createApp() {
+  const app = new Hono();
+  app.use('/webhooks/gmail/*', gmailAuth);
+  app.post('/webhooks/gmail', (c) => c.json({ success: true }));
+  app.get('/webhooks/gmail/health', (c) => c.json({ status: 'ok' }));
+  return app;
+}
+
+const push = (app: Hono, headers: Record<string, string> = {}, query = '') =>
+  app.request(`/webhooks/gmail${query}`, { method: 'POST', headers, body: '{}' });
+
+describe('gmailAuth', () => {
+  const ENV_KEYS = [
+    'GMAIL_PUBSUB_AUDIENCE',
+    'GMAIL_PUBSUB_SERVICE_ACCOUNT',
+    'GMAIL_PUBSUB_JWKS_FILE',
+    'GMAIL_PUBSUB_VERIFICATION_TOKEN',
+  ];
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+  let dir: string;
+  let jwksFile: string;
+  const app = createApp();
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gmail-auth-'));
+    jwksFile = join(dir, 'jwks.json');
+    const jwk = publicKey.export({ format: 'jwk' });
+    writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...jwk, kid: KID, alg: 'RS256' }] }));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) delete process.env[key];
+  });
+
+  describe('OIDC mode', () => {
+    beforeEach(() => {
+      process.env.GMAIL_PUBSUB_AUDIENCE = AUDIENCE;
+      process.env.GMAIL_PUBSUB_SERVICE_ACCOUNT = SERVICE_ACCOUNT;
+      process.env.GMAIL_PUBSUB_JWKS_FILE = jwksFile;
+    });
+
+    test('accepts a valid Google-signed token', async () => {
+      const res = await push(app, { Authorization: `Bearer ${signJwt(privateKey, {})}` });
+      expect(res.status).toBe(200);
+    });
+
+    test('rejects a missing token', async () => {
+      const res = await push(app);
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as { reason: string }).reason).toBe('missing_token');
+    });
+
+    test.each([
+      ['invalid_signature', () => signJwt(otherKey, {})],
+      ['unknown_key', () => signJwt(privateKey, {}, 'rotated-away')],
+      ['invalid_audience', () => signJwt(privateKey, { aud: 'https://evil.example.com' })],
+      ['invalid_issuer', () => signJwt(privateKey, { iss: 'https://evil.example.com' })],
+      ['token_expired', () => signJwt(privateKey, { exp: Math.floor(Date.now() / 1000) - 600 })],
+      ['invalid_email', () => signJwt(privateKey, { email: 'someone@example.com' })],
+      ['malformed_token', () => 'not-a-jwt'],
+    ])('rejects %s', async (reason, makeToken) => {
+      const res = await push(app, { Authorization: `Bearer ${makeToken()}` });
+      expect(res.status).toBe(401);
+      expect(((await res.json()) as { reason: string }).reason).toBe(reason);
+    });
+
+    test('ignores the shared secret', async () => {
+      process.env.GMAIL_PUBSUB_VERIFICATION_TOKEN = 'secret';
+      const res = await push(app, {}, '?token=secret');
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('shared secret mode', () => {
+    beforeEach(() => {
+      process.env.GMAIL_PUBSUB_VERIFICATION_TOKEN = 'secret';
+    });
+
+    test('accepts the secret in the push URL', async () => {
+      const res = await push(app, {}, '?token=secret');
+      expect(res.status).toBe(200);
+    });
+
+    test('rejects a wrong or missing secret', async () => {
+      expect((await push(app, {}, '?token=wrong')).status).toBe(401);
+      expect((await push(app)).status).toBe(401);
+    });
+  });
+
+  test('rejects every push when nothing is configured', async () => {
+    const res = await push(app);
+    expect(res.status).toBe(500);
+  });
+
+  test('does not authenticate the health check', async () => {
+    const res = await app.request('/webhooks/gmail/health');
+    expect(res.status).toBe(200);
+  });
+
+  test('counts rejections per reason', async () => {
+    const before = getGmailAuthRejections().not_configured ?? 0;
+    await push(app);
+    expect(getGmailAuthRejections().not_configured).toBe(before + 1);
+  });
+});
@@ -1,33 +1,88 @@
-import type { MiddlewareHandler } from 'hono';
+import { timingSafeEqual } from 'node:crypto';
+import type { Context, MiddlewareHandler } from 'hono';
+import { GoogleOidcVerifier } from '@/lib/google-oidc';
 
 /**
  * Middleware to verify Google Cloud Pub/Sub push subscription messages
  *
- * Google Cloud Pub/Sub can optionally send a verification token in headers.
- * For production, you should verify the message signature using the
- * X-Goog-Signature header and your Pub/Sub subscription secret.
+ * Two modes, picked by environment:
+ * - OIDC (recommended): with GMAIL_PUBSUB_AUDIENCE set, the push must carry a Google-signed
+ *   ID token (`Authorization: Bearer <jwt>`) for that audience. Set
+ *   GMAIL_PUBSUB_SERVICE_ACCOUNT to also require the push service account's email, and
+ *   GMAIL_PUBSUB_JWKS_FILE to load signing keys from a local file instead of Google.
+ * - Shared secret: otherwise, with GMAIL_PUBSUB_VERIFICATION_TOKEN set, the push URL must
+ *   include it as `?token=...`.
+ *
+ * With neither configured every push is rejected. Rejections are logged and counted per reason
+ * (see getGmailAuthRejections). The health check is not authenticated.
+ */
+
+const rejectionCounts: Record<string, number> = {};
+
+/**
+ * Number of rejected pushes per reason since the process started
  */
+export const getGmailAuthRejections = (): Record<string, number> => ({ ...rejectionCounts });
+
+let cachedVerifier: { config: string; verifier: GoogleOidcVerifier } | null = null;
+
+function getVerifier(audience: string): GoogleOidcVerifier {
+  const options = {
+    audience,
+    email: process.env.GMAIL_PUBSUB_SERVICE_ACCOUNT || undefined,
+    jwksFile: process.env.GMAIL_PUBSUB_JWKS_FILE || undefined,
+  };
+  const config = JSON.stringify(options);
+  if (cachedVerifier?.config !== config) {
+    cachedVerifier = { config, verifier: new GoogleOidcVerifier(options) };
+  }
+  return cachedVerifier.verifier;
+}
+
+function reject(c: Context, reason: string, status: 401 | 500 = 401) {
+  rejectionCounts[reason] = (rejectionCounts[reason] ?? 0) + 1;
+  console.warn(
+    `Rejected Gmail Pub/Sub push (${reason}, total ${rejectionCounts[reason]}) from ${
+      c.req.header('x-forwarded-for') ?? 'unknown'
+    }`
+  );
+  return c.json({ error: 'Unauthorized Pub/Sub push', reason }, status);
+}
+
+const tokensMatch = (provided: string, expected: string) => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
 export const gmailAuth: MiddlewareHandler = async (c, next) => {
-  // Check for Pub/Sub verification token (optional, for initial subscription verification)
-  const verificationToken = c.req.header('x-verification-token');
+  if (c.req.method === 'GET' && c.req.path.endsWith('/health')) {
+    return next();
+  }
+
+  const audience = process.env.GMAIL_PUBSUB_AUDIENCE;
   const expectedToken = process.env.GMAIL_PUBSUB_VERIFICATION_TOKEN;
 
-  if (verificationToken && expectedToken && verificationToken !== expectedToken) {
-    return c.json({ error: 'Invalid verification token' }, 401);
-  }
+  if (audience) {
+    const authHeader = c.req.header('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return reject(c, 'missing_token');
+    }
 
-  // For production, you should verify the message signature
-  // This is a simplified version - you may want to implement full signature verification
-  const signature = c.req.header('x-goog-signature');
-  const pubsubSecret = process.env.GMAIL_PUBSUB_SECRET;
-
-  if (pubsubSecret && signature) {
-    // In production, verify the signature here
-    // For now, we'll just check if the secret is configured
-    // Full signature verification would involve:
-    // 1. Getting the raw request body
-    // 2. Computing HMAC-SHA1 with the secret
-    // 3. Comparing with the signature header
+    const result = await getVerifier(audience).verify(authHeader.slice('Bearer '.length));
+    if (!result.valid) {
+      return reject(c, result.reason);
+    }
+  } else if (expectedToken) {
+    const token = c.req.query('token');
+    if (!token) {
+      return reject(c, 'missing_token');
+    }
+    if (!tokensMatch(token, expectedToken)) {
+      return reject(c, 'invalid_token');
+    }
+  } else {
+    return reject(c, 'not_configured', 500);
   }
 
   await next();
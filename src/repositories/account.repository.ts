@@ -0,0 +1,252 @@
+import { and, asc, desc, eq, getTableColumns, isNull, lt, or, type SQL, sql } from 'drizzle-orm';
+import {
+  type Account,
+  accounts,
+  categories,
+  type NewAccount,
+  type Transaction,
+  transactions,
+} from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface AccountWithBalance extends Account {
+  balance: number; // opening balance plus linked confirmed transactions
+  transactionCount: number;
+  lastTransactionAt: Date | null;
+}
+
+export interface LedgerEntry extends Omit<Transaction, 'rawEmailContent' | 'aiExtractedData'> {
+  category: { id: string; name: string; icon: string | null } | null;
+  runningBalance: number; // account balance after the transaction
+}
+
+/** Amount a transaction adds to its account's balance */
+const signedAmount = sql`CASE WHEN ${transactions.type} = 'credit' THEN ${transactions.amount} ELSE -${transactions.amount} END`;
+
+/** When a transaction happened; undated transactions count when they were recorded */
+const occurredAt = sql`coalesce(${transactions.transactionDate}, ${transactions.createdAt})`;
+
+/**
+ * Transactions counted in an account's balance: linked, confirmed, not deleted and in the account's
+ * currency (transactions without a currency are taken to be in it)
+ */
+function balanceConditions(accountId: SQL | string, currency: SQL | string): SQL {
+  return sql`${transactions.accountId} = ${accountId} AND ${transactions.status} = 'confirmed' AND ${transactions.deletedAt} IS NULL AND coalesce(${transactions.currency}, ${currency}) = ${currency}`;
+}
+
+export class AccountRepository extends BaseRepository {
+  /**
+   * Find all accounts for a user, by bank
+   */
+  async findAllForUser(userId: string): Promise<Account[]> {
+    return this.db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(asc(accounts.bankName), asc(accounts.createdAt));
+  }
+
+  /**
+   * Find all accounts for a user with their current balance, by bank
+   */
+  async findAllWithBalances(userId: string): Promise<AccountWithBalance[]> {
+    const result = await this.db
+      .select({
+        ...getTableColumns(accounts),
+        movement: sql<string>`COALESCE(SUM(${signedAmount}), 0)`,
+        transactionCount: sql<number>`count(${transactions.id})`,
+        lastTransactionAt: sql<string | null>`max(${occurredAt})`,
+      })
+      .from(accounts)
+      .leftJoin(transactions, balanceConditions(sql`${accounts.id}`, sql`${accounts.currency}`))
+      .where(eq(accounts.userId, userId))
+      .groupBy(accounts.id)
+      .orderBy(asc(accounts.bankName), asc(accounts.createdAt));
+
+    return result.map(({ movement, ...row }) => ({
+      ...row,
+      balance: Number.parseFloat(row.openingBalance) + Number.parseFloat(movement),
+      transactionCount: Number(row.transactionCount),
+      lastTransactionAt: row.lastTransactionAt ? new Date(row.lastTransactionAt) : null,
+    }));
+  }
+
+  /**
+   * Find a user's account by ID
+   */
+  async findById(id: string, userId: string): Promise<Account | null> {
+    const result = await this.db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new account
+   */
+  async create(data: NewAccount): Promise<Account> {
+    const result = await this.db.insert(accounts).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a user's account
+   */
+  async update(
+    id: string,
+    userId: string,
+    data: Partial<
+      Pick<
+        NewAccount,
+        'bankName' | 'accountNumber' | 'type' | 'nickname' | 'currency' | 'openingBalance'
+      >
+    >
+  ): Promise<Account | null> {
+    const result = await this.db
+      .update(accounts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Delete a user's account. Its transactions keep their bank name and number but lose the link.
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Record the balance a bank stated at `at`, unless a later one is already recorded
+   */
+  async updateReportedBalance(id: string, balance: number, at: Date): Promise<void> {
+    await this.db
+      .update(accounts)
+      .set({ reportedBalance: balance.toFixed(2), reportedBalanceAt: at, updatedAt: new Date() })
+      .where(
+        and(
+          eq(accounts.id, id),
+          or(isNull(accounts.reportedBalanceAt), lt(accounts.reportedBalanceAt, at))
+        )
+      );
+  }
+
+  /**
+   * An account's transactions counted in its balance, latest first, each with the balance after it
+   */
+  async findLedger(account: Account, limit = 50, offset = 0): Promise<LedgerEntry[]> {
+    const ledger = this.db
+      .select({
+        id: transactions.id,
+        userId: transactions.userId,
+        categoryId: transactions.categoryId,
+        categoryRuleId: transactions.categoryRuleId,
+        amount: transactions.amount,
+        type: transactions.type,
+        currency: transactions.currency,
+        merchant: transactions.merchant,
+        merchantId: transactions.merchantId,
+        accountNumber: transactions.accountNumber,
+        bankName: transactions.bankName,
+        accountId: transactions.accountId,
+        transactionDate: transactions.transactionDate,
+        remarks: transactions.remarks,
+        emailId: transactions.emailId,
+        mailbox: transactions.mailbox,
+        aiConfidence: transactions.aiConfidence,
+        isAiCreated: transactions.isAiCreated,
+        status: transactions.status,
+        transferPeerId: transactions.transferPeerId,
+        createdAt: transactions.createdAt,
+        updatedAt: transactions.updatedAt,
+        deletedAt: transactions.deletedAt,
+        categoryName: sql<string | null>`${categories.name}`.as('category_name'),
+        categoryIcon: sql<string | null>`${categories.icon}`.as('category_icon'),
+        occurredAt: sql<Date>`${occurredAt}`.as('occurred_at'),
+        runningBalance:
+          sql<string>`${account.openingBalance}::numeric + SUM(${signedAmount}) OVER (ORDER BY ${occurredAt}, ${transactions.id})`.as(
+            'running_balance'
+          ),
+      })
+      .from(transactions)
+      .leftJoin(categories, eq(transactions.categoryId, categories.id))
+      .where(balanceConditions(account.id, account.currency))
+      .as('ledger');
+
+    const result = await this.db
+      .select()
+      .from(ledger)
+      .orderBy(desc(ledger.occurredAt), desc(ledger.id))
+      .limit(limit)
+      .offset(offset);
+
+    return result.map(
+      ({ occurredAt: _occurredAt, categoryName, categoryIcon, runningBalance, ...txn }) => ({
+        ...txn,
+        category:
+          txn.categoryId && categoryName !== null
+            ? { id: txn.categoryId, name: categoryName, icon: categoryIcon }
+            : null,
+        runningBalance: Number.parseFloat(runningBalance),
+      })
+    );
+  }
+
+  /**
+   * Distinct bank name and account number pairs of the user's transactions not linked to an
+   * account yet
+   */
+  async findUnlinkedAccountKeys(
+    userId: string
+  ): Promise<{ bankName: string | null; accountNumber: string | null }[]> {
+    return this.db
+      .selectDistinct({
+        bankName: transactions.bankName,
+        accountNumber: transactions.accountNumber,
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNull(transactions.accountId),
+          isNull(transactions.deletedAt)
+        )
+      );
+  }
+
+  /**
+   * Link the user's unlinked transactions with the bank name and account number to an account.
+   * Returns the number of transactions linked.
+   */
+  async linkTransactions(
+    userId: string,
+    accountId: string,
+    key: { bankName: string | null; accountNumber: string | null }
+  ): Promise<number> {
+    const result = await this.db
+      .update(transactions)
+      .set({ accountId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNull(transactions.accountId),
+          isNull(transactions.deletedAt),
+          key.bankName === null
+            ? isNull(transactions.bankName)
+            : eq(transactions.bankName, key.bankName),
+          key.accountNumber === null
+            ? isNull(transactions.accountNumber)
+            : eq(transactions.accountNumber, key.accountNumber)
+        )
+      )
+      .returning({ id: transactions.id });
+    return result.length;
+  }
+}
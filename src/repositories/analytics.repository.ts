@@ -0,0 +1,250 @@
+import { and, eq, isNull, type SQL, sql } from 'drizzle-orm';
+import { categories, merchants, transactionSplits, transactions } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+import { baseAmountSql } from './exchange-rate.repository';
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface AnalyticsRange {
+  startDate: Date; // inclusive
+  endDate: Date; // exclusive
+}
+
+/**
+ * Options shared by the analytics queries. Amounts are converted to `baseCurrency`;
+ * transactions without a known rate are left out and counted in `unconvertedCount`.
+ */
+export interface AnalyticsOptions {
+  type: 'debit' | 'credit';
+  baseCurrency: string;
+}
+
+export interface AnalyticsGroupTotal {
+  total: number;
+  count: number;
+}
+
+export interface CategoryTotal extends AnalyticsGroupTotal {
+  categoryId: string | null;
+  name: string | null;
+  icon: string | null;
+}
+
+export interface MerchantTotal extends AnalyticsGroupTotal {
+  merchantId: string | null; // null for transactions not linked to the merchant directory
+  merchant: string | null;
+  logo: string | null;
+}
+
+export interface AccountTotal extends AnalyticsGroupTotal {
+  bankName: string | null;
+  accountNumber: string | null;
+}
+
+export interface TimeSeriesBucket {
+  bucket: string; // YYYY-MM-DD local start of the bucket
+  debit: number;
+  credit: number;
+  count: number;
+}
+
+/** When a transaction happened; undated transactions count when they were recorded */
+const occurredAt = sql`coalesce(${transactions.transactionDate}, ${transactions.createdAt})`;
+
+/**
+ * WHERE conditions for the transactions counted in analytics: confirmed, not deleted, not
+ * transfers between the user's own accounts, in the range
+ */
+function analyticsConditions(userId: string, range: AnalyticsRange): SQL[] {
+  return [
+    eq(transactions.userId, userId),
+    eq(transactions.status, 'confirmed'),
+    isNull(transactions.deletedAt),
+    isNull(transactions.transferPeerId),
+    sql`${occurredAt} >= ${range.startDate}`,
+    sql`${occurredAt} < ${range.endDate}`,
+  ];
+}
+
+/**
+ * Spending and income aggregations for charts, computed in SQL
+ */
+export class AnalyticsRepository extends BaseRepository {
+  /**
+   * Totals per category, largest first. Split transactions count each split in its category.
+   */
+  async totalsByCategory(
+    userId: string,
+    range: AnalyticsRange,
+    options: AnalyticsOptions
+  ): Promise<{ groups: CategoryTotal[]; unconvertedCount: number }> {
+    const categoryId = sql<
+      string | null
+    >`CASE WHEN ${transactionSplits.id} IS NULL THEN ${transactions.categoryId} ELSE ${transactionSplits.categoryId} END`;
+    const baseAmount = baseAmountSql(
+      userId,
+      options.baseCurrency,
+      sql`coalesce(${transactionSplits.amount}, ${transactions.amount})`
+    );
+    const total = sql<string>`COALESCE(SUM(${baseAmount}), 0)`;
+    const conditions = [...analyticsConditions(userId, range), eq(transactions.type, options.type)];
+
+    const [rows, unconverted] = await Promise.all([
+      this.db
+        .select({
+          categoryId,
+          name: categories.name,
+          icon: categories.icon,
+          total,
+          count: sql<number>`count(DISTINCT ${transactions.id})`,
+        })
+        .from(transactions)
+        .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
+        .leftJoin(categories, eq(categories.id, categoryId))
+        .where(and(...conditions))
+        .groupBy(categoryId, categories.name, categories.icon)
+        .orderBy(sql`${total} DESC`),
+      this.countUnconverted(conditions, baseAmountSql(userId, options.baseCurrency)),
+    ]);
+
+    return {
+      groups: rows.map((row) => ({
+        ...row,
+        total: Number.parseFloat(row.total),
+        count: Number(row.count),
+      })),
+      unconvertedCount: unconverted,
+    };
+  }
+
+  /**
+   * Totals per merchant in the merchant directory, largest first. Transactions not linked to a
+   * merchant are grouped by merchant name, compared case-insensitively.
+   */
+  async totalsByMerchant(
+    userId: string,
+    range: AnalyticsRange,
+    options: AnalyticsOptions
+  ): Promise<{ groups: MerchantTotal[]; unconvertedCount: number }> {
+    const merchantKey = sql`coalesce(${transactions.merchantId}, lower(trim(${transactions.merchant})))`;
+    const baseAmount = baseAmountSql(userId, options.baseCurrency);
+    const total = sql<string>`COALESCE(SUM(${baseAmount}), 0)`;
+    const conditions = [...analyticsConditions(userId, range), eq(transactions.type, options.type)];
+
+    const [rows, unconverted] = await Promise.all([
+      this.db
+        .select({
+          merchantId: sql<string | null>`max(${transactions.merchantId})`,
+          merchant: sql<
+            string | null
+          >`coalesce(max(${merchants.name}), max(trim(${transactions.merchant})))`,
+          logo: sql<string | null>`max(${merchants.logo})`,
+          total,
+          count: sql<number>`count(*)`,
+        })
+        .from(transactions)
+        .leftJoin(merchants, eq(merchants.id, transactions.merchantId))
+        .where(and(...conditions))
+        .groupBy(merchantKey)
+        .orderBy(sql`${total} DESC`),
+      this.countUnconverted(conditions, baseAmount),
+    ]);
+
+    return {
+      groups: rows.map((row) => ({
+        ...row,
+        total: Number.parseFloat(row.total),
+        count: Number(row.count),
+      })),
+      unconvertedCount: unconverted,
+    };
+  }
+
+  /**
+   * Totals per bank account (bank name and account number), largest first
+   */
+  async totalsByAccount(
+    userId: string,
+    range: AnalyticsRange,
+    options: AnalyticsOptions
+  ): Promise<{ groups: AccountTotal[]; unconvertedCount: number }> {
+    const baseAmount = baseAmountSql(userId, options.baseCurrency);
+    const total = sql<string>`COALESCE(SUM(${baseAmount}), 0)`;
+    const conditions = [...analyticsConditions(userId, range), eq(transactions.type, options.type)];
+
+    const [rows, unconverted] = await Promise.all([
+      this.db
+        .select({
+          bankName: transactions.bankName,
+          accountNumber: transactions.accountNumber,
+          total,
+          count: sql<number>`count(*)`,
+        })
+        .from(transactions)
+        .where(and(...conditions))
+        .groupBy(transactions.bankName, transactions.accountNumber)
+        .orderBy(sql`${total} DESC`),
+      this.countUnconverted(conditions, baseAmount),
+    ]);
+
+    return {
+      groups: rows.map((row) => ({
+        ...row,
+        total: Number.parseFloat(row.total),
+        count: Number(row.count),
+      })),
+      unconvertedCount: unconverted,
+    };
+  }
+
+  /**
+   * Debit and credit totals per day, week (starting Monday) or month in `timezone`, oldest first.
+   * Only buckets with transactions are returned.
+   */
+  async timeSeries(
+    userId: string,
+    range: AnalyticsRange,
+    interval: AnalyticsInterval,
+    timezone: string,
+    baseCurrency: string
+  ): Promise<{ buckets: TimeSeriesBucket[]; unconvertedCount: number }> {
+    const baseAmount = baseAmountSql(userId, baseCurrency);
+    const bucket = sql<string>`to_char(date_trunc(${interval}, ${occurredAt} AT TIME ZONE ${timezone}), 'YYYY-MM-DD')`;
+    const conditions = analyticsConditions(userId, range);
+
+    const [rows, unconverted] = await Promise.all([
+      this.db
+        .select({
+          bucket,
+          debit: sql<string>`COALESCE(SUM(${baseAmount}) FILTER (WHERE ${transactions.type} = 'debit'), 0)`,
+          credit: sql<string>`COALESCE(SUM(${baseAmount}) FILTER (WHERE ${transactions.type} = 'credit'), 0)`,
+          count: sql<number>`count(*)`,
+        })
+        .from(transactions)
+        .where(and(...conditions))
+        // By position: with the interval and timezone bound as parameters, Postgres would not
+        // see a repeated bucket expression as the selected one
+        .groupBy(sql`1`)
+        .orderBy(sql`1`),
+      this.countUnconverted(conditions, baseAmount),
+    ]);
+
+    return {
+      buckets: rows.map((row) => ({
+        bucket: row.bucket,
+        debit: Number.parseFloat(row.debit),
+        credit: Number.parseFloat(row.credit),
+        count: Number(row.count),
+      })),
+      unconvertedCount: unconverted,
+    };
+  }
+
+  private async countUnconverted(conditions: SQL[], baseAmount: SQL): Promise<number> {
+    const result = await this.db
+      .select({ count: sql<number>`count(*) FILTER (WHERE ${baseAmount} IS NULL)` })
+      .from(transactions)
+      .where(and(...conditions));
+    return Number(result[0]?.count || 0);
+  }
+}
@@ -0,0 +1,73 @@
+import { and, eq } from 'drizzle-orm';
+import { type Budget, budgets, type NewBudget } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export class BudgetRepository extends BaseRepository {
+  /**
+   * Find all budgets for a user, oldest first
+   */
+  async findAllForUser(userId: string): Promise<Budget[]> {
+    return this.db
+      .select()
+      .from(budgets)
+      .where(eq(budgets.userId, userId))
+      .orderBy(budgets.createdAt);
+  }
+
+  /**
+   * Find a user's budgets for a category (one per period at most)
+   */
+  async findForCategory(userId: string, categoryId: string): Promise<Budget[]> {
+    return this.db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.userId, userId), eq(budgets.categoryId, categoryId)));
+  }
+
+  /**
+   * Find a user's budget by ID
+   */
+  async findById(id: string, userId: string): Promise<Budget | null> {
+    const result = await this.db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new budget
+   */
+  async create(data: NewBudget): Promise<Budget> {
+    const result = await this.db.insert(budgets).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a user's budget
+   */
+  async update(
+    id: string,
+    userId: string,
+    data: Partial<Pick<NewBudget, 'categoryId' | 'period' | 'amount' | 'rollover'>>
+  ): Promise<Budget | null> {
+    const result = await this.db
+      .update(budgets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Delete a user's budget
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+}
@@ -0,0 +1,114 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import {
+  type CategoryMemory,
+  categories,
+  categoryMemories,
+  type NewCategoryMemory,
+} from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface CategoryMemoryWithCategory extends CategoryMemory {
+  category: { id: string; name: string; icon: string | null } | null;
+}
+
+export class CategoryMemoryRepository extends BaseRepository {
+  /**
+   * Find a user's memories with category info, most recently updated first
+   */
+  async findAllForUser(userId: string, limit?: number): Promise<CategoryMemoryWithCategory[]> {
+    const query = this.db
+      .select({
+        id: categoryMemories.id,
+        userId: categoryMemories.userId,
+        categoryId: categoryMemories.categoryId,
+        matchField: categoryMemories.matchField,
+        matchKey: categoryMemories.matchKey,
+        merchant: categoryMemories.merchant,
+        remarks: categoryMemories.remarks,
+        correctionCount: categoryMemories.correctionCount,
+        appliedCount: categoryMemories.appliedCount,
+        lastAppliedAt: categoryMemories.lastAppliedAt,
+        createdAt: categoryMemories.createdAt,
+        updatedAt: categoryMemories.updatedAt,
+        category: {
+          id: categories.id,
+          name: categories.name,
+          icon: categories.icon,
+        },
+      })
+      .from(categoryMemories)
+      .leftJoin(categories, eq(categoryMemories.categoryId, categories.id))
+      .where(eq(categoryMemories.userId, userId))
+      .orderBy(desc(categoryMemories.updatedAt));
+
+    const result = limit ? await query.limit(limit) : await query;
+    return result as CategoryMemoryWithCategory[];
+  }
+
+  /**
+   * Find a user's memory by match field and normalized key
+   */
+  async findByKey(
+    userId: string,
+    matchField: 'merchant' | 'remarks',
+    matchKey: string
+  ): Promise<CategoryMemory | null> {
+    const result = await this.db
+      .select()
+      .from(categoryMemories)
+      .where(
+        and(
+          eq(categoryMemories.userId, userId),
+          eq(categoryMemories.matchField, matchField),
+          eq(categoryMemories.matchKey, matchKey)
+        )
+      )
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a memory, or point an existing one (same user, field and key) at the new category
+   */
+  async upsert(data: NewCategoryMemory): Promise<CategoryMemory> {
+    const result = await this.db
+      .insert(categoryMemories)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [categoryMemories.userId, categoryMemories.matchField, categoryMemories.matchKey],
+        set: {
+          categoryId: data.categoryId,
+          merchant: data.merchant,
+          remarks: data.remarks,
+          correctionCount: sql`${categoryMemories.correctionCount} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  /**
+   * Delete a user's memory
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(categoryMemories)
+      .where(and(eq(categoryMemories.id, id), eq(categoryMemories.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Record that a memory categorized a transaction
+   */
+  async recordApplied(id: string): Promise<void> {
+    await this.db
+      .update(categoryMemories)
+      .set({
+        appliedCount: sql`${categoryMemories.appliedCount} + 1`,
+        lastAppliedAt: new Date(),
+      })
+      .where(eq(categoryMemories.id, id));
+  }
+}
@@ -0,0 +1,92 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { type CategoryRule, categoryRules, type NewCategoryRule } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export class CategoryRuleRepository extends BaseRepository {
+  /**
+   * Find all rules for a user, in evaluation order (highest priority first, oldest first on ties)
+   */
+  async findAllForUser(userId: string): Promise<CategoryRule[]> {
+    return this.db
+      .select()
+      .from(categoryRules)
+      .where(eq(categoryRules.userId, userId))
+      .orderBy(desc(categoryRules.priority), categoryRules.createdAt);
+  }
+
+  /**
+   * Find active rules for a user, in evaluation order
+   */
+  async findActiveForUser(userId: string): Promise<CategoryRule[]> {
+    return this.db
+      .select()
+      .from(categoryRules)
+      .where(and(eq(categoryRules.userId, userId), eq(categoryRules.isActive, true)))
+      .orderBy(desc(categoryRules.priority), categoryRules.createdAt);
+  }
+
+  /**
+   * Find a user's rule by ID
+   */
+  async findById(id: string, userId: string): Promise<CategoryRule | null> {
+    const result = await this.db
+      .select()
+      .from(categoryRules)
+      .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new rule
+   */
+  async create(data: NewCategoryRule): Promise<CategoryRule> {
+    const result = await this.db.insert(categoryRules).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a user's rule
+   */
+  async update(
+    id: string,
+    userId: string,
+    data: Partial<
+      Pick<
+        NewCategoryRule,
+        'categoryId' | 'field' | 'matchType' | 'pattern' | 'priority' | 'isActive'
+      >
+    >
+  ): Promise<CategoryRule | null> {
+    const result = await this.db
+      .update(categoryRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Delete a user's rule
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(categoryRules)
+      .where(and(eq(categoryRules.id, id), eq(categoryRules.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Record that a rule categorized a transaction
+   */
+  async recordHit(id: string): Promise<void> {
+    await this.db
+      .update(categoryRules)
+      .set({
+        hitCount: sql`${categoryRules.hitCount} + 1`,
+        lastMatchedAt: new Date(),
+      })
+      .where(eq(categoryRules.id, id));
+  }
+}
@@ -0,0 +1,127 @@
+import { and, count, desc, eq, gte, isNotNull, lt, type SQL, sql } from 'drizzle-orm';
+import { type EmailIngestion, emailIngestions, type NewEmailIngestion } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface EmailIngestionFilters {
+  accountId?: string;
+  outcome?: string;
+  isTransaction?: boolean;
+  startDate?: Date; // latest run at or after
+  endDate?: Date; // latest run before
+  limit?: number;
+  offset?: number;
+}
+
+export class EmailIngestionRepository extends BaseRepository {
+  /**
+   * Find a user's ingestions, most recently run first
+   */
+  async findAllForUser(
+    userId: string,
+    filters: EmailIngestionFilters = {}
+  ): Promise<{ ingestions: EmailIngestion[]; total: number }> {
+    const conditions: SQL[] = [eq(emailIngestions.userId, userId)];
+    if (filters.accountId) {
+      conditions.push(eq(emailIngestions.accountId, filters.accountId));
+    }
+    if (filters.outcome) {
+      conditions.push(eq(emailIngestions.outcome, filters.outcome));
+    }
+    if (filters.isTransaction !== undefined) {
+      conditions.push(eq(emailIngestions.isTransaction, filters.isTransaction));
+    }
+    if (filters.startDate) {
+      conditions.push(gte(emailIngestions.updatedAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lt(emailIngestions.updatedAt, filters.endDate));
+    }
+    const where = and(...conditions);
+
+    const ingestions = await this.db
+      .select()
+      .from(emailIngestions)
+      .where(where)
+      .orderBy(desc(emailIngestions.updatedAt))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+    const [{ total }] = await this.db.select({ total: count() }).from(emailIngestions).where(where);
+
+    return { ingestions, total };
+  }
+
+  /**
+   * Find a user's ingestion by ID
+   */
+  async findById(id: string, userId: string): Promise<EmailIngestion | null> {
+    const result = await this.db
+      .select()
+      .from(emailIngestions)
+      .where(and(eq(emailIngestions.id, id), eq(emailIngestions.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find a user's ingestion of a Gmail message
+   */
+  async findByMessageId(userId: string, messageId: string): Promise<EmailIngestion | null> {
+    const result = await this.db
+      .select()
+      .from(emailIngestions)
+      .where(and(eq(emailIngestions.userId, userId), eq(emailIngestions.messageId, messageId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Count a user's extracted emails per extractor (bank parser ID or 'ai'), by latest run
+   */
+  async countByExtractor(
+    userId: string,
+    range: { startDate?: Date; endDate?: Date } = {}
+  ): Promise<{ extractor: string; count: number; transactionCount: number }[]> {
+    const conditions: SQL[] = [
+      eq(emailIngestions.userId, userId),
+      isNotNull(emailIngestions.extractedBy),
+    ];
+    if (range.startDate) {
+      conditions.push(gte(emailIngestions.updatedAt, range.startDate));
+    }
+    if (range.endDate) {
+      conditions.push(lt(emailIngestions.updatedAt, range.endDate));
+    }
+
+    const rows = await this.db
+      .select({
+        extractor: emailIngestions.extractedBy,
+        count: count(),
+        transactionCount: count(emailIngestions.transactionId),
+      })
+      .from(emailIngestions)
+      .where(and(...conditions))
+      .groupBy(emailIngestions.extractedBy)
+      .orderBy(desc(count()));
+
+    return rows.map((row) => ({ ...row, extractor: row.extractor ?? 'ai' }));
+  }
+
+  /**
+   * Record a run of a message through the pipeline, replacing the previous run's details
+   */
+  async record(data: Omit<NewEmailIngestion, 'id' | 'runCount'>): Promise<EmailIngestion> {
+    const result = await this.db
+      .insert(emailIngestions)
+      .values({ id: crypto.randomUUID(), ...data })
+      .onConflictDoUpdate({
+        target: [emailIngestions.userId, emailIngestions.messageId],
+        set: {
+          ...data,
+          runCount: sql`${emailIngestions.runCount} + 1`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+}
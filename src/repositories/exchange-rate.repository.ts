@@ -0,0 +1,83 @@
+import { and, desc, eq, isNull, or, type SQL, sql } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { type ExchangeRate, exchangeRates, type NewExchangeRate, transactions } from '@/db/schema';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { BaseRepository } from './base.repository';
+
+/**
+ * SQL expression for a transaction's amount converted to `baseCurrency`.
+ * Evaluates to NULL when no exchange rate is known for the transaction's currency.
+ * `amount` overrides the amount converted (e.g. a split of the transaction), in its currency.
+ *
+ * Must be used in a query selecting from `transactions`.
+ * Rate selection mirrors `createCurrencyConverter()` in lib/currency.ts.
+ */
+export function baseAmountSql(
+  userId: string,
+  baseCurrency: string,
+  amount: SQL | AnyPgColumn = transactions.amount
+): SQL<string | null> {
+  const currency = sql`COALESCE(${transactions.currency}, ${DEFAULT_CURRENCY})`;
+  const txnDate = sql`COALESCE(${transactions.transactionDate}, ${transactions.createdAt})`;
+
+  return sql<
+    string | null
+  >`CASE WHEN ${currency} = ${baseCurrency} THEN ${amount} ELSE ${amount} * (
+    SELECT CASE WHEN ${exchangeRates.fromCurrency} = ${baseCurrency} THEN 1 / ${exchangeRates.rate} ELSE ${exchangeRates.rate} END
+    FROM ${exchangeRates}
+    WHERE (${exchangeRates.userId} IS NULL OR ${exchangeRates.userId} = ${userId})
+      AND (
+        (${exchangeRates.fromCurrency} = ${currency} AND ${exchangeRates.toCurrency} = ${baseCurrency})
+        OR (${exchangeRates.fromCurrency} = ${baseCurrency} AND ${exchangeRates.toCurrency} = ${currency})
+      )
+    ORDER BY
+      CASE WHEN ${exchangeRates.effectiveDate} <= ${txnDate} THEN 0 ELSE 1 END,
+      ABS(EXTRACT(EPOCH FROM (${txnDate} - ${exchangeRates.effectiveDate}))),
+      (${exchangeRates.userId} IS NULL)
+    LIMIT 1
+  ) END`;
+}
+
+export class ExchangeRateRepository extends BaseRepository {
+  /**
+   * Find all rates usable by a user (shared + user's own), newest first
+   */
+  async findAllForUser(userId: string): Promise<ExchangeRate[]> {
+    return this.db
+      .select()
+      .from(exchangeRates)
+      .where(or(isNull(exchangeRates.userId), eq(exchangeRates.userId, userId)))
+      .orderBy(desc(exchangeRates.effectiveDate));
+  }
+
+  /**
+   * Find a rate by ID
+   */
+  async findById(id: string): Promise<ExchangeRate | null> {
+    const result = await this.db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.id, id))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new rate
+   */
+  async create(data: NewExchangeRate): Promise<ExchangeRate> {
+    const result = await this.db.insert(exchangeRates).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Delete a user's own rate (shared rates cannot be deleted through the API)
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(exchangeRates)
+      .where(and(eq(exchangeRates.id, id), eq(exchangeRates.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+}
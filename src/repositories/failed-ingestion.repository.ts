@@ -0,0 +1,104 @@
+import { and, desc, eq, ne, type SQL, sql } from 'drizzle-orm';
+import { type FailedIngestion, failedIngestions, type NewFailedIngestion } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface FailedIngestionFilters {
+  status?: string;
+  userId?: string;
+  limit?: number;
+}
+
+export class FailedIngestionRepository extends BaseRepository {
+  /**
+   * Find failed ingestions across users, most recently failed first
+   */
+  async findAll(filters: FailedIngestionFilters = {}): Promise<FailedIngestion[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(eq(failedIngestions.status, filters.status));
+    }
+    if (filters.userId) {
+      conditions.push(eq(failedIngestions.userId, filters.userId));
+    }
+
+    return this.db
+      .select()
+      .from(failedIngestions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(failedIngestions.updatedAt))
+      .limit(filters.limit ?? 50);
+  }
+
+  /**
+   * Find a failed ingestion by ID
+   */
+  async findById(id: string): Promise<FailedIngestion | null> {
+    const result = await this.db
+      .select()
+      .from(failedIngestions)
+      .where(eq(failedIngestions.id, id))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Record that a message's ingestion ran out of retries.
+   * A message that failed before (e.g. again after a replay) gets its row updated.
+   */
+  async recordFailure(
+    data: Pick<NewFailedIngestion, 'userId' | 'accountId' | 'source' | 'messageId' | 'error'> & {
+      attempts: number;
+    }
+  ): Promise<FailedIngestion> {
+    const result = await this.db
+      .insert(failedIngestions)
+      .values({ id: crypto.randomUUID(), ...data })
+      .onConflictDoUpdate({
+        target: [failedIngestions.userId, failedIngestions.source, failedIngestions.messageId],
+        set: {
+          accountId: data.accountId,
+          error: data.error,
+          attempts: data.attempts,
+          status: 'failed',
+          resolvedAt: null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  /**
+   * Mark a failed ingestion as being replayed
+   */
+  async markReplaying(id: string): Promise<FailedIngestion | null> {
+    const result = await this.db
+      .update(failedIngestions)
+      .set({
+        status: 'replaying',
+        replayCount: sql`${failedIngestions.replayCount} + 1`,
+        lastReplayedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(failedIngestions.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Mark a message's failed ingestion, if any, as resolved after it was ingested
+   */
+  async markResolved(userId: string, source: string, messageId: string): Promise<void> {
+    await this.db
+      .update(failedIngestions)
+      .set({ status: 'resolved', resolvedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(failedIngestions.userId, userId),
+          eq(failedIngestions.source, source),
+          eq(failedIngestions.messageId, messageId),
+          ne(failedIngestions.status, 'resolved')
+        )
+      );
+  }
+}
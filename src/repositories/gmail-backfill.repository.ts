@@ -0,0 +1,102 @@
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { type GmailBackfill, gmailBackfills, type NewGmailBackfill } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface GmailBackfillProgress {
+  messagesFound: number;
+  savedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  lastError?: string;
+}
+
+export class GmailBackfillRepository extends BaseRepository {
+  /**
+   * Find a backfill by ID
+   */
+  async findById(id: string): Promise<GmailBackfill | null> {
+    const result = await this.db
+      .select()
+      .from(gmailBackfills)
+      .where(eq(gmailBackfills.id, id))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find a user's most recent backfill, optionally for one Gmail account
+   */
+  async findLatestForUser(userId: string, accountId?: string): Promise<GmailBackfill | null> {
+    const conditions = [eq(gmailBackfills.userId, userId)];
+    if (accountId) {
+      conditions.push(eq(gmailBackfills.accountId, accountId));
+    }
+
+    const result = await this.db
+      .select()
+      .from(gmailBackfills)
+      .where(and(...conditions))
+      .orderBy(desc(gmailBackfills.createdAt))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find a Gmail account's queued or running backfill, if any
+   */
+  async findActiveForAccount(accountId: string): Promise<GmailBackfill | null> {
+    const result = await this.db
+      .select()
+      .from(gmailBackfills)
+      .where(
+        and(
+          eq(gmailBackfills.accountId, accountId),
+          inArray(gmailBackfills.status, ['queued', 'running'])
+        )
+      )
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new backfill
+   */
+  async create(data: NewGmailBackfill): Promise<GmailBackfill> {
+    const result = await this.db.insert(gmailBackfills).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a backfill
+   */
+  async update(
+    id: string,
+    data: Partial<
+      Pick<NewGmailBackfill, 'status' | 'query' | 'lastError' | 'startedAt' | 'completedAt'>
+    >
+  ): Promise<GmailBackfill | null> {
+    const result = await this.db
+      .update(gmailBackfills)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(gmailBackfills.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Add the counts of one processed page to a backfill's progress
+   */
+  async addProgress(id: string, progress: GmailBackfillProgress): Promise<void> {
+    await this.db
+      .update(gmailBackfills)
+      .set({
+        messagesFound: sql`${gmailBackfills.messagesFound} + ${progress.messagesFound}`,
+        savedCount: sql`${gmailBackfills.savedCount} + ${progress.savedCount}`,
+        skippedCount: sql`${gmailBackfills.skippedCount} + ${progress.skippedCount}`,
+        failedCount: sql`${gmailBackfills.failedCount} + ${progress.failedCount}`,
+        ...(progress.lastError ? { lastError: progress.lastError } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(gmailBackfills.id, id));
+  }
+}
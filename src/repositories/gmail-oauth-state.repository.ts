@@ -0,0 +1,35 @@
+import { and, eq, gt, lte } from 'drizzle-orm';
+import { type GmailOAuthState, gmailOAuthStates, type NewGmailOAuthState } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export class GmailOAuthStateRepository extends BaseRepository {
+  /**
+   * Create a new OAuth state
+   */
+  async create(data: NewGmailOAuthState): Promise<GmailOAuthState> {
+    const result = await this.db.insert(gmailOAuthStates).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Delete and return an unexpired state. A state can only be consumed once.
+   */
+  async consume(id: string, now: Date = new Date()): Promise<GmailOAuthState | null> {
+    const result = await this.db
+      .delete(gmailOAuthStates)
+      .where(and(eq(gmailOAuthStates.id, id), gt(gmailOAuthStates.expiresAt, now)))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Delete states whose authorization was never completed
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const result = await this.db
+      .delete(gmailOAuthStates)
+      .where(lte(gmailOAuthStates.expiresAt, now))
+      .returning({ id: gmailOAuthStates.id });
+    return result.length;
+  }
+}
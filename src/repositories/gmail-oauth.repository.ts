@@ -1,18 +1,59 @@
 import { and, eq } from 'drizzle-orm';
 import { type GmailOAuthToken, gmailOAuthTokens, type NewGmailOAuthToken } from '@/db/schema';
+import { decryptTokens, encryptTokens } from '@/lib/token-crypto';
 import { BaseRepository } from './base.repository';
 
+type GmailOAuthTokenUpdate = Partial<
+  Omit<NewGmailOAuthToken, 'id' | 'userId' | 'createdAt' | 'encryptedDataKey' | 'keyVersion'>
+>;
+
+/**
+ * Each row is one connected Gmail account; per-account settings (history ID, watch labels,
+ * sender filter) are read and written by the row (account) ID.
+ *
+ * Access and refresh tokens are encrypted on write and decrypted on read, so callers only
+ * ever see plaintext tokens. Rows written before encryption (null key version) are returned
+ * as stored until scripts/encrypt-oauth-tokens.ts has run.
+ */
 export class GmailOAuthRepository extends BaseRepository {
   /**
-   * Find token by user ID
+   * Find all Gmail accounts connected by a user, oldest first
    */
-  async findByUserId(userId: string): Promise<GmailOAuthToken | null> {
+  async findAllForUser(userId: string): Promise<GmailOAuthToken[]> {
     const result = await this.db
       .select()
       .from(gmailOAuthTokens)
       .where(eq(gmailOAuthTokens.userId, userId))
+      .orderBy(gmailOAuthTokens.createdAt);
+    return result.map((row) => this.decrypt(row));
+  }
+
+  /**
+   * Find a token (account) by ID, optionally only if it belongs to `userId`
+   */
+  async findById(id: string, userId?: string): Promise<GmailOAuthToken | null> {
+    const result = await this.db
+      .select()
+      .from(gmailOAuthTokens)
+      .where(
+        userId
+          ? and(eq(gmailOAuthTokens.id, id), eq(gmailOAuthTokens.userId, userId))
+          : eq(gmailOAuthTokens.id, id)
+      )
       .limit(1);
-    return result[0] || null;
+    return result[0] ? this.decrypt(result[0]) : null;
+  }
+
+  /**
+   * Find all tokens for an email address.
+   * Usually one, but the same inbox can be connected by more than one user.
+   */
+  async findAllByEmailAddress(emailAddress: string): Promise<GmailOAuthToken[]> {
+    const result = await this.db
+      .select()
+      .from(gmailOAuthTokens)
+      .where(eq(gmailOAuthTokens.emailAddress, emailAddress));
+    return result.map((row) => this.decrypt(row));
   }
 
   /**
@@ -39,7 +80,7 @@ export class GmailOAuthRepository extends BaseRepository {
       console.log(
         `findByEmailAddress: Query completed in ${Date.now() - startTime}ms, found: ${result.length > 0}`
       );
-      return result[0] || null;
+      return result[0] ? this.decrypt(result[0]) : null;
     } catch (error) {
       console.error(`findByEmailAddress: Query failed after ${Date.now() - startTime}ms:`, error);
       throw error;
@@ -60,45 +101,50 @@ export class GmailOAuthRepository extends BaseRepository {
         and(eq(gmailOAuthTokens.userId, userId), eq(gmailOAuthTokens.emailAddress, emailAddress))
       )
       .limit(1);
-    return result[0] || null;
+    return result[0] ? this.decrypt(result[0]) : null;
   }
 
   /**
    * Create a new OAuth token
    */
-  async create(data: NewGmailOAuthToken): Promise<GmailOAuthToken> {
-    const result = await this.db.insert(gmailOAuthTokens).values(data).returning();
-    return result[0];
-  }
-
-  /**
-   * Update OAuth token
-   */
-  async update(
-    id: string,
-    data: Partial<Omit<NewGmailOAuthToken, 'id' | 'userId' | 'createdAt'>>
-  ): Promise<GmailOAuthToken | null> {
+  async create(
+    data: Omit<NewGmailOAuthToken, 'encryptedDataKey' | 'keyVersion'>
+  ): Promise<GmailOAuthToken> {
+    const encrypted = encryptTokens({
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+    });
     const result = await this.db
-      .update(gmailOAuthTokens)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(gmailOAuthTokens.id, id))
+      .insert(gmailOAuthTokens)
+      .values({ ...data, ...encrypted })
       .returning();
-    return result[0] || null;
+    return this.decrypt(result[0]);
   }
 
   /**
-   * Update token by user ID
+   * Update OAuth token.
+   * Changing either token re-encrypts both under a new data key.
    */
-  async updateByUserId(
-    userId: string,
-    data: Partial<Omit<NewGmailOAuthToken, 'id' | 'userId' | 'createdAt'>>
-  ): Promise<GmailOAuthToken | null> {
+  async update(id: string, data: GmailOAuthTokenUpdate): Promise<GmailOAuthToken | null> {
+    let values: GmailOAuthTokenUpdate & { encryptedDataKey?: string; keyVersion?: number } = data;
+    if (data.accessToken !== undefined || data.refreshToken !== undefined) {
+      const current = await this.findById(id);
+      if (!current) return null;
+      values = {
+        ...data,
+        ...encryptTokens({
+          accessToken: data.accessToken ?? current.accessToken,
+          refreshToken: data.refreshToken ?? current.refreshToken,
+        }),
+      };
+    }
+
     const result = await this.db
       .update(gmailOAuthTokens)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(gmailOAuthTokens.userId, userId))
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(gmailOAuthTokens.id, id))
       .returning();
-    return result[0] || null;
+    return result[0] ? this.decrypt(result[0]) : null;
   }
 
   /**
@@ -112,17 +158,6 @@ export class GmailOAuthRepository extends BaseRepository {
     return result.length > 0;
   }
 
-  /**
-   * Delete token by user ID
-   */
-  async deleteByUserId(userId: string): Promise<boolean> {
-    const result = await this.db
-      .delete(gmailOAuthTokens)
-      .where(eq(gmailOAuthTokens.userId, userId))
-      .returning();
-    return result.length > 0;
-  }
-
   /**
    * Check if token exists and is not expired
    */
@@ -146,68 +181,75 @@ export class GmailOAuthRepository extends BaseRepository {
   }
 
   /**
-   * Update history ID by user ID
+   * Update an account's history ID
    * Used to track the last processed Gmail history ID for watch notifications
    */
-  async updateHistoryId(userId: string, historyId: string): Promise<void> {
-    await this.db
-      .update(gmailOAuthTokens)
-      .set({ historyId, updatedAt: new Date() })
-      .where(eq(gmailOAuthTokens.userId, userId));
-  }
-
-  /**
-   * Update history ID by email address
-   * Used when processing webhook notifications (we only have the email)
-   */
-  async updateHistoryIdByEmail(emailAddress: string, historyId: string): Promise<void> {
+  async updateHistoryId(id: string, historyId: string): Promise<void> {
     await this.db
       .update(gmailOAuthTokens)
       .set({ historyId, updatedAt: new Date() })
-      .where(eq(gmailOAuthTokens.emailAddress, emailAddress));
+      .where(eq(gmailOAuthTokens.id, id));
   }
 
   /**
-   * Get watch label IDs for a user
+   * Get watch label IDs for an account
    */
-  async getWatchLabelIds(userId: string): Promise<string[]> {
-    const token = await this.findByUserId(userId);
+  async getWatchLabelIds(id: string): Promise<string[]> {
+    const token = await this.findById(id);
     return (token?.watchLabelIds ?? []) as string[];
   }
 
   /**
-   * Set watch label IDs for a user
+   * Set watch label IDs for an account
    */
-  async setWatchLabelIds(userId: string, labelIds: string[]): Promise<void> {
-    await this.updateByUserId(userId, { watchLabelIds: labelIds });
+  async setWatchLabelIds(id: string, labelIds: string[]): Promise<void> {
+    await this.update(id, { watchLabelIds: labelIds });
   }
 
   /**
-   * Get Autofin filter IDs for a user
+   * Get Autofin filter IDs for an account
    */
-  async getAutofinFilterIds(userId: string): Promise<string[]> {
-    const token = await this.findByUserId(userId);
+  async getAutofinFilterIds(id: string): Promise<string[]> {
+    const token = await this.findById(id);
     return (token?.autofinFilterIds ?? []) as string[];
   }
 
   /**
-   * Get filter sender emails for a user
+   * Get filter sender emails for an account
    */
-  async getFilterSenderEmails(userId: string): Promise<string[]> {
-    const token = await this.findByUserId(userId);
+  async getFilterSenderEmails(id: string): Promise<string[]> {
+    const token = await this.findById(id);
     return (token?.filterSenderEmails ?? []) as string[];
   }
 
   /**
-   * Set filter config (filter IDs and sender emails) for a user
+   * Set filter config (filter IDs and sender emails) for an account
    */
   async setFilterConfig(
-    userId: string,
+    id: string,
     config: { filterIds: string[]; senderEmails: string[] }
   ): Promise<void> {
-    await this.updateByUserId(userId, {
+    await this.update(id, {
       autofinFilterIds: config.filterIds,
       filterSenderEmails: config.senderEmails,
     });
   }
+
+  /**
+   * Replace a row's encrypted tokens with plaintext
+   */
+  private decrypt(row: GmailOAuthToken): GmailOAuthToken {
+    if (row.keyVersion === null || !row.encryptedDataKey) {
+      return row;
+    }
+    return {
+      ...row,
+      ...decryptTokens({
+        accessToken: row.accessToken,
+        refreshToken: row.refreshToken,
+        encryptedDataKey: row.encryptedDataKey,
+        keyVersion: row.keyVersion,
+      }),
+    };
+  }
 }
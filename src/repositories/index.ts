@@ -1,7 +1,44 @@
+export type { AccountWithBalance, LedgerEntry } from './account.repository';
+export { AccountRepository } from './account.repository';
+export type {
+  AccountTotal,
+  AnalyticsInterval,
+  AnalyticsRange,
+  CategoryTotal,
+  MerchantTotal,
+  TimeSeriesBucket,
+} from './analytics.repository';
+export { AnalyticsRepository } from './analytics.repository';
 export { BaseRepository } from './base.repository';
+export { BudgetRepository } from './budget.repository';
 export { CategoryRepository } from './category.repository';
+export type { CategoryMemoryWithCategory } from './category-memory.repository';
+export { CategoryMemoryRepository } from './category-memory.repository';
+export { CategoryRuleRepository } from './category-rule.repository';
+export type { EmailIngestionFilters } from './email-ingestion.repository';
+export { EmailIngestionRepository } from './email-ingestion.repository';
+export { baseAmountSql, ExchangeRateRepository } from './exchange-rate.repository';
+export type { FailedIngestionFilters } from './failed-ingestion.repository';
+export { FailedIngestionRepository } from './failed-ingestion.repository';
+export type { GmailBackfillProgress } from './gmail-backfill.repository';
+export { GmailBackfillRepository } from './gmail-backfill.repository';
 export { GmailOAuthRepository } from './gmail-oauth.repository';
+export { GmailOAuthStateRepository } from './gmail-oauth-state.repository';
 export { InsightsRepository } from './insights.repository';
-export type { TransactionFilters, TransactionWithCategory } from './transaction.repository';
-export { TransactionRepository } from './transaction.repository';
+export type { MerchantWithStats } from './merchant.repository';
+export { MerchantRepository } from './merchant.repository';
+export { RecurringSeriesRepository } from './recurring-series.repository';
+export { StatementImportRepository } from './statement-import.repository';
+export type {
+  TransactionFilters,
+  TransactionStatus,
+  TransactionWithCategory,
+} from './transaction.repository';
+export { TransactionRepository, transactionFilterConditions } from './transaction.repository';
+export type { TransactionReextractJobProgress } from './transaction-reextract-job.repository';
+export { TransactionReextractJobRepository } from './transaction-reextract-job.repository';
+export type { TransactionReextractionWithTransaction } from './transaction-reextraction.repository';
+export { TransactionReextractionRepository } from './transaction-reextraction.repository';
+export type { TransactionSplitWithCategory } from './transaction-split.repository';
+export { TransactionSplitRepository } from './transaction-split.repository';
 export { UserRepository } from './user.repository';
@@ -0,0 +1,219 @@
+import { and, asc, count, eq, inArray, isNotNull, isNull, ne, sql } from 'drizzle-orm';
+import { type Merchant, merchants, type NewMerchant, transactions } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface MerchantWithStats extends Merchant {
+  transactionCount: number;
+}
+
+export class MerchantRepository extends BaseRepository {
+  /**
+   * Find all merchants for a user with their number of transactions, by name
+   */
+  async findAllForUser(userId: string): Promise<MerchantWithStats[]> {
+    const result = await this.db
+      .select({
+        id: merchants.id,
+        userId: merchants.userId,
+        name: merchants.name,
+        aliases: merchants.aliases,
+        categoryId: merchants.categoryId,
+        logo: merchants.logo,
+        createdAt: merchants.createdAt,
+        updatedAt: merchants.updatedAt,
+        transactionCount: count(transactions.id),
+      })
+      .from(merchants)
+      .leftJoin(
+        transactions,
+        and(eq(transactions.merchantId, merchants.id), isNull(transactions.deletedAt))
+      )
+      .where(eq(merchants.userId, userId))
+      .groupBy(merchants.id)
+      .orderBy(asc(merchants.name));
+
+    return result.map((row) => ({ ...row, transactionCount: Number(row.transactionCount) }));
+  }
+
+  /**
+   * Find a user's merchant by ID
+   */
+  async findById(id: string, userId: string): Promise<Merchant | null> {
+    const result = await this.db
+      .select()
+      .from(merchants)
+      .where(and(eq(merchants.id, id), eq(merchants.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find a user's merchants by ID (missing or other users' IDs are left out)
+   */
+  async findByIds(ids: string[], userId: string): Promise<Merchant[]> {
+    if (ids.length === 0) return [];
+    return this.db
+      .select()
+      .from(merchants)
+      .where(and(inArray(merchants.id, ids), eq(merchants.userId, userId)));
+  }
+
+  /**
+   * Find the user's merchant with a normalized name among its aliases
+   */
+  async findByAlias(userId: string, alias: string): Promise<Merchant | null> {
+    const result = await this.db
+      .select()
+      .from(merchants)
+      .where(
+        and(
+          eq(merchants.userId, userId),
+          sql`${merchants.aliases} @> ${JSON.stringify([alias])}::jsonb`
+        )
+      )
+      .orderBy(asc(merchants.createdAt))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find the user's merchants with an alias that is `word` or starts with it as a whole word
+   */
+  async findByAliasFirstWord(userId: string, word: string): Promise<Merchant[]> {
+    return this.db
+      .select()
+      .from(merchants)
+      .where(
+        and(
+          eq(merchants.userId, userId),
+          sql`EXISTS (SELECT 1 FROM jsonb_array_elements_text(${merchants.aliases}) AS alias WHERE alias = ${word} OR starts_with(alias, ${`${word} `}))`
+        )
+      )
+      .orderBy(asc(merchants.createdAt));
+  }
+
+  /**
+   * Find the user's other merchants (all but `excludeId`) that have any of the aliases
+   */
+  async findWithAnyAlias(
+    userId: string,
+    aliases: string[],
+    excludeId?: string
+  ): Promise<Merchant[]> {
+    if (aliases.length === 0) return [];
+    return this.db
+      .select()
+      .from(merchants)
+      .where(
+        and(
+          eq(merchants.userId, userId),
+          sql`${merchants.aliases} ?| ARRAY[${sql.join(
+            aliases.map((alias) => sql`${alias}`),
+            sql`, `
+          )}]::text[]`,
+          excludeId ? ne(merchants.id, excludeId) : undefined
+        )
+      );
+  }
+
+  /**
+   * Create a new merchant
+   */
+  async create(data: NewMerchant): Promise<Merchant> {
+    const result = await this.db.insert(merchants).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a user's merchant
+   */
+  async update(
+    id: string,
+    userId: string,
+    data: Partial<Pick<NewMerchant, 'name' | 'aliases' | 'categoryId' | 'logo'>>
+  ): Promise<Merchant | null> {
+    const result = await this.db
+      .update(merchants)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(merchants.id, id), eq(merchants.userId, userId)))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Delete a user's merchant. Its transactions keep their merchant name but lose the link.
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(merchants)
+      .where(and(eq(merchants.id, id), eq(merchants.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Merge merchants into `targetId`: move their transactions to it, set its aliases and delete
+   * them. Returns the number of transactions moved.
+   */
+  async merge(
+    userId: string,
+    targetId: string,
+    sourceIds: string[],
+    aliases: string[]
+  ): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const moved = await tx
+        .update(transactions)
+        .set({ merchantId: targetId, updatedAt: new Date() })
+        .where(and(eq(transactions.userId, userId), inArray(transactions.merchantId, sourceIds)))
+        .returning({ id: transactions.id });
+      await tx
+        .update(merchants)
+        .set({ aliases, updatedAt: new Date() })
+        .where(and(eq(merchants.id, targetId), eq(merchants.userId, userId)));
+      await tx
+        .delete(merchants)
+        .where(and(inArray(merchants.id, sourceIds), eq(merchants.userId, userId)));
+      return moved.length;
+    });
+  }
+
+  /**
+   * Distinct merchant names of the user's transactions not linked to a merchant yet
+   */
+  async findUnlinkedMerchantNames(userId: string): Promise<string[]> {
+    const result = await this.db
+      .selectDistinct({ merchant: transactions.merchant })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNull(transactions.merchantId),
+          isNull(transactions.deletedAt),
+          isNotNull(transactions.merchant)
+        )
+      );
+    return result.map((row) => row.merchant as string);
+  }
+
+  /**
+   * Link the user's unlinked transactions with one of the merchant names to a merchant.
+   * Returns the number of transactions linked.
+   */
+  async linkTransactions(userId: string, merchantId: string, names: string[]): Promise<number> {
+    if (names.length === 0) return 0;
+    const result = await this.db
+      .update(transactions)
+      .set({ merchantId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNull(transactions.merchantId),
+          isNull(transactions.deletedAt),
+          inArray(transactions.merchant, names)
+        )
+      )
+      .returning({ id: transactions.id });
+    return result.length;
+  }
+}
@@ -0,0 +1,43 @@
+import { and, eq } from 'drizzle-orm';
+import { type NewRecurringSeries, type RecurringSeries, recurringSeries } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export class RecurringSeriesRepository extends BaseRepository {
+  /**
+   * Find a user's series, soonest expected first, optionally only those with `status`
+   */
+  async findAllForUser(userId: string, status?: string): Promise<RecurringSeries[]> {
+    return this.db
+      .select()
+      .from(recurringSeries)
+      .where(
+        status
+          ? and(eq(recurringSeries.userId, userId), eq(recurringSeries.status, status))
+          : eq(recurringSeries.userId, userId)
+      )
+      .orderBy(recurringSeries.nextExpectedDate, recurringSeries.matchKey);
+  }
+
+  /**
+   * Create a new series
+   */
+  async create(data: NewRecurringSeries): Promise<RecurringSeries> {
+    const result = await this.db.insert(recurringSeries).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a series
+   */
+  async update(
+    id: string,
+    data: Partial<Omit<NewRecurringSeries, 'id' | 'userId' | 'createdAt'>>
+  ): Promise<RecurringSeries | null> {
+    const result = await this.db
+      .update(recurringSeries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(recurringSeries.id, id))
+      .returning();
+    return result[0] || null;
+  }
+}
@@ -0,0 +1,57 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { type NewStatementImport, type StatementImport, statementImports } from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export class StatementImportRepository extends BaseRepository {
+  /**
+   * Find a user's statement import by ID
+   */
+  async findById(id: string, userId: string): Promise<StatementImport | null> {
+    const result = await this.db
+      .select()
+      .from(statementImports)
+      .where(and(eq(statementImports.id, id), eq(statementImports.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new statement import
+   */
+  async create(data: NewStatementImport): Promise<StatementImport> {
+    const result = await this.db.insert(statementImports).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a statement import
+   */
+  async update(
+    id: string,
+    data: Partial<
+      Pick<NewStatementImport, 'status' | 'batchCount' | 'lastError' | 'startedAt' | 'completedAt'>
+    >
+  ): Promise<StatementImport | null> {
+    const result = await this.db
+      .update(statementImports)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(statementImports.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Append the rows and errors read from one batch of the statement
+   */
+  async addBatch(id: string, batch: { rows: unknown[]; errors: unknown[] }): Promise<void> {
+    await this.db
+      .update(statementImports)
+      .set({
+        rows: sql`${statementImports.rows} || ${JSON.stringify(batch.rows)}::jsonb`,
+        errors: sql`${statementImports.errors} || ${JSON.stringify(batch.errors)}::jsonb`,
+        processedBatches: sql`${statementImports.processedBatches} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(statementImports.id, id));
+  }
+}
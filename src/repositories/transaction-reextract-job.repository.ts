@@ -0,0 +1,92 @@
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  type NewTransactionReextractJob,
+  type TransactionReextractJob,
+  transactionReextractJobs,
+} from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface TransactionReextractJobProgress {
+  processedCount: number;
+  changedCount: number;
+  appliedCount: number;
+  failedCount: number;
+  lastError?: string;
+}
+
+export class TransactionReextractJobRepository extends BaseRepository {
+  /**
+   * Find a user's job by ID
+   */
+  async findById(id: string, userId: string): Promise<TransactionReextractJob | null> {
+    const result = await this.db
+      .select()
+      .from(transactionReextractJobs)
+      .where(and(eq(transactionReextractJobs.id, id), eq(transactionReextractJobs.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find a user's queued or running job, if any
+   */
+  async findActiveForUser(userId: string): Promise<TransactionReextractJob | null> {
+    const result = await this.db
+      .select()
+      .from(transactionReextractJobs)
+      .where(
+        and(
+          eq(transactionReextractJobs.userId, userId),
+          inArray(transactionReextractJobs.status, ['queued', 'running'])
+        )
+      )
+      .orderBy(desc(transactionReextractJobs.createdAt))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Create a new job
+   */
+  async create(data: NewTransactionReextractJob): Promise<TransactionReextractJob> {
+    const result = await this.db.insert(transactionReextractJobs).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Update a job
+   */
+  async update(
+    id: string,
+    data: Partial<
+      Pick<
+        NewTransactionReextractJob,
+        'status' | 'transactionCount' | 'lastError' | 'startedAt' | 'completedAt'
+      >
+    >
+  ): Promise<TransactionReextractJob | null> {
+    const result = await this.db
+      .update(transactionReextractJobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(transactionReextractJobs.id, id))
+      .returning();
+    return result[0] || null;
+  }
+
+  /**
+   * Add the counts of one processed batch to a job's progress
+   */
+  async addProgress(id: string, progress: TransactionReextractJobProgress): Promise<void> {
+    await this.db
+      .update(transactionReextractJobs)
+      .set({
+        processedCount: sql`${transactionReextractJobs.processedCount} + ${progress.processedCount}`,
+        changedCount: sql`${transactionReextractJobs.changedCount} + ${progress.changedCount}`,
+        appliedCount: sql`${transactionReextractJobs.appliedCount} + ${progress.appliedCount}`,
+        failedCount: sql`${transactionReextractJobs.failedCount} + ${progress.failedCount}`,
+        ...(progress.lastError ? { lastError: progress.lastError } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(transactionReextractJobs.id, id));
+  }
+}
@@ -0,0 +1,58 @@
+import { and, asc, eq } from 'drizzle-orm';
+import {
+  type NewTransactionReextraction,
+  type Transaction,
+  type TransactionReextraction,
+  transactionReextractions,
+  transactions,
+} from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface TransactionReextractionWithTransaction {
+  reextraction: TransactionReextraction;
+  transaction: Transaction;
+}
+
+export class TransactionReextractionRepository extends BaseRepository {
+  /**
+   * Find a user's re-extraction by ID
+   */
+  async findById(id: string, userId: string): Promise<TransactionReextraction | null> {
+    const result = await this.db
+      .select()
+      .from(transactionReextractions)
+      .where(and(eq(transactionReextractions.id, id), eq(transactionReextractions.userId, userId)))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Find the re-extractions of a job with their transactions, in the order they were made
+   */
+  async findAllForJob(jobId: string): Promise<TransactionReextractionWithTransaction[]> {
+    return this.db
+      .select({ reextraction: transactionReextractions, transaction: transactions })
+      .from(transactionReextractions)
+      .innerJoin(transactions, eq(transactionReextractions.transactionId, transactions.id))
+      .where(eq(transactionReextractions.jobId, jobId))
+      .orderBy(asc(transactionReextractions.createdAt));
+  }
+
+  /**
+   * Create a re-extraction
+   */
+  async create(data: NewTransactionReextraction): Promise<TransactionReextraction> {
+    const result = await this.db.insert(transactionReextractions).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Mark a re-extraction as applied
+   */
+  async markApplied(id: string): Promise<void> {
+    await this.db
+      .update(transactionReextractions)
+      .set({ appliedAt: new Date() })
+      .where(eq(transactionReextractions.id, id));
+  }
+}
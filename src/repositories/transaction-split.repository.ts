@@ -0,0 +1,79 @@
+import { asc, desc, eq, inArray } from 'drizzle-orm';
+import {
+  categories,
+  type NewTransactionSplit,
+  type TransactionSplit,
+  transactionSplits,
+} from '@/db/schema';
+import { BaseRepository } from './base.repository';
+
+export interface TransactionSplitWithCategory extends TransactionSplit {
+  category: { id: string; name: string; icon: string | null } | null;
+}
+
+export class TransactionSplitRepository extends BaseRepository {
+  /**
+   * Find the splits of the given transactions with category info, largest first
+   */
+  async findForTransactions(transactionIds: string[]): Promise<TransactionSplitWithCategory[]> {
+    if (transactionIds.length === 0) return [];
+
+    const result = await this.db
+      .select({
+        id: transactionSplits.id,
+        transactionId: transactionSplits.transactionId,
+        userId: transactionSplits.userId,
+        categoryId: transactionSplits.categoryId,
+        amount: transactionSplits.amount,
+        note: transactionSplits.note,
+        createdAt: transactionSplits.createdAt,
+        updatedAt: transactionSplits.updatedAt,
+        category: {
+          id: categories.id,
+          name: categories.name,
+          icon: categories.icon,
+        },
+      })
+      .from(transactionSplits)
+      .leftJoin(categories, eq(transactionSplits.categoryId, categories.id))
+      .where(inArray(transactionSplits.transactionId, transactionIds))
+      .orderBy(desc(transactionSplits.amount), asc(transactionSplits.id));
+
+    return result as TransactionSplitWithCategory[];
+  }
+
+  /**
+   * Find the splits of a transaction with category info
+   */
+  async findForTransaction(transactionId: string): Promise<TransactionSplitWithCategory[]> {
+    return this.findForTransactions([transactionId]);
+  }
+
+  /**
+   * Replace all splits of a transaction
+   */
+  async replaceForTransaction(
+    transactionId: string,
+    splits: Omit<NewTransactionSplit, 'id' | 'transactionId'>[]
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transactionId));
+      if (splits.length === 0) return;
+
+      await tx
+        .insert(transactionSplits)
+        .values(splits.map((split) => ({ ...split, id: crypto.randomUUID(), transactionId })));
+    });
+  }
+
+  /**
+   * Delete all splits of a transaction. Returns the number deleted.
+   */
+  async deleteForTransaction(transactionId: string): Promise<number> {
+    const result = await this.db
+      .delete(transactionSplits)
+      .where(eq(transactionSplits.transactionId, transactionId))
+      .returning({ id: transactionSplits.id });
+    return result.length;
+  }
+}
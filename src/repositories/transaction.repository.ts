@@ -1,23 +1,206 @@
-import { and, desc, eq, gte, lte, sql } from 'drizzle-orm';
-import { categories, type NewTransaction, type Transaction, transactions } from '@/db/schema';
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import type { Database } from '@/db/connection';
+import {
+  categories,
+  type NewTransaction,
+  type Transaction,
+  type TransactionRevision,
+  type TransactionRevisionChanges,
+  transactionRevisions,
+  transactionSearchDocument,
+  transactionSplits,
+  transactions,
+} from '@/db/schema';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
 import { BaseRepository } from './base.repository';
+import { baseAmountSql } from './exchange-rate.repository';
 
 export interface TransactionFilters {
   categoryId?: string;
+  merchantId?: string;
+  accountId?: string;
   type?: 'debit' | 'credit';
   startDate?: Date;
   endDate?: Date;
   minAmount?: number;
   maxAmount?: number;
+  merchantContains?: string; // case-insensitive substring match
+  remarksContains?: string; // case-insensitive substring match
+  search?: string; // full-text search over merchant, remarks, bank name and raw email
+  status?: TransactionStatus; // defaults to 'confirmed'
+  excludeTransfers?: boolean; // leave out transfers between the user's own accounts
+  deleted?: boolean; // only deleted transactions instead of active ones
+}
+
+/** Fields a transaction update can change */
+export type TransactionUpdate = Partial<
+  Pick<
+    NewTransaction,
+    | 'categoryId'
+    | 'categoryRuleId'
+    | 'amount'
+    | 'type'
+    | 'currency'
+    | 'merchant'
+    | 'merchantId'
+    | 'accountNumber'
+    | 'bankName'
+    | 'accountId'
+    | 'remarks'
+    | 'transactionDate'
+    | 'aiConfidence'
+    | 'aiExtractedData'
+    | 'status'
+  >
+>;
+
+/** A DB transaction, for queries that must run in the same one */
+type TransactionExecutor = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/** Only for debugging, and large: changes to it are not recorded in revisions */
+const UNTRACKED_FIELDS = new Set<string>(['aiExtractedData']);
+
+/** Transactions pending review are left out of lists, totals and budgets until approved */
+export type TransactionStatus = 'confirmed' | 'pending_review';
+
+/**
+ * Why a transaction matched a full-text search
+ */
+export interface TransactionSearchMatch {
+  rank: number;
+  headline: string; // matching fragments with terms wrapped in <mark></mark>
 }
 
 export interface TransactionWithCategory extends Transaction {
   category: { id: string; name: string; icon: string | null } | null;
+  match?: TransactionSearchMatch; // only set when searching
+}
+
+/**
+ * Parse a user search string (web search syntax: quoted phrases, OR, -exclusions)
+ */
+function searchQuerySql(search: string): SQL {
+  return sql`websearch_to_tsquery('simple', ${search})`;
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * A column value as stored in a revision (dates as ISO strings)
+ */
+function toRevisionValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : (value ?? null);
+}
+
+/**
+ * The fields among `fields` that differ between two versions of a transaction
+ */
+function revisionChanges(
+  before: Transaction,
+  after: Transaction,
+  fields: string[]
+): TransactionRevisionChanges {
+  const changes: TransactionRevisionChanges = {};
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    const from = toRevisionValue(before[field as keyof Transaction]);
+    const to = toRevisionValue(after[field as keyof Transaction]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * WHERE conditions for a user's transactions matching `filters`.
+ * Shared by list/count queries and bulk operations so they always select the same rows.
+ */
+export function transactionFilterConditions(userId: string, filters?: TransactionFilters): SQL[] {
+  const conditions = [
+    eq(transactions.userId, userId),
+    eq(transactions.status, filters?.status ?? 'confirmed'),
+    filters?.deleted ? isNotNull(transactions.deletedAt) : isNull(transactions.deletedAt),
+  ];
+
+  if (filters?.categoryId) {
+    conditions.push(eq(transactions.categoryId, filters.categoryId));
+  }
+
+  if (filters?.merchantId) {
+    conditions.push(eq(transactions.merchantId, filters.merchantId));
+  }
+
+  if (filters?.accountId) {
+    conditions.push(eq(transactions.accountId, filters.accountId));
+  }
+
+  if (filters?.type) {
+    conditions.push(eq(transactions.type, filters.type));
+  }
+
+  if (filters?.startDate) {
+    conditions.push(gte(transactions.transactionDate, filters.startDate));
+  }
+
+  if (filters?.endDate) {
+    conditions.push(lte(transactions.transactionDate, filters.endDate));
+  }
+
+  if (filters?.minAmount !== undefined) {
+    conditions.push(gte(transactions.amount, filters.minAmount.toString()));
+  }
+
+  if (filters?.maxAmount !== undefined) {
+    conditions.push(lte(transactions.amount, filters.maxAmount.toString()));
+  }
+
+  if (filters?.merchantContains) {
+    conditions.push(ilike(transactions.merchant, `%${escapeLike(filters.merchantContains)}%`));
+  }
+
+  if (filters?.remarksContains) {
+    conditions.push(ilike(transactions.remarks, `%${escapeLike(filters.remarksContains)}%`));
+  }
+
+  if (filters?.search) {
+    conditions.push(
+      sql`${transactionSearchDocument(transactions)} @@ ${searchQuerySql(filters.search)}`
+    );
+  }
+
+  if (filters?.excludeTransfers) {
+    conditions.push(isNull(transactions.transferPeerId));
+  }
+
+  return conditions;
 }
 
 export class TransactionRepository extends BaseRepository {
   /**
-   * Find all transactions for a user with optional filters
+   * Find all transactions for a user with optional filters.
+   * With `filters.search`, results are ordered by relevance and include `match`.
    */
   async findAllForUser(
     userId: string,
@@ -25,75 +208,86 @@ export class TransactionRepository extends BaseRepository {
     limit = 50,
     offset = 0
   ): Promise<TransactionWithCategory[]> {
-    const conditions = [eq(transactions.userId, userId)];
+    const conditions = transactionFilterConditions(userId, filters);
 
-    if (filters?.categoryId) {
-      conditions.push(eq(transactions.categoryId, filters.categoryId));
-    }
-
-    if (filters?.type) {
-      conditions.push(eq(transactions.type, filters.type));
-    }
-
-    if (filters?.startDate) {
-      conditions.push(gte(transactions.transactionDate, filters.startDate));
-    }
-
-    if (filters?.endDate) {
-      conditions.push(lte(transactions.transactionDate, filters.endDate));
-    }
-
-    if (filters?.minAmount !== undefined) {
-      conditions.push(gte(transactions.amount, filters.minAmount.toString()));
-    }
-
-    if (filters?.maxAmount !== undefined) {
-      conditions.push(lte(transactions.amount, filters.maxAmount.toString()));
-    }
+    const searchQuery = filters?.search ? searchQuerySql(filters.search) : null;
+    const rank = searchQuery
+      ? sql<number>`ts_rank(${transactionSearchDocument(transactions)}, ${searchQuery})`
+      : sql<null>`NULL`;
+    const headline = searchQuery
+      ? sql<string>`ts_headline('simple', concat_ws(' | ', ${transactions.merchant}, ${transactions.remarks}, ${transactions.bankName}, ${transactions.rawEmailContent}), ${searchQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5')`
+      : sql<null>`NULL`;
 
     const result = await this.db
       .select({
         id: transactions.id,
         userId: transactions.userId,
         categoryId: transactions.categoryId,
+        categoryRuleId: transactions.categoryRuleId,
         amount: transactions.amount,
         type: transactions.type,
         currency: transactions.currency,
         merchant: transactions.merchant,
+        merchantId: transactions.merchantId,
         accountNumber: transactions.accountNumber,
         bankName: transactions.bankName,
+        accountId: transactions.accountId,
         transactionDate: transactions.transactionDate,
         remarks: transactions.remarks,
         emailId: transactions.emailId,
+        mailbox: transactions.mailbox,
         rawEmailContent: transactions.rawEmailContent,
         aiConfidence: transactions.aiConfidence,
         aiExtractedData: transactions.aiExtractedData,
+        status: transactions.status,
+        transferPeerId: transactions.transferPeerId,
         createdAt: transactions.createdAt,
         updatedAt: transactions.updatedAt,
+        deletedAt: transactions.deletedAt,
         category: {
           id: categories.id,
           name: categories.name,
           icon: categories.icon,
         },
+        searchRank: rank,
+        searchHeadline: headline,
       })
       .from(transactions)
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
       .where(and(...conditions))
-      .orderBy(desc(transactions.transactionDate), desc(transactions.createdAt))
+      .orderBy(
+        ...(searchQuery ? [desc(rank)] : []),
+        desc(transactions.transactionDate),
+        desc(transactions.createdAt),
+        desc(transactions.id) // stable order for offset pagination
+      )
       .limit(limit)
       .offset(offset);
 
-    return result as TransactionWithCategory[];
+    return result.map(({ searchRank, searchHeadline, ...txn }) => ({
+      ...txn,
+      ...(searchQuery
+        ? { match: { rank: Number(searchRank ?? 0), headline: searchHeadline ?? '' } }
+        : {}),
+    })) as TransactionWithCategory[];
   }
 
   /**
-   * Find a transaction by ID
+   * Find a transaction by ID. Deleted transactions are only found with `includeDeleted`.
    */
-  async findById(id: string): Promise<Transaction | null> {
+  async findById(
+    id: string,
+    options: { includeDeleted?: boolean } = {}
+  ): Promise<Transaction | null> {
     const result = await this.db
       .select()
       .from(transactions)
-      .where(eq(transactions.id, id))
+      .where(
+        and(
+          eq(transactions.id, id),
+          options.includeDeleted ? undefined : isNull(transactions.deletedAt)
+        )
+      )
       .limit(1);
     return result[0] || null;
   }
@@ -107,20 +301,27 @@ export class TransactionRepository extends BaseRepository {
         id: transactions.id,
         userId: transactions.userId,
         categoryId: transactions.categoryId,
+        categoryRuleId: transactions.categoryRuleId,
         amount: transactions.amount,
         type: transactions.type,
         currency: transactions.currency,
         merchant: transactions.merchant,
+        merchantId: transactions.merchantId,
         accountNumber: transactions.accountNumber,
         bankName: transactions.bankName,
+        accountId: transactions.accountId,
         transactionDate: transactions.transactionDate,
         remarks: transactions.remarks,
         emailId: transactions.emailId,
+        mailbox: transactions.mailbox,
         rawEmailContent: transactions.rawEmailContent,
         aiConfidence: transactions.aiConfidence,
         aiExtractedData: transactions.aiExtractedData,
+        status: transactions.status,
+        transferPeerId: transactions.transferPeerId,
         createdAt: transactions.createdAt,
         updatedAt: transactions.updatedAt,
+        deletedAt: transactions.deletedAt,
         category: {
           id: categories.id,
           name: categories.name,
@@ -129,14 +330,15 @@ export class TransactionRepository extends BaseRepository {
       })
       .from(transactions)
       .leftJoin(categories, eq(transactions.categoryId, categories.id))
-      .where(eq(transactions.id, id))
+      .where(and(eq(transactions.id, id), isNull(transactions.deletedAt)))
       .limit(1);
 
     return (result[0] as TransactionWithCategory) || null;
   }
 
   /**
-   * Find a transaction by email ID (for duplicate detection)
+   * Find a transaction by email ID (for duplicate detection).
+   * Deleted transactions are found too: their email is not ingested again, they are restored.
    */
   async findByEmailId(emailId: string): Promise<Transaction | null> {
     const result = await this.db
@@ -147,6 +349,152 @@ export class TransactionRepository extends BaseRepository {
     return result[0] || null;
   }
 
+  /**
+   * Find a user's dated transactions between two instants (inclusive), oldest first.
+   * Used to match imported statement rows against transactions already recorded.
+   */
+  async findInDateRange(userId: string, startDate: Date, endDate: Date): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNull(transactions.deletedAt),
+          gte(transactions.transactionDate, startDate),
+          lte(transactions.transactionDate, endDate)
+        )
+      )
+      .orderBy(transactions.transactionDate, transactions.createdAt);
+  }
+
+  /**
+   * Find a user's AI-extracted transactions with a stored email and a confidence below
+   * `maxConfidence`, least confident first
+   */
+  async findLowConfidenceForUser(
+    userId: string,
+    maxConfidence: number,
+    limit: number
+  ): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNull(transactions.deletedAt),
+          isNotNull(transactions.rawEmailContent),
+          lt(transactions.aiConfidence, maxConfidence.toString())
+        )
+      )
+      .orderBy(transactions.aiConfidence, desc(transactions.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Find a user's confirmed transactions not linked to a transfer whose date (or, when undated,
+   * recording time) falls in [startDate, endDate], oldest first.
+   * With `like`, only the ones that could be the other side of a transfer of that transaction:
+   * the opposite type, same amount and currency.
+   */
+  async findUnlinkedTransferCandidates(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    like?: Pick<Transaction, 'id' | 'type' | 'amount' | 'currency'>
+  ): Promise<Transaction[]> {
+    const occurredAt = sql`coalesce(${transactions.transactionDate}, ${transactions.createdAt})`;
+    const conditions = [
+      eq(transactions.userId, userId),
+      eq(transactions.status, 'confirmed'),
+      isNull(transactions.deletedAt),
+      isNull(transactions.transferPeerId),
+      sql`${occurredAt} >= ${startDate}`,
+      sql`${occurredAt} <= ${endDate}`,
+    ];
+
+    if (like) {
+      conditions.push(
+        ne(transactions.id, like.id),
+        ne(transactions.type, like.type),
+        eq(transactions.amount, like.amount),
+        eq(transactions.currency, like.currency ?? DEFAULT_CURRENCY)
+      );
+    }
+
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(occurredAt, transactions.createdAt);
+  }
+
+  /**
+   * Find a user's transfers (each debit with the credit it is linked to), latest first
+   */
+  async findTransfersForUser(
+    userId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{ debit: Transaction; credit: Transaction }[]> {
+    const credits = alias(transactions, 'credits');
+    const rows = await this.db
+      .select({ debit: transactions, credit: credits })
+      .from(transactions)
+      .innerJoin(credits, eq(transactions.transferPeerId, credits.id))
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          eq(transactions.type, 'debit'),
+          isNull(transactions.deletedAt),
+          isNull(credits.deletedAt)
+        )
+      )
+      .orderBy(
+        desc(sql`coalesce(${transactions.transactionDate}, ${transactions.createdAt})`),
+        desc(transactions.id)
+      )
+      .limit(limit)
+      .offset(offset);
+    return rows;
+  }
+
+  /**
+   * Link a debit and a credit as the two sides of a transfer
+   */
+  async linkTransfer(userId: string, debitId: string, creditId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .update(transactions)
+        .set({ transferPeerId: creditId, updatedAt: now })
+        .where(and(eq(transactions.id, debitId), eq(transactions.userId, userId)));
+      await tx
+        .update(transactions)
+        .set({ transferPeerId: debitId, updatedAt: now })
+        .where(and(eq(transactions.id, creditId), eq(transactions.userId, userId)));
+    });
+  }
+
+  /**
+   * Unlink the transfer a transaction is part of, from both sides.
+   * Returns the IDs of the unlinked transactions.
+   */
+  async unlinkTransfer(userId: string, transactionId: string): Promise<string[]> {
+    const result = await this.db
+      .update(transactions)
+      .set({ transferPeerId: null, updatedAt: new Date() })
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          or(eq(transactions.id, transactionId), eq(transactions.transferPeerId, transactionId))
+        )
+      )
+      .returning({ id: transactions.id });
+    return result.map((row) => row.id);
+  }
+
   /**
    * Create a new transaction
    */
@@ -156,54 +504,198 @@ export class TransactionRepository extends BaseRepository {
   }
 
   /**
-   * Update a transaction
+   * Update an active transaction, recording the changed fields as a revision
    */
-  async update(
-    id: string,
+  async update(id: string, userId: string, data: TransactionUpdate): Promise<Transaction | null> {
+    const updated = await this.db.transaction((tx) =>
+      this.updateWhere(
+        tx,
+        and(
+          eq(transactions.id, id),
+          eq(transactions.userId, userId),
+          isNull(transactions.deletedAt)
+        ) as SQL,
+        data
+      )
+    );
+    return updated[0] || null;
+  }
+
+  /**
+   * Update all of a user's transactions matching `filters` in one DB transaction, recording a
+   * revision for each changed one. Returns the number of transactions updated.
+   */
+  async updateMany(
     userId: string,
-    data: Partial<Pick<NewTransaction, 'categoryId' | 'merchant' | 'remarks' | 'transactionDate'>>
-  ): Promise<Transaction | null> {
-    const result = await this.db
-      .update(transactions)
-      .set({ ...data, updatedAt: new Date() })
-      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
-      .returning();
-    return result[0] || null;
+    filters: TransactionFilters,
+    data: TransactionUpdate
+  ): Promise<number> {
+    const updated = await this.db.transaction((tx) =>
+      this.updateWhere(tx, and(...transactionFilterConditions(userId, filters)) as SQL, data)
+    );
+    return updated.length;
   }
 
   /**
-   * Delete a transaction
+   * Delete a transaction. It is kept with `deletedAt` set and can be restored.
    */
   async delete(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db.transaction((tx) =>
+      this.deleteWhere(
+        tx,
+        and(
+          eq(transactions.id, id),
+          eq(transactions.userId, userId),
+          isNull(transactions.deletedAt)
+        ) as SQL
+      )
+    );
+    return deleted > 0;
+  }
+
+  /**
+   * Permanently delete a transaction, with its splits and history. Unlike `delete`, it cannot be
+   * restored and its email can be ingested again.
+   */
+  async purge(id: string, userId: string): Promise<boolean> {
     const result = await this.db
       .delete(transactions)
       .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
-      .returning();
+      .returning({ id: transactions.id });
     return result.length > 0;
   }
 
   /**
-   * Count transactions for a user with optional filters
+   * Delete all of a user's transactions matching `filters` in one DB transaction.
+   * Returns the number of transactions deleted.
    */
-  async countForUser(userId: string, filters?: TransactionFilters): Promise<number> {
-    const conditions = [eq(transactions.userId, userId)];
+  async deleteMany(userId: string, filters: TransactionFilters): Promise<number> {
+    return this.db.transaction((tx) =>
+      this.deleteWhere(tx, and(...transactionFilterConditions(userId, filters)) as SQL)
+    );
+  }
 
-    if (filters?.categoryId) {
-      conditions.push(eq(transactions.categoryId, filters.categoryId));
-    }
+  /**
+   * Restore a deleted transaction. Returns null when the user has no such deleted transaction.
+   */
+  async restore(id: string, userId: string): Promise<Transaction | null> {
+    return this.db.transaction(async (tx) => {
+      const result = await tx
+        .update(transactions)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(
+          and(
+            eq(transactions.id, id),
+            eq(transactions.userId, userId),
+            isNotNull(transactions.deletedAt)
+          )
+        )
+        .returning();
+      if (result.length === 0) return null;
 
-    if (filters?.type) {
-      conditions.push(eq(transactions.type, filters.type));
-    }
+      await tx
+        .insert(transactionRevisions)
+        .values({ id: crypto.randomUUID(), transactionId: id, userId, action: 'restore' });
+      return result[0];
+    });
+  }
 
-    if (filters?.startDate) {
-      conditions.push(gte(transactions.transactionDate, filters.startDate));
-    }
+  /**
+   * Find the revisions of a user's transaction, latest first
+   */
+  async findRevisions(transactionId: string, userId: string): Promise<TransactionRevision[]> {
+    return this.db
+      .select()
+      .from(transactionRevisions)
+      .where(
+        and(
+          eq(transactionRevisions.transactionId, transactionId),
+          eq(transactionRevisions.userId, userId)
+        )
+      )
+      .orderBy(desc(transactionRevisions.createdAt), desc(transactionRevisions.id));
+  }
+
+  /**
+   * Update the transactions matching `where` inside `tx`, recording a revision for each one whose
+   * fields changed. Returns the updated transactions.
+   */
+  private async updateWhere(
+    tx: TransactionExecutor,
+    where: SQL,
+    data: TransactionUpdate
+  ): Promise<Transaction[]> {
+    const before = await tx.select().from(transactions).where(where).for('update');
+    if (before.length === 0) return [];
 
-    if (filters?.endDate) {
-      conditions.push(lte(transactions.transactionDate, filters.endDate));
+    const updated = await tx
+      .update(transactions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        inArray(
+          transactions.id,
+          before.map((txn) => txn.id)
+        )
+      )
+      .returning();
+
+    const beforeById = new Map(before.map((txn) => [txn.id, txn]));
+    const fields = Object.keys(data).filter(
+      (field) => data[field as keyof TransactionUpdate] !== undefined
+    );
+    const revisions = updated
+      .map((after) => ({
+        id: crypto.randomUUID(),
+        transactionId: after.id,
+        userId: after.userId,
+        action: 'update',
+        changes: revisionChanges(beforeById.get(after.id) as Transaction, after, fields),
+      }))
+      .filter((revision) => Object.keys(revision.changes).length > 0);
+    if (revisions.length > 0) {
+      await tx.insert(transactionRevisions).values(revisions);
     }
 
+    return updated;
+  }
+
+  /**
+   * Soft delete the active transactions matching `where` inside `tx`, recording a revision for
+   * each. Their transfers are unlinked from both sides, so the other side counts again.
+   * Returns the number of transactions deleted.
+   */
+  private async deleteWhere(tx: TransactionExecutor, where: SQL): Promise<number> {
+    const now = new Date();
+    const deleted = await tx
+      .update(transactions)
+      .set({ deletedAt: now, transferPeerId: null, updatedAt: now })
+      .where(and(where, isNull(transactions.deletedAt)))
+      .returning({ id: transactions.id, userId: transactions.userId });
+    if (deleted.length === 0) return 0;
+
+    const ids = deleted.map((txn) => txn.id);
+    await tx
+      .update(transactions)
+      .set({ transferPeerId: null, updatedAt: now })
+      .where(inArray(transactions.transferPeerId, ids));
+    await tx.insert(transactionRevisions).values(
+      deleted.map((txn) => ({
+        id: crypto.randomUUID(),
+        transactionId: txn.id,
+        userId: txn.userId,
+        action: 'delete',
+      }))
+    );
+
+    return deleted.length;
+  }
+
+  /**
+   * Count transactions for a user with optional filters
+   */
+  async countForUser(userId: string, filters?: TransactionFilters): Promise<number> {
+    const conditions = transactionFilterConditions(userId, filters);
+
     const result = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(transactions)
@@ -213,18 +705,30 @@ export class TransactionRepository extends BaseRepository {
   }
 
   /**
-   * Get summary statistics for a user
+   * Get summary statistics for a user's confirmed transactions, leaving out transfers
+   * between the user's own accounts.
+   * Amounts are converted to `baseCurrency` using the exchange rates table.
+   * Transactions without a known rate are left out of the totals and counted in `unconvertedCount`.
+   * Split transactions count at their full amount, which their splits always add up to.
    */
   async getSummaryForUser(
     userId: string,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    baseCurrency: string = DEFAULT_CURRENCY
   ): Promise<{
     totalDebit: number;
     totalCredit: number;
     transactionCount: number;
+    currency: string;
+    unconvertedCount: number;
   }> {
-    const conditions = [eq(transactions.userId, userId)];
+    const conditions = [
+      eq(transactions.userId, userId),
+      eq(transactions.status, 'confirmed'),
+      isNull(transactions.deletedAt),
+      isNull(transactions.transferPeerId),
+    ];
 
     if (startDate) {
       conditions.push(gte(transactions.transactionDate, startDate));
@@ -234,11 +738,14 @@ export class TransactionRepository extends BaseRepository {
       conditions.push(lte(transactions.transactionDate, endDate));
     }
 
+    const baseAmount = baseAmountSql(userId, baseCurrency);
+
     const result = await this.db
       .select({
-        totalDebit: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'debit' THEN ${transactions.amount} ELSE 0 END), 0)`,
-        totalCredit: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'credit' THEN ${transactions.amount} ELSE 0 END), 0)`,
+        totalDebit: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'debit' THEN ${baseAmount} ELSE 0 END), 0)`,
+        totalCredit: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.type} = 'credit' THEN ${baseAmount} ELSE 0 END), 0)`,
         transactionCount: sql<number>`count(*)`,
+        unconvertedCount: sql<number>`count(*) FILTER (WHERE ${baseAmount} IS NULL)`,
       })
       .from(transactions)
       .where(and(...conditions));
@@ -247,6 +754,70 @@ export class TransactionRepository extends BaseRepository {
       totalDebit: Number.parseFloat(result[0]?.totalDebit || '0'),
       totalCredit: Number.parseFloat(result[0]?.totalCredit || '0'),
       transactionCount: Number(result[0]?.transactionCount || 0),
+      currency: baseCurrency,
+      unconvertedCount: Number(result[0]?.unconvertedCount || 0),
+    };
+  }
+
+  /**
+   * Total spent (confirmed debits, not transfers) in a category in [startDate, endDate), converted to
+   * `baseCurrency`. Split transactions count the splits in the category instead of their own
+   * category. Undated transactions count on the day they were recorded. Transactions
+   * without a known rate are left out and counted in `unconvertedCount`.
+   */
+  async getCategorySpent(
+    userId: string,
+    categoryId: string,
+    startDate: Date,
+    endDate: Date,
+    baseCurrency: string = DEFAULT_CURRENCY,
+    excludeTransactionId?: string
+  ): Promise<{ spent: number; unconvertedCount: number }> {
+    const conditions = [
+      eq(transactions.userId, userId),
+      eq(transactions.status, 'confirmed'),
+      isNull(transactions.deletedAt),
+      isNull(transactions.transferPeerId),
+      or(
+        and(isNull(transactionSplits.id), eq(transactions.categoryId, categoryId)),
+        eq(transactionSplits.categoryId, categoryId)
+      ) as SQL,
+      eq(transactions.type, 'debit'),
+      or(
+        and(
+          gte(transactions.transactionDate, startDate),
+          lt(transactions.transactionDate, endDate)
+        ),
+        and(
+          isNull(transactions.transactionDate),
+          gte(transactions.createdAt, startDate),
+          lt(transactions.createdAt, endDate)
+        )
+      ) as SQL,
+    ];
+
+    if (excludeTransactionId) {
+      conditions.push(ne(transactions.id, excludeTransactionId));
+    }
+
+    const baseAmount = baseAmountSql(
+      userId,
+      baseCurrency,
+      sql`coalesce(${transactionSplits.amount}, ${transactions.amount})`
+    );
+
+    const result = await this.db
+      .select({
+        spent: sql<string>`COALESCE(SUM(${baseAmount}), 0)`,
+        unconvertedCount: sql<number>`count(DISTINCT ${transactions.id}) FILTER (WHERE ${baseAmount} IS NULL)`,
+      })
+      .from(transactions)
+      .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
+      .where(and(...conditions));
+
+    return {
+      spent: Number.parseFloat(result[0]?.spent || '0'),
+      unconvertedCount: Number(result[0]?.unconvertedCount || 0),
     };
   }
 }
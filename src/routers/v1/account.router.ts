@@ -0,0 +1,368 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Account } from '@/db/schema';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import type { AccountWithBalance } from '@/repositories/account.repository';
+import {
+  AccountLedgerQuerySchema,
+  AccountLedgerResponseSchema,
+  AccountResponseSchema,
+  AccountsResponseSchema,
+  type AccountType,
+  CreateAccountSchema,
+  ErrorSchema,
+  LinkAccountTransactionsResponseSchema,
+  toTransactionResponse,
+  UpdateAccountSchema,
+} from '@/schemas';
+
+type AccountRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const toAccountResponse = <T extends Account>(account: T) => ({
+  ...account,
+  type: account.type as AccountType,
+  reportedBalanceAt: account.reportedBalanceAt?.toISOString() ?? null,
+  createdAt: account.createdAt.toISOString(),
+  updatedAt: account.updatedAt.toISOString(),
+});
+
+const toAccountWithBalanceResponse = (account: AccountWithBalance) => ({
+  ...toAccountResponse(account),
+  lastTransactionAt: account.lastTransactionAt?.toISOString() ?? null,
+});
+
+/**
+ * Account router with OpenAPI documentation
+ *
+ * Bank accounts, credit cards and wallets. Incoming email and SMS transactions are linked to an
+ * account by bank name and the last 4 digits of the account number, and balances are computed
+ * from the opening balance and the linked transactions.
+ */
+export const createAccountRouter = () => {
+  const router = new OpenAPIHono<AccountRouterEnv>();
+
+  // Get all accounts
+  const getAccountsRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get all accounts',
+    description:
+      'Retrieve all accounts with their running balance: the opening balance plus the linked confirmed transactions. reportedBalance is the latest balance a bank alert stated, for comparison.',
+    tags: ['Accounts'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'List of accounts',
+        content: {
+          'application/json': {
+            schema: AccountsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getAccountsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const accounts = await container.accountRepo.findAllWithBalances(user.id);
+
+    return c.json({ accounts: accounts.map(toAccountWithBalanceResponse) }, 200);
+  });
+
+  // Create account
+  const createAccountRoute = createRoute({
+    method: 'post',
+    path: '/',
+    summary: 'Create account',
+    description:
+      'Add a bank account, card or wallet. New transactions with the same bank and last 4 digits are linked to it; use link-transactions for existing ones.',
+    tags: ['Accounts'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: CreateAccountSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Account created successfully',
+        content: {
+          'application/json': {
+            schema: AccountResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(createAccountRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const account = await container.accountService.create(user.id, body);
+
+    return c.json({ account: toAccountResponse(account) }, 201);
+  });
+
+  // Link transactions to accounts
+  const linkTransactionsRoute = createRoute({
+    method: 'post',
+    path: '/link-transactions',
+    summary: 'Link transactions to accounts',
+    description:
+      'Link transactions without an account (e.g. saved before the account was added, or imported) by bank name and last 4 digits. Transactions matching more than one account are left unlinked.',
+    tags: ['Accounts'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'Transactions linked',
+        content: {
+          'application/json': {
+            schema: LinkAccountTransactionsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(linkTransactionsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const result = await container.accountService.linkTransactions(user.id);
+
+    return c.json(result, 200);
+  });
+
+  // Get account ledger
+  const getAccountTransactionsRoute = createRoute({
+    method: 'get',
+    path: '/{id}/transactions',
+    summary: 'Get account transactions',
+    description:
+      'Retrieve the transactions counted in the account balance, latest first, each with the balance after it',
+    tags: ['Accounts'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Account ID'),
+      }),
+      query: AccountLedgerQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Account with its transactions',
+        content: {
+          'application/json': {
+            schema: AccountLedgerResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Account not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getAccountTransactionsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const { limit, offset } = c.req.valid('query');
+
+    const accounts = await container.accountRepo.findAllWithBalances(user.id);
+    const account = accounts.find((candidate) => candidate.id === id);
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404);
+    }
+
+    const ledger = await container.accountRepo.findLedger(account, limit, offset);
+
+    return c.json(
+      {
+        account: toAccountWithBalanceResponse(account),
+        transactions: ledger.map((entry) => ({
+          ...toTransactionResponse(entry),
+          runningBalance: entry.runningBalance,
+        })),
+      },
+      200
+    );
+  });
+
+  // Update account
+  const updateAccountRoute = createRoute({
+    method: 'patch',
+    path: '/{id}',
+    summary: 'Update account',
+    description:
+      'Update an account. Changing the bank or number affects which new transactions are linked; linked transactions stay linked.',
+    tags: ['Accounts'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Account ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: UpdateAccountSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Account updated successfully',
+        content: {
+          'application/json': {
+            schema: AccountResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Account not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(updateAccountRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    try {
+      const account = await container.accountService.update(user.id, id, body);
+      return c.json({ account: toAccountResponse(account) }, 200);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Account not found') {
+        return c.json({ error: error.message }, 404);
+      }
+      throw error;
+    }
+  });
+
+  // Delete account
+  const deleteAccountRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    summary: 'Delete account',
+    description:
+      'Delete an account. Its transactions keep their bank name and number but are no longer linked.',
+    tags: ['Accounts'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Account ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Account deleted successfully',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Account not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteAccountRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const deleted = await container.accountRepo.delete(id, user.id);
+    if (!deleted) {
+      return c.json({ error: 'Account not found' }, 404);
+    }
+
+    return c.json({ message: 'Account deleted successfully' }, 200);
+  });
+
+  return router;
+};
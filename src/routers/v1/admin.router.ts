@@ -0,0 +1,201 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { FailedIngestion } from '@/db/schema';
+import { inngest } from '@/inngest/client';
+import type { GmailMessageReceivedEvent } from '@/inngest/functions/gmail-ingest-message';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import { adminMiddleware } from '@/middleware/admin';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  ErrorSchema,
+  FailedIngestionResponseSchema,
+  FailedIngestionsQuerySchema,
+  FailedIngestionsResponseSchema,
+} from '@/schemas';
+
+type AdminRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const toFailedIngestionResponse = (failure: FailedIngestion) => ({
+  ...failure,
+  status: failure.status as 'failed' | 'replaying' | 'resolved',
+  lastReplayedAt: failure.lastReplayedAt?.toISOString() ?? null,
+  resolvedAt: failure.resolvedAt?.toISOString() ?? null,
+  createdAt: failure.createdAt.toISOString(),
+  updatedAt: failure.updatedAt.toISOString(),
+});
+
+/**
+ * Admin router with OpenAPI documentation
+ *
+ * Operational routes across all users. Only users listed in ADMIN_USER_IDS have access.
+ */
+export const createAdminRouter = () => {
+  const router = new OpenAPIHono<AdminRouterEnv>();
+
+  router.use('*', adminMiddleware);
+
+  // List failed ingestions
+  const getFailedIngestionsRoute = createRoute({
+    method: 'get',
+    path: '/ingestions/failed',
+    summary: 'List failed ingestions',
+    description:
+      'Messages whose ingestion still failed after all retries (dead letter), most recently failed first',
+    tags: ['Admin'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: FailedIngestionsQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'List of failed ingestions',
+        content: {
+          'application/json': {
+            schema: FailedIngestionsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      403: {
+        description: 'Not an admin',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getFailedIngestionsRoute, async (c) => {
+    const container = c.get('container');
+    const query = c.req.valid('query');
+
+    const failures = await container.failedIngestionRepo.findAll(query);
+
+    return c.json({ failures: failures.map(toFailedIngestionResponse) }, 200);
+  });
+
+  // Replay a failed ingestion
+  const replayFailedIngestionRoute = createRoute({
+    method: 'post',
+    path: '/ingestions/failed/{id}/replay',
+    summary: 'Replay failed ingestion',
+    description:
+      'Queue the message for ingestion again, with a fresh set of retries. A successful run marks the failure resolved; another failure updates it.',
+    tags: ['Admin'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Failed ingestion ID'),
+      }),
+    },
+    responses: {
+      202: {
+        description: 'Replay queued',
+        content: {
+          'application/json': {
+            schema: FailedIngestionResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Failed ingestion not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'Already resolved, or the Gmail account was removed',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      500: {
+        description: 'Failed to queue replay',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      403: {
+        description: 'Not an admin',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(replayFailedIngestionRoute, async (c) => {
+    const container = c.get('container');
+    const { id } = c.req.valid('param');
+
+    const failure = await container.failedIngestionRepo.findById(id);
+    if (!failure) {
+      return c.json({ error: 'Failed ingestion not found' }, 404);
+    }
+    if (failure.status === 'resolved') {
+      return c.json({ error: 'Failed ingestion is already resolved' }, 409);
+    }
+    if (!failure.accountId) {
+      return c.json({ error: 'The Gmail account of this message was removed' }, 409);
+    }
+
+    const event: GmailMessageReceivedEvent = {
+      name: 'gmail/message.received',
+      data: {
+        userId: failure.userId,
+        accountId: failure.accountId,
+        messageId: failure.messageId,
+        trigger: 'reprocess',
+        replayOf: failure.id,
+      },
+    };
+    try {
+      await inngest.send(event);
+    } catch (error) {
+      console.error('Failed to enqueue ingestion replay:', error);
+      return c.json(
+        {
+          error: 'Failed to queue replay',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+
+    const updated = await container.failedIngestionRepo.markReplaying(id);
+    return c.json({ failure: toFailedIngestionResponse(updated ?? failure) }, 202);
+  });
+
+  return router;
+};
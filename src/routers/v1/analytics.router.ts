@@ -0,0 +1,245 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import type { AnalyticsRange } from '@/repositories/analytics.repository';
+import {
+  AccountAnalyticsResponseSchema,
+  AnalyticsBreakdownQuerySchema,
+  CategoryAnalyticsResponseSchema,
+  ErrorSchema,
+  MerchantAnalyticsQuerySchema,
+  MerchantAnalyticsResponseSchema,
+  TimeSeriesQuerySchema,
+  TimeSeriesResponseSchema,
+} from '@/schemas';
+import type { AnalyticsBreakdown } from '@/services/analytics.service';
+
+type AnalyticsRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const ANALYTICS_ERRORS: Record<string, 400> = {
+  'startDate must be before endDate': 400,
+  'Too many buckets, use a longer interval': 400,
+};
+
+const toRangeResponse = (range: AnalyticsRange) => ({
+  startDate: range.startDate.toISOString(),
+  endDate: range.endDate.toISOString(),
+});
+
+const toBreakdownResponse = <T>({ items: _items, ...breakdown }: AnalyticsBreakdown<T>) => ({
+  ...breakdown,
+  range: toRangeResponse(breakdown.range),
+  previousRange: breakdown.previousRange ? toRangeResponse(breakdown.previousRange) : null,
+});
+
+const badRequestResponse = {
+  description: 'Invalid date range or interval',
+  content: {
+    'application/json': {
+      schema: ErrorSchema,
+    },
+  },
+};
+
+const unauthorizedResponse = {
+  description: 'Unauthorized',
+  content: {
+    'application/json': {
+      schema: ErrorSchema,
+    },
+  },
+};
+
+/**
+ * Analytics router with OpenAPI documentation
+ *
+ * Totals for charts, aggregated in SQL: spending (or income) by category, merchant and bank
+ * account, and debit/credit per day, week or month in the user's timezone. Amounts are in the
+ * user's base currency. Confirmed transactions only; transfers between the user's own accounts
+ * are left out.
+ */
+export const createAnalyticsRouter = () => {
+  const router = new OpenAPIHono<AnalyticsRouterEnv>();
+
+  // Totals by category
+  const getCategoryAnalyticsRoute = createRoute({
+    method: 'get',
+    path: '/categories',
+    summary: 'Totals by category',
+    description:
+      'Spending (or income) per category, largest first. Split transactions count each split in its own category.',
+    tags: ['Analytics'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: AnalyticsBreakdownQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Totals by category',
+        content: {
+          'application/json': {
+            schema: CategoryAnalyticsResponseSchema,
+          },
+        },
+      },
+      400: badRequestResponse,
+      401: unauthorizedResponse,
+    },
+  });
+
+  router.openapi(getCategoryAnalyticsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    try {
+      const breakdown = await container.analyticsService.byCategory(user.id, c.req.valid('query'));
+      return c.json({ ...toBreakdownResponse(breakdown), categories: breakdown.items }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (ANALYTICS_ERRORS[message] === 400) {
+        return c.json({ error: message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  // Totals by merchant
+  const getMerchantAnalyticsRoute = createRoute({
+    method: 'get',
+    path: '/merchants',
+    summary: 'Totals by merchant',
+    description:
+      'Spending (or income) per merchant in the merchant directory, largest first. Transactions not linked to a merchant are grouped by merchant name, compared case-insensitively.',
+    tags: ['Analytics'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: MerchantAnalyticsQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Totals by merchant',
+        content: {
+          'application/json': {
+            schema: MerchantAnalyticsResponseSchema,
+          },
+        },
+      },
+      400: badRequestResponse,
+      401: unauthorizedResponse,
+    },
+  });
+
+  router.openapi(getMerchantAnalyticsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    try {
+      const breakdown = await container.analyticsService.byMerchant(user.id, c.req.valid('query'));
+      return c.json({ ...toBreakdownResponse(breakdown), merchants: breakdown.items }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (ANALYTICS_ERRORS[message] === 400) {
+        return c.json({ error: message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  // Totals by account
+  const getAccountAnalyticsRoute = createRoute({
+    method: 'get',
+    path: '/accounts',
+    summary: 'Totals by account',
+    description: 'Spending (or income) per bank name and account number, largest first.',
+    tags: ['Analytics'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: AnalyticsBreakdownQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Totals by account',
+        content: {
+          'application/json': {
+            schema: AccountAnalyticsResponseSchema,
+          },
+        },
+      },
+      400: badRequestResponse,
+      401: unauthorizedResponse,
+    },
+  });
+
+  router.openapi(getAccountAnalyticsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    try {
+      const breakdown = await container.analyticsService.byAccount(user.id, c.req.valid('query'));
+      return c.json({ ...toBreakdownResponse(breakdown), accounts: breakdown.items }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (ANALYTICS_ERRORS[message] === 400) {
+        return c.json({ error: message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  // Time series
+  const getTimeSeriesRoute = createRoute({
+    method: 'get',
+    path: '/timeseries',
+    summary: 'Totals over time',
+    description:
+      "Debit and credit totals per day, week (starting Monday) or month in the user's timezone, oldest first. Buckets without transactions are included with zero totals. At most 366 buckets.",
+    tags: ['Analytics'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: TimeSeriesQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Totals per bucket',
+        content: {
+          'application/json': {
+            schema: TimeSeriesResponseSchema,
+          },
+        },
+      },
+      400: badRequestResponse,
+      401: unauthorizedResponse,
+    },
+  });
+
+  router.openapi(getTimeSeriesRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    try {
+      const series = await container.analyticsService.timeSeries(user.id, c.req.valid('query'));
+      return c.json(
+        {
+          ...series,
+          range: toRangeResponse(series.range),
+          previousRange: series.previousRange ? toRangeResponse(series.previousRange) : null,
+        },
+        200
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (ANALYTICS_ERRORS[message] === 400) {
+        return c.json({ error: message }, 400);
+      }
+      throw error;
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,366 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Budget } from '@/db/schema';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  BudgetProgressResponseSchema,
+  BudgetResponseSchema,
+  BudgetsResponseSchema,
+  CreateBudgetSchema,
+  ErrorSchema,
+  UpdateBudgetSchema,
+} from '@/schemas';
+import type { BudgetPeriod } from '@/services/budget.service';
+
+type BudgetRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const toBudgetResponse = (budget: Budget) => ({
+  ...budget,
+  period: budget.period as BudgetPeriod,
+  createdAt: budget.createdAt.toISOString(),
+  updatedAt: budget.updatedAt.toISOString(),
+});
+
+/**
+ * Budget router with OpenAPI documentation
+ *
+ * Budgets limit spending per category and period. Crossing 80% and 100% of a limit sends a
+ * Discord alert when an email/SMS transaction is saved.
+ */
+export const createBudgetRouter = () => {
+  const router = new OpenAPIHono<BudgetRouterEnv>();
+
+  // Get all budgets
+  const getBudgetsRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get all budgets',
+    description: 'Retrieve all budgets for the user',
+    tags: ['Budgets'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'List of budgets',
+        content: {
+          'application/json': {
+            schema: BudgetsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getBudgetsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const budgets = await container.budgetRepo.findAllForUser(user.id);
+
+    return c.json({ budgets: budgets.map(toBudgetResponse) }, 200);
+  });
+
+  // Get budget progress (before /{id} routes)
+  const getProgressRoute = createRoute({
+    method: 'get',
+    path: '/progress',
+    summary: 'Get budget progress',
+    description:
+      "Spent vs. limit of each budget for the current period in the user's timezone, converted to the user's base currency",
+    tags: ['Budgets'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'Progress of each budget',
+        content: {
+          'application/json': {
+            schema: BudgetProgressResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getProgressRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const progress = await container.budgetService.getProgress(user.id);
+
+    return c.json(
+      {
+        progress: progress.map((item) => ({
+          ...item,
+          budget: toBudgetResponse(item.budget),
+          periodStart: item.periodStart.toISOString(),
+          periodEnd: item.periodEnd.toISOString(),
+        })),
+      },
+      200
+    );
+  });
+
+  // Create budget
+  const createBudgetRoute = createRoute({
+    method: 'post',
+    path: '/',
+    summary: 'Create budget',
+    description:
+      'Create a spending limit for a category. A category has at most one budget per period.',
+    tags: ['Budgets'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: CreateBudgetSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Budget created successfully',
+        content: {
+          'application/json': {
+            schema: BudgetResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid category',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'The category already has a budget for this period',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(createBudgetRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const body = c.req.valid('json');
+    const period = body.period ?? 'monthly';
+
+    const category = await container.categoryRepo.findById(body.categoryId);
+    if (!category || (category.userId !== null && category.userId !== user.id)) {
+      return c.json({ error: 'Category not found' }, 400);
+    }
+
+    const existing = await container.budgetRepo.findForCategory(user.id, body.categoryId);
+    if (existing.some((budget) => budget.period === period)) {
+      return c.json({ error: `Category already has a ${period} budget` }, 409);
+    }
+
+    const budget = await container.budgetRepo.create({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      categoryId: body.categoryId,
+      period,
+      amount: body.amount.toString(),
+      rollover: body.rollover ?? false,
+    });
+
+    return c.json({ budget: toBudgetResponse(budget) }, 201);
+  });
+
+  // Update budget
+  const updateBudgetRoute = createRoute({
+    method: 'patch',
+    path: '/{id}',
+    summary: 'Update budget',
+    description: 'Update a budget',
+    tags: ['Budgets'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Budget ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: UpdateBudgetSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Budget updated successfully',
+        content: {
+          'application/json': {
+            schema: BudgetResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid category',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Budget not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'The category already has a budget for this period',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(updateBudgetRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    const existing = await container.budgetRepo.findById(id, user.id);
+    if (!existing) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    if (body.categoryId) {
+      const category = await container.categoryRepo.findById(body.categoryId);
+      if (!category || (category.userId !== null && category.userId !== user.id)) {
+        return c.json({ error: 'Category not found' }, 400);
+      }
+    }
+
+    const categoryId = body.categoryId ?? existing.categoryId;
+    const period = body.period ?? existing.period;
+    const siblings = await container.budgetRepo.findForCategory(user.id, categoryId);
+    if (siblings.some((budget) => budget.id !== id && budget.period === period)) {
+      return c.json({ error: `Category already has a ${period} budget` }, 409);
+    }
+
+    const budget = await container.budgetRepo.update(id, user.id, {
+      categoryId: body.categoryId,
+      period: body.period,
+      amount: body.amount?.toString(),
+      rollover: body.rollover,
+    });
+    if (!budget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    return c.json({ budget: toBudgetResponse(budget) }, 200);
+  });
+
+  // Delete budget
+  const deleteBudgetRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    summary: 'Delete budget',
+    description: 'Delete a budget',
+    tags: ['Budgets'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Budget ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Budget deleted successfully',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Budget not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteBudgetRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const deleted = await container.budgetRepo.delete(id, user.id);
+    if (!deleted) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    return c.json({ message: 'Budget deleted successfully' }, 200);
+  });
+
+  return router;
+};
@@ -0,0 +1,126 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import { CategoryMemoriesResponseSchema, ErrorSchema } from '@/schemas';
+
+type CategoryMemoryRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+/**
+ * Category memory router with OpenAPI documentation
+ *
+ * Memories are learned from category corrections made through PATCH /transactions/{id}.
+ */
+export const createCategoryMemoryRouter = () => {
+  const router = new OpenAPIHono<CategoryMemoryRouterEnv>();
+
+  // Get all memories
+  const getMemoriesRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get learned categories',
+    description:
+      'Retrieve the merchant/remarks → category mappings learned from your corrections, most recent first',
+    tags: ['Category Memories'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'List of learned categories',
+        content: {
+          'application/json': {
+            schema: CategoryMemoriesResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getMemoriesRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const memories = await container.categoryMemoryRepo.findAllForUser(user.id);
+
+    const memoriesWithStringDates = memories.map((memory) => ({
+      ...memory,
+      matchField: memory.matchField as 'merchant' | 'remarks',
+      lastAppliedAt: memory.lastAppliedAt?.toISOString() ?? null,
+      createdAt: memory.createdAt.toISOString(),
+      updatedAt: memory.updatedAt.toISOString(),
+    }));
+
+    return c.json({ memories: memoriesWithStringDates }, 200);
+  });
+
+  // Delete memory
+  const deleteMemoryRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    summary: 'Forget learned category',
+    description: 'Remove a learned mapping so it is no longer applied or sent to the AI',
+    tags: ['Category Memories'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Category memory ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Learned category removed successfully',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Learned category not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteMemoryRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const deleted = await container.categoryMemoryRepo.delete(id, user.id);
+    if (!deleted) {
+      return c.json({ error: 'Learned category not found' }, 404);
+    }
+
+    return c.json({ message: 'Learned category removed successfully' }, 200);
+  });
+
+  return router;
+};
@@ -0,0 +1,301 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { CategoryRule } from '@/db/schema';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  CategoryRuleResponseSchema,
+  CategoryRulesResponseSchema,
+  CreateCategoryRuleSchema,
+  ErrorSchema,
+  UpdateCategoryRuleSchema,
+} from '@/schemas';
+import {
+  type CategoryRuleField,
+  type CategoryRuleMatchType,
+  isValidRulePattern,
+} from '@/services/categorization.service';
+
+type CategoryRuleRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const toRuleResponse = (rule: CategoryRule) => ({
+  ...rule,
+  field: rule.field as CategoryRuleField,
+  matchType: rule.matchType as CategoryRuleMatchType,
+  lastMatchedAt: rule.lastMatchedAt?.toISOString() ?? null,
+  createdAt: rule.createdAt.toISOString(),
+  updatedAt: rule.updatedAt.toISOString(),
+});
+
+/**
+ * Category rule router with OpenAPI documentation
+ *
+ * Rules categorize incoming (email/SMS) transactions deterministically and override the AI's choice.
+ */
+export const createCategoryRuleRouter = () => {
+  const router = new OpenAPIHono<CategoryRuleRouterEnv>();
+
+  // Get all rules
+  const getRulesRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get all category rules',
+    description: 'Retrieve all category rules for the user, in evaluation order',
+    tags: ['Category Rules'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'List of category rules',
+        content: {
+          'application/json': {
+            schema: CategoryRulesResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getRulesRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const rules = await container.categoryRuleRepo.findAllForUser(user.id);
+
+    return c.json({ rules: rules.map(toRuleResponse) }, 200);
+  });
+
+  // Create rule
+  const createRuleRoute = createRoute({
+    method: 'post',
+    path: '/',
+    summary: 'Create category rule',
+    description:
+      'Create a rule that assigns a category to incoming transactions whose merchant/remarks match the pattern',
+    tags: ['Category Rules'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: CreateCategoryRuleSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Category rule created successfully',
+        content: {
+          'application/json': {
+            schema: CategoryRuleResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid pattern or category',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(createRuleRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    if (!isValidRulePattern(body.matchType, body.pattern)) {
+      return c.json({ error: 'Invalid pattern for match type', message: body.pattern }, 400);
+    }
+
+    const category = await container.categoryRepo.findById(body.categoryId);
+    if (!category || (category.userId !== null && category.userId !== user.id)) {
+      return c.json({ error: 'Category not found' }, 400);
+    }
+
+    const rule = await container.categoryRuleRepo.create({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      categoryId: body.categoryId,
+      field: body.field,
+      matchType: body.matchType,
+      pattern: body.pattern,
+      priority: body.priority ?? 0,
+      isActive: body.isActive ?? true,
+    });
+
+    return c.json({ rule: toRuleResponse(rule) }, 201);
+  });
+
+  // Update rule
+  const updateRuleRoute = createRoute({
+    method: 'patch',
+    path: '/{id}',
+    summary: 'Update category rule',
+    description: 'Update a category rule',
+    tags: ['Category Rules'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Category rule ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: UpdateCategoryRuleSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Category rule updated successfully',
+        content: {
+          'application/json': {
+            schema: CategoryRuleResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid pattern or category',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Category rule not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(updateRuleRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    const existing = await container.categoryRuleRepo.findById(id, user.id);
+    if (!existing) {
+      return c.json({ error: 'Category rule not found' }, 404);
+    }
+
+    const matchType = body.matchType ?? (existing.matchType as CategoryRuleMatchType);
+    const pattern = body.pattern ?? existing.pattern;
+    if (!isValidRulePattern(matchType, pattern)) {
+      return c.json({ error: 'Invalid pattern for match type', message: pattern }, 400);
+    }
+
+    if (body.categoryId) {
+      const category = await container.categoryRepo.findById(body.categoryId);
+      if (!category || (category.userId !== null && category.userId !== user.id)) {
+        return c.json({ error: 'Category not found' }, 400);
+      }
+    }
+
+    const rule = await container.categoryRuleRepo.update(id, user.id, body);
+    if (!rule) {
+      return c.json({ error: 'Category rule not found' }, 404);
+    }
+
+    return c.json({ rule: toRuleResponse(rule) }, 200);
+  });
+
+  // Delete rule
+  const deleteRuleRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    summary: 'Delete category rule',
+    description:
+      'Delete a category rule. Transactions it categorized keep their category but lose the rule link.',
+    tags: ['Category Rules'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Category rule ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Category rule deleted successfully',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Category rule not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteRuleRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const deleted = await container.categoryRuleRepo.delete(id, user.id);
+    if (!deleted) {
+      return c.json({ error: 'Category rule not found' }, 404);
+    }
+
+    return c.json({ message: 'Category rule deleted successfully' }, 200);
+  });
+
+  return router;
+};
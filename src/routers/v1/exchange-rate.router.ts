@@ -0,0 +1,192 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  CreateExchangeRateSchema,
+  ErrorSchema,
+  ExchangeRateResponseSchema,
+  ExchangeRatesResponseSchema,
+} from '@/schemas';
+
+type ExchangeRateRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+/**
+ * Exchange rate router with OpenAPI documentation
+ */
+export const createExchangeRateRouter = () => {
+  const router = new OpenAPIHono<ExchangeRateRouterEnv>();
+
+  // Get all exchange rates (shared + user's own)
+  const getExchangeRatesRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get all exchange rates',
+    description: 'Retrieve all exchange rates usable by the user (shared + entered by the user)',
+    tags: ['Exchange Rates'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'List of exchange rates',
+        content: {
+          'application/json': {
+            schema: ExchangeRatesResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getExchangeRatesRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const rates = await container.exchangeRateRepo.findAllForUser(user.id);
+
+    const ratesWithStringDates = rates.map((rate) => ({
+      ...rate,
+      effectiveDate: rate.effectiveDate.toISOString(),
+      createdAt: rate.createdAt.toISOString(),
+    }));
+
+    return c.json({ exchangeRates: ratesWithStringDates }, 200);
+  });
+
+  // Create exchange rate entered by hand
+  const createExchangeRateRoute = createRoute({
+    method: 'post',
+    path: '/',
+    summary: 'Create exchange rate',
+    description:
+      'Enter an exchange rate by hand. It takes precedence over shared rates for this user.',
+    tags: ['Exchange Rates'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: CreateExchangeRateSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Exchange rate created successfully',
+        content: {
+          'application/json': {
+            schema: ExchangeRateResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(createExchangeRateRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const rate = await container.exchangeRateRepo.create({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      fromCurrency: body.fromCurrency,
+      toCurrency: body.toCurrency,
+      rate: body.rate.toString(),
+      effectiveDate: body.effectiveDate ? new Date(body.effectiveDate) : new Date(),
+      source: 'manual',
+    });
+
+    const rateWithStringDates = {
+      ...rate,
+      effectiveDate: rate.effectiveDate.toISOString(),
+      createdAt: rate.createdAt.toISOString(),
+    };
+
+    return c.json({ exchangeRate: rateWithStringDates }, 201);
+  });
+
+  // Delete exchange rate entered by the user
+  const deleteExchangeRateRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    summary: 'Delete exchange rate',
+    description: 'Delete an exchange rate entered by the user (shared rates cannot be deleted)',
+    tags: ['Exchange Rates'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Exchange rate ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Exchange rate deleted successfully',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Exchange rate not found or cannot be deleted',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteExchangeRateRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const deleted = await container.exchangeRateRepo.delete(id, user.id);
+
+    if (!deleted) {
+      return c.json(
+        { error: 'Exchange rate not found or cannot be deleted (shared rates are read-only)' },
+        404
+      );
+    }
+
+    return c.json({ message: 'Exchange rate deleted successfully' }, 200);
+  });
+
+  return router;
+};
@@ -1,8 +1,11 @@
+import { createHash, randomBytes } from 'node:crypto';
 import { OpenAPIHono } from '@hono/zod-openapi';
+import type { GmailOAuthToken } from '@/db/schema';
 import type { Container } from '@/lib/container';
 import { createRoute } from '@/lib/openapi';
 import {
   ErrorSchema,
+  GmailAccountQuerySchema,
   GmailOAuthAuthorizeResponseSchema,
   GmailOAuthCallbackQuerySchema,
   GmailOAuthCallbackResponseSchema,
@@ -23,6 +26,9 @@ type GmailOAuthEnv = {
   };
 };
 
+/** How long a user has to complete the Google consent screen */
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
 /**
  * Gmail OAuth router with OpenAPI documentation
  */
@@ -37,7 +43,8 @@ export const createGmailOAuthRouter = () => {
     method: 'get',
     path: '/authorize',
     summary: 'Get Gmail OAuth authorization URL',
-    description: 'Returns the URL to redirect the user to for Gmail OAuth authorization',
+    description:
+      'Returns the URL to redirect the user to for Gmail OAuth authorization, with a single-use state and a PKCE challenge',
     tags: ['Gmail OAuth'],
     security: [{ Bearer: [] }],
     responses: {
@@ -91,10 +98,19 @@ export const createGmailOAuthRouter = () => {
         'https://www.googleapis.com/auth/gmail.settings.basic',
       ].join(' ');
 
-      // Generate state parameter for CSRF protection
-      const state = Buffer.from(
-        JSON.stringify({ userId: user.id, timestamp: Date.now() })
-      ).toString('base64url');
+      // Random single-use state for CSRF protection, stored with the PKCE verifier
+      const container = c.get('container');
+      const state = randomBytes(32).toString('base64url');
+      const codeVerifier = randomBytes(48).toString('base64url');
+      const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+      await container.gmailOAuthStateRepo.deleteExpired();
+      await container.gmailOAuthStateRepo.create({
+        id: state,
+        userId: user.id,
+        codeVerifier,
+        expiresAt: new Date(Date.now() + OAUTH_STATE_TTL_MS),
+      });
 
       // Build authorization URL
       const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
@@ -105,6 +121,8 @@ export const createGmailOAuthRouter = () => {
       authUrl.searchParams.set('access_type', 'offline'); // Required to get refresh token
       authUrl.searchParams.set('prompt', 'consent'); // Force consent to get refresh token
       authUrl.searchParams.set('state', state);
+      authUrl.searchParams.set('code_challenge', codeChallenge);
+      authUrl.searchParams.set('code_challenge_method', 'S256');
 
       return c.json(
         {
@@ -132,7 +150,8 @@ export const createGmailOAuthRouter = () => {
     method: 'get',
     path: '/callback',
     summary: 'Handle Gmail OAuth callback',
-    description: 'Exchanges the authorization code for tokens and stores them',
+    description:
+      'Exchanges the authorization code for tokens and stores them. The state must come from /authorize for the same user within 10 minutes and can be used once.',
     tags: ['Gmail OAuth'],
     request: {
       query: GmailOAuthCallbackQuerySchema,
@@ -189,23 +208,21 @@ export const createGmailOAuthRouter = () => {
         );
       }
 
-      // Verify state (in production, you might want to store this in a session/cache)
-      let stateData: { userId: string; timestamp: number };
-      try {
-        stateData = JSON.parse(Buffer.from(state, 'base64url').toString('utf-8')) as {
-          userId: string;
-          timestamp: number;
-        };
-      } catch {
+      // Verify state: issued by /authorize to this user, unexpired and not used before
+      const user = c.get('user');
+      const container = c.get('container');
+      const storedState = await container.gmailOAuthStateRepo.consume(state);
+      if (!storedState || storedState.userId !== user.id) {
         return c.json(
           {
             error: 'Invalid state parameter',
+            message: 'The authorization request is unknown, expired or already used',
           },
           400
         );
       }
 
-      const userId = stateData.userId;
+      const userId = storedState.userId;
       const redirectUri = process.env.GMAIL_OAUTH_REDIRECT_URI;
       const clientId = process.env.GMAIL_CLIENT_ID;
       const clientSecret = process.env.GMAIL_CLIENT_SECRET;
@@ -231,6 +248,7 @@ export const createGmailOAuthRouter = () => {
           client_secret: clientSecret,
           redirect_uri: redirectUri,
           grant_type: 'authorization_code',
+          code_verifier: storedState.codeVerifier,
         }),
       });
 
@@ -273,8 +291,7 @@ export const createGmailOAuthRouter = () => {
       const profile = await profileResponse.json();
 
       // Store tokens in database
-      const container = c.get('container');
-      await container.gmailService.storeTokens(
+      const account = await container.gmailService.storeTokens(
         userId,
         profile.emailAddress,
         tokenData.access_token,
@@ -287,6 +304,7 @@ export const createGmailOAuthRouter = () => {
         {
           success: true,
           message: 'Gmail OAuth authorization successful',
+          accountId: account.id,
           emailAddress: profile.emailAddress,
         },
         200
@@ -310,9 +328,13 @@ export const createGmailOAuthRouter = () => {
     method: 'post',
     path: '/refresh',
     summary: 'Refresh Gmail OAuth token',
-    description: 'Manually refresh the access token for the authenticated user',
+    description:
+      'Manually refresh the access token of a connected Gmail account. accountId is required when several accounts are connected.',
     tags: ['Gmail OAuth'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Token refreshed successfully',
@@ -354,21 +376,24 @@ export const createGmailOAuthRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
 
-      // Get current token
-      const token = await container.gmailOAuthRepo.findByUserId(user.id);
+      const { accountId } = c.req.valid('query');
 
-      if (!token) {
+      // Get current token
+      let token: GmailOAuthToken;
+      try {
+        token = await container.gmailService.resolveAccount(user.id, accountId);
+      } catch (error) {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error instanceof Error ? error.message : 'Please authorize Gmail access first',
           },
           404
         );
       }
 
       // Refresh the token
-      await container.gmailService.refreshAccessToken(user.id, token.refreshToken);
+      await container.gmailService.refreshAccessToken(token.id, token.refreshToken);
 
       return c.json(
         {
@@ -397,9 +422,13 @@ export const createGmailOAuthRouter = () => {
     method: 'delete',
     path: '/revoke',
     summary: 'Revoke Gmail OAuth tokens',
-    description: 'Revokes and deletes the Gmail OAuth tokens for the authenticated user',
+    description:
+      'Revokes and deletes the OAuth tokens of a connected Gmail account. accountId is required when several accounts are connected.',
     tags: ['Gmail OAuth'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Tokens revoked successfully',
@@ -441,13 +470,17 @@ export const createGmailOAuthRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
 
-      // Get current token
-      const token = await container.gmailOAuthRepo.findByUserId(user.id);
+      const { accountId } = c.req.valid('query');
 
-      if (!token) {
+      // Get current token
+      let token: GmailOAuthToken;
+      try {
+        token = await container.gmailService.resolveAccount(user.id, accountId);
+      } catch (error) {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
+            message: error instanceof Error ? error.message : undefined,
           },
           404
         );
@@ -470,7 +503,7 @@ export const createGmailOAuthRouter = () => {
       }
 
       // Delete token from database
-      await container.gmailOAuthRepo.deleteByUserId(user.id);
+      await container.gmailOAuthRepo.delete(token.id);
 
       return c.json(
         {
@@ -498,7 +531,7 @@ export const createGmailOAuthRouter = () => {
     method: 'get',
     path: '/status',
     summary: 'Get Gmail OAuth status',
-    description: 'Returns the current OAuth token status for the authenticated user',
+    description: 'Returns the OAuth token status of each Gmail account connected by the user',
     tags: ['Gmail OAuth'],
     security: [{ Bearer: [] }],
     responses: {
@@ -534,40 +567,41 @@ export const createGmailOAuthRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
 
-      const token = await container.gmailOAuthRepo.findByUserId(user.id);
+      const tokens = await container.gmailOAuthRepo.findAllForUser(user.id);
 
-      if (!token) {
+      if (tokens.length === 0) {
         return c.json(
           {
             authorized: false,
+            accounts: [],
             message: 'No Gmail OAuth token found',
           },
           200
         );
       }
 
-      // Check if token is valid
-      const isValid = await container.gmailOAuthRepo.isTokenValid(token.id);
-      const expiresAt = new Date(token.expiresAt);
       const now = new Date();
-
-      // Convert Date objects to ISO strings
-      return c.json(
-        {
-          authorized: true,
-          emailAddress: token.emailAddress,
-          expiresAt:
-            token.expiresAt instanceof Date ? token.expiresAt.toISOString() : token.expiresAt,
-          isExpired: expiresAt < now,
-          isValid,
-          scope: token.scope,
-          createdAt:
-            token.createdAt instanceof Date ? token.createdAt.toISOString() : token.createdAt,
-          updatedAt:
-            token.updatedAt instanceof Date ? token.updatedAt.toISOString() : token.updatedAt,
-        },
-        200
+      const accounts = await Promise.all(
+        tokens.map(async (token) => {
+          // Check if token is valid
+          const isValid = await container.gmailOAuthRepo.isTokenValid(token.id);
+          const expiresAt = new Date(token.expiresAt);
+
+          // Convert Date objects to ISO strings
+          return {
+            id: token.id,
+            emailAddress: token.emailAddress,
+            expiresAt: expiresAt.toISOString(),
+            isExpired: expiresAt < now,
+            isValid,
+            scope: token.scope,
+            createdAt: token.createdAt.toISOString(),
+            updatedAt: token.updatedAt.toISOString(),
+          };
+        })
       );
+
+      return c.json({ authorized: true, accounts }, 200);
     } catch (error) {
       console.error('Error getting OAuth status:', error);
       return c.json(
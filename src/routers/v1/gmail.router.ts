@@ -1,11 +1,15 @@
 import { OpenAPIHono } from '@hono/zod-openapi';
+import type { GmailBackfill } from '@/db/schema';
 import { inngest } from '@/inngest/client';
 import type { Container } from '@/lib/container';
 import { createRoute } from '@/lib/openapi';
 import {
   ErrorSchema,
+  GmailAccountQuerySchema,
   GmailAttachmentParamsSchema,
   GmailAttachmentResponseSchema,
+  GmailBackfillRequestSchema,
+  GmailBackfillResponseSchema,
   GmailGetMessageQuerySchema,
   GmailHistoryQuerySchema,
   GmailHistoryResponseSchema,
@@ -24,6 +28,27 @@ import {
   GmailWatchStatusResponseSchema,
   SuccessSchema,
 } from '@/schemas';
+import type { GmailAccount } from '@/services/gmail.service';
+
+/** Days of past mail imported when a backfill does not specify a start date */
+const DEFAULT_BACKFILL_DAYS = 90;
+
+const toBackfillResponse = (backfill: GmailBackfill) => ({
+  id: backfill.id,
+  accountId: backfill.accountId,
+  status: backfill.status as 'queued' | 'running' | 'completed' | 'failed',
+  startDate: backfill.startDate.toISOString(),
+  endDate: backfill.endDate.toISOString(),
+  query: backfill.query,
+  messagesFound: backfill.messagesFound,
+  savedCount: backfill.savedCount,
+  skippedCount: backfill.skippedCount,
+  failedCount: backfill.failedCount,
+  lastError: backfill.lastError,
+  startedAt: backfill.startedAt?.toISOString() ?? null,
+  completedAt: backfill.completedAt?.toISOString() ?? null,
+  createdAt: backfill.createdAt.toISOString(),
+});
 
 type GmailEnv = {
   Variables: {
@@ -53,6 +78,9 @@ export const createGmailRouter = () => {
     description: 'Returns the Gmail profile for the authenticated user',
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Gmail profile retrieved successfully',
@@ -93,8 +121,10 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
 
-      const profile = await container.gmailService.getProfile(user.id);
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      const profile = await container.gmailService.getProfile(account.id);
 
       return c.json(profile, 200);
     } catch (error) {
@@ -104,7 +134,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -132,6 +162,9 @@ export const createGmailRouter = () => {
       "Returns all labels in the user's Gmail account. Use this to find label IDs for filtering messages or setting up watch notifications.",
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Labels listed successfully',
@@ -172,8 +205,10 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
 
-      const response = await container.gmailService.listLabels(user.id);
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      const response = await container.gmailService.listLabels(account.id);
 
       return c.json(response, 200);
     } catch (error) {
@@ -183,7 +218,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -212,6 +247,7 @@ export const createGmailRouter = () => {
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
     request: {
+      query: GmailAccountQuerySchema,
       body: {
         content: {
           'application/json': {
@@ -261,26 +297,28 @@ export const createGmailRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
       const body = c.req.valid('json');
+      const { accountId } = c.req.valid('query');
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
 
       let labelIds: string[];
 
       if (body.createLabelName) {
         const label = await container.gmailService.findOrCreateMonitorLabel(
-          user.id,
+          account.id,
           body.createLabelName
         );
         labelIds = [label.id];
       } else if (body.labelIds && body.labelIds.length > 0) {
         for (const labelId of body.labelIds) {
-          await container.gmailService.getLabel(user.id, labelId);
+          await container.gmailService.getLabel(account.id, labelId);
         }
         labelIds = body.labelIds;
       } else {
-        const label = await container.gmailService.findOrCreateMonitorLabel(user.id);
+        const label = await container.gmailService.findOrCreateMonitorLabel(account.id);
         labelIds = [label.id];
       }
 
-      await container.gmailOAuthRepo.setWatchLabelIds(user.id, labelIds);
+      await container.gmailOAuthRepo.setWatchLabelIds(account.id, labelIds);
 
       return c.json({ labelIds }, 200);
     } catch (error) {
@@ -290,7 +328,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -319,6 +357,7 @@ export const createGmailRouter = () => {
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
     request: {
+      query: GmailAccountQuerySchema,
       body: {
         content: {
           'application/json': {
@@ -368,8 +407,10 @@ export const createGmailRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
       const body = c.req.valid('json');
+      const { accountId } = c.req.valid('query');
 
-      const result = await container.gmailService.setSenderFilterEmails(user.id, body.emails);
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      const result = await container.gmailService.setSenderFilterEmails(account.id, body.emails);
 
       return c.json(
         {
@@ -385,7 +426,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -412,6 +453,9 @@ export const createGmailRouter = () => {
     description: 'Returns the current sender filter config (emails being filtered).',
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Filter config retrieved successfully',
@@ -452,8 +496,10 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
 
-      const emails = await container.gmailOAuthRepo.getFilterSenderEmails(user.id);
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      const emails = (account.filterSenderEmails ?? []) as string[];
 
       return c.json(
         {
@@ -469,7 +515,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -496,6 +542,9 @@ export const createGmailRouter = () => {
     description: 'Removes the Gmail sender filter and clears stored config.',
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Filter deleted successfully',
@@ -536,8 +585,10 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
 
-      await container.gmailService.setSenderFilterEmails(user.id, []);
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      await container.gmailService.setSenderFilterEmails(account.id, []);
 
       return c.json(
         {
@@ -553,7 +604,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -623,10 +674,11 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
-      const { q, maxResults, pageToken } = c.req.valid('query');
+      const { accountId, q, maxResults, pageToken } = c.req.valid('query');
 
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
       const result = await container.gmailService.listMessages(
-        user.id,
+        account.id,
         q,
         maxResults ?? 50,
         pageToken
@@ -646,7 +698,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -718,9 +770,14 @@ export const createGmailRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
       const { messageId } = c.req.valid('param');
-      const { format } = c.req.valid('query');
+      const { accountId, format } = c.req.valid('query');
 
-      const message = await container.gmailService.getMessage(user.id, messageId, format ?? 'full');
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      const message = await container.gmailService.getMessage(
+        account.id,
+        messageId,
+        format ?? 'full'
+      );
 
       return c.json(message, 200);
     } catch (error) {
@@ -730,7 +787,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -768,6 +825,7 @@ export const createGmailRouter = () => {
     security: [{ Bearer: [] }],
     request: {
       params: GmailAttachmentParamsSchema,
+      query: GmailAccountQuerySchema,
     },
     responses: {
       200: {
@@ -810,9 +868,11 @@ export const createGmailRouter = () => {
       const user = c.get('user');
       const container = c.get('container');
       const { messageId, attachmentId } = c.req.valid('param');
+      const { accountId } = c.req.valid('query');
 
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
       const attachment = await container.gmailService.getAttachment(
-        user.id,
+        account.id,
         messageId,
         attachmentId
       );
@@ -825,7 +885,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -904,10 +964,11 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
-      const { startHistoryId, maxResults } = c.req.valid('query');
+      const { accountId, startHistoryId, maxResults } = c.req.valid('query');
 
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
       const history = await container.gmailService.getHistory(
-        user.id,
+        account.id,
         startHistoryId,
         maxResults ?? 100
       );
@@ -920,7 +981,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -948,6 +1009,7 @@ export const createGmailRouter = () => {
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
     request: {
+      query: GmailAccountQuerySchema,
       body: {
         content: {
           'application/json': {
@@ -996,28 +1058,33 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
 
       const topicName = 'projects/project-4d4e1b26-7614-4156-a58/topics/autofin';
-      const labelIds = await container.gmailService.getWatchLabelIds(user.id);
+      const labelIds = await container.gmailService.getWatchLabelIds(account.id);
 
-      const response = await container.gmailService.watch(user.id, topicName, labelIds);
+      const response = await container.gmailService.watch(account.id, topicName, labelIds);
 
       // Store the initial history ID from watch response
       // This is the starting point for processing future notifications
-      await container.gmailOAuthRepo.updateHistoryId(user.id, response.historyId);
-      console.log(`Stored initial history ID ${response.historyId} for user ${user.id}`);
+      await container.gmailOAuthRepo.updateHistoryId(account.id, response.historyId);
+      console.log(
+        `Stored initial history ID ${response.historyId} for ${account.emailAddress} (user ${user.id})`
+      );
 
       // Start/refresh the periodic resync loop in Inngest (best-effort; don't fail the route).
       try {
         // If this endpoint is called multiple times, explicitly cancel any prior runs first.
         await inngest.send({
           name: 'gmail/watch.stopped',
-          data: { userId: user.id },
+          data: { userId: user.id, accountId: account.id },
         });
         await inngest.send({
           name: 'gmail/watch.started',
           data: {
             userId: user.id,
+            accountId: account.id,
             topicName,
             labelIds,
           },
@@ -1034,7 +1101,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -1065,6 +1132,9 @@ export const createGmailRouter = () => {
       'Checks if a Gmail watch exists by calling the watch API (idempotent). Returns current watch info including expiration.',
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Watch status retrieved successfully',
@@ -1105,15 +1175,17 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
 
       const topicName = 'projects/project-4d4e1b26-7614-4156-a58/topics/autofin';
-      const labelIds = await container.gmailService.getWatchLabelIds(user.id);
+      const labelIds = await container.gmailService.getWatchLabelIds(account.id);
 
       // Calling watch() is idempotent - it returns current watch info if one exists
-      const response = await container.gmailService.watch(user.id, topicName, labelIds);
+      const response = await container.gmailService.watch(account.id, topicName, labelIds);
 
       // Store/update the history ID from watch response
-      await container.gmailOAuthRepo.updateHistoryId(user.id, response.historyId);
+      await container.gmailOAuthRepo.updateHistoryId(account.id, response.historyId);
 
       // Parse expiration (it's epoch milliseconds as a string)
       const expirationMs = parseInt(response.expiration, 10);
@@ -1141,7 +1213,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -1168,6 +1240,9 @@ export const createGmailRouter = () => {
     description: 'Stops the Gmail push notification subscription',
     tags: ['Gmail'],
     security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
     responses: {
       200: {
         description: 'Watch stopped successfully',
@@ -1208,14 +1283,16 @@ export const createGmailRouter = () => {
     try {
       const user = c.get('user');
       const container = c.get('container');
+      const { accountId } = c.req.valid('query');
 
-      await container.gmailService.stopWatch(user.id);
+      const account = await container.gmailService.resolveAccount(user.id, accountId);
+      await container.gmailService.stopWatch(account.id);
 
-      // Cancel any running resync loop for this user (best-effort).
+      // Cancel any running resync loop for this account (best-effort).
       try {
         await inngest.send({
           name: 'gmail/watch.stopped',
-          data: { userId: user.id },
+          data: { userId: user.id, accountId: account.id },
         });
       } catch (err) {
         console.warn('Failed to enqueue Inngest Gmail watch cancel event:', err);
@@ -1235,7 +1312,7 @@ export const createGmailRouter = () => {
         return c.json(
           {
             error: 'No Gmail OAuth token found',
-            message: 'Please authorize Gmail access first',
+            message: error.message,
           },
           404
         );
@@ -1251,5 +1328,197 @@ export const createGmailRouter = () => {
     }
   });
 
+  /**
+   * Start importing past bank alerts
+   * POST /api/v1/gmail/backfill
+   */
+  const startBackfillRoute = createRoute({
+    method: 'post',
+    path: '/backfill',
+    summary: 'Start Gmail backfill',
+    description:
+      'Imports bank alerts received before the watch was set up. Messages from the sender filter ' +
+      '(or with the monitor label) in the date range are run through the same extraction pipeline ' +
+      'as new mail, in the background. Already imported messages are skipped. ' +
+      'Poll GET /gmail/backfill/status for progress.',
+    tags: ['Gmail'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+      body: {
+        content: {
+          'application/json': {
+            schema: GmailBackfillRequestSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      202: {
+        description: 'Backfill queued',
+        content: {
+          'application/json': {
+            schema: GmailBackfillResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'No Gmail OAuth token found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'A backfill is already queued or running',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      500: {
+        description: 'Failed to start backfill',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(startBackfillRoute, async (c) => {
+    const user = c.get('user');
+    const container = c.get('container');
+    const { startDate, endDate } = c.req.valid('json');
+    const { accountId } = c.req.valid('query');
+
+    let account: GmailAccount;
+    try {
+      account = await container.gmailService.resolveAccount(user.id, accountId);
+    } catch (error) {
+      return c.json(
+        {
+          error: 'No Gmail OAuth token found',
+          message: error instanceof Error ? error.message : 'Please authorize Gmail access first',
+        },
+        404
+      );
+    }
+
+    const active = await container.gmailBackfillRepo.findActiveForAccount(account.id);
+    if (active) {
+      return c.json(
+        {
+          error: 'Backfill already in progress',
+          message: `Backfill ${active.id} is ${active.status}`,
+        },
+        409
+      );
+    }
+
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate
+      ? new Date(startDate)
+      : new Date(end.getTime() - DEFAULT_BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+
+    const backfill = await container.gmailBackfillRepo.create({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      accountId: account.id,
+      startDate: start,
+      endDate: end,
+    });
+
+    try {
+      await inngest.send({
+        name: 'gmail/backfill.requested',
+        data: { userId: user.id, accountId: account.id, backfillId: backfill.id },
+      });
+    } catch (error) {
+      console.error('Failed to enqueue Gmail backfill:', error);
+      await container.gmailBackfillRepo.update(backfill.id, {
+        status: 'failed',
+        lastError: 'Failed to enqueue backfill',
+        completedAt: new Date(),
+      });
+      return c.json(
+        {
+          error: 'Failed to start backfill',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+
+    return c.json({ backfill: toBackfillResponse(backfill) }, 202);
+  });
+
+  /**
+   * Get progress of the latest backfill
+   * GET /api/v1/gmail/backfill/status
+   */
+  const backfillStatusRoute = createRoute({
+    method: 'get',
+    path: '/backfill/status',
+    summary: 'Get Gmail backfill status',
+    description:
+      'Returns the status and progress counters of your most recent backfill, optionally for one account',
+    tags: ['Gmail'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: GmailAccountQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Backfill status retrieved successfully',
+        content: {
+          'application/json': {
+            schema: GmailBackfillResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'No backfill found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(backfillStatusRoute, async (c) => {
+    const user = c.get('user');
+    const container = c.get('container');
+    const { accountId } = c.req.valid('query');
+
+    const backfill = await container.gmailBackfillRepo.findLatestForUser(user.id, accountId);
+    if (!backfill) {
+      return c.json({ error: 'No backfill found' }, 404);
+    }
+
+    return c.json({ backfill: toBackfillResponse(backfill) }, 200);
+  });
+
   return router;
 };
@@ -3,11 +3,23 @@ import { z } from 'zod';
 import type { Container } from '@/lib/container';
 import { createRoute } from '@/lib/openapi';
 import type { AuthUser } from '@/middleware/auth';
+import { createAccountRouter } from './account.router';
+import { createAdminRouter } from './admin.router';
+import { createAnalyticsRouter } from './analytics.router';
+import { createBudgetRouter } from './budget.router';
 import { createCategoryRouter } from './category.router';
+import { createCategoryMemoryRouter } from './category-memory.router';
+import { createCategoryRuleRouter } from './category-rule.router';
+import { createExchangeRateRouter } from './exchange-rate.router';
 import { createGmailRouter } from './gmail.router';
 import { createGmailOAuthRouter } from './gmail-oauth.router';
+import { createIngestionRouter } from './ingestion.router';
 import { createInsightsRouter } from './insights.router';
+import { createMerchantRouter } from './merchant.router';
+import { createRecurringRouter } from './recurring.router';
+import { createReviewRouter } from './review.router';
 import { createTransactionRouter } from './transaction.router';
+import { createTransferRouter } from './transfer.router';
 import { createUserRouter } from './user.router';
 
 type Env = {
@@ -24,9 +36,22 @@ export const createV1Router = () => {
   router.route('/users', createUserRouter());
   router.route('/gmail/oauth', createGmailOAuthRouter());
   router.route('/gmail', createGmailRouter());
+  // Category sub-routers before /categories so its /{id} routes do not capture them
+  router.route('/categories/rules', createCategoryRuleRouter());
+  router.route('/categories/memories', createCategoryMemoryRouter());
   router.route('/categories', createCategoryRouter());
   router.route('/transactions', createTransactionRouter());
+  router.route('/merchants', createMerchantRouter());
+  router.route('/accounts', createAccountRouter());
   router.route('/insights', createInsightsRouter());
+  router.route('/ingestions', createIngestionRouter());
+  router.route('/review', createReviewRouter());
+  router.route('/transfers', createTransferRouter());
+  router.route('/recurring', createRecurringRouter());
+  router.route('/budgets', createBudgetRouter());
+  router.route('/analytics', createAnalyticsRouter());
+  router.route('/exchange-rates', createExchangeRateRouter());
+  router.route('/admin', createAdminRouter());
 
   // Health check
   const healthCheckRoute = createRoute({
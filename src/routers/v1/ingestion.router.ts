@@ -0,0 +1,265 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { EmailIngestion } from '@/db/schema';
+import { inngest } from '@/inngest/client';
+import type { GmailMessageReceivedEvent } from '@/inngest/functions/gmail-ingest-message';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  EmailIngestionFiltersSchema,
+  EmailIngestionResponseSchema,
+  EmailIngestionsResponseSchema,
+  ErrorSchema,
+  ExtractorStatsQuerySchema,
+  ExtractorStatsResponseSchema,
+} from '@/schemas';
+import type { EmailIngestionTrigger } from '@/services/gmail.service';
+
+type IngestionRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const toIngestionResponse = (ingestion: EmailIngestion) => ({
+  ...ingestion,
+  trigger: ingestion.trigger as EmailIngestionTrigger,
+  outcome: ingestion.outcome as 'saved' | 'duplicate' | 'not_transaction' | 'failed',
+  confidence: ingestion.confidence === null ? null : Number.parseFloat(ingestion.confidence),
+  receivedAt: ingestion.receivedAt?.toISOString() ?? null,
+  createdAt: ingestion.createdAt.toISOString(),
+  updatedAt: ingestion.updatedAt.toISOString(),
+});
+
+/**
+ * Ingestion router with OpenAPI documentation
+ *
+ * Audit log of the Gmail messages run through the extract-and-save pipeline, so users can see
+ * why an email was or wasn't saved as a transaction and reprocess it.
+ */
+export const createIngestionRouter = () => {
+  const router = new OpenAPIHono<IngestionRouterEnv>();
+
+  // List ingestions
+  const getIngestionsRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'List email ingestions',
+    description:
+      'One entry per Gmail message processed, with the latest run: sender, subject, label match, duplicate check, extractor verdict, resulting transaction, error and timings. Most recently processed first.',
+    tags: ['Ingestions'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: EmailIngestionFiltersSchema,
+    },
+    responses: {
+      200: {
+        description: 'List of ingestions',
+        content: {
+          'application/json': {
+            schema: EmailIngestionsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getIngestionsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { startDate, endDate, ...filters } = c.req.valid('query');
+
+    const { ingestions, total } = await container.emailIngestionRepo.findAllForUser(user.id, {
+      ...filters,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+
+    return c.json(
+      {
+        ingestions: ingestions.map(toIngestionResponse),
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+      },
+      200
+    );
+  });
+
+  // Parser vs. AI hit rate
+  const getExtractorStatsRoute = createRoute({
+    method: 'get',
+    path: '/stats',
+    summary: 'Get extractor stats',
+    description:
+      "How many processed emails were read by a deterministic bank parser versus sent to the AI, per extractor. Counts each email's latest run, by when it was processed.",
+    tags: ['Ingestions'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: ExtractorStatsQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Extractor stats',
+        content: {
+          'application/json': {
+            schema: ExtractorStatsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getExtractorStatsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { startDate, endDate } = c.req.valid('query');
+
+    const byExtractor = await container.emailIngestionRepo.countByExtractor(user.id, {
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+    const total = byExtractor.reduce((sum, row) => sum + row.count, 0);
+    const ai = byExtractor.find((row) => row.extractor === 'ai')?.count ?? 0;
+    const parser = total - ai;
+
+    return c.json(
+      {
+        stats: {
+          total,
+          parser,
+          ai,
+          parserHitRate: total > 0 ? parser / total : null,
+          byExtractor,
+        },
+      },
+      200
+    );
+  });
+
+  // Reprocess an email
+  const reprocessIngestionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/reprocess',
+    summary: 'Reprocess email',
+    description:
+      'Run a skipped or failed email through extraction again, in the background. The entry is updated when the run finishes.',
+    tags: ['Ingestions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Ingestion ID'),
+      }),
+    },
+    responses: {
+      202: {
+        description: 'Reprocessing queued',
+        content: {
+          'application/json': {
+            schema: EmailIngestionResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Ingestion not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description:
+          'The email is already saved as a transaction, or its Gmail account was removed',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      500: {
+        description: 'Failed to queue reprocessing',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(reprocessIngestionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const ingestion = await container.emailIngestionRepo.findById(id, user.id);
+    if (!ingestion) {
+      return c.json({ error: 'Ingestion not found' }, 404);
+    }
+    if (ingestion.transactionId) {
+      return c.json(
+        {
+          error: 'Email is already saved as a transaction',
+          message: `Transaction ${ingestion.transactionId}`,
+        },
+        409
+      );
+    }
+    if (!ingestion.accountId) {
+      return c.json({ error: 'The Gmail account of this email was removed' }, 409);
+    }
+
+    const event: GmailMessageReceivedEvent = {
+      name: 'gmail/message.received',
+      data: {
+        userId: user.id,
+        accountId: ingestion.accountId,
+        messageId: ingestion.messageId,
+        trigger: 'reprocess',
+      },
+    };
+    try {
+      await inngest.send(event);
+    } catch (error) {
+      console.error('Failed to enqueue email reprocessing:', error);
+      return c.json(
+        {
+          error: 'Failed to queue reprocessing',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+
+    return c.json({ ingestion: toIngestionResponse(ingestion) }, 202);
+  });
+
+  return router;
+};
@@ -1,6 +1,7 @@
 import { OpenAPIHono } from '@hono/zod-openapi';
 import type { Server } from 'bun';
 import type { Container } from '@/lib/container';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
 import { createRoute } from '@/lib/openapi';
 import { filterDateToUtc } from '@/lib/timezone';
 import type { AuthUser } from '@/middleware/auth';
@@ -153,6 +154,7 @@ export const createInsightsRouter = () => {
         periodStart,
         periodEnd,
         timezone,
+        baseCurrency: userRecord?.baseCurrency ?? DEFAULT_CURRENCY,
       });
 
       return c.json(
@@ -0,0 +1,412 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Merchant } from '@/db/schema';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  CreateMerchantSchema,
+  ErrorSchema,
+  LinkMerchantTransactionsResponseSchema,
+  MerchantResponseSchema,
+  MerchantsResponseSchema,
+  MergeMerchantsResponseSchema,
+  MergeMerchantsSchema,
+  UpdateMerchantSchema,
+} from '@/schemas';
+
+type MerchantRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const MERCHANT_ERRORS: Record<string, 400 | 404 | 409> = {
+  'Merchant not found': 404,
+  'Category not found': 400,
+  'Cannot merge a merchant into itself': 400,
+  'Alias belongs to another merchant': 409,
+};
+
+const toMerchantResponse = <T extends Merchant>(merchant: T) => ({
+  ...merchant,
+  createdAt: merchant.createdAt.toISOString(),
+  updatedAt: merchant.updatedAt.toISOString(),
+});
+
+/**
+ * Merchant router with OpenAPI documentation
+ *
+ * The merchant directory groups the free-text merchant names the AI extracts ("DARAZ KAALIKA PVT",
+ * "Daraz", "daraz.com.np") under one merchant. Incoming email and SMS transactions are linked to
+ * a merchant by alias, and new names create a merchant that can later be merged into another.
+ */
+export const createMerchantRouter = () => {
+  const router = new OpenAPIHono<MerchantRouterEnv>();
+
+  // Get all merchants
+  const getMerchantsRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get all merchants',
+    description: 'Retrieve the merchant directory with the number of transactions of each merchant',
+    tags: ['Merchants'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'List of merchants',
+        content: {
+          'application/json': {
+            schema: MerchantsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getMerchantsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const merchants = await container.merchantRepo.findAllForUser(user.id);
+
+    return c.json({ merchants: merchants.map(toMerchantResponse) }, 200);
+  });
+
+  // Create merchant
+  const createMerchantRoute = createRoute({
+    method: 'post',
+    path: '/',
+    summary: 'Create merchant',
+    description: 'Add a merchant to the directory, with the names it appears under as aliases',
+    tags: ['Merchants'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: CreateMerchantSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Merchant created successfully',
+        content: {
+          'application/json': {
+            schema: MerchantResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Category not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'An alias belongs to another merchant',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(createMerchantRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    try {
+      const merchant = await container.merchantService.create(user.id, body);
+      return c.json({ merchant: toMerchantResponse(merchant) }, 201);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = MERCHANT_ERRORS[message];
+      if (status === 400 || status === 409) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Link transactions to merchants
+  const linkTransactionsRoute = createRoute({
+    method: 'post',
+    path: '/link-transactions',
+    summary: 'Link transactions to merchants',
+    description:
+      'Link transactions without a merchant (e.g. imported, entered by hand or saved before the directory existed) by their merchant name, creating merchants for new names.',
+    tags: ['Merchants'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'Transactions linked',
+        content: {
+          'application/json': {
+            schema: LinkMerchantTransactionsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(linkTransactionsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const result = await container.merchantService.linkTransactions(user.id);
+
+    return c.json(result, 200);
+  });
+
+  // Update merchant
+  const updateMerchantRoute = createRoute({
+    method: 'patch',
+    path: '/{id}',
+    summary: 'Update merchant',
+    description:
+      'Update a merchant. Renaming keeps the current aliases, so transactions under the old name still match.',
+    tags: ['Merchants'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Merchant ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: UpdateMerchantSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Merchant updated successfully',
+        content: {
+          'application/json': {
+            schema: MerchantResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Category not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Merchant not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'An alias belongs to another merchant',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(updateMerchantRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    try {
+      const merchant = await container.merchantService.update(user.id, id, body);
+      return c.json({ merchant: toMerchantResponse(merchant) }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = MERCHANT_ERRORS[message];
+      if (status === 400 || status === 404 || status === 409) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Merge merchants
+  const mergeMerchantsRoute = createRoute({
+    method: 'post',
+    path: '/{id}/merge',
+    summary: 'Merge merchants',
+    description:
+      'Merge other merchants into this one. It takes over their aliases and transactions, and they are deleted.',
+    tags: ['Merchants'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('ID of the merchant to keep'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: MergeMerchantsSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Merchants merged',
+        content: {
+          'application/json': {
+            schema: MergeMerchantsResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'A merchant cannot be merged into itself',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Merchant not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(mergeMerchantsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const { merchantIds } = c.req.valid('json');
+
+    try {
+      const result = await container.merchantService.merge(user.id, id, merchantIds);
+      return c.json({ ...result, merchant: toMerchantResponse(result.merchant) }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = MERCHANT_ERRORS[message];
+      if (status === 400 || status === 404) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Delete merchant
+  const deleteMerchantRoute = createRoute({
+    method: 'delete',
+    path: '/{id}',
+    summary: 'Delete merchant',
+    description:
+      'Delete a merchant. Its transactions keep their merchant name but are no longer linked.',
+    tags: ['Merchants'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Merchant ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Merchant deleted successfully',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Merchant not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteMerchantRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const deleted = await container.merchantRepo.delete(id, user.id);
+    if (!deleted) {
+      return c.json({ error: 'Merchant not found' }, 404);
+    }
+
+    return c.json({ message: 'Merchant deleted successfully' }, 200);
+  });
+
+  return router;
+};
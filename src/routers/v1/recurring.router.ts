@@ -0,0 +1,125 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import type { RecurringSeries } from '@/db/schema';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  ErrorSchema,
+  RecurringDetectionResponseSchema,
+  RecurringQuerySchema,
+  RecurringSeriesListResponseSchema,
+} from '@/schemas';
+import type { RecurringCadence, RecurringStatus } from '@/services/recurring.service';
+
+type RecurringRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const toSeriesResponse = (series: RecurringSeries) => ({
+  ...series,
+  matchField: series.matchField as 'merchant' | 'remarks',
+  type: series.type as 'debit' | 'credit',
+  cadence: series.cadence as RecurringCadence,
+  status: series.status as RecurringStatus,
+  createdAt: series.createdAt.toISOString(),
+  updatedAt: series.updatedAt.toISOString(),
+});
+
+/**
+ * Recurring transaction router with OpenAPI documentation
+ */
+export const createRecurringRouter = () => {
+  const router = new OpenAPIHono<RecurringRouterEnv>();
+
+  // Get recurring series
+  const getRecurringRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get recurring series',
+    description:
+      'List detected recurring transactions and subscriptions with their next expected date, soonest first. Series are re-detected daily.',
+    tags: ['Recurring'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: RecurringQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'List of recurring series',
+        content: {
+          'application/json': {
+            schema: RecurringSeriesListResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getRecurringRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { status } = c.req.valid('query');
+
+    const series = await container.recurringSeriesRepo.findAllForUser(user.id, status);
+
+    return c.json({ series: series.map(toSeriesResponse) }, 200);
+  });
+
+  // Run detection now
+  const detectRecurringRoute = createRoute({
+    method: 'post',
+    path: '/detect',
+    summary: 'Detect recurring series',
+    description:
+      'Re-detect recurring series from the transaction history now instead of waiting for the daily run. Sends the same missed-charge and amount-change alerts.',
+    tags: ['Recurring'],
+    security: [{ Bearer: [] }],
+    responses: {
+      200: {
+        description: 'Detected recurring series',
+        content: {
+          'application/json': {
+            schema: RecurringDetectionResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(detectRecurringRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+
+    const result = await container.recurringService.detectForUser(user.id);
+
+    return c.json(
+      {
+        series: result.series.map(toSeriesResponse),
+        missedAlerts: result.missedAlerts,
+        amountChangeAlerts: result.amountChangeAlerts,
+      },
+      200
+    );
+  });
+
+  return router;
+};
@@ -0,0 +1,276 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import { filterDateToUtc } from '@/lib/timezone';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  ApproveTransactionSchema,
+  ErrorSchema,
+  ReviewQueueQuerySchema,
+  ReviewQueueResponseSchema,
+  TransactionResponseSchema,
+  toTransactionResponse,
+} from '@/schemas';
+
+type ReviewRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+/** Characters of the original email returned with each queued transaction */
+const EMAIL_EXCERPT_LENGTH = 500;
+
+const REVIEW_ERRORS: Record<string, 404 | 409> = {
+  'Transaction not found': 404,
+  'Transaction is not pending review': 409,
+};
+
+/**
+ * Review router with OpenAPI documentation
+ *
+ * Queue of AI-extracted transactions less confident than the user's review threshold. They are
+ * left out of summaries, insights and budgets until approved.
+ */
+export const createReviewRouter = () => {
+  const router = new OpenAPIHono<ReviewRouterEnv>();
+
+  // List the review queue
+  const getReviewQueueRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'List transactions pending review',
+    description:
+      "Transactions the AI extracted with a confidence below the user's review threshold, with an excerpt of the email they came from.",
+    tags: ['Review'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: ReviewQueueQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Transactions pending review',
+        content: {
+          'application/json': {
+            schema: ReviewQueueResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getReviewQueueRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { limit, offset } = c.req.valid('query');
+
+    const filters = { status: 'pending_review' as const };
+    const [transactions, total, userRecord] = await Promise.all([
+      container.transactionRepo.findAllForUser(user.id, filters, limit, offset),
+      container.transactionRepo.countForUser(user.id, filters),
+      container.userRepo.findById(user.id),
+    ]);
+
+    return c.json(
+      {
+        transactions: transactions.map((txn) => ({
+          ...toTransactionResponse(txn),
+          emailExcerpt: txn.rawEmailContent?.substring(0, EMAIL_EXCERPT_LENGTH) ?? null,
+        })),
+        total,
+        limit,
+        offset,
+        reviewThreshold: userRecord?.reviewThreshold ?? '0.70',
+      },
+      200
+    );
+  });
+
+  // Approve a transaction
+  const approveTransactionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/approve',
+    summary: 'Approve transaction',
+    description:
+      'Confirm a transaction from the review queue, optionally with corrections, so it counts in summaries, insights and budgets. The approved category is remembered for future transactions from the same merchant.',
+    tags: ['Review'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: ApproveTransactionSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Transaction approved',
+        content: {
+          'application/json': {
+            schema: TransactionResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Category not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'Transaction is not pending review',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(approveTransactionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    if (body.categoryId) {
+      const category = await container.categoryRepo.findById(body.categoryId);
+      if (!category || (category.userId !== null && category.userId !== user.id)) {
+        return c.json({ error: 'Category not found' }, 400);
+      }
+    }
+
+    const userRecord = await container.userRepo.findById(user.id);
+    const userTimezone = userRecord?.timezone ?? 'Asia/Kathmandu';
+
+    try {
+      await container.transactionReviewService.approve(user.id, id, {
+        ...body,
+        transactionDate: body.transactionDate
+          ? filterDateToUtc(body.transactionDate, userTimezone)
+          : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = REVIEW_ERRORS[message];
+      if (status) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+
+    const transaction = await container.transactionRepo.findByIdWithCategory(id);
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    return c.json({ transaction: toTransactionResponse(transaction) }, 200);
+  });
+
+  // Reject a transaction
+  const rejectTransactionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/reject',
+    summary: 'Reject transaction',
+    description:
+      'Permanently delete a transaction from the review queue, e.g. when the email was not a real transaction. It cannot be restored; the email can be reprocessed later from the ingestion log.',
+    tags: ['Review'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transaction rejected',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'Transaction is not pending review',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(rejectTransactionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    try {
+      await container.transactionReviewService.reject(user.id, id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = REVIEW_ERRORS[message];
+      if (status) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+
+    return c.json({ message: 'Transaction rejected' }, 200);
+  });
+
+  return router;
+};
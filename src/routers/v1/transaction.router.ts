@@ -1,19 +1,50 @@
 import { OpenAPIHono } from '@hono/zod-openapi';
+import { stream } from 'hono/streaming';
 import { z } from 'zod';
+import type { StatementImport, TransactionReextractJob } from '@/db/schema';
+import { inngest } from '@/inngest/client';
+import type { StatementImportRequestedEvent } from '@/inngest/functions/statement-import';
+import type { TransactionReextractRequestedEvent } from '@/inngest/functions/transaction-reextract';
+import { isAllowedModelId } from '@/lib/ai';
 import type { Container } from '@/lib/container';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
 import { createRoute } from '@/lib/openapi';
-import { filterDateToUtc, localToUtc } from '@/lib/timezone';
+import { filterDateToUtc } from '@/lib/timezone';
 import type { AuthUser } from '@/middleware/auth';
+import type { TransactionSplitWithCategory } from '@/repositories/transaction-split.repository';
 import {
+  ApplyReextractionSchema,
+  BulkTransactionRequestSchema,
+  BulkTransactionResponseSchema,
   CreateTransactionFromSmsSchema,
   CreateTransactionSchema,
   ErrorSchema,
+  ReextractJobResponseSchema,
+  ReextractJobResultsResponseSchema,
+  ReextractLowConfidenceSchema,
+  ReextractResultSchema,
+  ReextractTransactionSchema,
+  SetTransactionSplitsSchema,
+  StatementImportPreviewResponseSchema,
+  StatementImportResponseSchema,
+  TransactionExportQuerySchema,
   TransactionFiltersSchema,
+  TransactionHistoryResponseSchema,
+  TransactionImportCommitResponseSchema,
+  TransactionImportCommitSchema,
+  TransactionImportPreviewResponseSchema,
+  TransactionImportRequestSchema,
   TransactionResponseSchema,
+  TransactionSplitsResponseSchema,
+  type TransactionStatus,
   TransactionSummaryResponseSchema,
   TransactionsResponseSchema,
+  toTransactionResponse,
   UpdateTransactionSchema,
 } from '@/schemas';
+import { EXPORT_CONTENT_TYPES } from '@/services/transaction-export.service';
+import type { ImportPreview } from '@/services/transaction-import.service';
+import type { ReextractResult } from '@/services/transaction-reextract.service';
 
 type TransactionRouterEnv = {
   Variables: {
@@ -22,6 +53,89 @@ type TransactionRouterEnv = {
   };
 };
 
+const toReextractResponse = (result: ReextractResult) => ({
+  ...result,
+  transaction: {
+    ...result.transaction,
+    type: result.transaction.type as 'debit' | 'credit',
+    status: result.transaction.status as TransactionStatus,
+    transactionDate: result.transaction.transactionDate?.toISOString() ?? null,
+    createdAt: result.transaction.createdAt.toISOString(),
+    updatedAt: result.transaction.updatedAt.toISOString(),
+  },
+});
+
+const toReextractJobResponse = (job: TransactionReextractJob) => ({
+  id: job.id,
+  status: job.status as 'queued' | 'running' | 'completed' | 'failed',
+  model: job.modelId,
+  maxConfidence: Number(job.maxConfidence),
+  limit: job.maxTransactions,
+  dryRun: !job.apply,
+  transactionCount: job.transactionCount,
+  processedCount: job.processedCount,
+  changedCount: job.changedCount,
+  appliedCount: job.appliedCount,
+  failedCount: job.failedCount,
+  lastError: job.lastError,
+  startedAt: job.startedAt?.toISOString() ?? null,
+  completedAt: job.completedAt?.toISOString() ?? null,
+  createdAt: job.createdAt.toISOString(),
+});
+
+const toImportPreviewResponse = (preview: ImportPreview) => ({
+  rows: preview.rows.map(({ duplicateOf, ...row }) => ({
+    ...row,
+    duplicateOf: duplicateOf
+      ? {
+          id: duplicateOf.id,
+          amount: duplicateOf.amount,
+          type: duplicateOf.type as 'debit' | 'credit',
+          currency: duplicateOf.currency,
+          merchant: duplicateOf.merchant,
+          accountNumber: duplicateOf.accountNumber,
+          transactionDate: duplicateOf.transactionDate?.toISOString() ?? null,
+          emailId: duplicateOf.emailId,
+        }
+      : null,
+  })),
+  duplicateCount: preview.duplicateCount,
+  errors: preview.errors,
+});
+
+const toStatementImportResponse = (statementImport: StatementImport) => ({
+  id: statementImport.id,
+  status: statementImport.status as 'queued' | 'running' | 'completed' | 'failed',
+  batchCount: statementImport.batchCount,
+  processedBatches: statementImport.processedBatches,
+  lastError: statementImport.lastError,
+  startedAt: statementImport.startedAt?.toISOString() ?? null,
+  completedAt: statementImport.completedAt?.toISOString() ?? null,
+  createdAt: statementImport.createdAt.toISOString(),
+});
+
+const REEXTRACT_ERRORS: Record<string, 400 | 404 | 409> = {
+  'Transaction not found': 404,
+  'Transaction has no stored email content': 400,
+  'Re-extraction not found': 404,
+  'Re-extraction found no transaction': 400,
+  'Re-extraction already applied': 409,
+  'Transaction changed since the re-extraction': 409,
+};
+
+const SPLIT_ERRORS: Record<string, 400 | 404 | 409> = {
+  'Transaction not found': 404,
+  'Category not found': 400,
+  'Split amounts must add up to the transaction amount': 400,
+  'Transaction is not split': 409,
+};
+
+const toSplitResponse = (split: TransactionSplitWithCategory) => ({
+  ...split,
+  createdAt: split.createdAt.toISOString(),
+  updatedAt: split.updatedAt.toISOString(),
+});
+
 /**
  * Transaction router with OpenAPI documentation
  */
@@ -78,9 +192,10 @@ export const createTransactionRouter = () => {
     const user = c.get('user');
     const body = c.req.valid('json');
 
-    // Fetch user timezone for date conversion
+    // Fetch user timezone for date conversion and base currency as the default currency
     const userRecord = await container.userRepo.findById(user.id);
     const userTimezone = userRecord?.timezone ?? 'Asia/Kathmandu';
+    const userBaseCurrency = userRecord?.baseCurrency ?? DEFAULT_CURRENCY;
 
     const transactionDate = body.transactionDate
       ? filterDateToUtc(body.transactionDate, userTimezone)
@@ -95,7 +210,7 @@ export const createTransactionRouter = () => {
       merchant: body.merchant,
       remarks: body.remarks,
       transactionDate,
-      currency: 'NPR',
+      currency: body.currency ?? userBaseCurrency,
       isAiCreated: false,
     });
 
@@ -111,6 +226,7 @@ export const createTransactionRouter = () => {
     const transactionWithStringDates = {
       ...transactionWithCategory,
       type: transactionWithCategory.type as 'debit' | 'credit',
+      status: transactionWithCategory.status as TransactionStatus,
       transactionDate: transactionWithCategory.transactionDate?.toISOString() ?? null,
       createdAt: transactionWithCategory.createdAt.toISOString(),
       updatedAt: transactionWithCategory.updatedAt.toISOString(),
@@ -187,18 +303,20 @@ export const createTransactionRouter = () => {
     const user = c.get('user');
     const { smsBody, sender } = c.req.valid('json');
 
-    // Fetch available categories
+    // Fetch available categories and learned examples
     const categories = await container.categoryRepo.findAllForUser(user.id);
     const categoryInfoForAI = categories.map((cat) => ({
       id: cat.id,
       name: cat.name,
       icon: cat.icon,
     }));
+    const categoryExamples = await container.categorizationService.getPromptExamples(user.id);
 
     // Extract transaction data
     const extractionResult = await container.transactionExtractor.extractFromSms(
       { body: smsBody, sender },
-      categoryInfoForAI
+      categoryInfoForAI,
+      categoryExamples
     );
 
     if (
@@ -211,61 +329,11 @@ export const createTransactionRouter = () => {
       );
     }
 
-    const txn = extractionResult.transaction;
-    let categoryId = txn.categoryId;
-
-    // Handle new category creation
-    if (txn.newCategory) {
-      try {
-        const newCat = await container.categoryRepo.create({
-          id: crypto.randomUUID(),
-          userId: user.id,
-          name: txn.newCategory.name,
-          icon: txn.newCategory.icon,
-          isDefault: false,
-          isAiCreated: true,
-        });
-        categoryId = newCat.id;
-      } catch (err) {
-        console.warn('Failed to create AI category:', err);
-        const existing = await container.categoryRepo.findByNameForUser(
-          txn.newCategory.name,
-          user.id
-        );
-        if (existing) categoryId = existing.id;
-      }
-    }
-
-    // Fetch user timezone for date conversion
-    const userRecord = await container.userRepo.findById(user.id);
-    const userTimezone = userRecord?.timezone ?? 'Asia/Kathmandu';
-
-    // Parse date and convert from user's timezone to UTC
-    let transactionDate: Date | null = null;
-    if (txn.date) {
-      try {
-        transactionDate = localToUtc(txn.date, txn.time ?? null, userTimezone);
-      } catch {
-        console.warn(`Failed to parse SMS transaction date: ${txn.date}`);
-      }
-    }
-
-    // Save transaction
-    const transaction = await container.transactionRepo.create({
-      id: crypto.randomUUID(),
+    // Apply category rules, create AI-suggested category, save and notify
+    const transaction = await container.transactionIngest.saveExtracted({
       userId: user.id,
-      categoryId,
-      amount: txn.amount.toString(),
-      type: txn.type,
-      currency: 'NPR',
-      merchant: txn.merchant,
-      accountNumber: txn.accountLastFour,
-      bankName: txn.bankName,
-      transactionDate,
-      remarks: txn.remarks,
-      aiConfidence: txn.confidence.toString(),
-      aiExtractedData: extractionResult,
-      isAiCreated: true,
+      extraction: extractionResult,
+      source: 'api_sms',
     });
 
     const transactionWithCategory = await container.transactionRepo.findByIdWithCategory(
@@ -280,42 +348,50 @@ export const createTransactionRouter = () => {
       transaction: {
         ...transactionWithCategory,
         type: transactionWithCategory.type as 'debit' | 'credit',
+        status: transactionWithCategory.status as TransactionStatus,
         transactionDate: transactionWithCategory.transactionDate?.toISOString() ?? null,
         createdAt: transactionWithCategory.createdAt.toISOString(),
         updatedAt: transactionWithCategory.updatedAt.toISOString(),
       },
     };
 
-    void container.discordService.notifyNewTransaction({
-      id: transactionWithCategory.id,
-      amount: transactionWithCategory.amount,
-      type: transactionWithCategory.type as 'debit' | 'credit',
-      merchant: transactionWithCategory.merchant,
-      source: 'api_sms',
-      category: transactionWithCategory.category?.name ?? null,
-      transactionDate: transactionWithCategory.transactionDate?.toISOString() ?? null,
-    });
-
     return c.json(resultBody, 201);
   });
 
-  // Get all transactions with filters
-  const getTransactionsRoute = createRoute({
-    method: 'get',
-    path: '/',
-    summary: 'Get all transactions',
-    description: 'Retrieve all transactions for the authenticated user with optional filters',
+  // Bulk update/delete transactions matching a filter
+  const bulkTransactionsRoute = createRoute({
+    method: 'post',
+    path: '/bulk',
+    summary: 'Bulk update transactions',
+    description:
+      'Apply one operation (set category, set remarks or delete) to every transaction matching the filter. ' +
+      'Use dryRun to see how many transactions match and a sample before changing anything. ' +
+      'The change is applied in a single database transaction.',
     tags: ['Transactions'],
     security: [{ Bearer: [] }],
     request: {
-      query: TransactionFiltersSchema,
+      body: {
+        content: {
+          'application/json': {
+            schema: BulkTransactionRequestSchema,
+          },
+        },
+      },
     },
     responses: {
       200: {
-        description: 'List of transactions',
+        description: 'Bulk operation result (or preview for a dry run)',
         content: {
           'application/json': {
-            schema: TransactionsResponseSchema,
+            schema: BulkTransactionResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid filter or operation',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
           },
         },
       },
@@ -330,72 +406,94 @@ export const createTransactionRouter = () => {
     },
   });
 
-  router.openapi(getTransactionsRoute, async (c) => {
+  router.openapi(bulkTransactionsRoute, async (c) => {
     const container = c.get('container');
     const user = c.get('user');
-    const query = c.req.valid('query');
+    const { filter, operation, dryRun } = c.req.valid('json');
 
-    const { limit, offset, timezone, ...filters } = query;
+    const { timezone, startDate, endDate, merchant, remarks, q, ...filters } = filter;
 
-    // Fetch user timezone (query param overrides user default)
+    // Fetch user timezone (filter timezone overrides user default)
     const userRecord = await container.userRepo.findById(user.id);
     const tz = timezone ?? userRecord?.timezone ?? 'Asia/Kathmandu';
 
-    // Convert date strings to UTC Date objects using the user's timezone
-    const repoFilters = {
-      ...filters,
-      startDate: filters.startDate ? filterDateToUtc(filters.startDate, tz) : undefined,
-      endDate: filters.endDate ? filterDateToUtc(filters.endDate, tz) : undefined,
-    };
-
-    const [transactions, total] = await Promise.all([
-      container.transactionRepo.findAllForUser(user.id, repoFilters, limit, offset),
-      container.transactionRepo.countForUser(user.id, repoFilters),
-    ]);
+    if (operation.type === 'set_category') {
+      const category = await container.categoryRepo.findById(operation.categoryId);
+      if (!category || (category.userId !== null && category.userId !== user.id)) {
+        return c.json({ error: 'Category not found' }, 400);
+      }
+    }
 
-    const transactionsWithStringDates = transactions.map((txn) => ({
-      ...txn,
-      type: txn.type as 'debit' | 'credit',
-      transactionDate: txn.transactionDate?.toISOString() || null,
-      createdAt: txn.createdAt.toISOString(),
-      updatedAt: txn.updatedAt.toISOString(),
-    }));
+    const result = await container.transactionBulkService.run(
+      user.id,
+      {
+        ...filters,
+        startDate: startDate ? filterDateToUtc(startDate, tz) : undefined,
+        endDate: endDate ? filterDateToUtc(endDate, tz) : undefined,
+        merchantContains: merchant,
+        remarksContains: remarks,
+        search: q,
+      },
+      operation,
+      dryRun
+    );
 
     return c.json(
       {
-        transactions: transactionsWithStringDates,
-        total,
-        limit,
-        offset,
+        dryRun: result.dryRun,
+        operation: operation.type,
+        affectedCount: result.affectedCount,
+        sample: result.sample.map(toTransactionResponse),
       },
       200
     );
   });
 
-  // Get transaction summary
-  const getTransactionSummaryRoute = createRoute({
-    method: 'get',
-    path: '/summary',
-    summary: 'Get transaction summary',
-    description: 'Get summary statistics (total debit, credit, count) for the user',
+  // Preview a bank statement import
+  const previewImportRoute = createRoute({
+    method: 'post',
+    path: '/import',
+    summary: 'Preview bank statement import',
+    description:
+      'Parse a bank statement and match every row against recorded transactions, without saving anything. ' +
+      'A CSV with a column mapping is parsed right away. Statement text (e.g. extracted from a PDF) is ' +
+      'read by the AI in a background import instead: poll GET /transactions/import/{importId} for its preview. ' +
+      'Rows with the same amount, type and currency, a date at most one day apart and the same account ' +
+      'as a recorded transaction are returned with `duplicateOf` set. ' +
+      'Send the rows to keep to POST /transactions/import/commit to save them.',
     tags: ['Transactions'],
     security: [{ Bearer: [] }],
     request: {
-      query: z.object({
-        startDate: z.string().datetime().optional(),
-        endDate: z.string().datetime().optional(),
-        timezone: z.string().optional().openapi({
-          description:
-            'IANA timezone identifier (e.g., "Asia/Kathmandu"). Overrides user default timezone for date filter conversion.',
-        }),
-      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: TransactionImportRequestSchema,
+          },
+        },
+      },
     },
     responses: {
       200: {
-        description: 'Transaction summary',
+        description: 'Parsed statement rows with duplicate matches',
         content: {
           'application/json': {
-            schema: TransactionSummaryResponseSchema,
+            schema: TransactionImportPreviewResponseSchema,
+          },
+        },
+      },
+      202: {
+        description: 'Statement text import started',
+        content: {
+          'application/json': {
+            schema: StatementImportResponseSchema,
+          },
+        },
+      },
+      500: {
+        description: 'Failed to start the statement text import',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
           },
         },
       },
@@ -410,55 +508,86 @@ export const createTransactionRouter = () => {
     },
   });
 
-  router.openapi(getTransactionSummaryRoute, async (c) => {
+  router.openapi(previewImportRoute, async (c) => {
     const container = c.get('container');
     const user = c.get('user');
-    const query = c.req.valid('query');
+    const body = c.req.valid('json');
 
-    // Fetch user timezone (query param overrides user default)
-    const userRecord = await container.userRepo.findById(user.id);
-    const tz = query.timezone ?? userRecord?.timezone ?? 'Asia/Kathmandu';
+    const { currency, bankName, accountNumber } = body;
+    const defaults = { currency, bankName, accountNumber };
 
-    const startDate = query.startDate ? filterDateToUtc(query.startDate, tz) : undefined;
-    const endDate = query.endDate ? filterDateToUtc(query.endDate, tz) : undefined;
+    if (body.format === 'csv') {
+      const preview = await container.transactionImportService.preview(user.id, {
+        format: 'csv',
+        content: body.content,
+        mapping: body.mapping,
+        dateOrder: body.dateOrder,
+        delimiter: body.delimiter,
+        skipRows: body.skipRows,
+        defaults,
+      });
+      return c.json(toImportPreviewResponse(preview), 200);
+    }
 
-    const summary = await container.transactionRepo.getSummaryForUser(user.id, startDate, endDate);
+    const statementImport = await container.statementImportRepo.create({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      content: body.content,
+      defaults,
+    });
 
-    return c.json(
-      {
-        summary: {
-          ...summary,
-          netAmount: summary.totalCredit - summary.totalDebit,
+    const event: StatementImportRequestedEvent = {
+      name: 'transactions/import.requested',
+      data: { userId: user.id, importId: statementImport.id },
+    };
+    try {
+      await inngest.send(event);
+    } catch (error) {
+      console.error('Failed to enqueue statement import:', error);
+      await container.statementImportRepo.update(statementImport.id, {
+        status: 'failed',
+        lastError: 'Failed to enqueue statement import',
+        completedAt: new Date(),
+      });
+      return c.json(
+        {
+          error: 'Failed to start statement import',
+          message: error instanceof Error ? error.message : 'Unknown error',
         },
-      },
-      200
-    );
+        500
+      );
+    }
+
+    return c.json({ statementImport: toStatementImportResponse(statementImport) }, 202);
   });
 
-  // Get transaction by ID
-  const getTransactionRoute = createRoute({
+  // Get a statement text import with its preview
+  const getStatementImportRoute = createRoute({
     method: 'get',
-    path: '/{id}',
-    summary: 'Get transaction by ID',
-    description: 'Retrieve a specific transaction by its ID',
+    path: '/import/{importId}',
+    summary: 'Get statement text import',
+    description:
+      'Returns the status and progress of a statement text import, with the preview once every batch ' +
+      'is read. Duplicates are matched when the preview is requested. ' +
+      'Send the rows to keep to POST /transactions/import/commit to save them.',
     tags: ['Transactions'],
     security: [{ Bearer: [] }],
     request: {
       params: z.object({
-        id: z.string().describe('Transaction ID'),
+        importId: z.string().describe('Statement import ID'),
       }),
     },
     responses: {
       200: {
-        description: 'Transaction details',
+        description: 'Statement import retrieved successfully',
         content: {
           'application/json': {
-            schema: TransactionResponseSchema,
+            schema: StatementImportPreviewResponseSchema,
           },
         },
       },
       404: {
-        description: 'Transaction not found',
+        description: 'Statement import not found',
         content: {
           'application/json': {
             schema: ErrorSchema,
@@ -476,59 +605,145 @@ export const createTransactionRouter = () => {
     },
   });
 
-  router.openapi(getTransactionRoute, async (c) => {
+  router.openapi(getStatementImportRoute, async (c) => {
     const container = c.get('container');
     const user = c.get('user');
-    const { id } = c.req.valid('param');
+    const { importId } = c.req.valid('param');
 
-    const transaction = await container.transactionRepo.findByIdWithCategory(id);
-
-    if (!transaction || transaction.userId !== user.id) {
-      return c.json({ error: 'Transaction not found' }, 404);
+    try {
+      const { statementImport, preview } = await container.transactionImportService.getTextImport(
+        user.id,
+        importId
+      );
+      return c.json(
+        {
+          statementImport: toStatementImportResponse(statementImport),
+          preview: preview ? toImportPreviewResponse(preview) : null,
+        },
+        200
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (message === 'Statement import not found') {
+        return c.json({ error: message }, 404);
+      }
+      throw error;
     }
+  });
 
-    const transactionWithStringDates = {
-      ...transaction,
-      type: transaction.type as 'debit' | 'credit',
-      transactionDate: transaction.transactionDate?.toISOString() || null,
-      createdAt: transaction.createdAt.toISOString(),
-      updatedAt: transaction.updatedAt.toISOString(),
-    };
+  // Save previewed statement rows
+  const commitImportRoute = createRoute({
+    method: 'post',
+    path: '/import/commit',
+    summary: 'Commit bank statement import',
+    description:
+      'Save statement rows returned by POST /transactions/import (optionally edited or filtered). ' +
+      'Duplicates are checked again and skipped unless skipDuplicates is false. ' +
+      'Category rules and learned categories are applied, and all rows are saved in a single database transaction.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: TransactionImportCommitSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Statement rows saved',
+        content: {
+          'application/json': {
+            schema: TransactionImportCommitResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
 
-    return c.json({ transaction: transactionWithStringDates }, 200);
+  router.openapi(commitImportRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { rows, skipDuplicates } = c.req.valid('json');
+
+    const result = await container.transactionImportService.commit(user.id, rows, skipDuplicates);
+
+    return c.json(
+      {
+        importedCount: result.imported.length,
+        skippedDuplicates: result.skippedDuplicates,
+        transactions: result.imported.map((txn) => ({
+          ...txn,
+          type: txn.type as 'debit' | 'credit',
+          status: txn.status as TransactionStatus,
+          transactionDate: txn.transactionDate?.toISOString() ?? null,
+          createdAt: txn.createdAt.toISOString(),
+          updatedAt: txn.updatedAt.toISOString(),
+        })),
+      },
+      201
+    );
   });
 
-  // Update transaction
-  const updateTransactionRoute = createRoute({
-    method: 'patch',
-    path: '/{id}',
-    summary: 'Update transaction',
-    description: 'Update transaction details (category, merchant, remarks)',
+  // Re-extract low-confidence transactions
+  const reextractLowConfidenceRoute = createRoute({
+    method: 'post',
+    path: '/reextract',
+    summary: 'Re-extract low-confidence transactions',
+    description:
+      'Start a background job that runs the AI extractor again on the stored emails of the transactions ' +
+      'with the lowest AI confidence (below maxConfidence), one at a time, and stores the field-level ' +
+      'differences for each. Poll GET /transactions/reextract/{jobId} for progress and results. ' +
+      'Nothing is changed unless dryRun is false, in which case every changed field is updated; ' +
+      'otherwise apply a result with POST /transactions/{id}/reextract/{reextractionId}/apply.',
     tags: ['Transactions'],
     security: [{ Bearer: [] }],
     request: {
-      params: z.object({
-        id: z.string().describe('Transaction ID'),
-      }),
       body: {
         content: {
           'application/json': {
-            schema: UpdateTransactionSchema,
+            schema: ReextractLowConfidenceSchema,
           },
         },
       },
     },
     responses: {
-      200: {
-        description: 'Transaction updated successfully',
+      202: {
+        description: 'Re-extract job queued',
         content: {
           'application/json': {
-            schema: TransactionResponseSchema,
+            schema: ReextractJobResponseSchema,
           },
         },
       },
-      404: {
-        description: 'Transaction not found',
+      400: {
+        description: 'Model not allowed',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'A re-extract job is already queued or running',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      500: {
+        description: 'Failed to start the re-extract job',
         content: {
           'application/json': {
             schema: ErrorSchema,
@@ -546,45 +761,1026 @@ export const createTransactionRouter = () => {
     },
   });
 
-  router.openapi(updateTransactionRoute, async (c) => {
+  router.openapi(reextractLowConfidenceRoute, async (c) => {
     const container = c.get('container');
     const user = c.get('user');
-    const { id } = c.req.valid('param');
-    const body = c.req.valid('json');
-
-    // Fetch user timezone for date conversion
-    const userRecord = await container.userRepo.findById(user.id);
-    const userTimezone = userRecord?.timezone ?? 'Asia/Kathmandu';
-
-    // Convert transactionDate string to UTC Date if provided
-    const updateData = {
-      ...body,
-      transactionDate: body.transactionDate
-        ? filterDateToUtc(body.transactionDate, userTimezone)
-        : undefined,
-    };
+    const { maxConfidence, limit, model, dryRun } = c.req.valid('json');
 
-    const transaction = await container.transactionRepo.update(id, user.id, updateData);
+    if (model !== undefined && !isAllowedModelId(model)) {
+      return c.json({ error: 'Model not allowed', message: model }, 400);
+    }
 
-    if (!transaction) {
+    const active = await container.transactionReextractJobRepo.findActiveForUser(user.id);
+    if (active) {
+      return c.json(
+        {
+          error: 'Re-extract job already in progress',
+          message: `Re-extract job ${active.id} is ${active.status}`,
+        },
+        409
+      );
+    }
+
+    const job = await container.transactionReextractJobRepo.create({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      modelId: model ?? null,
+      maxConfidence: maxConfidence.toString(),
+      maxTransactions: limit,
+      apply: !dryRun,
+    });
+
+    const event: TransactionReextractRequestedEvent = {
+      name: 'transactions/reextract.requested',
+      data: { userId: user.id, jobId: job.id },
+    };
+    try {
+      await inngest.send(event);
+    } catch (error) {
+      console.error('Failed to enqueue re-extract job:', error);
+      await container.transactionReextractJobRepo.update(job.id, {
+        status: 'failed',
+        lastError: 'Failed to enqueue re-extract job',
+        completedAt: new Date(),
+      });
+      return c.json(
+        {
+          error: 'Failed to start re-extract job',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+
+    return c.json({ job: toReextractJobResponse(job) }, 202);
+  });
+
+  // Get a re-extract job with its results
+  const getReextractJobRoute = createRoute({
+    method: 'get',
+    path: '/reextract/{jobId}',
+    summary: 'Get re-extract job',
+    description:
+      'Returns the status and progress counters of a low-confidence re-extract job, with the results ' +
+      'stored so far',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        jobId: z.string().describe('Re-extract job ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Re-extract job retrieved successfully',
+        content: {
+          'application/json': {
+            schema: ReextractJobResultsResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Re-extract job not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getReextractJobRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { jobId } = c.req.valid('param');
+
+    try {
+      const { job, results } = await container.transactionReextractService.getJob(user.id, jobId);
+      return c.json(
+        { job: toReextractJobResponse(job), results: results.map(toReextractResponse) },
+        200
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (message === 'Re-extract job not found') {
+        return c.json({ error: message }, 404);
+      }
+      throw error;
+    }
+  });
+
+  // Get all transactions with filters
+  const getTransactionsRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'Get all transactions',
+    description:
+      'Retrieve all transactions for the authenticated user with optional filters and full-text search (`q`)',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: TransactionFiltersSchema,
+    },
+    responses: {
+      200: {
+        description: 'List of transactions',
+        content: {
+          'application/json': {
+            schema: TransactionsResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getTransactionsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const query = c.req.valid('query');
+
+    const { limit, offset, timezone, q, ...filters } = query;
+
+    // Fetch user timezone (query param overrides user default)
+    const userRecord = await container.userRepo.findById(user.id);
+    const tz = timezone ?? userRecord?.timezone ?? 'Asia/Kathmandu';
+
+    // Convert date strings to UTC Date objects using the user's timezone
+    const repoFilters = {
+      ...filters,
+      startDate: filters.startDate ? filterDateToUtc(filters.startDate, tz) : undefined,
+      endDate: filters.endDate ? filterDateToUtc(filters.endDate, tz) : undefined,
+      search: q,
+    };
+
+    const [transactions, total] = await Promise.all([
+      container.transactionRepo.findAllForUser(user.id, repoFilters, limit, offset),
+      container.transactionRepo.countForUser(user.id, repoFilters),
+    ]);
+
+    const transactionsWithStringDates = transactions.map((txn) => ({
+      ...txn,
+      type: txn.type as 'debit' | 'credit',
+      status: txn.status as TransactionStatus,
+      transactionDate: txn.transactionDate?.toISOString() || null,
+      createdAt: txn.createdAt.toISOString(),
+      updatedAt: txn.updatedAt.toISOString(),
+    }));
+
+    return c.json(
+      {
+        transactions: transactionsWithStringDates,
+        total,
+        limit,
+        offset,
+      },
+      200
+    );
+  });
+
+  // Export transactions
+  const exportTransactionsRoute = createRoute({
+    method: 'get',
+    path: '/export',
+    summary: 'Export transactions',
+    description:
+      "Download transactions matching the filters as CSV, OFX, QIF or JSON. Dates are rendered in the user's timezone and categories by name. The file is streamed page by page.",
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: TransactionExportQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'Exported transactions file',
+        content: {
+          'text/csv': { schema: z.string() },
+          'application/x-ofx': { schema: z.string() },
+          'application/qif': { schema: z.string() },
+          'application/json': { schema: z.string() },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(exportTransactionsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { format, timezone, q, ...filters } = c.req.valid('query');
+
+    // Fetch user timezone (query param overrides user default) and base currency
+    const userRecord = await container.userRepo.findById(user.id);
+    const tz = timezone ?? userRecord?.timezone ?? 'Asia/Kathmandu';
+    const currency = userRecord?.baseCurrency ?? DEFAULT_CURRENCY;
+
+    const repoFilters = {
+      ...filters,
+      startDate: filters.startDate ? filterDateToUtc(filters.startDate, tz) : undefined,
+      endDate: filters.endDate ? filterDateToUtc(filters.endDate, tz) : undefined,
+      search: q,
+    };
+
+    const filename = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+    c.header('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    c.header('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return stream(c, async (output) => {
+      for await (const chunk of container.transactionExportService.export(user.id, repoFilters, {
+        format,
+        timezone: tz,
+        currency,
+      })) {
+        await output.write(chunk);
+      }
+    });
+  });
+
+  // Get transaction summary
+  const getTransactionSummaryRoute = createRoute({
+    method: 'get',
+    path: '/summary',
+    summary: 'Get transaction summary',
+    description:
+      "Get summary statistics (total debit, credit, count) for the user, converted to the user's base currency",
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: z.object({
+        startDate: z.string().datetime().optional(),
+        endDate: z.string().datetime().optional(),
+        timezone: z.string().optional().openapi({
+          description:
+            'IANA timezone identifier (e.g., "Asia/Kathmandu"). Overrides user default timezone for date filter conversion.',
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transaction summary',
+        content: {
+          'application/json': {
+            schema: TransactionSummaryResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getTransactionSummaryRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const query = c.req.valid('query');
+
+    // Fetch user timezone (query param overrides user default)
+    const userRecord = await container.userRepo.findById(user.id);
+    const tz = query.timezone ?? userRecord?.timezone ?? 'Asia/Kathmandu';
+
+    const startDate = query.startDate ? filterDateToUtc(query.startDate, tz) : undefined;
+    const endDate = query.endDate ? filterDateToUtc(query.endDate, tz) : undefined;
+
+    const summary = await container.transactionRepo.getSummaryForUser(
+      user.id,
+      startDate,
+      endDate,
+      userRecord?.baseCurrency ?? DEFAULT_CURRENCY
+    );
+
+    return c.json(
+      {
+        summary: {
+          ...summary,
+          netAmount: summary.totalCredit - summary.totalDebit,
+        },
+      },
+      200
+    );
+  });
+
+  // Get transaction by ID
+  const getTransactionRoute = createRoute({
+    method: 'get',
+    path: '/{id}',
+    summary: 'Get transaction by ID',
+    description: 'Retrieve a specific transaction by its ID',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transaction details',
+        content: {
+          'application/json': {
+            schema: TransactionResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getTransactionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const transaction = await container.transactionRepo.findByIdWithCategory(id);
+
+    if (!transaction || transaction.userId !== user.id) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    const transactionWithStringDates = {
+      ...transaction,
+      type: transaction.type as 'debit' | 'credit',
+      status: transaction.status as TransactionStatus,
+      transactionDate: transaction.transactionDate?.toISOString() || null,
+      createdAt: transaction.createdAt.toISOString(),
+      updatedAt: transaction.updatedAt.toISOString(),
+    };
+
+    return c.json({ transaction: transactionWithStringDates }, 200);
+  });
+
+  // Update transaction
+  const updateTransactionRoute = createRoute({
+    method: 'patch',
+    path: '/{id}',
+    summary: 'Update transaction',
+    description:
+      'Update transaction details (category, merchant, remarks). Changes are recorded in the transaction history. Category changes are remembered and applied to future transactions from the same merchant.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: UpdateTransactionSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Transaction updated successfully',
+        content: {
+          'application/json': {
+            schema: TransactionResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(updateTransactionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    // Fetch user timezone for date conversion
+    const userRecord = await container.userRepo.findById(user.id);
+    const userTimezone = userRecord?.timezone ?? 'Asia/Kathmandu';
+
+    // Convert transactionDate string to UTC Date if provided
+    const updateData = {
+      ...body,
+      transactionDate: body.transactionDate
+        ? filterDateToUtc(body.transactionDate, userTimezone)
+        : undefined,
+    };
+
+    const existing = await container.transactionRepo.findById(id);
+    if (!existing || existing.userId !== user.id) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    // A category change is a correction: the rule (if any) no longer explains the category
+    const categoryChanged =
+      body.categoryId !== undefined && body.categoryId !== existing.categoryId;
+
+    // A renamed merchant moves the transaction to the merchant the new name belongs to
+    const merchantChanged = body.merchant !== undefined && body.merchant !== existing.merchant;
+    const merchant = merchantChanged
+      ? await container.merchantService.resolve(user.id, body.merchant ?? null)
+      : null;
+
+    const transaction = await container.transactionRepo.update(id, user.id, {
+      ...updateData,
+      ...(categoryChanged ? { categoryRuleId: null } : {}),
+      ...(merchantChanged ? { merchantId: merchant?.id ?? null } : {}),
+    });
+
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    // Learn from the correction so the next transaction from this merchant gets it right
+    if (categoryChanged && transaction.categoryId) {
+      await container.categorizationService.learnFromCorrection(
+        user.id,
+        transaction,
+        transaction.categoryId
+      );
+    }
+
+    // Fetch with category info
+    const transactionWithCategory = await container.transactionRepo.findByIdWithCategory(id);
+    if (!transactionWithCategory) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
+
+    const transactionWithStringDates = {
+      ...transactionWithCategory,
+      type: transactionWithCategory.type as 'debit' | 'credit',
+      status: transactionWithCategory.status as TransactionStatus,
+      transactionDate: transactionWithCategory.transactionDate?.toISOString() ?? null,
+      createdAt: transactionWithCategory.createdAt.toISOString(),
+      updatedAt: transactionWithCategory.updatedAt.toISOString(),
+    };
+
+    return c.json({ transaction: transactionWithStringDates }, 200);
+  });
+
+  // Re-extract a transaction from its stored email
+  const reextractTransactionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/reextract',
+    summary: 'Re-extract transaction',
+    description:
+      'Run the AI extractor again on the email stored with the transaction, optionally with a different model, ' +
+      'and return the field-level differences with the saved transaction. Nothing is changed: the result is ' +
+      'stored, and POST /transactions/{id}/reextract/{reextractionId}/apply writes exactly the proposed values. ' +
+      'Re-extraction never creates categories.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: ReextractTransactionSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Re-extraction result',
+        content: {
+          'application/json': {
+            schema: ReextractResultSchema,
+          },
+        },
+      },
+      400: {
+        description:
+          'Transaction has no stored email to re-extract from, or the model is not allowed',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(reextractTransactionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const { model } = c.req.valid('json');
+
+    if (model !== undefined && !isAllowedModelId(model)) {
+      return c.json({ error: 'Model not allowed', message: model }, 400);
+    }
+
+    try {
+      const result = await container.transactionReextractService.reextract(user.id, id, {
+        modelId: model,
+      });
+      return c.json(toReextractResponse(result), 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = REEXTRACT_ERRORS[message];
+      if (status === 400 || status === 404) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Apply a re-extraction
+  const applyReextractionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/reextract/{reextractionId}/apply',
+    summary: 'Apply re-extraction',
+    description:
+      'Update the transaction with the values proposed by a re-extraction, or only the given fields, ' +
+      'without running the extractor again. A re-extraction can be applied once, and not after the ' +
+      'fields it changes were edited.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+        reextractionId: z.string().describe('Re-extraction ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: ApplyReextractionSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Applied re-extraction',
+        content: {
+          'application/json': {
+            schema: ReextractResultSchema,
+          },
+        },
+      },
+      400: {
+        description: 'The re-extraction found no transaction in the email',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction or re-extraction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'Re-extraction already applied, or the transaction changed since',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(applyReextractionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id, reextractionId } = c.req.valid('param');
+    const { fields } = c.req.valid('json');
+
+    try {
+      const result = await container.transactionReextractService.apply(
+        user.id,
+        id,
+        reextractionId,
+        fields
+      );
+      return c.json(toReextractResponse(result), 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = REEXTRACT_ERRORS[message];
+      if (status) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Get transaction splits
+  const getTransactionSplitsRoute = createRoute({
+    method: 'get',
+    path: '/{id}/splits',
+    summary: 'Get transaction splits',
+    description:
+      'Categories a transaction is split across, largest first. Empty when the transaction is not split.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transaction splits',
+        content: {
+          'application/json': {
+            schema: TransactionSplitsResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getTransactionSplitsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    try {
+      const splits = await container.transactionSplitService.getSplits(user.id, id);
+      return c.json({ splits: splits.map(toSplitResponse) }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (SPLIT_ERRORS[message] === 404) {
+        return c.json({ error: message }, 404);
+      }
+      throw error;
+    }
+  });
+
+  // Set transaction splits
+  const setTransactionSplitsRoute = createRoute({
+    method: 'put',
+    path: '/{id}/splits',
+    summary: 'Split transaction',
+    description:
+      "Split a transaction across categories, replacing any existing splits. Amounts are in the transaction's currency and must add up to its amount. Category totals, budgets and insights then count each split in its own category.",
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: SetTransactionSplitsSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Transaction split',
+        content: {
+          'application/json': {
+            schema: TransactionSplitsResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'Category not found, or the amounts do not add up to the transaction amount',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(setTransactionSplitsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+    const { splits } = c.req.valid('json');
+
+    try {
+      const saved = await container.transactionSplitService.setSplits(user.id, id, splits);
+      return c.json({ splits: saved.map(toSplitResponse) }, 200);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = SPLIT_ERRORS[message];
+      if (status === 400 || status === 404) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Remove transaction splits
+  const deleteTransactionSplitsRoute = createRoute({
+    method: 'delete',
+    path: '/{id}/splits',
+    summary: 'Remove transaction splits',
+    description:
+      "Remove a transaction's splits so its whole amount counts in its own category again.",
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Splits removed',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'Transaction is not split',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(deleteTransactionSplitsRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    try {
+      await container.transactionSplitService.clearSplits(user.id, id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = SPLIT_ERRORS[message];
+      if (status === 404 || status === 409) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+
+    return c.json({ message: 'Transaction splits removed' }, 200);
+  });
+
+  // Get transaction edit history
+  const getTransactionHistoryRoute = createRoute({
+    method: 'get',
+    path: '/{id}/history',
+    summary: 'Get transaction history',
+    description:
+      'Edits, deletion and restores of a transaction, latest first. Also available for deleted transactions.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transaction history',
+        content: {
+          'application/json': {
+            schema: TransactionHistoryResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getTransactionHistoryRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const transaction = await container.transactionRepo.findById(id, { includeDeleted: true });
+    if (!transaction || transaction.userId !== user.id) {
       return c.json({ error: 'Transaction not found' }, 404);
     }
 
-    // Fetch with category info
-    const transactionWithCategory = await container.transactionRepo.findByIdWithCategory(id);
-    if (!transactionWithCategory) {
+    const revisions = await container.transactionRepo.findRevisions(id, user.id);
+
+    return c.json(
+      {
+        revisions: revisions.map((revision) => ({
+          id: revision.id,
+          transactionId: revision.transactionId,
+          action: revision.action as 'update' | 'delete' | 'restore',
+          changes: revision.changes,
+          createdAt: revision.createdAt.toISOString(),
+        })),
+      },
+      200
+    );
+  });
+
+  // Restore deleted transaction
+  const restoreTransactionRoute = createRoute({
+    method: 'post',
+    path: '/{id}/restore',
+    summary: 'Restore transaction',
+    description:
+      'Undo the deletion of a transaction. It counts again in lists, totals, budgets and balances; a transfer it was part of stays unlinked.',
+    tags: ['Transactions'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transaction restored',
+        content: {
+          'application/json': {
+            schema: TransactionResponseSchema,
+          },
+        },
+      },
+      404: {
+        description: 'No deleted transaction with this ID',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(restoreTransactionRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { id } = c.req.valid('param');
+
+    const restored = await container.transactionRepo.restore(id, user.id);
+    if (!restored) {
       return c.json({ error: 'Transaction not found' }, 404);
     }
 
-    const transactionWithStringDates = {
-      ...transactionWithCategory,
-      type: transactionWithCategory.type as 'debit' | 'credit',
-      transactionDate: transactionWithCategory.transactionDate?.toISOString() ?? null,
-      createdAt: transactionWithCategory.createdAt.toISOString(),
-      updatedAt: transactionWithCategory.updatedAt.toISOString(),
-    };
+    const transaction = await container.transactionRepo.findByIdWithCategory(id);
+    if (!transaction) {
+      return c.json({ error: 'Transaction not found' }, 404);
+    }
 
-    return c.json({ transaction: transactionWithStringDates }, 200);
+    return c.json({ transaction: toTransactionResponse(transaction) }, 200);
   });
 
   // Delete transaction
@@ -592,7 +1788,8 @@ export const createTransactionRouter = () => {
     method: 'delete',
     path: '/{id}',
     summary: 'Delete transaction',
-    description: 'Delete a transaction by ID',
+    description:
+      'Delete a transaction by ID. It is left out everywhere but kept, so it can be restored, and its email is not ingested again.',
     tags: ['Transactions'],
     security: [{ Bearer: [] }],
     request: {
@@ -0,0 +1,307 @@
+import { OpenAPIHono } from '@hono/zod-openapi';
+import { z } from 'zod';
+import type { Transaction } from '@/db/schema';
+import type { Container } from '@/lib/container';
+import { createRoute } from '@/lib/openapi';
+import type { AuthUser } from '@/middleware/auth';
+import {
+  DetectTransfersResponseSchema,
+  DetectTransfersSchema,
+  ErrorSchema,
+  LinkTransferSchema,
+  type TransactionStatus,
+  TransferResponseSchema,
+  TransfersQuerySchema,
+  TransfersResponseSchema,
+} from '@/schemas';
+import type { TransferPair } from '@/services/transfer.service';
+
+type TransferRouterEnv = {
+  Variables: {
+    user: AuthUser;
+    container: Container;
+  };
+};
+
+const TRANSFER_ERRORS: Record<string, 400 | 404 | 409> = {
+  'Transaction not found': 404,
+  'A transfer links a debit to a credit': 400,
+  'Transaction is already part of a transfer': 409,
+  'Transaction is not part of a transfer': 409,
+};
+
+const toTransferTransaction = (txn: Transaction) => ({
+  ...txn,
+  type: txn.type as 'debit' | 'credit',
+  status: txn.status as TransactionStatus,
+  transactionDate: txn.transactionDate?.toISOString() ?? null,
+  createdAt: txn.createdAt.toISOString(),
+  updatedAt: txn.updatedAt.toISOString(),
+});
+
+const toTransferResponse = (pair: TransferPair) => ({
+  debit: toTransferTransaction(pair.debit),
+  credit: toTransferTransaction(pair.credit),
+});
+
+/**
+ * Transfer router with OpenAPI documentation
+ *
+ * Money moved between the user's own accounts (e.g. bank to eSewa) shows up as a debit and a
+ * credit. Linked as a transfer, neither counts as spending or income in summaries, budgets and
+ * insights. New transactions are matched automatically when they are saved.
+ */
+export const createTransferRouter = () => {
+  const router = new OpenAPIHono<TransferRouterEnv>();
+
+  // List transfers
+  const getTransfersRoute = createRoute({
+    method: 'get',
+    path: '/',
+    summary: 'List transfers',
+    description: 'Linked transfers between your own accounts, latest first.',
+    tags: ['Transfers'],
+    security: [{ Bearer: [] }],
+    request: {
+      query: TransfersQuerySchema,
+    },
+    responses: {
+      200: {
+        description: 'List of transfers',
+        content: {
+          'application/json': {
+            schema: TransfersResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(getTransfersRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { limit, offset } = c.req.valid('query');
+
+    const transfers = await container.transactionRepo.findTransfersForUser(user.id, limit, offset);
+
+    return c.json({ transfers: transfers.map(toTransferResponse), limit, offset }, 200);
+  });
+
+  // Detect transfers
+  const detectTransfersRoute = createRoute({
+    method: 'post',
+    path: '/detect',
+    summary: 'Detect transfers',
+    description:
+      'Pair up unlinked debits and credits with the same amount and currency, from different accounts (bank name and account number) and within `windowHours` of each other, and link them as transfers. Use `dryRun` to review the pairs first.',
+    tags: ['Transfers'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: DetectTransfersSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Transfers found',
+        content: {
+          'application/json': {
+            schema: DetectTransfersResponseSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(detectTransfersRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { startDate, endDate, windowHours, dryRun } = c.req.valid('json');
+
+    const pairs = await container.transferService.detectForUser(user.id, {
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      windowHours,
+      dryRun,
+    });
+
+    return c.json({ transfers: pairs.map(toTransferResponse), linked: !dryRun }, 200);
+  });
+
+  // Link a transfer
+  const linkTransferRoute = createRoute({
+    method: 'post',
+    path: '/',
+    summary: 'Link transfer',
+    description:
+      'Link a debit and a credit as a transfer between your own accounts. The amounts may differ (e.g. by a fee).',
+    tags: ['Transfers'],
+    security: [{ Bearer: [] }],
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: LinkTransferSchema,
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Transfer linked',
+        content: {
+          'application/json': {
+            schema: TransferResponseSchema,
+          },
+        },
+      },
+      400: {
+        description: 'The transactions are not a debit and a credit',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'A transaction is already part of a transfer',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(linkTransferRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { debitTransactionId, creditTransactionId } = c.req.valid('json');
+
+    try {
+      const pair = await container.transferService.link(
+        user.id,
+        debitTransactionId,
+        creditTransactionId
+      );
+      return c.json({ transfer: toTransferResponse(pair) }, 201);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = TRANSFER_ERRORS[message];
+      if (status === 400 || status === 404 || status === 409) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+  });
+
+  // Unlink a transfer
+  const unlinkTransferRoute = createRoute({
+    method: 'delete',
+    path: '/{transactionId}',
+    summary: 'Unlink transfer',
+    description:
+      'Unlink the transfer a transaction is part of (either side), so both transactions count as spending and income again.',
+    tags: ['Transfers'],
+    security: [{ Bearer: [] }],
+    request: {
+      params: z.object({
+        transactionId: z.string().describe('ID of either transaction of the transfer'),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Transfer unlinked',
+        content: {
+          'application/json': {
+            schema: z.object({
+              message: z.string(),
+            }),
+          },
+        },
+      },
+      404: {
+        description: 'Transaction not found',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      409: {
+        description: 'Transaction is not part of a transfer',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+      401: {
+        description: 'Unauthorized',
+        content: {
+          'application/json': {
+            schema: ErrorSchema,
+          },
+        },
+      },
+    },
+  });
+
+  router.openapi(unlinkTransferRoute, async (c) => {
+    const container = c.get('container');
+    const user = c.get('user');
+    const { transactionId } = c.req.valid('param');
+
+    try {
+      await container.transferService.unlink(user.id, transactionId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const status = TRANSFER_ERRORS[message];
+      if (status === 404 || status === 409) {
+        return c.json({ error: message }, status);
+      }
+      throw error;
+    }
+
+    return c.json({ message: 'Transfer unlinked' }, 200);
+  });
+
+  return router;
+};
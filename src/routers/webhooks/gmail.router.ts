@@ -1,6 +1,9 @@
 import { Hono } from 'hono';
 import type { GmailOAuthToken } from '@/db/schema';
+import { inngest } from '@/inngest/client';
+import type { GmailMessageReceivedEvent } from '@/inngest/functions/gmail-ingest-message';
 import type { Container } from '@/lib/container';
+import { getGmailAuthRejections } from '@/middleware/gmail_auth';
 
 type GmailWebhookEnv = {
   Variables: {
@@ -32,6 +35,11 @@ export const createGmailWebhookRouter = () => {
    *
    * This endpoint receives push notifications from Google Cloud Pub/Sub
    * when Gmail events occur (new emails, label changes, etc.)
+   *
+   * New monitored messages are enqueued as `gmail/message.received` events and ingested by the
+   * `gmail-ingest-message` function (with retries and a dead letter). If they cannot be
+   * enqueued, a 500 makes Pub/Sub redeliver the notification; the history ID is only advanced
+   * after enqueueing, so the messages are found again.
    */
   router.post('/', async (c) => {
     try {
@@ -69,23 +77,28 @@ export const createGmailWebhookRouter = () => {
       // Process Gmail notification
       const container = c.get('container');
 
-      // Find user by email address from the notification
-      let token: GmailOAuthToken | null;
+      // Find the accounts connected with the notification's mailbox (one per user)
+      let tokens: GmailOAuthToken[];
       try {
-        console.log('Looking up token for email:', gmailNotification.emailAddress);
-        token = await container.gmailOAuthRepo.findByEmailAddress(gmailNotification.emailAddress);
-        console.log('Token lookup complete:', token ? 'found' : 'not found');
+        console.log('Looking up tokens for email:', gmailNotification.emailAddress);
+        tokens = await container.gmailOAuthRepo.findAllByEmailAddress(
+          gmailNotification.emailAddress
+        );
+        console.log(`Token lookup complete: ${tokens.length} found`);
       } catch (dbError) {
         console.error('Database error looking up token:', dbError);
-        // Return 200 to acknowledge but log the error
-        return c.json({
-          success: false,
-          error: 'Database error',
-          messageId: body.message.messageId,
-        });
+        // Non-2xx so Pub/Sub redelivers the notification
+        return c.json(
+          {
+            success: false,
+            error: 'Database error',
+            messageId: body.message.messageId,
+          },
+          500
+        );
       }
 
-      if (!token) {
+      if (tokens.length === 0) {
         console.warn(`No OAuth token found for email: ${gmailNotification.emailAddress}`);
         // Still return 200 to acknowledge the message to Pub/Sub
         return c.json({
@@ -95,43 +108,51 @@ export const createGmailWebhookRouter = () => {
         });
       }
 
-      // Process the notification using stored history ID
-      const result = await container.gmailService.processNotification(
-        token.userId,
-        gmailNotification,
-        token.historyId // Use stored history ID from database
-      );
-
-      // Update the history ID in database with the new one from notification
-      if (result.success) {
-        await container.gmailOAuthRepo.updateHistoryIdByEmail(
-          gmailNotification.emailAddress,
-          result.historyId
-        );
-        console.log(
-          `Updated history ID to ${result.historyId} for ${gmailNotification.emailAddress}`
-        );
+      let queuedCount = 0;
+      for (const token of tokens) {
+        // Find new messages using the account's stored history ID
+        const result = await container.gmailService.processNotification(token, gmailNotification);
+
+        if (result.messageIds.length > 0) {
+          const events: Array<GmailMessageReceivedEvent & { id: string }> = result.messageIds.map(
+            (messageId) => ({
+              // Deduplicates redelivered notifications
+              id: `gmail-message-${token.id}-${messageId}`,
+              name: 'gmail/message.received',
+              data: { userId: token.userId, accountId: token.id, messageId },
+            })
+          );
+          await inngest.send(events);
+          queuedCount += events.length;
+        }
+
+        // Update the history ID in database with the new one from notification
+        if (result.success) {
+          await container.gmailOAuthRepo.updateHistoryId(token.id, result.historyId);
+          console.log(
+            `Updated history ID to ${result.historyId} for ${gmailNotification.emailAddress} (user ${token.userId})`
+          );
+        }
       }
 
       // Return 200 OK to acknowledge the message to Pub/Sub
       return c.json({
         success: true,
-        message: 'Gmail notification received and processed',
+        message: 'Gmail notification received and messages queued',
         messageId: body.message.messageId,
         receivedAt: new Date().toISOString(),
-        processedCount: result.processedCount,
+        queuedCount,
       });
     } catch (error) {
       console.error('Error processing Gmail webhook:', error);
 
-      // Still return 200 to prevent Pub/Sub from retrying
-      // You might want to log this to a dead-letter queue instead
+      // Non-2xx so Pub/Sub redelivers the notification with its own backoff
       return c.json(
         {
           success: false,
           error: 'Failed to process webhook',
         },
-        200
+        500
       );
     }
   });
@@ -145,6 +166,7 @@ export const createGmailWebhookRouter = () => {
       status: 'ok',
       service: 'gmail-webhook',
       timestamp: new Date().toISOString(),
+      rejectedPushes: getGmailAuthRejections(),
     });
   });
 
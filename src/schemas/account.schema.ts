@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './common.schema';
+import { TransactionWithCategorySchema } from './transaction.schema';
+
+/**
+ * Account schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const AccountTypeSchema = z.enum(['savings', 'current', 'credit_card', 'wallet']);
+export type AccountType = z.infer<typeof AccountTypeSchema>;
+
+export const AccountSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  bankName: z.string(),
+  accountNumber: z.string().nullable().openapi({
+    description: 'Masked account or card number; transactions match on its last 4 digits',
+    example: 'XXXX4567',
+  }),
+  type: AccountTypeSchema,
+  nickname: z.string().nullable(),
+  currency: z.string(),
+  openingBalance: z.string(), // Stored as numeric in DB, returned as string
+  reportedBalance: z.string().nullable().openapi({
+    description: 'Latest available balance stated in a bank alert',
+  }),
+  reportedBalanceAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Account = z.infer<typeof AccountSchema>;
+
+export const AccountWithBalanceSchema = AccountSchema.extend({
+  balance: z.number().openapi({
+    description: "Opening balance plus the linked confirmed transactions in the account's currency",
+  }),
+  transactionCount: z.number().int(),
+  lastTransactionAt: z.string().datetime().nullable(),
+});
+
+export const CreateAccountSchema = z.object({
+  bankName: z.string().trim().min(1).max(255).openapi({ example: 'NIC Asia Bank' }),
+  accountNumber: z.string().max(64).nullable().optional().openapi({
+    description: 'Masked number; leave empty for wallets matched on the provider name alone',
+    example: 'XXXX4567',
+  }),
+  type: AccountTypeSchema,
+  nickname: z.string().max(255).nullable().optional().openapi({ example: 'Salary account' }),
+  currency: CurrencyCodeSchema.optional().openapi({
+    description: 'Defaults to your base currency',
+  }),
+  openingBalance: z.number().optional().openapi({
+    description: 'Balance before the first linked transaction (default 0)',
+  }),
+});
+
+export type CreateAccountInput = z.infer<typeof CreateAccountSchema>;
+
+export const UpdateAccountSchema = CreateAccountSchema.partial();
+
+export type UpdateAccountInput = z.infer<typeof UpdateAccountSchema>;
+
+export const AccountLedgerQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const LedgerEntrySchema = TransactionWithCategorySchema.extend({
+  runningBalance: z.number().openapi({ description: 'Account balance after this transaction' }),
+});
+
+// Response schemas
+export const AccountResponseSchema = z.object({
+  account: AccountSchema,
+});
+
+export const AccountsResponseSchema = z.object({
+  accounts: z.array(AccountWithBalanceSchema),
+});
+
+export const AccountLedgerResponseSchema = z.object({
+  account: AccountWithBalanceSchema,
+  transactions: z.array(LedgerEntrySchema),
+});
+
+export const LinkAccountTransactionsResponseSchema = z.object({
+  linked: z.number().int().openapi({ description: 'Transactions linked to an account' }),
+});
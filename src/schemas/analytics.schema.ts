@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { TransactionTypeSchema } from './transaction.schema';
+
+/**
+ * Analytics schemas
+ * Spending and income breakdowns for charts, in the user's timezone and base currency
+ */
+
+const isTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const AnalyticsIntervalSchema = z.enum(['day', 'week', 'month']).openapi({
+  description: "Bucket size in the user's timezone. Weeks start on Monday.",
+});
+
+export const AnalyticsQuerySchema = z.object({
+  startDate: z.string().datetime({ local: true, offset: true }).optional().openapi({
+    description:
+      'Inclusive. Local time in the timezone unless an offset is given. Defaults to the start of the current month (or of the month of endDate).',
+    example: '2026-10-01T00:00:00',
+  }),
+  endDate: z.string().datetime({ local: true, offset: true }).optional().openapi({
+    description:
+      'Exclusive. Local time in the timezone unless an offset is given. Defaults to the end of the current month, or to now when startDate is given.',
+  }),
+  timezone: z.string().refine(isTimezone, 'Must be an IANA timezone').optional().openapi({
+    description:
+      'IANA timezone identifier (e.g., "Asia/Kathmandu"). Overrides user default timezone for dates and buckets.',
+  }),
+  compare: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional()
+    .openapi({
+      description:
+        'Also compute the previous period: the previous calendar months when the range is whole months, otherwise the equally long span right before it',
+    }),
+});
+
+export const AnalyticsBreakdownQuerySchema = AnalyticsQuerySchema.extend({
+  type: TransactionTypeSchema.default('debit').openapi({
+    description: 'debit for spending (default), credit for income',
+  }),
+});
+
+export const MerchantAnalyticsQuerySchema = AnalyticsBreakdownQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const TimeSeriesQuerySchema = AnalyticsQuerySchema.extend({
+  interval: AnalyticsIntervalSchema.default('day'),
+});
+
+export const AnalyticsRangeSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime().openapi({ description: 'Exclusive' }),
+});
+
+const AnalyticsItemFields = {
+  total: z.number(),
+  count: z.number().int(),
+  share: z.number().openapi({ description: 'Percentage of the period total' }),
+  previousTotal: z
+    .number()
+    .nullable()
+    .openapi({ description: 'Total in the previous period; null without compare' }),
+  change: z.number().nullable().openapi({
+    description: 'Percentage change from previousTotal; null without compare or when it is 0',
+  }),
+};
+
+const AnalyticsBreakdownFields = {
+  currency: z.string().openapi({ description: "User's base currency" }),
+  timezone: z.string(),
+  range: AnalyticsRangeSchema,
+  previousRange: AnalyticsRangeSchema.nullable(),
+  total: z.number(),
+  previousTotal: z.number().nullable(),
+  unconvertedCount: z.number().int().openapi({
+    description:
+      'Transactions left out of the totals because no exchange rate to the base currency is known',
+  }),
+};
+
+export const CategoryAnalyticsItemSchema = z.object({
+  categoryId: z.string().nullable(),
+  name: z.string().nullable(),
+  icon: z.string().nullable(),
+  ...AnalyticsItemFields,
+});
+
+export const MerchantAnalyticsItemSchema = z.object({
+  merchantId: z.string().nullable().openapi({
+    description: 'Null for transactions not linked to the merchant directory',
+  }),
+  merchant: z.string().nullable(),
+  logo: z.string().nullable(),
+  ...AnalyticsItemFields,
+});
+
+export const AccountAnalyticsItemSchema = z.object({
+  bankName: z.string().nullable(),
+  accountNumber: z.string().nullable(),
+  ...AnalyticsItemFields,
+});
+
+export const TimeSeriesBucketSchema = z.object({
+  bucket: z.iso.date().openapi({ description: 'Local start date of the bucket' }),
+  debit: z.number(),
+  credit: z.number(),
+  count: z.number().int(),
+});
+
+// Response schemas
+export const CategoryAnalyticsResponseSchema = z.object({
+  ...AnalyticsBreakdownFields,
+  categories: z.array(CategoryAnalyticsItemSchema),
+});
+
+export const MerchantAnalyticsResponseSchema = z.object({
+  ...AnalyticsBreakdownFields,
+  merchants: z.array(MerchantAnalyticsItemSchema),
+});
+
+export const AccountAnalyticsResponseSchema = z.object({
+  ...AnalyticsBreakdownFields,
+  accounts: z.array(AccountAnalyticsItemSchema),
+});
+
+export const TimeSeriesResponseSchema = z.object({
+  currency: z.string().openapi({ description: "User's base currency" }),
+  timezone: z.string(),
+  interval: AnalyticsIntervalSchema,
+  range: AnalyticsRangeSchema,
+  previousRange: AnalyticsRangeSchema.nullable(),
+  unconvertedCount: z.number().int(),
+  buckets: z.array(TimeSeriesBucketSchema),
+  previousBuckets: z.array(TimeSeriesBucketSchema).nullable().openapi({
+    description: 'Buckets of the previous period; null without compare',
+  }),
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+/**
+ * Budget schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const BudgetPeriodSchema = z.enum(['weekly', 'monthly', 'yearly']).openapi({
+  description: "Calendar period in the user's timezone. Weeks start on Monday.",
+});
+
+export const BudgetSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  categoryId: z.string(),
+  period: BudgetPeriodSchema,
+  amount: z.string(), // Stored as numeric in DB, returned as string
+  rollover: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Budget = z.infer<typeof BudgetSchema>;
+
+export const CreateBudgetSchema = z.object({
+  categoryId: z.string(),
+  period: BudgetPeriodSchema.optional().openapi({ description: 'Defaults to monthly' }),
+  amount: z.coerce.number().positive().openapi({
+    description: "Spending limit per period, in the user's base currency",
+    example: 15000,
+  }),
+  rollover: z.boolean().optional().openapi({
+    description:
+      "Carry what is left of the previous period's limit (negative when overspent) into the current one. Defaults to false.",
+  }),
+});
+
+export type CreateBudgetInput = z.infer<typeof CreateBudgetSchema>;
+
+export const UpdateBudgetSchema = CreateBudgetSchema.partial();
+
+export type UpdateBudgetInput = z.infer<typeof UpdateBudgetSchema>;
+
+export const BudgetProgressSchema = z.object({
+  budget: BudgetSchema,
+  periodStart: z.string().datetime(),
+  periodEnd: z.string().datetime().openapi({ description: 'Exclusive' }),
+  currency: z.string().openapi({ description: "User's base currency" }),
+  carryover: z
+    .number()
+    .openapi({ description: 'Carried over from the previous period (rollover)' }),
+  limit: z.number().openapi({ description: 'amount + carryover' }),
+  spent: z.number(),
+  remaining: z.number(),
+  percentUsed: z.number().nullable().openapi({
+    description: 'Spent as a percentage of the limit; null when the limit is not positive',
+  }),
+  unconvertedCount: z.number().int().openapi({
+    description:
+      'Transactions left out of spent because no exchange rate to the base currency is known',
+  }),
+});
+
+export type BudgetProgress = z.infer<typeof BudgetProgressSchema>;
+
+// Response schemas
+export const BudgetResponseSchema = z.object({
+  budget: BudgetSchema,
+});
+
+export const BudgetsResponseSchema = z.object({
+  budgets: z.array(BudgetSchema),
+});
+
+export const BudgetProgressResponseSchema = z.object({
+  progress: z.array(BudgetProgressSchema),
+});
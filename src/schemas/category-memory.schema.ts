@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+/**
+ * Category memory schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const CategoryMemorySchema = z.object({
+  id: z.string(),
+  categoryId: z.string(),
+  matchField: z.enum(['merchant', 'remarks']).openapi({
+    description: 'Field the memory matches on (merchant when the corrected transaction had one)',
+  }),
+  matchKey: z.string().openapi({ description: 'Normalized merchant/remarks that is matched' }),
+  merchant: z.string().nullable(),
+  remarks: z.string().nullable(),
+  correctionCount: z.number().int(),
+  appliedCount: z.number().int(),
+  lastAppliedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  category: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      icon: z.string().nullable(),
+    })
+    .nullable(),
+});
+
+export type CategoryMemory = z.infer<typeof CategoryMemorySchema>;
+
+// Response schemas
+export const CategoryMemoriesResponseSchema = z.object({
+  memories: z.array(CategoryMemorySchema),
+});
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+/**
+ * Category rule schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const CategoryRuleFieldSchema = z.enum(['merchant', 'remarks', 'any']).openapi({
+  description: 'Transaction field to match. "any" matches merchant or remarks.',
+});
+
+export const CategoryRuleMatchTypeSchema = z.enum(['contains', 'equals', 'regex']).openapi({
+  description:
+    'How the pattern is matched (always case-insensitive). Regex patterns use RE2 syntax, without backreferences or lookarounds.',
+});
+
+export const CategoryRuleSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  categoryId: z.string(),
+  field: CategoryRuleFieldSchema,
+  matchType: CategoryRuleMatchTypeSchema,
+  pattern: z.string(),
+  priority: z.number().int(),
+  isActive: z.boolean(),
+  hitCount: z.number().int(),
+  lastMatchedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type CategoryRule = z.infer<typeof CategoryRuleSchema>;
+
+export const CreateCategoryRuleSchema = z.object({
+  categoryId: z.string(),
+  field: CategoryRuleFieldSchema,
+  matchType: CategoryRuleMatchTypeSchema,
+  pattern: z.string().min(1).max(200).openapi({ example: 'Daraz' }),
+  priority: z.number().int().optional().openapi({
+    description: 'Higher priority rules are evaluated first. Defaults to 0.',
+  }),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateCategoryRuleInput = z.infer<typeof CreateCategoryRuleSchema>;
+
+export const UpdateCategoryRuleSchema = CreateCategoryRuleSchema.partial();
+
+export type UpdateCategoryRuleInput = z.infer<typeof UpdateCategoryRuleSchema>;
+
+// Response schemas
+export const CategoryRuleResponseSchema = z.object({
+  rule: CategoryRuleSchema,
+});
+
+export const CategoryRulesResponseSchema = z.object({
+  rules: z.array(CategoryRuleSchema),
+});
@@ -22,6 +22,12 @@ export const SuccessSchema = z.object({
 
 export type SuccessResponse = z.infer<typeof SuccessSchema>;
 
+// ISO 4217 currency code (e.g., "NPR", "USD"), normalized to uppercase
+export const CurrencyCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter ISO 4217 currency code')
+  .transform((code) => code.toUpperCase());
+
 // Pagination schemas
 export const PaginationQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1).optional(),
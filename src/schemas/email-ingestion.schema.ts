@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+/**
+ * Email ingestion (audit log) schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const EmailIngestionOutcomeSchema = z
+  .enum(['saved', 'duplicate', 'not_transaction', 'failed'])
+  .openapi({
+    description:
+      'saved: a transaction was created; duplicate: already saved before; not_transaction: the extractor found no transaction; failed: see error',
+  });
+
+export const EmailIngestionTriggerSchema = z.enum(['notification', 'backfill', 'reprocess']);
+
+export const EmailIngestionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  accountId: z.string().nullable(),
+  mailbox: z.string().nullable(),
+  messageId: z.string(),
+  trigger: EmailIngestionTriggerSchema,
+  sender: z.string().nullable(),
+  subject: z.string().nullable(),
+  receivedAt: z.string().datetime().nullable(),
+  labelMatched: z.boolean().nullable().openapi({
+    description: "Whether the email has one of the account's monitor labels (null when none set)",
+  }),
+  duplicate: z.boolean(),
+  isTransaction: z.boolean().nullable().openapi({
+    description: 'Extractor verdict; null when extraction did not run',
+  }),
+  confidence: z.number().nullable(),
+  extractedBy: z.string().nullable().openapi({
+    description:
+      "ID of the bank parser that read the email, or 'ai'; null when extraction did not run",
+  }),
+  outcome: EmailIngestionOutcomeSchema,
+  transactionId: z.string().nullable(),
+  error: z.string().nullable(),
+  fetchMs: z.number().int().nullable(),
+  extractionMs: z.number().int().nullable(),
+  totalMs: z.number().int(),
+  runCount: z.number().int(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime().openapi({ description: 'When the email was last processed' }),
+});
+
+export type EmailIngestion = z.infer<typeof EmailIngestionSchema>;
+
+export const EmailIngestionFiltersSchema = z.object({
+  accountId: z.string().optional(),
+  outcome: EmailIngestionOutcomeSchema.optional(),
+  isTransaction: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  limit: z.coerce.number().min(1).max(500).default(100),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export type EmailIngestionFilters = z.infer<typeof EmailIngestionFiltersSchema>;
+
+// Response schemas
+export const EmailIngestionsResponseSchema = z.object({
+  ingestions: z.array(EmailIngestionSchema),
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const EmailIngestionResponseSchema = z.object({
+  ingestion: EmailIngestionSchema,
+});
+
+export const ExtractorStatsQuerySchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const ExtractorStatsSchema = z.object({
+  total: z.number().int().openapi({ description: 'Emails that went through extraction' }),
+  parser: z.number().int().openapi({ description: 'Emails read by a bank parser' }),
+  ai: z.number().int().openapi({ description: 'Emails sent to the AI' }),
+  parserHitRate: z.number().nullable().openapi({
+    description: 'Share of extractions handled by a bank parser (0-1); null when there were none',
+  }),
+  byExtractor: z.array(
+    z.object({
+      extractor: z.string().openapi({ description: "Bank parser ID or 'ai'" }),
+      count: z.number().int(),
+      transactionCount: z.number().int().openapi({ description: 'Emails saved as transactions' }),
+    })
+  ),
+});
+
+export const ExtractorStatsResponseSchema = z.object({
+  stats: ExtractorStatsSchema,
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './common.schema';
+
+/**
+ * Exchange rate schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const ExchangeRateSchema = z.object({
+  id: z.string(),
+  userId: z.string().nullable(),
+  fromCurrency: z.string(),
+  toCurrency: z.string(),
+  rate: z.string(), // Stored as numeric in DB, returned as string
+  effectiveDate: z.string().datetime(),
+  source: z.string(),
+  createdAt: z.string().datetime(),
+});
+
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
+
+export const CreateExchangeRateSchema = z
+  .object({
+    fromCurrency: CurrencyCodeSchema,
+    toCurrency: CurrencyCodeSchema,
+    rate: z.coerce.number().positive().openapi({
+      description: '1 unit of fromCurrency = rate units of toCurrency',
+      example: 133.5,
+    }),
+    effectiveDate: z.string().datetime().optional().openapi({
+      description: 'When the rate starts applying. Defaults to now.',
+    }),
+  })
+  .refine((data) => data.fromCurrency !== data.toCurrency, {
+    message: 'fromCurrency and toCurrency must differ',
+    path: ['toCurrency'],
+  });
+
+export type CreateExchangeRateInput = z.infer<typeof CreateExchangeRateSchema>;
+
+// Response schemas
+export const ExchangeRateResponseSchema = z.object({
+  exchangeRate: ExchangeRateSchema,
+});
+
+export const ExchangeRatesResponseSchema = z.object({
+  exchangeRates: z.array(ExchangeRateSchema),
+});
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+/**
+ * Failed ingestion (dead letter) schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const FailedIngestionStatusSchema = z.enum(['failed', 'replaying', 'resolved']).openapi({
+  description:
+    'failed: retries ran out; replaying: a replay was queued; resolved: a later run ingested the message',
+});
+
+export const FailedIngestionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  accountId: z.string().nullable().openapi({ description: 'Null if the account was removed' }),
+  source: z.string().openapi({ example: 'gmail' }),
+  messageId: z.string(),
+  error: z.string().openapi({ description: 'Error of the last failed attempt' }),
+  attempts: z.number().int(),
+  status: FailedIngestionStatusSchema,
+  replayCount: z.number().int(),
+  lastReplayedAt: z.string().datetime().nullable(),
+  resolvedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime().openapi({ description: 'When the message last failed' }),
+});
+
+export type FailedIngestion = z.infer<typeof FailedIngestionSchema>;
+
+export const FailedIngestionsQuerySchema = z.object({
+  status: FailedIngestionStatusSchema.optional(),
+  userId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().openapi({ example: 50 }),
+});
+
+export type FailedIngestionsQuery = z.infer<typeof FailedIngestionsQuerySchema>;
+
+// Response schemas
+export const FailedIngestionsResponseSchema = z.object({
+  failures: z.array(FailedIngestionSchema),
+});
+
+export const FailedIngestionResponseSchema = z.object({
+  failure: FailedIngestionSchema,
+});
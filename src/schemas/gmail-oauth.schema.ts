@@ -21,20 +21,28 @@ export const GmailOAuthCallbackQuerySchema = z.object({
 export const GmailOAuthCallbackResponseSchema = z.object({
   success: z.boolean(),
   message: z.string(),
+  accountId: z.string().optional(),
   emailAddress: z.string().email().optional(),
 });
 
 export type GmailOAuthCallbackResponse = z.infer<typeof GmailOAuthCallbackResponseSchema>;
 
+export const GmailOAuthAccountSchema = z.object({
+  id: z.string().openapi({ description: 'Pass as accountId to the Gmail endpoints' }),
+  emailAddress: z.string().email(),
+  expiresAt: z.string().datetime(),
+  isExpired: z.boolean(),
+  isValid: z.boolean(),
+  scope: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type GmailOAuthAccount = z.infer<typeof GmailOAuthAccountSchema>;
+
 export const GmailOAuthStatusSchema = z.object({
   authorized: z.boolean(),
-  emailAddress: z.string().email().optional(),
-  expiresAt: z.string().datetime().optional(),
-  isExpired: z.boolean().optional(),
-  isValid: z.boolean().optional(),
-  scope: z.string().optional(),
-  createdAt: z.string().datetime().optional(),
-  updatedAt: z.string().datetime().optional(),
+  accounts: z.array(GmailOAuthAccountSchema),
   message: z.string().optional(),
 });
 
@@ -152,10 +152,22 @@ export type GmailWatchStatusResponse = z.infer<typeof GmailWatchStatusResponseSc
 // Route Request/Response Schemas
 // ============================================
 
+/**
+ * Gmail account a request is for
+ */
+export const GmailAccountQuerySchema = z.object({
+  accountId: z.string().optional().openapi({
+    description:
+      'Gmail account ID from GET /gmail/oauth/status. Optional when only one account is connected.',
+  }),
+});
+
+export type GmailAccountQuery = z.infer<typeof GmailAccountQuerySchema>;
+
 /**
  * List messages query parameters
  */
-export const GmailListMessagesQuerySchema = z.object({
+export const GmailListMessagesQuerySchema = GmailAccountQuerySchema.extend({
   q: z.string().optional().openapi({
     description: 'Gmail search query (e.g., "from:example@gmail.com", "is:unread")',
     example: 'is:unread',
@@ -201,7 +213,7 @@ export type GmailMessageParams = z.infer<typeof GmailMessageParamsSchema>;
 /**
  * Get message query parameters
  */
-export const GmailGetMessageQuerySchema = z.object({
+export const GmailGetMessageQuerySchema = GmailAccountQuerySchema.extend({
   format: z.enum(['full', 'metadata', 'minimal']).default('full').optional().openapi({
     description: 'The format to return the message in',
     example: 'full',
@@ -260,7 +272,7 @@ export type GmailWatchRequest = z.infer<typeof GmailWatchRequestSchema>;
 /**
  * History query parameters
  */
-export const GmailHistoryQuerySchema = z.object({
+export const GmailHistoryQuerySchema = GmailAccountQuerySchema.extend({
   startHistoryId: z.string().openapi({
     description: 'History ID to start from',
   }),
@@ -399,3 +411,53 @@ export const GmailSenderFilterResponseSchema = z.object({
 });
 
 export type GmailSenderFilterResponse = z.infer<typeof GmailSenderFilterResponseSchema>;
+
+/**
+ * Backfill request - date range of past mail to import
+ */
+export const GmailBackfillRequestSchema = z
+  .object({
+    startDate: z.string().datetime().optional().openapi({
+      description: 'Import mail received on or after this time (defaults to 90 days ago)',
+      example: '2026-01-01T00:00:00Z',
+    }),
+    endDate: z.string().datetime().optional().openapi({
+      description: 'Import mail received before this time (defaults to now)',
+    }),
+  })
+  .refine(
+    ({ startDate, endDate }) => !startDate || !endDate || new Date(startDate) < new Date(endDate),
+    { message: 'startDate must be before endDate' }
+  );
+
+export type GmailBackfillRequest = z.infer<typeof GmailBackfillRequestSchema>;
+
+/**
+ * Backfill run and its progress
+ */
+export const GmailBackfillSchema = z.object({
+  id: z.string(),
+  accountId: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  query: z.string().nullable().openapi({
+    description: 'Gmail search query used to find the messages',
+  }),
+  messagesFound: z.number(),
+  savedCount: z.number().openapi({ description: 'New transactions saved' }),
+  skippedCount: z.number().openapi({
+    description: 'Messages already processed or not bank transactions',
+  }),
+  failedCount: z.number(),
+  lastError: z.string().nullable(),
+  startedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const GmailBackfillResponseSchema = z.object({
+  backfill: GmailBackfillSchema,
+});
+
+export type GmailBackfillResponse = z.infer<typeof GmailBackfillResponseSchema>;
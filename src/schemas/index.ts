@@ -5,10 +5,22 @@
  * import { UserSchema, CreateUserSchema } from '@backend/schemas';
  */
 
+export * from './account.schema';
+export * from './analytics.schema';
+export * from './budget.schema';
 export * from './category.schema';
+export * from './category-memory.schema';
+export * from './category-rule.schema';
 export * from './common.schema';
+export * from './email-ingestion.schema';
+export * from './exchange-rate.schema';
+export * from './failed-ingestion.schema';
 export * from './gmail.schema';
 export * from './gmail-oauth.schema';
 export * from './insights.schema';
+export * from './merchant.schema';
+export * from './recurring.schema';
+export * from './review.schema';
 export * from './transaction.schema';
+export * from './transfer.schema';
 export * from './user.schema';
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+/**
+ * Merchant schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const MerchantSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  aliases: z.array(z.string()).openapi({
+    description:
+      'Normalized merchant names (lowercase, without digits and punctuation) linked to this merchant on ingest',
+    example: ['daraz', 'daraz kaalika pvt', 'daraz com np'],
+  }),
+  categoryId: z.string().nullable().openapi({
+    description: "Category for the merchant's transactions when no rule or learned memory matches",
+  }),
+  logo: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type Merchant = z.infer<typeof MerchantSchema>;
+
+export const MerchantWithStatsSchema = MerchantSchema.extend({
+  transactionCount: z.number().int(),
+});
+
+export const CreateMerchantSchema = z.object({
+  name: z.string().trim().min(1).max(255).openapi({ example: 'Daraz' }),
+  aliases: z
+    .array(z.string().min(1).max(255))
+    .max(100)
+    .optional()
+    .openapi({
+      description:
+        'Merchant names as they appear in transactions. The name is always an alias. Replaces the current aliases on update.',
+      example: ['DARAZ KAALIKA PVT', 'daraz.com.np'],
+    }),
+  categoryId: z.string().nullable().optional(),
+  logo: z.string().max(2048).nullable().optional().openapi({
+    description: 'Emoji or image URL',
+    example: '🛒',
+  }),
+});
+
+export type CreateMerchantInput = z.infer<typeof CreateMerchantSchema>;
+
+export const UpdateMerchantSchema = CreateMerchantSchema.partial();
+
+export type UpdateMerchantInput = z.infer<typeof UpdateMerchantSchema>;
+
+export const MergeMerchantsSchema = z.object({
+  merchantIds: z.array(z.string()).min(1).max(50).openapi({
+    description: 'Merchants to merge into this one; they are deleted',
+  }),
+});
+
+// Response schemas
+export const MerchantResponseSchema = z.object({
+  merchant: MerchantSchema,
+});
+
+export const MerchantsResponseSchema = z.object({
+  merchants: z.array(MerchantWithStatsSchema),
+});
+
+export const MergeMerchantsResponseSchema = z.object({
+  merchant: MerchantSchema,
+  mergedCount: z.number().int(),
+  transactionCount: z.number().int().openapi({ description: 'Transactions moved to the merchant' }),
+});
+
+export const LinkMerchantTransactionsResponseSchema = z.object({
+  linked: z.number().int().openapi({ description: 'Transactions linked to a merchant' }),
+  created: z.number().int().openapi({ description: 'Merchants created for new names' }),
+});
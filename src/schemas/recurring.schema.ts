@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+/**
+ * Recurring transaction schemas
+ * These can be shared with frontend/mobile apps in a monorepo
+ */
+
+export const RecurringCadenceSchema = z.enum(['weekly', 'monthly', 'yearly']);
+
+export const RecurringStatusSchema = z.enum(['active', 'missed', 'ended']).openapi({
+  description:
+    'active: next charge is on schedule; missed: the expected charge has not arrived; ended: no charge for several periods',
+});
+
+export const RecurringSeriesSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  matchField: z.enum(['merchant', 'remarks']),
+  matchKey: z
+    .string()
+    .openapi({ description: 'Normalized merchant or remarks the series matches' }),
+  merchant: z.string().nullable(),
+  type: z.enum(['debit', 'credit']),
+  currency: z.string(),
+  cadence: RecurringCadenceSchema,
+  averageAmount: z.string().openapi({ description: 'Average of the latest charges' }),
+  lastAmount: z.string(),
+  occurrenceCount: z.number().int(),
+  firstDate: z.string().openapi({ example: '2026-01-05' }),
+  lastDate: z.string().openapi({ example: '2026-04-05' }),
+  nextExpectedDate: z.string().openapi({ example: '2026-05-05' }),
+  lastTransactionId: z.string().nullable(),
+  status: RecurringStatusSchema,
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type RecurringSeries = z.infer<typeof RecurringSeriesSchema>;
+
+export const RecurringQuerySchema = z.object({
+  status: RecurringStatusSchema.optional(),
+});
+
+export type RecurringQuery = z.infer<typeof RecurringQuerySchema>;
+
+// Response schemas
+export const RecurringSeriesListResponseSchema = z.object({
+  series: z.array(RecurringSeriesSchema),
+});
+
+export const RecurringDetectionResponseSchema = z.object({
+  series: z.array(RecurringSeriesSchema),
+  missedAlerts: z.number().int(),
+  amountChangeAlerts: z.number().int(),
+});
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { TransactionWithCategorySchema, UpdateTransactionSchema } from './transaction.schema';
+
+/**
+ * Review queue schemas
+ * Transactions the AI extracted with a confidence below the user's review threshold
+ */
+
+export const ReviewQueueQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(500).default(100),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export const ReviewTransactionSchema = TransactionWithCategorySchema.extend({
+  emailExcerpt: z.string().nullable(), // start of the email the transaction was extracted from
+});
+
+// Corrections saved with the approval; category changes are learned for future transactions
+export const ApproveTransactionSchema = UpdateTransactionSchema;
+
+// Response schemas
+export const ReviewQueueResponseSchema = z.object({
+  transactions: z.array(ReviewTransactionSchema),
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+  reviewThreshold: z.string(),
+});
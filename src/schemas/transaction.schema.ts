@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from './common.schema';
 
 /**
  * Transaction schemas
@@ -8,18 +9,24 @@ import { z } from 'zod';
 export const TransactionTypeSchema = z.enum(['debit', 'credit']);
 export type TransactionType = z.infer<typeof TransactionTypeSchema>;
 
+// Extractions less confident than the user's review threshold wait for review
+export const TransactionStatusSchema = z.enum(['confirmed', 'pending_review']);
+export type TransactionStatus = z.infer<typeof TransactionStatusSchema>;
+
 /**
  * Represents a transaction row as returned from the DB/repository
  * (Date objects, type as string). Use toTransactionResponse() to convert to API shape.
  */
 export type TransactionFromRepo = Omit<
   TransactionWithCategory,
-  'type' | 'transactionDate' | 'createdAt' | 'updatedAt'
+  'type' | 'status' | 'transactionDate' | 'createdAt' | 'updatedAt' | 'deletedAt'
 > & {
   type: string;
+  status: string;
   transactionDate: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
 };
 
 /**
@@ -31,9 +38,11 @@ export function toTransactionResponse<T extends TransactionFromRepo>(
   return {
     ...txn,
     type: txn.type as TransactionType,
+    status: txn.status as TransactionStatus,
     transactionDate: txn.transactionDate?.toISOString() ?? null,
     createdAt: txn.createdAt.toISOString(),
     updatedAt: txn.updatedAt.toISOString(),
+    deletedAt: txn.deletedAt?.toISOString() ?? null,
   };
 }
 
@@ -41,19 +50,35 @@ export const TransactionSchema = z.object({
   id: z.string(),
   userId: z.string(),
   categoryId: z.string().nullable(),
+  categoryRuleId: z.string().nullable(), // Category rule that set the category, if any
   amount: z.string(), // Stored as numeric in DB, returned as string
   type: TransactionTypeSchema,
   currency: z.string().nullable(),
   merchant: z.string().nullable(),
+  merchantId: z.string().nullable().openapi({
+    description: 'Merchant in the merchant directory the transaction belongs to',
+  }),
   accountNumber: z.string().nullable(),
   bankName: z.string().nullable(),
+  accountId: z.string().nullable().openapi({
+    description: 'Account the transaction was made from, matched by bank name and last digits',
+  }),
   transactionDate: z.string().datetime().nullable(),
   remarks: z.string().nullable(),
   emailId: z.string().nullable(),
+  mailbox: z.string().nullable(), // Gmail address the email was received in
   aiConfidence: z.string().nullable(),
   isAiCreated: z.boolean(),
+  status: TransactionStatusSchema,
+  transferPeerId: z.string().nullable().openapi({
+    description:
+      "The other side of a transfer between the user's own accounts; transfers are left out of totals, budgets and insights",
+  }),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
+  deletedAt: z.string().datetime().nullable().openapi({
+    description: 'When the transaction was deleted; deleted transactions can be restored',
+  }),
 });
 
 export type Transaction = z.infer<typeof TransactionSchema>;
@@ -73,6 +98,7 @@ export type TransactionWithCategory = z.infer<typeof TransactionWithCategorySche
 
 export const CreateTransactionSchema = z.object({
   amount: z.coerce.number().positive(),
+  currency: CurrencyCodeSchema.optional(), // defaults to the user's base currency
   type: TransactionTypeSchema,
   categoryId: z.string().optional(),
   merchant: z.string().max(255).optional(),
@@ -101,25 +127,363 @@ export type UpdateTransactionInput = z.infer<typeof UpdateTransactionSchema>;
 // Filter schemas for list endpoint
 export const TransactionFiltersSchema = z.object({
   categoryId: z.string().optional(),
+  merchantId: z.string().optional(),
+  accountId: z.string().optional(),
   type: TransactionTypeSchema.optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   timezone: z.string().optional(), // IANA timezone identifier (e.g., "Asia/Kathmandu") - overrides user default for date filter conversion
   minAmount: z.coerce.number().optional(),
   maxAmount: z.coerce.number().optional(),
+  q: z.string().trim().min(1).max(200).optional().openapi({
+    description:
+      'Full-text search over merchant, remarks, bank name and the original email. Supports "quoted phrases", OR and -exclusions. Results are ordered by relevance.',
+    example: 'pathao',
+  }),
+  deleted: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional()
+    .openapi({ description: 'List deleted transactions (to restore them) instead of active ones' }),
   limit: z.coerce.number().min(1).max(500).default(100),
   offset: z.coerce.number().min(0).default(0),
 });
 
 export type TransactionFilters = z.infer<typeof TransactionFiltersSchema>;
 
+// Export
+export const TransactionExportQuerySchema = TransactionFiltersSchema.omit({
+  limit: true,
+  offset: true,
+  deleted: true,
+}).extend({
+  format: z.enum(['csv', 'ofx', 'qif', 'json']).default('csv').openapi({
+    description: 'csv for spreadsheets, ofx/qif for GnuCash/YNAB, json for scripts',
+  }),
+});
+
+export type TransactionExportQuery = z.infer<typeof TransactionExportQuerySchema>;
+
+// Bulk operations
+export const BulkTransactionFilterSchema = TransactionFiltersSchema.omit({
+  limit: true,
+  offset: true,
+  deleted: true,
+})
+  .extend({
+    merchant: z.string().min(1).optional().openapi({
+      description: 'Case-insensitive text match on merchant',
+    }),
+    remarks: z.string().min(1).optional().openapi({
+      description: 'Case-insensitive text match on remarks',
+    }),
+  })
+  .refine(
+    ({ timezone: _timezone, ...filters }) => Object.values(filters).some((v) => v !== undefined),
+    { message: 'At least one filter is required' }
+  );
+
+export const BulkTransactionOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set_category'), categoryId: z.string() }),
+  z.object({ type: z.literal('set_remarks'), remarks: z.string().max(500).nullable() }),
+  z.object({ type: z.literal('delete') }),
+]);
+
+export type BulkTransactionOperation = z.infer<typeof BulkTransactionOperationSchema>;
+
+export const BulkTransactionRequestSchema = z.object({
+  filter: BulkTransactionFilterSchema,
+  operation: BulkTransactionOperationSchema,
+  dryRun: z.boolean().default(false).openapi({
+    description: 'Only count the matching transactions and return a sample, without changing them',
+  }),
+});
+
+export type BulkTransactionRequest = z.infer<typeof BulkTransactionRequestSchema>;
+
+export const BulkTransactionResponseSchema = z.object({
+  dryRun: z.boolean(),
+  operation: z.enum(['set_category', 'set_remarks', 'delete']),
+  affectedCount: z.number(),
+  sample: z.array(TransactionWithCategorySchema), // up to 10 matching transactions, before the change
+});
+
+// Statement import
+const StatementDefaultsSchema = z.object({
+  currency: CurrencyCodeSchema.optional().openapi({
+    description: 'Currency of rows that do not state one (defaults to your base currency)',
+  }),
+  bankName: z.string().max(255).optional(),
+  accountNumber: z.string().max(64).optional().openapi({
+    description: 'Account the statement belongs to; only the last 4 digits are kept',
+  }),
+});
+
+export const CsvColumnMappingSchema = z
+  .object({
+    date: z.string().min(1),
+    amount: z.string().min(1).optional().openapi({
+      description: 'Signed amount column (negative = debit)',
+    }),
+    debit: z.string().min(1).optional(),
+    credit: z.string().min(1).optional(),
+    type: z.string().min(1).optional().openapi({
+      description: 'Column with DR/CR or debit/credit, overrides the amount sign',
+    }),
+    description: z.string().min(1).optional().openapi({ description: 'Stored as remarks' }),
+    merchant: z.string().min(1).optional(),
+    currency: z.string().min(1).optional(),
+    account: z.string().min(1).optional(),
+  })
+  .refine((mapping) => mapping.amount || mapping.debit || mapping.credit, {
+    message: 'Map either an amount column or debit/credit columns',
+  })
+  .openapi({ description: 'Header names of the CSV columns holding each field' });
+
+export const TransactionImportRequestSchema = z.discriminatedUnion('format', [
+  StatementDefaultsSchema.extend({
+    format: z.literal('csv'),
+    content: z.string().min(1).max(5_000_000),
+    mapping: CsvColumnMappingSchema,
+    dateOrder: z.enum(['YMD', 'DMY', 'MDY']).default('YMD').openapi({
+      description: 'Order of the numeric date parts; month names are detected automatically',
+    }),
+    delimiter: z.string().length(1).default(','),
+    skipRows: z.number().int().min(0).max(50).default(0).openapi({
+      description: 'Lines before the header row',
+    }),
+  }),
+  StatementDefaultsSchema.extend({
+    format: z.literal('text'),
+    content: z.string().min(1).max(200_000).openapi({
+      description:
+        'Statement text (e.g. extracted from a PDF), read by the AI in a background import',
+    }),
+  }),
+]);
+
+export type TransactionImportRequest = z.infer<typeof TransactionImportRequestSchema>;
+
+export const StatementRowSchema = z.object({
+  line: z.number().int().nullable(), // source CSV line, null for rows read from statement text
+  date: z.iso.date(), // in the user's timezone
+  time: z
+    .string()
+    .regex(/^\d{2}:\d{2}:\d{2}$/)
+    .nullable(),
+  amount: z.number().positive(),
+  type: TransactionTypeSchema,
+  currency: CurrencyCodeSchema,
+  merchant: z.string().max(255).nullable(),
+  remarks: z.string().max(1000).nullable(),
+  accountNumber: z.string().max(64).nullable(),
+  bankName: z.string().max(255).nullable(),
+  confidence: z.number().min(0).max(1).nullable(),
+});
+
+// Recorded transaction an imported row was matched to
+export const ImportDuplicateSchema = TransactionSchema.pick({
+  id: true,
+  amount: true,
+  type: true,
+  currency: true,
+  merchant: true,
+  accountNumber: true,
+  transactionDate: true,
+  emailId: true,
+});
+
+export const TransactionImportPreviewResponseSchema = z.object({
+  rows: z.array(StatementRowSchema.extend({ duplicateOf: ImportDuplicateSchema.nullable() })),
+  duplicateCount: z.number(),
+  errors: z.array(z.object({ line: z.number().nullable(), message: z.string() })),
+});
+
+export const StatementImportSchema = z.object({
+  id: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  batchCount: z.number().openapi({
+    description: 'Batches of lines the AI reads, counted when the import starts',
+  }),
+  processedBatches: z.number(),
+  lastError: z.string().nullable(),
+  startedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const StatementImportResponseSchema = z.object({
+  statementImport: StatementImportSchema,
+});
+
+export const StatementImportPreviewResponseSchema = z.object({
+  statementImport: StatementImportSchema,
+  preview: TransactionImportPreviewResponseSchema.nullable(), // set once the import completes
+});
+
+export const TransactionImportCommitSchema = z.object({
+  rows: z.array(StatementRowSchema).min(1).max(2000), // same row limit as previews
+  skipDuplicates: z.boolean().default(true).openapi({
+    description: 'Skip rows matching a recorded transaction (checked again at commit time)',
+  }),
+});
+
+export const TransactionImportCommitResponseSchema = z.object({
+  importedCount: z.number(),
+  skippedDuplicates: z.number(),
+  transactions: z.array(TransactionSchema),
+});
+
+// Re-extraction from the stored email
+export const ReextractFieldSchema = z.enum([
+  'amount',
+  'type',
+  'currency',
+  'merchant',
+  'accountNumber',
+  'bankName',
+  'transactionDate',
+  'remarks',
+  'categoryId',
+]);
+
+export const ReextractTransactionSchema = z.object({
+  model: z.string().min(1).optional().openapi({
+    description:
+      "Model of the configured AI provider to use instead of the default one. Must be the default model or listed in the server's AI_ALLOWED_MODELS.",
+  }),
+});
+
+export const ApplyReextractionSchema = z.object({
+  fields: z.array(ReextractFieldSchema).min(1).optional().openapi({
+    description: 'Fields to update; every changed field when omitted',
+  }),
+});
+
+export const ReextractLowConfidenceSchema = ReextractTransactionSchema.extend({
+  dryRun: z.boolean().default(true).openapi({
+    description: 'Only return the differences, without changing the transactions',
+  }),
+  maxConfidence: z.number().min(0).max(1).default(0.7).openapi({
+    description: 'Re-extract transactions with an AI confidence below this value',
+  }),
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+export const ReextractFieldChangeSchema = z.object({
+  field: ReextractFieldSchema,
+  current: z.string().nullable(),
+  proposed: z.string().nullable(), // amounts with 2 decimals, dates as ISO 8601 instants
+});
+
+export const ReextractResultSchema = z.object({
+  id: z.string(), // re-extraction ID, to apply its changes
+  transaction: TransactionSchema, // after the change when applied
+  isTransaction: z.boolean(), // false when the AI no longer reads the email as a transaction
+  confidence: z.number().nullable(),
+  changes: z.array(ReextractFieldChangeSchema),
+  applied: z.boolean(),
+});
+
+// Background re-extraction of the least confident transactions and its progress
+export const ReextractJobSchema = z.object({
+  id: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  model: z.string().nullable(), // null for the default model
+  maxConfidence: z.number(),
+  limit: z.number(),
+  dryRun: z.boolean(),
+  transactionCount: z.number().openapi({
+    description: 'Transactions to re-extract, counted when the job starts',
+  }),
+  processedCount: z.number(),
+  changedCount: z.number().openapi({ description: 'Results with changed fields' }),
+  appliedCount: z.number(),
+  failedCount: z.number(),
+  lastError: z.string().nullable(),
+  startedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const ReextractJobResponseSchema = z.object({
+  job: ReextractJobSchema,
+});
+
+export const ReextractJobResultsResponseSchema = z.object({
+  job: ReextractJobSchema,
+  results: z.array(ReextractResultSchema), // in the order they were made
+});
+
+// Splits across categories (amounts in the transaction's currency, adding up to its amount)
+export const TransactionSplitInputSchema = z.object({
+  categoryId: z.string(),
+  amount: z.coerce.number().positive(),
+  note: z.string().max(255).nullable().optional(),
+});
+
+export const SetTransactionSplitsSchema = z.object({
+  splits: z.array(TransactionSplitInputSchema).min(2).max(20),
+});
+
+export const TransactionSplitSchema = z.object({
+  id: z.string(),
+  transactionId: z.string(),
+  categoryId: z.string().nullable(),
+  amount: z.string(),
+  note: z.string().nullable(),
+  category: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      icon: z.string().nullable(),
+    })
+    .nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type TransactionSplit = z.infer<typeof TransactionSplitSchema>;
+
+export const TransactionSplitsResponseSchema = z.object({
+  splits: z.array(TransactionSplitSchema),
+});
+
+// Edit history
+export const TransactionRevisionSchema = z.object({
+  id: z.string(),
+  transactionId: z.string(),
+  action: z.enum(['update', 'delete', 'restore']),
+  changes: z.record(z.string(), z.object({ from: z.unknown(), to: z.unknown() })).openapi({
+    description: 'Changed fields with their previous and new values; empty for delete and restore',
+    example: { categoryId: { from: 'food', to: 'shopping' } },
+  }),
+  createdAt: z.string().datetime(),
+});
+
+export type TransactionRevision = z.infer<typeof TransactionRevisionSchema>;
+
+export const TransactionHistoryResponseSchema = z.object({
+  revisions: z.array(TransactionRevisionSchema), // latest first
+});
+
 // Response schemas
 export const TransactionResponseSchema = z.object({
   transaction: TransactionWithCategorySchema,
 });
 
+// Why a transaction matched the `q` search
+export const TransactionSearchMatchSchema = z.object({
+  rank: z.number(),
+  headline: z.string(), // matching fragments with terms wrapped in <mark></mark>
+});
+
 export const TransactionsResponseSchema = z.object({
-  transactions: z.array(TransactionWithCategorySchema),
+  transactions: z.array(
+    TransactionWithCategorySchema.extend({
+      match: TransactionSearchMatchSchema.optional(), // only present when searching with `q`
+    })
+  ),
   total: z.number(),
   limit: z.number(),
   offset: z.number(),
@@ -131,6 +495,8 @@ export const TransactionSummarySchema = z.object({
   totalCredit: z.number(),
   transactionCount: z.number(),
   netAmount: z.number(),
+  currency: z.string(), // base currency all totals are converted to
+  unconvertedCount: z.number(), // transactions left out of totals because no exchange rate is known
 });
 
 export const TransactionSummaryResponseSchema = z.object({
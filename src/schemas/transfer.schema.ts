@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { TransactionSchema } from './transaction.schema';
+
+/**
+ * Transfer schemas
+ * Transfers between a user's own accounts (a debit and a credit linked to each other)
+ */
+
+export const TransferSchema = z.object({
+  debit: TransactionSchema.openapi({ description: 'Money leaving one account' }),
+  credit: TransactionSchema.openapi({ description: 'The same money arriving in another account' }),
+});
+
+export type Transfer = z.infer<typeof TransferSchema>;
+
+export const TransfersQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(500).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export const DetectTransfersSchema = z.object({
+  startDate: z.string().datetime().optional().openapi({ description: 'Defaults to 90 days ago' }),
+  endDate: z.string().datetime().optional().openapi({ description: 'Defaults to now' }),
+  windowHours: z.number().int().min(1).max(336).default(48).openapi({
+    description: 'Most hours between the debit and the credit of a transfer',
+  }),
+  dryRun: z.boolean().default(false).openapi({
+    description: 'Only report the transfers found, without linking them',
+  }),
+});
+
+export const LinkTransferSchema = z.object({
+  debitTransactionId: z.string(),
+  creditTransactionId: z.string(),
+});
+
+// Response schemas
+export const TransfersResponseSchema = z.object({
+  transfers: z.array(TransferSchema),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const TransferResponseSchema = z.object({
+  transfer: TransferSchema,
+});
+
+export const DetectTransfersResponseSchema = z.object({
+  transfers: z.array(TransferSchema),
+  linked: z.boolean(),
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from './common.schema';
 
 /**
  * User schemas
@@ -8,6 +9,8 @@ import { z } from 'zod';
 export const UserSchema = z.object({
   id: z.string(),
   email: z.string().email(),
+  baseCurrency: z.string(),
+  reviewThreshold: z.string(), // AI extractions less confident than this wait for review
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -22,6 +25,17 @@ export type CreateUserInput = z.infer<typeof CreateUserSchema>;
 
 export const UpdateUserSchema = z.object({
   email: z.string().email().optional(),
+  baseCurrency: CurrencyCodeSchema.optional(), // currency summaries and insights are reported in
+  reviewThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .transform((value) => value.toFixed(2))
+    .optional()
+    .openapi({
+      description:
+        'AI extractions with a lower confidence are held in the review queue instead of counting in summaries and insights; 0 disables the queue',
+    }),
 });
 
 export type UpdateUserInput = z.infer<typeof UpdateUserSchema>;
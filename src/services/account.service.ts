@@ -0,0 +1,160 @@
+import type { Account } from '@/db/schema';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import type { AccountRepository } from '@/repositories/account.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+
+export type AccountType = 'savings' | 'current' | 'credit_card' | 'wallet';
+
+export interface AccountInput {
+  bankName: string;
+  accountNumber?: string | null; // masked number; only the last 4 digits are used for matching
+  type: AccountType;
+  nickname?: string | null;
+  currency?: string; // defaults to the user's base currency
+  openingBalance?: number;
+}
+
+export interface AccountLinkResult {
+  linked: number; // transactions linked to an account
+}
+
+/**
+ * AccountService - the user's bank accounts, cards and wallets.
+ *
+ * Transactions carry the bank name and last 4 digits the AI or a bank template extracted; they
+ * are linked to the account with the same bank and last 4 digits. Accounts without a number
+ * (e.g. wallets) match on the bank name alone.
+ */
+export interface AccountService {
+  /**
+   * Create an account
+   */
+  create(userId: string, input: AccountInput): Promise<Account>;
+
+  /**
+   * Update an account. Throws 'Account not found'.
+   */
+  update(userId: string, id: string, input: Partial<AccountInput>): Promise<Account>;
+
+  /**
+   * Find the account of an incoming transaction. Returns null unless exactly one account matches.
+   */
+  findForTransaction(
+    userId: string,
+    bankName: string | null,
+    accountLastFour: string | null
+  ): Promise<Account | null>;
+
+  /**
+   * Record the available balance stated in a bank alert, unless a later one is already recorded
+   */
+  recordReportedBalance(accountId: string, balance: number, at: Date): Promise<void>;
+
+  /**
+   * Link the user's transactions without an account (e.g. saved before the account was added or
+   * imported) to their accounts
+   */
+  linkTransactions(userId: string): Promise<AccountLinkResult>;
+}
+
+/** Lowercase letters and digits of a bank name, so "NIC ASIA Bank Ltd." compares to "nic asia" */
+const normalizeBankName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const lastFourDigits = (value: string) => value.replace(/\D/g, '').slice(-4);
+
+/**
+ * Whether a transaction with the bank name and last 4 digits belongs to the account.
+ * The bank names match when one contains the other ("NIC Asia" and "NIC Asia Bank"); the digits
+ * must be equal unless the account has no number.
+ */
+export function isAccountMatch(
+  account: Pick<Account, 'bankName' | 'accountNumber'>,
+  bankName: string | null,
+  accountLastFour: string | null
+): boolean {
+  if (!bankName) return false;
+  const accountBank = normalizeBankName(account.bankName);
+  const txnBank = normalizeBankName(bankName);
+  if (!accountBank || !txnBank) return false;
+  if (!accountBank.includes(txnBank) && !txnBank.includes(accountBank)) return false;
+
+  const accountDigits = account.accountNumber ? lastFourDigits(account.accountNumber) : '';
+  if (!accountDigits) return true;
+  return accountLastFour !== null && lastFourDigits(accountLastFour) === accountDigits;
+}
+
+export class AccountServiceImpl implements AccountService {
+  constructor(
+    private readonly accountRepo: AccountRepository,
+    private readonly userRepo: UserRepository
+  ) {}
+
+  async create(userId: string, input: AccountInput): Promise<Account> {
+    let currency = input.currency;
+    if (!currency) {
+      const user = await this.userRepo.findById(userId);
+      currency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+    }
+
+    return this.accountRepo.create({
+      id: crypto.randomUUID(),
+      userId,
+      bankName: input.bankName.trim(),
+      accountNumber: input.accountNumber ?? null,
+      type: input.type,
+      nickname: input.nickname ?? null,
+      currency,
+      openingBalance: input.openingBalance?.toFixed(2),
+    });
+  }
+
+  async update(userId: string, id: string, input: Partial<AccountInput>): Promise<Account> {
+    const account = await this.accountRepo.update(id, userId, {
+      bankName: input.bankName?.trim(),
+      accountNumber: input.accountNumber,
+      type: input.type,
+      nickname: input.nickname,
+      currency: input.currency,
+      openingBalance: input.openingBalance?.toFixed(2),
+    });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    return account;
+  }
+
+  async findForTransaction(
+    userId: string,
+    bankName: string | null,
+    accountLastFour: string | null
+  ): Promise<Account | null> {
+    if (!bankName) return null;
+    const accounts = await this.accountRepo.findAllForUser(userId);
+    const matches = accounts.filter((account) =>
+      isAccountMatch(account, bankName, accountLastFour)
+    );
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  async recordReportedBalance(accountId: string, balance: number, at: Date): Promise<void> {
+    await this.accountRepo.updateReportedBalance(accountId, balance, at);
+  }
+
+  async linkTransactions(userId: string): Promise<AccountLinkResult> {
+    const [accounts, keys] = await Promise.all([
+      this.accountRepo.findAllForUser(userId),
+      this.accountRepo.findUnlinkedAccountKeys(userId),
+    ]);
+
+    let linked = 0;
+    for (const key of keys) {
+      const matches = accounts.filter((account) =>
+        isAccountMatch(account, key.bankName, key.accountNumber)
+      );
+      if (matches.length !== 1) continue;
+      linked += await this.accountRepo.linkTransactions(userId, matches[0].id, key);
+    }
+
+    return { linked };
+  }
+}
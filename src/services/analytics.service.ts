@@ -0,0 +1,350 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { filterDateToUtc, localPeriodRange, localToUtc } from '@/lib/timezone';
+import type {
+  AccountTotal,
+  AnalyticsInterval,
+  AnalyticsRange,
+  AnalyticsRepository,
+  CategoryTotal,
+  MerchantTotal,
+  TimeSeriesBucket,
+} from '@/repositories/analytics.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+
+/** Most buckets a time series may have, e.g. a year of days */
+export const MAX_TIME_SERIES_BUCKETS = 366;
+
+export interface AnalyticsQuery {
+  startDate?: string; // local datetime in the timezone, or with an offset
+  endDate?: string; // exclusive
+  timezone?: string; // overrides the user's timezone
+  compare?: boolean; // also compute the previous period
+}
+
+export interface AnalyticsBreakdownQuery extends AnalyticsQuery {
+  type?: 'debit' | 'credit'; // default debit (spending)
+  limit?: number; // most items returned, largest first
+}
+
+/** Totals of a group compared with the same group in the previous period */
+export interface AnalyticsComparison {
+  share: number; // percentage of the period total
+  previousTotal: number | null; // null without comparison
+  change: number | null; // percentage change from previousTotal; null without comparison or from 0
+}
+
+export interface AnalyticsBreakdown<T> {
+  currency: string; // user's base currency
+  timezone: string;
+  range: AnalyticsRange;
+  previousRange: AnalyticsRange | null;
+  total: number;
+  previousTotal: number | null;
+  unconvertedCount: number; // transactions left out for lack of an exchange rate
+  items: (T & AnalyticsComparison)[];
+}
+
+export interface AnalyticsTimeSeries {
+  currency: string;
+  timezone: string;
+  interval: AnalyticsInterval;
+  range: AnalyticsRange;
+  previousRange: AnalyticsRange | null;
+  unconvertedCount: number;
+  buckets: TimeSeriesBucket[]; // every bucket of the range, empty ones included
+  previousBuckets: TimeSeriesBucket[] | null;
+}
+
+/**
+ * AnalyticsService - spending and income breakdowns for charts, in the user's timezone and base
+ * currency. Transfers between the user's own accounts and unconfirmed transactions are left out.
+ *
+ * Without dates the range is the current calendar month. With `compare`, totals are also computed
+ * for the previous period: the previous calendar months when the range is whole months, otherwise
+ * the equally long span right before it.
+ *
+ * Throws 'startDate must be before endDate' and, for time series,
+ * 'Too many buckets, use a longer interval'.
+ */
+export interface AnalyticsService {
+  byCategory(
+    userId: string,
+    query: AnalyticsBreakdownQuery
+  ): Promise<AnalyticsBreakdown<CategoryTotal>>;
+
+  byMerchant(
+    userId: string,
+    query: AnalyticsBreakdownQuery
+  ): Promise<AnalyticsBreakdown<MerchantTotal>>;
+
+  byAccount(
+    userId: string,
+    query: AnalyticsBreakdownQuery
+  ): Promise<AnalyticsBreakdown<AccountTotal>>;
+
+  timeSeries(
+    userId: string,
+    query: AnalyticsQuery & { interval: AnalyticsInterval }
+  ): Promise<AnalyticsTimeSeries>;
+}
+
+interface ResolvedQuery {
+  timezone: string;
+  baseCurrency: string;
+  range: AnalyticsRange;
+  previousRange: AnalyticsRange | null;
+}
+
+type GroupsResult<T> = { groups: T[]; unconvertedCount: number };
+
+const roundPercent = (value: number) => Math.round(value * 10) / 10;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/** Local calendar date of an instant, as a UTC midnight for date arithmetic */
+function localDate(at: Date, timezone: string): Date {
+  const [year, month, day] = formatInTimeZone(at, timezone, 'yyyy-MM-dd').split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Number of whole calendar months the range spans in the timezone, or null when it does not
+ * start and end at local month starts
+ */
+function wholeMonths(range: AnalyticsRange, timezone: string): number | null {
+  const monthStart = (at: Date) =>
+    formatInTimeZone(at, timezone, 'dd HH:mm:ss.SSS') === '01 00:00:00.000';
+  if (!monthStart(range.startDate) || !monthStart(range.endDate)) return null;
+
+  const start = localDate(range.startDate, timezone);
+  const end = localDate(range.endDate, timezone);
+  return (
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+  );
+}
+
+/**
+ * The period to compare a range with: the previous calendar months for whole months (so March
+ * compares with February), otherwise the equally long span right before the range
+ */
+export function previousAnalyticsRange(range: AnalyticsRange, timezone: string): AnalyticsRange {
+  const months = wholeMonths(range, timezone);
+  if (months) {
+    const start = localDate(range.startDate, timezone);
+    const previousStart = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - months, 1)
+    );
+    return {
+      startDate: localToUtc(previousStart.toISOString().slice(0, 10), null, timezone),
+      endDate: range.startDate,
+    };
+  }
+
+  const length = range.endDate.getTime() - range.startDate.getTime();
+  return { startDate: new Date(range.startDate.getTime() - length), endDate: range.startDate };
+}
+
+/**
+ * Local start dates (YYYY-MM-DD) of the buckets covering the range, oldest first.
+ * Weeks start on Monday. Returns null when there would be more than MAX_TIME_SERIES_BUCKETS.
+ */
+export function bucketStarts(
+  range: AnalyticsRange,
+  interval: AnalyticsInterval,
+  timezone: string
+): string[] | null {
+  const cursor = localDate(range.startDate, timezone);
+  if (interval === 'week') {
+    cursor.setUTCDate(cursor.getUTCDate() - ((cursor.getUTCDay() + 6) % 7));
+  } else if (interval === 'month') {
+    cursor.setUTCDate(1);
+  }
+  const last = localDate(new Date(range.endDate.getTime() - 1), timezone);
+
+  const starts: string[] = [];
+  while (cursor <= last) {
+    if (starts.length === MAX_TIME_SERIES_BUCKETS) return null;
+    starts.push(cursor.toISOString().slice(0, 10));
+    if (interval === 'day') cursor.setUTCDate(cursor.getUTCDate() + 1);
+    else if (interval === 'week') cursor.setUTCDate(cursor.getUTCDate() + 7);
+    else cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return starts;
+}
+
+/** Every bucket of the range, with zero totals where nothing happened */
+function fillBuckets(starts: string[], buckets: TimeSeriesBucket[]): TimeSeriesBucket[] {
+  const byStart = new Map(buckets.map((bucket) => [bucket.bucket, bucket]));
+  return starts.map(
+    (start) => byStart.get(start) ?? { bucket: start, debit: 0, credit: 0, count: 0 }
+  );
+}
+
+export class AnalyticsServiceImpl implements AnalyticsService {
+  constructor(
+    private readonly analyticsRepo: AnalyticsRepository,
+    private readonly userRepo: UserRepository
+  ) {}
+
+  async byCategory(
+    userId: string,
+    query: AnalyticsBreakdownQuery
+  ): Promise<AnalyticsBreakdown<CategoryTotal>> {
+    return this.breakdown(
+      userId,
+      query,
+      (range, options) => this.analyticsRepo.totalsByCategory(userId, range, options),
+      (group) => group.categoryId ?? ''
+    );
+  }
+
+  async byMerchant(
+    userId: string,
+    query: AnalyticsBreakdownQuery
+  ): Promise<AnalyticsBreakdown<MerchantTotal>> {
+    return this.breakdown(
+      userId,
+      query,
+      (range, options) => this.analyticsRepo.totalsByMerchant(userId, range, options),
+      (group) => group.merchantId ?? (group.merchant ?? '').trim().toLowerCase()
+    );
+  }
+
+  async byAccount(
+    userId: string,
+    query: AnalyticsBreakdownQuery
+  ): Promise<AnalyticsBreakdown<AccountTotal>> {
+    return this.breakdown(
+      userId,
+      query,
+      (range, options) => this.analyticsRepo.totalsByAccount(userId, range, options),
+      (group) => `${group.bankName ?? ''}|${group.accountNumber ?? ''}`
+    );
+  }
+
+  async timeSeries(
+    userId: string,
+    query: AnalyticsQuery & { interval: AnalyticsInterval }
+  ): Promise<AnalyticsTimeSeries> {
+    const { timezone, baseCurrency, range, previousRange } = await this.resolve(userId, query);
+    const starts = bucketStarts(range, query.interval, timezone);
+    const previousStarts = previousRange
+      ? bucketStarts(previousRange, query.interval, timezone)
+      : null;
+    if (!starts || (previousRange && !previousStarts)) {
+      throw new Error('Too many buckets, use a longer interval');
+    }
+
+    const [current, previous] = await Promise.all([
+      this.analyticsRepo.timeSeries(userId, range, query.interval, timezone, baseCurrency),
+      previousRange
+        ? this.analyticsRepo.timeSeries(
+            userId,
+            previousRange,
+            query.interval,
+            timezone,
+            baseCurrency
+          )
+        : null,
+    ]);
+
+    return {
+      currency: baseCurrency,
+      timezone,
+      interval: query.interval,
+      range,
+      previousRange,
+      unconvertedCount: current.unconvertedCount,
+      buckets: fillBuckets(starts, current.buckets),
+      previousBuckets:
+        previous && previousStarts ? fillBuckets(previousStarts, previous.buckets) : null,
+    };
+  }
+
+  /**
+   * Totals per group for the range, with each group's share and, when comparing, its total in
+   * the previous period. Groups only present in the previous period are not listed.
+   */
+  private async breakdown<T extends { total: number }>(
+    userId: string,
+    query: AnalyticsBreakdownQuery,
+    fetch: (
+      range: AnalyticsRange,
+      options: { type: 'debit' | 'credit'; baseCurrency: string }
+    ) => Promise<GroupsResult<T>>,
+    key: (group: T) => string
+  ): Promise<AnalyticsBreakdown<T>> {
+    const { timezone, baseCurrency, range, previousRange } = await this.resolve(userId, query);
+    const options = { type: query.type ?? 'debit', baseCurrency };
+
+    const [current, previous] = await Promise.all([
+      fetch(range, options),
+      previousRange ? fetch(previousRange, options) : null,
+    ]);
+
+    const total = roundAmount(current.groups.reduce((sum, group) => sum + group.total, 0));
+    const previousTotals = new Map<string, number>();
+    for (const group of previous?.groups ?? []) {
+      const groupKey = key(group);
+      previousTotals.set(groupKey, (previousTotals.get(groupKey) ?? 0) + group.total);
+    }
+
+    const groups = query.limit ? current.groups.slice(0, query.limit) : current.groups;
+    return {
+      currency: baseCurrency,
+      timezone,
+      range,
+      previousRange,
+      total,
+      previousTotal: previous
+        ? roundAmount(previous.groups.reduce((sum, group) => sum + group.total, 0))
+        : null,
+      unconvertedCount: current.unconvertedCount,
+      items: groups.map((group) => {
+        const previousTotal = previous ? roundAmount(previousTotals.get(key(group)) ?? 0) : null;
+        return {
+          ...group,
+          share: total > 0 ? roundPercent((group.total / total) * 100) : 0,
+          previousTotal,
+          change: previousTotal
+            ? roundPercent(((group.total - previousTotal) / previousTotal) * 100)
+            : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Timezone, base currency and date range of a query. Without dates the range is the current
+   * month; with only an end it starts at the start of that month; with only a start it ends now.
+   */
+  private async resolve(userId: string, query: AnalyticsQuery): Promise<ResolvedQuery> {
+    const user = await this.userRepo.findById(userId);
+    const timezone = query.timezone ?? user?.timezone ?? 'Asia/Kathmandu';
+    const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+    let startDate = query.startDate ? filterDateToUtc(query.startDate, timezone) : undefined;
+    let endDate = query.endDate ? filterDateToUtc(query.endDate, timezone) : undefined;
+    if (!startDate && !endDate) {
+      const month = localPeriodRange('monthly', new Date(), timezone);
+      startDate = month.start;
+      endDate = month.end;
+    } else if (!startDate && endDate) {
+      startDate = localPeriodRange('monthly', new Date(endDate.getTime() - 1), timezone).start;
+    } else if (!endDate) {
+      endDate = new Date();
+    }
+    if (!startDate || !endDate || startDate >= endDate) {
+      throw new Error('startDate must be before endDate');
+    }
+
+    const range = { startDate, endDate };
+    return {
+      timezone,
+      baseCurrency,
+      range,
+      previousRange: query.compare ? previousAnalyticsRange(range, timezone) : null,
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Budget, Transaction } from '@/db/schema';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { type CalendarPeriod, localPeriodRange } from '@/lib/timezone';
+import type { BudgetRepository } from '@/repositories/budget.repository';
+import type { CategoryRepository } from '@/repositories/category.repository';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+import type { DiscordService } from './discord.service';
+
+export type BudgetPeriod = CalendarPeriod;
+
+/** Percentages of a budget's limit that send an alert when spending crosses them */
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+export interface BudgetProgress {
+  budget: Budget;
+  periodStart: Date;
+  periodEnd: Date; // exclusive
+  currency: string; // user's base currency
+  carryover: number; // left over from the previous period with rollover, otherwise 0
+  limit: number; // amount + carryover
+  spent: number;
+  remaining: number;
+  percentUsed: number | null; // null when the limit is not positive
+  unconvertedCount: number; // transactions left out for lack of an exchange rate
+}
+
+/**
+ * BudgetService - spending vs. limit per category budget, in the user's timezone and base currency.
+ */
+export interface BudgetService {
+  /**
+   * Get progress of each of the user's budgets for the period containing `at` (default now)
+   */
+  getProgress(userId: string, at?: Date): Promise<BudgetProgress[]>;
+
+  /**
+   * Send a Discord alert for each budget that a newly saved transaction pushed past 80% or 100%
+   * of its limit (only the highest threshold crossed). Transactions dated outside the current
+   * period (e.g. from a backfill) do not alert.
+   */
+  notifyThresholdsCrossed(transaction: Transaction): Promise<void>;
+}
+
+const roundPercent = (value: number) => Math.round(value * 10) / 10;
+
+export class BudgetServiceImpl implements BudgetService {
+  constructor(
+    private readonly budgetRepo: BudgetRepository,
+    private readonly transactionRepo: TransactionRepository,
+    private readonly userRepo: UserRepository,
+    private readonly categoryRepo: CategoryRepository,
+    private readonly discordService: DiscordService
+  ) {}
+
+  async getProgress(userId: string, at: Date = new Date()): Promise<BudgetProgress[]> {
+    const user = await this.userRepo.findById(userId);
+    const timezone = user?.timezone ?? 'Asia/Kathmandu';
+    const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+    const budgets = await this.budgetRepo.findAllForUser(userId);
+    return Promise.all(
+      budgets.map((budget) => this.computeProgress(budget, at, timezone, baseCurrency))
+    );
+  }
+
+  async notifyThresholdsCrossed(transaction: Transaction): Promise<void> {
+    if (transaction.type !== 'debit' || !transaction.categoryId || transaction.transferPeerId) {
+      return;
+    }
+
+    const budgets = await this.budgetRepo.findForCategory(
+      transaction.userId,
+      transaction.categoryId
+    );
+    if (budgets.length === 0) return;
+
+    const user = await this.userRepo.findById(transaction.userId);
+    const timezone = user?.timezone ?? 'Asia/Kathmandu';
+    const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+    const transactionDate = transaction.transactionDate ?? transaction.createdAt;
+    const now = new Date();
+
+    for (const budget of budgets) {
+      const progress = await this.computeProgress(budget, now, timezone, baseCurrency);
+      if (
+        progress.limit <= 0 ||
+        transactionDate < progress.periodStart ||
+        transactionDate >= progress.periodEnd
+      ) {
+        continue;
+      }
+
+      const { spent: spentBefore } = await this.transactionRepo.getCategorySpent(
+        budget.userId,
+        budget.categoryId,
+        progress.periodStart,
+        progress.periodEnd,
+        baseCurrency,
+        transaction.id
+      );
+
+      const threshold = [...BUDGET_ALERT_THRESHOLDS]
+        .reverse()
+        .find(
+          (percent) =>
+            spentBefore < (progress.limit * percent) / 100 &&
+            progress.spent >= (progress.limit * percent) / 100
+        );
+      if (!threshold) continue;
+
+      const category = await this.categoryRepo.findById(budget.categoryId);
+      void this.discordService.notifyBudgetAlert({
+        threshold,
+        category: category ? `${category.icon ?? ''} ${category.name}`.trim() : 'Uncategorized',
+        period: this.periodLabel(budget.period as BudgetPeriod, progress.periodStart, timezone),
+        currency: progress.currency,
+        spent: progress.spent.toFixed(2),
+        limit: progress.limit.toFixed(2),
+        percentUsed: progress.percentUsed ?? 0,
+      });
+    }
+  }
+
+  /**
+   * Spending vs. limit for the budget's period containing `at`.
+   * With rollover, the previous period's remainder is carried over, but only once the budget
+   * existed before the current period started.
+   */
+  private async computeProgress(
+    budget: Budget,
+    at: Date,
+    timezone: string,
+    baseCurrency: string
+  ): Promise<BudgetProgress> {
+    const period = budget.period as BudgetPeriod;
+    const amount = Number.parseFloat(budget.amount);
+    const { start, end } = localPeriodRange(period, at, timezone);
+
+    const { spent, unconvertedCount } = await this.transactionRepo.getCategorySpent(
+      budget.userId,
+      budget.categoryId,
+      start,
+      end,
+      baseCurrency
+    );
+
+    let carryover = 0;
+    if (budget.rollover && budget.createdAt < start) {
+      const previous = localPeriodRange(period, new Date(start.getTime() - 1), timezone);
+      const { spent: previousSpent } = await this.transactionRepo.getCategorySpent(
+        budget.userId,
+        budget.categoryId,
+        previous.start,
+        previous.end,
+        baseCurrency
+      );
+      carryover = Math.round((amount - previousSpent) * 100) / 100;
+    }
+
+    const limit = amount + carryover;
+    return {
+      budget,
+      periodStart: start,
+      periodEnd: end,
+      currency: baseCurrency,
+      carryover,
+      limit,
+      spent,
+      remaining: Math.round((limit - spent) * 100) / 100,
+      percentUsed: limit > 0 ? roundPercent((spent / limit) * 100) : null,
+      unconvertedCount,
+    };
+  }
+
+  private periodLabel(period: BudgetPeriod, start: Date, timezone: string): string {
+    if (period === 'weekly') return `Week of ${formatInTimeZone(start, timezone, 'yyyy-MM-dd')}`;
+    if (period === 'monthly') return formatInTimeZone(start, timezone, 'MMMM yyyy');
+    return formatInTimeZone(start, timezone, 'yyyy');
+  }
+}
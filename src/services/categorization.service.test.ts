@@ -0,0 +1,83 @@
+/**
+ * Tests for category rule validation and matching.
+ * Run with: bun test src/services/categorization.service.test.ts
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { CategoryRule } from '@/db/schema';
+import { findMatchingRule, isValidRulePattern } from './categorization.service';
+
+/** Patterns that backtrack exponentially in a backtracking engine */
+const SLOW_PATTERNS = ['\\d+\\d+\\d+\\d+x', '(a|a)*$', '(\\w|\\d)+$', '.*.*.*.*x', '(a+)+$'];
+
+const rule = (overrides: Partial<CategoryRule>): CategoryRule => ({
+  id: 'rule-1',
+  userId: 'user-1',
+  categoryId: 'category-1',
+  field: 'any',
+  matchType: 'regex',
+  pattern: 'daraz',
+  priority: 0,
+  isActive: true,
+  hitCount: 0,
+  lastMatchedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('isValidRulePattern', () => {
+  test('accepts non-empty contains and equals patterns', () => {
+    expect(isValidRulePattern('contains', 'Daraz')).toBe(true);
+    expect(isValidRulePattern('equals', '  ')).toBe(false);
+  });
+
+  test('accepts regex patterns that compile as RE2', () => {
+    expect(isValidRulePattern('regex', '^(daraz|foodmandu)')).toBe(true);
+    for (const pattern of SLOW_PATTERNS) {
+      expect(isValidRulePattern('regex', pattern)).toBe(true);
+    }
+  });
+
+  test('rejects invalid regex and syntax RE2 does not support', () => {
+    expect(isValidRulePattern('regex', '(unclosed')).toBe(false);
+    expect(isValidRulePattern('regex', '(a)\\1')).toBe(false);
+    expect(isValidRulePattern('regex', 'daraz(?=mall)')).toBe(false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  test('matches regex rules case-insensitively on either field', () => {
+    const rules = [rule({ pattern: '^qr payment .* foodmandu$' })];
+    expect(findMatchingRule(rules, { merchant: null, remarks: 'QR Payment 123 FOODMANDU' })).toBe(
+      rules[0]
+    );
+    expect(findMatchingRule(rules, { merchant: 'Foodmandu', remarks: null })).toBeNull();
+  });
+
+  test('follows the rule order and fields', () => {
+    const rules = [
+      rule({ id: 'remarks', field: 'remarks', matchType: 'contains', pattern: 'daraz' }),
+      rule({ id: 'merchant', field: 'merchant', matchType: 'equals', pattern: 'DARAZ ' }),
+    ];
+    expect(findMatchingRule(rules, { merchant: 'daraz', remarks: 'order' })?.id).toBe('merchant');
+    expect(findMatchingRule(rules, { merchant: 'daraz', remarks: 'Daraz order' })?.id).toBe(
+      'remarks'
+    );
+  });
+
+  test('matches patterns that backtrack exponentially elsewhere in linear time', () => {
+    const txn = { merchant: '1'.repeat(300), remarks: `${'a'.repeat(300)}!` };
+    const started = performance.now();
+    for (const pattern of SLOW_PATTERNS) {
+      findMatchingRule([rule({ pattern })], txn);
+    }
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+
+  test('skips rules whose pattern does not compile', () => {
+    expect(
+      findMatchingRule([rule({ pattern: '(a)\\1' })], { merchant: 'aa', remarks: null })
+    ).toBeNull();
+  });
+});
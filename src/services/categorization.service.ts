@@ -0,0 +1,205 @@
+import { RE2JS } from 're2js';
+import type { CategoryMemory, CategoryRule } from '@/db/schema';
+import { normalizeMerchant, normalizeRemarks } from '@/lib/normalize';
+import type { CategoryMemoryRepository } from '@/repositories/category-memory.repository';
+import type { CategoryRuleRepository } from '@/repositories/category-rule.repository';
+import type { CategoryExample } from './transaction-extractor.service';
+
+/** Number of learned memories sent to the AI as few-shot examples */
+const PROMPT_EXAMPLE_LIMIT = 20;
+
+/** Characters of a value tested against a regex rule */
+const REGEX_INPUT_LIMIT = 500;
+
+export type CategoryRuleField = 'merchant' | 'remarks' | 'any';
+export type CategoryRuleMatchType = 'contains' | 'equals' | 'regex';
+
+/**
+ * Transaction fields that rules can match against
+ */
+export interface CategorizableTransaction {
+  merchant: string | null;
+  remarks: string | null;
+}
+
+/**
+ * Category chosen deterministically, by a rule or a learned memory
+ */
+export interface Categorization {
+  categoryId: string;
+  ruleId: string | null;
+  memoryId: string | null;
+}
+
+export interface CategorizationService {
+  /**
+   * Categorize a transaction without the AI: the first matching active rule wins,
+   * then a memory learned from a previous correction. Records the hit unless `dryRun` is set.
+   * Returns null when nothing matches, leaving the category choice to the AI.
+   */
+  categorize(
+    userId: string,
+    txn: CategorizableTransaction,
+    options?: { dryRun?: boolean }
+  ): Promise<Categorization | null>;
+
+  /**
+   * Remember the category a user chose for a transaction.
+   * Returns null when the transaction has neither merchant nor remarks to learn from.
+   */
+  learnFromCorrection(
+    userId: string,
+    txn: CategorizableTransaction,
+    categoryId: string
+  ): Promise<CategoryMemory | null>;
+
+  /**
+   * Most recent learned memories, formatted as few-shot examples for the extractor
+   */
+  getPromptExamples(userId: string): Promise<CategoryExample[]>;
+}
+
+/**
+ * Compile a regex rule pattern with RE2, which matches in linear time, so no pattern can stall
+ * rule matching. Returns null when the pattern is not valid RE2 syntax (e.g. backreferences).
+ */
+function compileRulePattern(pattern: string): RE2JS | null {
+  try {
+    return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a pattern is valid for the given match type (regex patterns must compile as RE2)
+ */
+export function isValidRulePattern(matchType: CategoryRuleMatchType, pattern: string): boolean {
+  if (matchType !== 'regex') return pattern.trim().length > 0;
+  return compileRulePattern(pattern) !== null;
+}
+
+/**
+ * Check a single value against a rule. All match types are case-insensitive.
+ */
+function matchesValue(rule: CategoryRule, value: string | null): boolean {
+  if (!value) return false;
+
+  switch (rule.matchType as CategoryRuleMatchType) {
+    case 'contains':
+      return value.toLowerCase().includes(rule.pattern.toLowerCase());
+    case 'equals':
+      return value.trim().toLowerCase() === rule.pattern.trim().toLowerCase();
+    case 'regex':
+      return compileRulePattern(rule.pattern)?.test(value.slice(0, REGEX_INPUT_LIMIT)) ?? false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Find the first rule matching a transaction.
+ * Rules must already be in evaluation order (see CategoryRuleRepository.findActiveForUser).
+ */
+export function findMatchingRule(
+  rules: CategoryRule[],
+  txn: CategorizableTransaction
+): CategoryRule | null {
+  for (const rule of rules) {
+    const field = rule.field as CategoryRuleField;
+    const values =
+      field === 'merchant'
+        ? [txn.merchant]
+        : field === 'remarks'
+          ? [txn.remarks]
+          : [txn.merchant, txn.remarks];
+
+    if (values.some((value) => matchesValue(rule, value))) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+export class CategorizationServiceImpl implements CategorizationService {
+  constructor(
+    private readonly categoryRuleRepo: CategoryRuleRepository,
+    private readonly categoryMemoryRepo: CategoryMemoryRepository
+  ) {}
+
+  async categorize(
+    userId: string,
+    txn: CategorizableTransaction,
+    options: { dryRun?: boolean } = {}
+  ): Promise<Categorization | null> {
+    const rules = await this.categoryRuleRepo.findActiveForUser(userId);
+    const rule = findMatchingRule(rules, txn);
+    if (rule) {
+      if (!options.dryRun) await this.categoryRuleRepo.recordHit(rule.id);
+      return { categoryId: rule.categoryId, ruleId: rule.id, memoryId: null };
+    }
+
+    const memory = await this.findMemory(userId, txn);
+    if (memory) {
+      if (!options.dryRun) await this.categoryMemoryRepo.recordApplied(memory.id);
+      return { categoryId: memory.categoryId, ruleId: null, memoryId: memory.id };
+    }
+
+    return null;
+  }
+
+  async learnFromCorrection(
+    userId: string,
+    txn: CategorizableTransaction,
+    categoryId: string
+  ): Promise<CategoryMemory | null> {
+    // Key on the merchant when there is one; remarks are noisier (references, dates)
+    const merchantKey = normalizeMerchant(txn.merchant);
+    const remarksKey = normalizeRemarks(txn.remarks);
+    const matchField = merchantKey ? 'merchant' : 'remarks';
+    const matchKey = merchantKey ?? remarksKey;
+    if (!matchKey) return null;
+
+    return this.categoryMemoryRepo.upsert({
+      id: crypto.randomUUID(),
+      userId,
+      categoryId,
+      matchField,
+      matchKey,
+      merchant: txn.merchant,
+      remarks: txn.remarks,
+    });
+  }
+
+  async getPromptExamples(userId: string): Promise<CategoryExample[]> {
+    const memories = await this.categoryMemoryRepo.findAllForUser(userId, PROMPT_EXAMPLE_LIMIT);
+    return memories
+      .filter((m) => m.category)
+      .map((m) => ({
+        merchant: m.merchant,
+        remarks: m.remarks,
+        categoryName: m.category?.name ?? 'Uncategorized',
+      }));
+  }
+
+  /**
+   * Find the memory for a transaction: by merchant first, then by remarks
+   */
+  private async findMemory(
+    userId: string,
+    txn: CategorizableTransaction
+  ): Promise<CategoryMemory | null> {
+    const merchantKey = normalizeMerchant(txn.merchant);
+    if (merchantKey) {
+      const memory = await this.categoryMemoryRepo.findByKey(userId, 'merchant', merchantKey);
+      if (memory) return memory;
+    }
+
+    const remarksKey = normalizeRemarks(txn.remarks);
+    if (remarksKey) {
+      return this.categoryMemoryRepo.findByKey(userId, 'remarks', remarksKey);
+    }
+
+    return null;
+  }
+}
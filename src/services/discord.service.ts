@@ -1,5 +1,6 @@
 /**
- * DiscordService - posts to a Discord webhook for new transactions and extractor failures.
+ * DiscordService - posts to a Discord webhook for new transactions, extractor failures, recurring
+ * and budget alerts.
  * No-op when webhook URL is unset or empty. Catches fetch errors so a bad webhook does not break the app.
  */
 
@@ -15,11 +16,34 @@ export interface NewTransactionPayload {
   source: NewTransactionSource;
   category?: string | null;
   transactionDate?: string | null;
+  pendingReview?: boolean; // saved with a low AI confidence, waiting for the user's review
+}
+
+export interface RecurringAlertPayload {
+  kind: 'missed' | 'amount_changed';
+  merchant: string;
+  cadence: string;
+  currency: string;
+  expectedAmount: string;
+  date: string; // YYYY-MM-DD: the expected date (missed) or the date of the new charge
+  newAmount?: string; // only for amount_changed
+}
+
+export interface BudgetAlertPayload {
+  threshold: number; // percent of the limit that was crossed, e.g. 80 or 100
+  category: string;
+  period: string;
+  currency: string;
+  spent: string;
+  limit: string;
+  percentUsed: number;
 }
 
 export interface DiscordService {
   notifyNewTransaction(payload: NewTransactionPayload): Promise<void>;
   notifyExtractorFailed(context: 'email' | 'sms', error: unknown): Promise<void>;
+  notifyRecurringAlert(payload: RecurringAlertPayload): Promise<void>;
+  notifyBudgetAlert(payload: BudgetAlertPayload): Promise<void>;
 }
 
 function getWebhookUrl(override?: string): string {
@@ -49,10 +73,12 @@ export class DiscordServiceImpl implements DiscordService {
     const category = payload.category ?? '—';
     const merchant = payload.merchant ?? '—';
     const date = payload.transactionDate ?? new Date().toISOString();
-    const link = `${FRONTEND_BASE}/transactions/${payload.id}`;
+    const link = payload.pendingReview
+      ? `${FRONTEND_BASE}/review`
+      : `${FRONTEND_BASE}/transactions/${payload.id}`;
 
     const content = [
-      `## ${typeEmoji} New transaction`,
+      `## ${typeEmoji} New transaction${payload.pendingReview ? ' (needs review)' : ''}`,
       ``,
       `**${typeEmoji} Amount:** ${payload.amount} (${payload.type})`,
       `**🏪 Merchant:** ${merchant}`,
@@ -83,6 +109,53 @@ export class DiscordServiceImpl implements DiscordService {
     await this.post({ content });
   }
 
+  async notifyRecurringAlert(payload: RecurringAlertPayload): Promise<void> {
+    if (!this.webhookUrl) return;
+
+    const expected = `${payload.currency} ${payload.expectedAmount}`;
+    const details =
+      payload.kind === 'missed'
+        ? [
+            `## ⏰ Expected ${payload.cadence} charge is missing`,
+            ``,
+            `**🏪 Merchant:** ${payload.merchant}`,
+            `**💸 Expected:** ${expected}`,
+            `**📅 Expected on:** ${payload.date}`,
+          ]
+        : [
+            `## 📈 Recurring amount changed`,
+            ``,
+            `**🏪 Merchant:** ${payload.merchant}`,
+            `**💸 Usual:** ${expected}`,
+            `**🆕 Now:** ${payload.currency} ${payload.newAmount}`,
+            `**📅 Date:** ${payload.date}`,
+          ];
+
+    const content = [...details, ``, `🔗 [View in AutoFin](${FRONTEND_BASE}/recurring)`].join('\n');
+
+    await this.post({ content });
+  }
+
+  async notifyBudgetAlert(payload: BudgetAlertPayload): Promise<void> {
+    if (!this.webhookUrl) return;
+
+    const heading =
+      payload.threshold >= 100
+        ? `## 🚨 ${payload.category} budget exceeded`
+        : `## ⚠️ ${payload.category} budget at ${payload.threshold}%`;
+
+    const content = [
+      heading,
+      ``,
+      `**💸 Spent:** ${payload.currency} ${payload.spent} of ${payload.limit} (${payload.percentUsed}%)`,
+      `**📅 Period:** ${payload.period}`,
+      ``,
+      `🔗 [View in AutoFin](${FRONTEND_BASE}/budgets)`,
+    ].join('\n');
+
+    await this.post({ content });
+  }
+
   private async post(body: { content?: string; embeds?: unknown[] }): Promise<void> {
     try {
       const res = await fetch(this.webhookUrl, {
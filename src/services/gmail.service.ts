@@ -1,12 +1,17 @@
 import type { Database } from '@/db/connection';
-import { localToUtc } from '@/lib/timezone';
+import type { GmailOAuthToken, NewEmailIngestion } from '@/db/schema';
 import type { CategoryRepository } from '@/repositories/category.repository';
+import type { EmailIngestionRepository } from '@/repositories/email-ingestion.repository';
 import type { GmailOAuthRepository } from '@/repositories/gmail-oauth.repository';
 import type { TransactionRepository } from '@/repositories/transaction.repository';
-import type { UserRepository } from '@/repositories/user.repository';
 import { BaseService } from './base.service';
-import type { DiscordService } from './discord.service';
-import type { TransactionExtractorService } from './transaction-extractor.service';
+import type { CategorizationService } from './categorization.service';
+import type {
+  CategoryExample,
+  CategoryInfo,
+  TransactionExtractorService,
+} from './transaction-extractor.service';
+import type { TransactionIngestService } from './transaction-ingest.service';
 
 /**
  * Gmail API types
@@ -97,11 +102,50 @@ export interface GmailWatchResponse {
 export interface ProcessNotificationResult {
   success: boolean;
   historyId: string;
-  processedCount: number;
-  failedCount: number;
+  messageIds: string[]; // new monitored messages, to be ingested by the caller
   errors: Array<{ messageId: string; error: string }>;
 }
 
+/**
+ * Connected Gmail account (a `gmail_oauth_tokens` row) that messages are processed for
+ */
+export type GmailAccount = Pick<GmailOAuthToken, 'id' | 'userId' | 'emailAddress'>;
+
+/**
+ * Categories and learned examples sent to the AI, fetched once per batch of messages
+ */
+export interface MessageExtractionContext {
+  categories: CategoryInfo[];
+  examples: CategoryExample[];
+}
+
+/**
+ * What happened to a message run through the extract-and-save pipeline
+ */
+export type ProcessMessageOutcome = 'saved' | 'duplicate' | 'not_transaction';
+
+/**
+ * Why a message was run through the pipeline: a push notification, a backfill, or a user's
+ * reprocess request
+ */
+export type EmailIngestionTrigger = 'notification' | 'backfill' | 'reprocess';
+
+/** Details of a pipeline run gathered for the `email_ingestions` audit log */
+type EmailIngestionAudit = Pick<
+  NewEmailIngestion,
+  | 'sender'
+  | 'subject'
+  | 'receivedAt'
+  | 'labelMatched'
+  | 'duplicate'
+  | 'isTransaction'
+  | 'confidence'
+  | 'extractedBy'
+  | 'transactionId'
+  | 'fetchMs'
+  | 'extractionMs'
+>;
+
 /**
  * GmailService - Service for interacting with Gmail API
  *
@@ -111,6 +155,10 @@ export interface ProcessNotificationResult {
  * - Get history changes
  * - Manage watch subscriptions
  * - Handle OAuth token management
+ *
+ * A user can connect several Gmail accounts. Gmail API methods take the account ID
+ * (the `gmail_oauth_tokens` row ID) so each request uses that mailbox's token;
+ * use resolveAccount() to pick the account for a user's request.
  */
 export class GmailService extends BaseService {
   private readonly gmailApiBaseUrl = 'https://gmail.googleapis.com/gmail/v1';
@@ -121,22 +169,49 @@ export class GmailService extends BaseService {
     private readonly gmailOAuthRepo: GmailOAuthRepository,
     private readonly transactionRepo: TransactionRepository,
     private readonly categoryRepo: CategoryRepository,
-    private readonly userRepo: UserRepository,
     private readonly transactionExtractor: TransactionExtractorService,
-    private readonly discordService: DiscordService
+    private readonly categorizationService: CategorizationService,
+    private readonly transactionIngest: TransactionIngestService,
+    private readonly emailIngestionRepo: EmailIngestionRepository
   ) {
     super(db);
   }
 
   /**
-   * Get OAuth2 access token for a user
+   * Pick the Gmail account a user's request is for: `accountId` when given, otherwise the
+   * user's only account. Throws a "No Gmail OAuth token found" error when there is no such
+   * account, or when several are connected and `accountId` is missing.
+   */
+  async resolveAccount(userId: string, accountId?: string): Promise<GmailOAuthToken> {
+    if (accountId) {
+      const account = await this.gmailOAuthRepo.findById(accountId, userId);
+      if (!account) {
+        throw new Error(`No Gmail OAuth token found for account ${accountId}`);
+      }
+      return account;
+    }
+
+    const accounts = await this.gmailOAuthRepo.findAllForUser(userId);
+    if (accounts.length === 0) {
+      throw new Error(`No Gmail OAuth token found for user ${userId}`);
+    }
+    if (accounts.length > 1) {
+      throw new Error(
+        `No Gmail OAuth token found: ${accounts.length} Gmail accounts are connected, pass accountId`
+      );
+    }
+    return accounts[0];
+  }
+
+  /**
+   * Get OAuth2 access token for an account
    * Fetches from database and refreshes if expired
    */
-  private async getAccessToken(userId: string): Promise<string> {
-    const token = await this.gmailOAuthRepo.findByUserId(userId);
+  private async getAccessToken(accountId: string): Promise<string> {
+    const token = await this.gmailOAuthRepo.findById(accountId);
 
     if (!token) {
-      throw new Error(`No Gmail OAuth token found for user ${userId}`);
+      throw new Error(`No Gmail OAuth token found for account ${accountId}`);
     }
 
     // Check if token is expired (with 5 minute buffer)
@@ -150,13 +225,13 @@ export class GmailService extends BaseService {
     }
 
     // Token is expired or about to expire, refresh it
-    return this.refreshAccessToken(userId, token.refreshToken);
+    return this.refreshAccessToken(accountId, token.refreshToken);
   }
 
   /**
    * Refresh an expired access token
    */
-  async refreshAccessToken(userId: string, refreshToken: string): Promise<string> {
+  async refreshAccessToken(accountId: string, refreshToken: string): Promise<string> {
     const clientId = process.env.GMAIL_CLIENT_ID;
     const clientSecret = process.env.GMAIL_CLIENT_SECRET;
 
@@ -188,7 +263,7 @@ export class GmailService extends BaseService {
 
     // Update token in database
     const expiresAt = new Date(Date.now() + data.expires_in * 1000);
-    await this.gmailOAuthRepo.updateByUserId(userId, {
+    await this.gmailOAuthRepo.update(accountId, {
       accessToken: data.access_token,
       expiresAt,
       updatedAt: new Date(),
@@ -198,7 +273,9 @@ export class GmailService extends BaseService {
   }
 
   /**
-   * Store OAuth tokens after successful authorization
+   * Store OAuth tokens after successful authorization.
+   * Re-authorizing an account already connected by the user updates it; a new Gmail address
+   * is added as another account.
    */
   async storeTokens(
     userId: string,
@@ -207,47 +284,47 @@ export class GmailService extends BaseService {
     refreshToken: string,
     expiresIn: number,
     scope: string
-  ): Promise<void> {
+  ): Promise<GmailOAuthToken> {
     const expiresAt = new Date(Date.now() + expiresIn * 1000);
 
-    // Check if token already exists for this user
-    const existingToken = await this.gmailOAuthRepo.findByUserId(userId);
+    // Check if this Gmail account is already connected for this user
+    const existingToken = await this.gmailOAuthRepo.findByUserIdAndEmail(userId, emailAddress);
 
     if (existingToken) {
       // Update existing token
-      await this.gmailOAuthRepo.update(existingToken.id, {
-        emailAddress,
+      const updated = await this.gmailOAuthRepo.update(existingToken.id, {
         accessToken,
         refreshToken,
         expiresAt,
         scope,
         updatedAt: new Date(),
       });
-    } else {
-      // Create new token
-      // Generate a UUID for the token ID
-      const tokenId = crypto.randomUUID();
-      await this.gmailOAuthRepo.create({
-        id: tokenId,
-        userId,
-        emailAddress,
-        accessToken,
-        refreshToken,
-        expiresAt,
-        scope,
-      });
+      return updated ?? existingToken;
     }
+
+    // Create new token
+    // Generate a UUID for the token ID
+    const tokenId = crypto.randomUUID();
+    return this.gmailOAuthRepo.create({
+      id: tokenId,
+      userId,
+      emailAddress,
+      accessToken,
+      refreshToken,
+      expiresAt,
+      scope,
+    });
   }
 
   /**
    * Make authenticated request to Gmail API
    */
   private async gmailRequest<T>(
-    userId: string,
+    accountId: string,
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const accessToken = await this.getAccessToken(userId);
+    const accessToken = await this.getAccessToken(accountId);
     const url = `${this.gmailApiBaseUrl}${endpoint}`;
 
     const response = await fetch(url, {
@@ -270,39 +347,40 @@ export class GmailService extends BaseService {
   }
 
   /**
-   * Get user's Gmail profile
+   * Get an account's Gmail profile
    */
-  async getProfile(userId: string): Promise<GmailProfile> {
-    return this.gmailRequest<GmailProfile>(userId, '/users/me/profile');
+  async getProfile(accountId: string): Promise<GmailProfile> {
+    return this.gmailRequest<GmailProfile>(accountId, '/users/me/profile');
   }
 
   /**
    * Process a Gmail notification from Pub/Sub
-   * Fetches new messages, logs their details, and marks them as read
+   * Finds the new messages with the account's monitor label since the stored history ID.
+   * Messages are not fetched or extracted here; the caller enqueues them for ingestion.
    *
-   * @param userId - The user ID
+   * @param account - The Gmail account the notification is for, with its last processed history ID
    * @param notification - The Gmail notification from Pub/Sub
-   * @param storedHistoryId - The last processed history ID stored in the database
    * @returns The result including the new history ID to store
    */
   async processNotification(
-    userId: string,
-    notification: GmailNotification,
-    storedHistoryId: string | null
+    account: GmailOAuthToken,
+    notification: GmailNotification
   ): Promise<ProcessNotificationResult> {
+    const userId = account.userId;
+    const storedHistoryId = account.historyId;
+
     // Use stored history ID if available, otherwise use notification's history ID
     const historyIdToUse = storedHistoryId || notification.historyId;
 
     const result: ProcessNotificationResult = {
       success: true,
       historyId: notification.historyId, // Always return the new history ID from notification
-      processedCount: 0,
-      failedCount: 0,
+      messageIds: [],
       errors: [],
     };
 
     console.log(
-      `Processing notification for user ${userId}, ` +
+      `Processing notification for user ${userId} (${account.emailAddress}), ` +
         `storedHistoryId: ${storedHistoryId}, notificationHistoryId: ${notification.historyId}, ` +
         `using: ${historyIdToUse}`
     );
@@ -310,7 +388,7 @@ export class GmailService extends BaseService {
     // Fetch history changes using stored history ID
     let history: GmailHistory[];
     try {
-      history = await this.getHistory(userId, historyIdToUse);
+      history = await this.getHistory(account.id, historyIdToUse);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -345,23 +423,8 @@ export class GmailService extends BaseService {
       };
     }
 
-    // Track processed message IDs to avoid duplicates
-    const processedMessageIds = new Set<string>();
-
-    // Fetch user timezone for date conversion
-    const user = await this.userRepo.findById(userId);
-    const userTimezone = user?.timezone ?? 'Asia/Kathmandu';
-
-    // Fetch available categories once for all messages in this batch
-    const availableCategories = await this.categoryRepo.findAllForUser(userId);
-    const categoryInfoForAI = availableCategories.map((c) => ({
-      id: c.id,
-      name: c.name,
-      icon: c.icon,
-    }));
-
     // Fetch user's monitor label IDs once for this batch
-    const watchLabelIds = await this.getWatchLabelIds(userId);
+    const watchLabelIds = await this.getWatchLabelIds(account.id);
 
     // Process each history entry
     for (const historyEntry of history) {
@@ -376,175 +439,9 @@ export class GmailService extends BaseService {
             continue;
           }
 
-          // Skip if already processed in this batch
-          if (processedMessageIds.has(messageId)) {
-            continue;
-          }
-          processedMessageIds.add(messageId);
-
-          try {
-            // STEP 1: Check for duplicates BEFORE calling AI (saves cost)
-            const existingTransaction = await this.transactionRepo.findByEmailId(messageId);
-            if (existingTransaction) {
-              console.log(`Email ${messageId} already processed, skipping AI extraction`);
-              result.processedCount++;
-              continue;
-            }
-
-            // Fetch full message details
-            const message = await this.getMessage(userId, messageId, 'full');
-            const headers = this.getMessageHeaders(message);
-            const body = this.getMessageBody(message);
-
-            // Log the email details
-            console.log('========== NEW EMAIL RECEIVED ==========');
-            console.log('Message ID:', messageId);
-            console.log('Thread ID:', message.threadId);
-            console.log('From:', headers.from || 'Unknown');
-            console.log('To:', headers.to || 'Unknown');
-            console.log('Subject:', headers.subject || '(No Subject)');
-            console.log('Date:', headers.date || message.internalDate);
-            console.log('Labels:', (message.labelIds ?? []).join(', '));
-            console.log('Snippet:', message.snippet);
-            console.log('Body Preview:', body.substring(0, 500) + (body.length > 500 ? '...' : ''));
-            console.log('=========================================');
-
-            // STEP 2: Extract transaction data using AI with tool calling
-            // AI will select category from the database categories via tool call
-            const extractionResult = await this.transactionExtractor.extractFromEmail(
-              {
-                subject: headers.subject,
-                body: body,
-                from: headers.from,
-              },
-              categoryInfoForAI
-            );
-
-            // STEP 3: Save transaction if it's a bank email
-            if (
-              this.transactionExtractor.isValidTransaction(extractionResult) &&
-              extractionResult.transaction
-            ) {
-              const txn = extractionResult.transaction;
-
-              // Handle category: either use selected ID or create new category
-              let categoryId = txn.categoryId;
-
-              if (txn.newCategory) {
-                // AI suggested creating a new category
-                try {
-                  const newCategory = await this.categoryRepo.create({
-                    id: crypto.randomUUID(),
-                    userId, // Associate with this user
-                    name: txn.newCategory.name,
-                    icon: txn.newCategory.icon,
-                    isDefault: false, // User-specific category created by AI
-                    isAiCreated: true, // Created by AI
-                  });
-                  categoryId = newCategory.id;
-                  console.log(
-                    `Created new category: ${newCategory.icon} ${newCategory.name} (${newCategory.id})`
-                  );
-                } catch (categoryError) {
-                  // If category creation fails (e.g., duplicate name), try to find existing
-                  console.warn(
-                    `Failed to create category "${txn.newCategory.name}", looking for existing:`,
-                    categoryError
-                  );
-                  const existingCategory = await this.categoryRepo.findByNameForUser(
-                    txn.newCategory.name,
-                    userId
-                  );
-                  if (existingCategory) {
-                    categoryId = existingCategory.id;
-                    console.log(`Using existing category: ${existingCategory.name}`);
-                  }
-                }
-              }
-
-              // Parse transaction date and convert from user's timezone to UTC
-              let transactionDate: Date | null = null;
-              if (txn.date) {
-                try {
-                  transactionDate = localToUtc(txn.date, txn.time ?? null, userTimezone);
-                } catch {
-                  console.warn(`Failed to parse transaction date: ${txn.date}`);
-                }
-              }
-
-              try {
-                const created = await this.transactionRepo.create({
-                  id: crypto.randomUUID(),
-                  userId,
-                  categoryId,
-                  amount: txn.amount.toString(),
-                  type: txn.type,
-                  currency: 'NPR',
-                  merchant: txn.merchant,
-                  accountNumber: txn.accountLastFour,
-                  bankName: txn.bankName,
-                  transactionDate,
-                  remarks: txn.remarks,
-                  emailId: messageId,
-                  rawEmailContent: body.substring(0, 10000), // Limit storage size
-                  aiConfidence: txn.confidence.toString(),
-                  aiExtractedData: extractionResult,
-                  isAiCreated: true, // Created by AI from email
-                });
-
-                const categoryLabel = txn.newCategory
-                  ? `${txn.newCategory.icon} ${txn.newCategory.name} (new)`
-                  : txn.categoryName || 'Uncategorized';
-
-                await this.discordService.notifyNewTransaction({
-                  id: created.id,
-                  amount: txn.amount.toString(),
-                  type: txn.type,
-                  merchant: txn.merchant,
-                  source: 'gmail',
-                  category: categoryLabel,
-                  transactionDate: transactionDate?.toISOString() ?? null,
-                });
-
-                console.log(
-                  `Transaction saved: ${txn.type} ${txn.amount} from ${txn.merchant || 'Unknown'} [${categoryLabel}]`
-                );
-              } catch (saveError) {
-                // Handle race condition where duplicate was inserted between check and insert
-                if (this.isUniqueConstraintError(saveError)) {
-                  console.log(`Duplicate email ${messageId} detected (race condition), skipping`);
-                  continue;
-                }
-                throw saveError;
-              }
-            } else {
-              console.log(`Email ${messageId} is not a transaction email, skipping`);
-            }
-
-            // Mark the email as read (remove UNREAD label)
-            if ((message.labelIds ?? []).includes('UNREAD')) {
-              try {
-                await this.markAsRead(userId, messageId);
-                console.log(`Marked message ${messageId} as read`);
-              } catch (markError) {
-                // Log but don't fail the whole process if marking as read fails
-                console.error(`Failed to mark message ${messageId} as read:`, markError);
-              }
-            }
-
-            result.processedCount++;
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-            // Handle message not found (deleted before we could fetch it)
-            if (errorMessage.includes('404') || errorMessage.includes('notFound')) {
-              console.warn(`Message ${messageId} not found (may have been deleted)`);
-              continue;
-            }
-
-            console.error(`Failed to process message ${messageId}:`, error);
-            result.failedCount++;
-            result.errors.push({ messageId, error: errorMessage });
+          // Skip if already found in this batch
+          if (!result.messageIds.includes(messageId)) {
+            result.messageIds.push(messageId);
           }
         }
       }
@@ -572,39 +469,236 @@ export class GmailService extends BaseService {
       }
     }
 
-    console.log(`Processed ${result.processedCount} message(s), ${result.failedCount} failed`);
+    console.log(`Found ${result.messageIds.length} new message(s) to ingest`);
+
+    return result;
+  }
+
+  /**
+   * Fetch the categories and learned examples sent to the AI for a batch of messages
+   */
+  async getExtractionContext(userId: string): Promise<MessageExtractionContext> {
+    const availableCategories = await this.categoryRepo.findAllForUser(userId);
+    return {
+      categories: availableCategories.map((c) => ({
+        id: c.id,
+        name: c.name,
+        icon: c.icon,
+      })),
+      examples: await this.categorizationService.getPromptExamples(userId),
+    };
+  }
+
+  /**
+   * Run one message of an account through the extract-and-save pipeline.
+   * Messages already saved as a transaction are skipped before calling the AI.
+   * Every run is recorded in the `email_ingestions` audit log, failures included.
+   * Gmail and AI errors are thrown to the caller.
+   */
+  async processMessage(
+    account: GmailAccount,
+    messageId: string,
+    context: MessageExtractionContext,
+    options: { markAsRead: boolean; trigger: EmailIngestionTrigger }
+  ): Promise<ProcessMessageOutcome> {
+    const startedAt = Date.now();
+    const audit: EmailIngestionAudit = {
+      sender: null,
+      subject: null,
+      receivedAt: null,
+      labelMatched: null,
+      duplicate: false,
+      isTransaction: null,
+      confidence: null,
+      extractedBy: null,
+      transactionId: null,
+      fetchMs: null,
+      extractionMs: null,
+    };
+
+    let outcome: ProcessMessageOutcome | 'failed' = 'failed';
+    let error: string | null = null;
+    try {
+      outcome = await this.runMessagePipeline(account, messageId, context, options, audit);
+      return outcome;
+    } catch (pipelineError) {
+      error = pipelineError instanceof Error ? pipelineError.message : 'Unknown error';
+      throw pipelineError;
+    } finally {
+      await this.emailIngestionRepo
+        .record({
+          userId: account.userId,
+          accountId: account.id,
+          mailbox: account.emailAddress,
+          messageId,
+          trigger: options.trigger,
+          ...audit,
+          outcome,
+          error,
+          totalMs: Date.now() - startedAt,
+        })
+        .catch((recordError) => {
+          // The audit log must never fail an ingestion
+          console.error(`Failed to record ingestion of message ${messageId}:`, recordError);
+        });
+    }
+  }
+
+  private async runMessagePipeline(
+    account: GmailAccount,
+    messageId: string,
+    context: MessageExtractionContext,
+    options: { markAsRead: boolean },
+    audit: EmailIngestionAudit
+  ): Promise<ProcessMessageOutcome> {
+    // STEP 1: Check for duplicates BEFORE calling AI (saves cost)
+    const existingTransaction = await this.transactionRepo.findByEmailId(messageId);
+    if (existingTransaction) {
+      console.log(`Email ${messageId} already processed, skipping AI extraction`);
+      audit.duplicate = true;
+      audit.transactionId = existingTransaction.id;
+      return 'duplicate';
+    }
+
+    // Fetch full message details
+    const fetchStartedAt = Date.now();
+    const message = await this.getMessage(account.id, messageId, 'full');
+    const headers = this.getMessageHeaders(message);
+    const body = this.getMessageBody(message);
+    audit.fetchMs = Date.now() - fetchStartedAt;
+    audit.sender = headers.from ?? null;
+    audit.subject = headers.subject ?? null;
+    audit.receivedAt = message.internalDate ? new Date(Number(message.internalDate)) : null;
+
+    const watchLabelIds = await this.gmailOAuthRepo.getWatchLabelIds(account.id);
+    audit.labelMatched =
+      watchLabelIds.length > 0
+        ? (message.labelIds ?? []).some((labelId) => watchLabelIds.includes(labelId))
+        : null;
+
+    // Log the email details
+    console.log('========== NEW EMAIL RECEIVED ==========');
+    console.log('Message ID:', messageId);
+    console.log('Mailbox:', account.emailAddress);
+    console.log('Thread ID:', message.threadId);
+    console.log('From:', headers.from || 'Unknown');
+    console.log('To:', headers.to || 'Unknown');
+    console.log('Subject:', headers.subject || '(No Subject)');
+    console.log('Date:', headers.date || message.internalDate);
+    console.log('Labels:', (message.labelIds ?? []).join(', '));
+    console.log('Snippet:', message.snippet);
+    console.log('Body Preview:', body.substring(0, 500) + (body.length > 500 ? '...' : ''));
+    console.log('=========================================');
+
+    // STEP 2: Extract transaction data using AI with tool calling
+    // AI will select category from the database categories via tool call
+    const extractionStartedAt = Date.now();
+    const extractionResult = await this.transactionExtractor.extractFromEmail(
+      {
+        subject: headers.subject,
+        body: body,
+        from: headers.from,
+      },
+      context.categories,
+      context.examples
+    );
+    audit.extractionMs = Date.now() - extractionStartedAt;
+    audit.isTransaction = extractionResult.isTransaction;
+    audit.confidence = extractionResult.transaction?.confidence?.toString() ?? null;
+    audit.extractedBy = extractionResult.parser ?? 'ai';
+
+    // STEP 3: Save transaction if it's a bank email
+    let outcome: ProcessMessageOutcome = 'not_transaction';
+    if (
+      this.transactionExtractor.isValidTransaction(extractionResult) &&
+      extractionResult.transaction
+    ) {
+      try {
+        const saved = await this.transactionIngest.saveExtracted({
+          userId: account.userId,
+          extraction: extractionResult,
+          source: 'gmail',
+          emailId: messageId,
+          mailbox: account.emailAddress,
+          rawEmailContent: body,
+        });
+        audit.transactionId = saved.id;
+        outcome = 'saved';
+      } catch (saveError) {
+        // Handle race condition where duplicate was inserted between check and insert
+        if (this.isUniqueConstraintError(saveError)) {
+          console.log(`Duplicate email ${messageId} detected (race condition), skipping`);
+          audit.duplicate = true;
+          return 'duplicate';
+        }
+        throw saveError;
+      }
+    } else {
+      console.log(`Email ${messageId} is not a transaction email, skipping`);
+    }
+
+    // Mark the email as read (remove UNREAD label)
+    if (options.markAsRead && (message.labelIds ?? []).includes('UNREAD')) {
+      try {
+        await this.markAsRead(account.id, messageId);
+        console.log(`Marked message ${messageId} as read`);
+      } catch (markError) {
+        // Log but don't fail the whole process if marking as read fails
+        console.error(`Failed to mark message ${messageId} as read:`, markError);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Build the Gmail search query for a backfill: mail from the account's filtered senders
+   * (or, without a sender filter, mail with the monitor label) received in [startDate, endDate).
+   */
+  async getBackfillQuery(accountId: string, startDate: Date, endDate: Date): Promise<string> {
+    const senderEmails = await this.gmailOAuthRepo.getFilterSenderEmails(accountId);
 
-    // Mark as failed if all messages failed
-    if (result.processedCount === 0 && result.failedCount > 0) {
-      result.success = false;
+    let source: string;
+    if (senderEmails.length > 0) {
+      source = `{${senderEmails.map((email) => `from:${email.trim()}`).join(' ')}}`;
+    } else {
+      const labelIds = await this.getWatchLabelIds(accountId);
+      const labels = await Promise.all(
+        labelIds.map((labelId) => this.getLabel(accountId, labelId))
+      );
+      // Gmail search matches label names with spaces written as dashes
+      source = `{${labels.map((label) => `label:${label.name.replace(/\s+/g, '-')}`).join(' ')}}`;
     }
 
-    return result;
+    // Epoch seconds are exact, unlike YYYY/MM/DD which Gmail reads in the mailbox timezone
+    const after = Math.floor(startDate.getTime() / 1000);
+    const before = Math.floor(endDate.getTime() / 1000);
+    return `${source} after:${after} before:${before}`;
   }
 
   /**
    * Mark a message as read (remove UNREAD label)
    */
-  async markAsRead(userId: string, messageId: string): Promise<void> {
-    await this.modifyMessage(userId, messageId, { removeLabelIds: ['UNREAD'] });
+  async markAsRead(accountId: string, messageId: string): Promise<void> {
+    await this.modifyMessage(accountId, messageId, { removeLabelIds: ['UNREAD'] });
   }
 
   /**
    * Mark a message as unread (add UNREAD label)
    */
-  async markAsUnread(userId: string, messageId: string): Promise<void> {
-    await this.modifyMessage(userId, messageId, { addLabelIds: ['UNREAD'] });
+  async markAsUnread(accountId: string, messageId: string): Promise<void> {
+    await this.modifyMessage(accountId, messageId, { addLabelIds: ['UNREAD'] });
   }
 
   /**
    * Modify message labels (add or remove labels)
    */
   async modifyMessage(
-    userId: string,
+    accountId: string,
     messageId: string,
     modifications: { addLabelIds?: string[]; removeLabelIds?: string[] }
   ): Promise<GmailMessage> {
-    return this.gmailRequest<GmailMessage>(userId, `/users/me/messages/${messageId}/modify`, {
+    return this.gmailRequest<GmailMessage>(accountId, `/users/me/messages/${messageId}/modify`, {
       method: 'POST',
       body: JSON.stringify(modifications),
     });
@@ -614,7 +708,7 @@ export class GmailService extends BaseService {
    * Get history changes since a specific historyId
    */
   async getHistory(
-    userId: string,
+    accountId: string,
     startHistoryId: string,
     maxResults: number = 100
   ): Promise<GmailHistory[]> {
@@ -625,7 +719,7 @@ export class GmailService extends BaseService {
       });
 
       const response = await this.gmailRequest<{ history: GmailHistory[] }>(
-        userId,
+        accountId,
         `/users/me/history?${params.toString()}`
       );
 
@@ -640,7 +734,7 @@ export class GmailService extends BaseService {
    * List messages matching a query
    */
   async listMessages(
-    userId: string,
+    accountId: string,
     query?: string,
     maxResults: number = 50,
     pageToken?: string
@@ -660,14 +754,14 @@ export class GmailService extends BaseService {
     return this.gmailRequest<{
       messages: Array<{ id: string; threadId: string }>;
       nextPageToken?: string;
-    }>(userId, `/users/me/messages?${params.toString()}`);
+    }>(accountId, `/users/me/messages?${params.toString()}`);
   }
 
   /**
    * Get a specific message by ID
    */
   async getMessage(
-    userId: string,
+    accountId: string,
     messageId: string,
     format: 'full' | 'metadata' | 'minimal' = 'full'
   ): Promise<GmailMessage> {
@@ -676,7 +770,7 @@ export class GmailService extends BaseService {
     });
 
     return this.gmailRequest<GmailMessage>(
-      userId,
+      accountId,
       `/users/me/messages/${messageId}?${params.toString()}`
     );
   }
@@ -685,49 +779,49 @@ export class GmailService extends BaseService {
    * Get message attachment
    */
   async getAttachment(
-    userId: string,
+    accountId: string,
     messageId: string,
     attachmentId: string
   ): Promise<{ size: number; data: string }> {
     return this.gmailRequest<{ size: number; data: string }>(
-      userId,
+      accountId,
       `/users/me/messages/${messageId}/attachments/${attachmentId}`
     );
   }
 
   /**
-   * List all labels for the user
+   * List all labels in an account
    */
-  async listLabels(userId: string): Promise<GmailLabelsListResponse> {
-    return this.gmailRequest<GmailLabelsListResponse>(userId, '/users/me/labels');
+  async listLabels(accountId: string): Promise<GmailLabelsListResponse> {
+    return this.gmailRequest<GmailLabelsListResponse>(accountId, '/users/me/labels');
   }
 
   /**
    * Get a specific label by ID
    */
-  async getLabel(userId: string, labelId: string): Promise<GmailLabel> {
-    return this.gmailRequest<GmailLabel>(userId, `/users/me/labels/${labelId}`);
+  async getLabel(accountId: string, labelId: string): Promise<GmailLabel> {
+    return this.gmailRequest<GmailLabel>(accountId, `/users/me/labels/${labelId}`);
   }
 
   /**
    * Find a label by name
    * Returns the label if found, null otherwise
    */
-  async findLabelByName(userId: string, labelName: string): Promise<GmailLabel | null> {
-    const { labels } = await this.listLabels(userId);
+  async findLabelByName(accountId: string, labelName: string): Promise<GmailLabel | null> {
+    const { labels } = await this.listLabels(accountId);
     return labels.find((label) => label.name.toLowerCase() === labelName.toLowerCase()) || null;
   }
 
   /**
    * Create a new label in Gmail
    */
-  async createLabel(userId: string, labelName: string): Promise<GmailLabel> {
+  async createLabel(accountId: string, labelName: string): Promise<GmailLabel> {
     const body = {
       name: labelName,
       labelListVisibility: 'labelShow',
       messageListVisibility: 'show',
     };
-    return this.gmailRequest<GmailLabel>(userId, '/users/me/labels', {
+    return this.gmailRequest<GmailLabel>(accountId, '/users/me/labels', {
       method: 'POST',
       body: JSON.stringify(body),
     });
@@ -737,25 +831,25 @@ export class GmailService extends BaseService {
    * Find or create the monitor label (default: "Autofin")
    */
   async findOrCreateMonitorLabel(
-    userId: string,
+    accountId: string,
     labelName: string = 'Autofin'
   ): Promise<GmailLabel> {
-    const existing = await this.findLabelByName(userId, labelName);
+    const existing = await this.findLabelByName(accountId, labelName);
     if (existing) {
       return existing;
     }
-    return this.createLabel(userId, labelName);
+    return this.createLabel(accountId, labelName);
   }
 
   /**
-   * Get watch label IDs for a user. Auto-creates "Autofin" label if none configured.
+   * Get watch label IDs for an account. Auto-creates "Autofin" label if none configured.
    */
-  async getWatchLabelIds(userId: string): Promise<string[]> {
-    let labelIds = await this.gmailOAuthRepo.getWatchLabelIds(userId);
+  async getWatchLabelIds(accountId: string): Promise<string[]> {
+    let labelIds = await this.gmailOAuthRepo.getWatchLabelIds(accountId);
     if (labelIds.length === 0) {
-      const label = await this.findOrCreateMonitorLabel(userId);
+      const label = await this.findOrCreateMonitorLabel(accountId);
       labelIds = [label.id];
-      await this.gmailOAuthRepo.setWatchLabelIds(userId, labelIds);
+      await this.gmailOAuthRepo.setWatchLabelIds(accountId, labelIds);
     }
     return labelIds;
   }
@@ -764,7 +858,7 @@ export class GmailService extends BaseService {
    * Create a Gmail filter
    */
   async createFilter(
-    userId: string,
+    accountId: string,
     criteria: { query?: string; from?: string },
     addLabelIds: string[]
   ): Promise<{ id: string }> {
@@ -772,7 +866,7 @@ export class GmailService extends BaseService {
       criteria,
       action: { addLabelIds },
     };
-    return this.gmailRequest<{ id: string }>(userId, '/users/me/settings/filters', {
+    return this.gmailRequest<{ id: string }>(accountId, '/users/me/settings/filters', {
       method: 'POST',
       body: JSON.stringify(body),
     });
@@ -781,8 +875,8 @@ export class GmailService extends BaseService {
   /**
    * Delete a Gmail filter
    */
-  async deleteFilter(userId: string, filterId: string): Promise<void> {
-    await this.gmailRequest(userId, `/users/me/settings/filters/${filterId}`, {
+  async deleteFilter(accountId: string, filterId: string): Promise<void> {
+    await this.gmailRequest(accountId, `/users/me/settings/filters/${filterId}`, {
       method: 'DELETE',
     });
   }
@@ -791,35 +885,35 @@ export class GmailService extends BaseService {
    * Set sender filter emails: delete existing filters, create new one, store config.
    * Ensures Autofin label exists before creating the filter, so the filter can apply it to matching emails.
    */
-  async setSenderFilterEmails(userId: string, emails: string[]): Promise<{ filterId: string }> {
+  async setSenderFilterEmails(accountId: string, emails: string[]): Promise<{ filterId: string }> {
     if (emails.length === 0) {
-      const existingFilterIds = await this.gmailOAuthRepo.getAutofinFilterIds(userId);
+      const existingFilterIds = await this.gmailOAuthRepo.getAutofinFilterIds(accountId);
       for (const filterId of existingFilterIds) {
         try {
-          await this.deleteFilter(userId, filterId);
+          await this.deleteFilter(accountId, filterId);
         } catch (err) {
           console.warn(`Failed to delete filter ${filterId}:`, err);
         }
       }
-      await this.gmailOAuthRepo.setFilterConfig(userId, { filterIds: [], senderEmails: [] });
+      await this.gmailOAuthRepo.setFilterConfig(accountId, { filterIds: [], senderEmails: [] });
       return { filterId: '' };
     }
 
     // Ensure Autofin label exists before creating filter (create if not already configured)
-    const labelIds = await this.getWatchLabelIds(userId);
+    const labelIds = await this.getWatchLabelIds(accountId);
 
-    const existingFilterIds = await this.gmailOAuthRepo.getAutofinFilterIds(userId);
+    const existingFilterIds = await this.gmailOAuthRepo.getAutofinFilterIds(accountId);
     for (const filterId of existingFilterIds) {
       try {
-        await this.deleteFilter(userId, filterId);
+        await this.deleteFilter(accountId, filterId);
       } catch (err) {
         console.warn(`Failed to delete filter ${filterId}:`, err);
       }
     }
 
     const query = emails.map((e) => `from:${e.trim()}`).join(' OR ');
-    const filter = await this.createFilter(userId, { query }, labelIds);
-    await this.gmailOAuthRepo.setFilterConfig(userId, {
+    const filter = await this.createFilter(accountId, { query }, labelIds);
+    await this.gmailOAuthRepo.setFilterConfig(accountId, {
       filterIds: [filter.id],
       senderEmails: emails,
     });
@@ -830,14 +924,18 @@ export class GmailService extends BaseService {
    * Start watching for Gmail changes
    * This sets up a push notification subscription via Pub/Sub
    */
-  async watch(userId: string, topicName: string, labelIds?: string[]): Promise<GmailWatchResponse> {
+  async watch(
+    accountId: string,
+    topicName: string,
+    labelIds?: string[]
+  ): Promise<GmailWatchResponse> {
     const body = {
       topicName,
       labelIds: labelIds || [],
       labelFilterBehavior: 'include',
     };
 
-    return this.gmailRequest<GmailWatchResponse>(userId, '/users/me/watch', {
+    return this.gmailRequest<GmailWatchResponse>(accountId, '/users/me/watch', {
       method: 'POST',
       body: JSON.stringify(body),
     });
@@ -846,8 +944,8 @@ export class GmailService extends BaseService {
   /**
    * Stop watching for Gmail changes
    */
-  async stopWatch(userId: string): Promise<void> {
-    await this.gmailRequest(userId, '/users/me/stop', {
+  async stopWatch(accountId: string): Promise<void> {
+    await this.gmailRequest(accountId, '/users/me/stop', {
       method: 'POST',
     });
   }
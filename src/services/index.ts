@@ -1,7 +1,48 @@
+export type {
+  AccountInput,
+  AccountLinkResult,
+  AccountService,
+  AccountType,
+} from './account.service';
+export { AccountServiceImpl, isAccountMatch } from './account.service';
+export type {
+  AnalyticsBreakdown,
+  AnalyticsBreakdownQuery,
+  AnalyticsComparison,
+  AnalyticsQuery,
+  AnalyticsService,
+  AnalyticsTimeSeries,
+} from './analytics.service';
+export {
+  AnalyticsServiceImpl,
+  bucketStarts,
+  MAX_TIME_SERIES_BUCKETS,
+  previousAnalyticsRange,
+} from './analytics.service';
 export { BaseService } from './base.service';
-export type { DiscordService, NewTransactionPayload } from './discord.service';
+export type { BudgetPeriod, BudgetProgress, BudgetService } from './budget.service';
+export { BUDGET_ALERT_THRESHOLDS, BudgetServiceImpl } from './budget.service';
+export type {
+  CategorizableTransaction,
+  Categorization,
+  CategorizationService,
+  CategoryRuleField,
+  CategoryRuleMatchType,
+} from './categorization.service';
+export {
+  CategorizationServiceImpl,
+  findMatchingRule,
+  isValidRulePattern,
+} from './categorization.service';
+export type {
+  BudgetAlertPayload,
+  DiscordService,
+  NewTransactionPayload,
+  RecurringAlertPayload,
+} from './discord.service';
 export { DiscordServiceImpl } from './discord.service';
 export type {
+  GmailAccount,
   GmailHistory,
   GmailMessage,
   GmailMessagePart,
@@ -12,8 +53,39 @@ export type {
 export { GmailService } from './gmail.service';
 export type { LoggerService } from './logger.service';
 export { LoggerServiceImpl } from './logger.service';
+export type {
+  MerchantInput,
+  MerchantLinkResult,
+  MerchantMergeResult,
+  MerchantService,
+} from './merchant.service';
+export { MerchantServiceImpl } from './merchant.service';
+export type {
+  DetectedSeries,
+  RecurringCadence,
+  RecurringDetectionResult,
+  RecurringService,
+  RecurringStatus,
+} from './recurring.service';
+export {
+  detectRecurringSeries,
+  nextCadenceDate,
+  RecurringServiceImpl,
+} from './recurring.service';
+export type { BulkOperation, BulkOperationResult } from './transaction-bulk.service';
+export { TransactionBulkService } from './transaction-bulk.service';
+export type {
+  ExportFormat,
+  ExportOptions,
+  TransactionExportService,
+} from './transaction-export.service';
+export {
+  EXPORT_CONTENT_TYPES,
+  TransactionExportServiceImpl,
+} from './transaction-export.service';
 export type {
   CategoryAction,
+  CategoryExample,
   CategoryInfo,
   EmailInput,
   TransactionData,
@@ -23,4 +95,49 @@ export {
   TransactionExtractorService,
   transactionDataSchema,
 } from './transaction-extractor.service';
+export type {
+  CsvColumnMapping,
+  ImportCommitResult,
+  ImportPreview,
+  ImportPreviewRow,
+  StatementDefaults,
+  StatementImportInput,
+  StatementRow,
+  StatementRowError,
+} from './transaction-import.service';
+export {
+  MAX_IMPORT_ROWS,
+  TransactionImportService,
+} from './transaction-import.service';
+export type {
+  SaveExtractedTransactionInput,
+  TransactionIngestService,
+} from './transaction-ingest.service';
+export { TransactionIngestServiceImpl } from './transaction-ingest.service';
+export type {
+  ReextractField,
+  ReextractFieldChange,
+  ReextractOptions,
+  ReextractResult,
+  TransactionReextractService,
+} from './transaction-reextract.service';
+export {
+  REEXTRACT_FIELDS,
+  TransactionReextractServiceImpl,
+} from './transaction-reextract.service';
+export type { ReviewEdits, TransactionReviewService } from './transaction-review.service';
+export { TransactionReviewServiceImpl } from './transaction-review.service';
+export type { SplitInput, TransactionSplitService } from './transaction-split.service';
+export { TransactionSplitServiceImpl } from './transaction-split.service';
+export type {
+  TransferDetectionOptions,
+  TransferPair,
+  TransferService,
+} from './transfer.service';
+export {
+  DEFAULT_TRANSFER_WINDOW_HOURS,
+  findTransferPairs,
+  isTransferMatch,
+  TransferServiceImpl,
+} from './transfer.service';
 export { UserService } from './user.service';
@@ -2,11 +2,17 @@ import { generateText, Output } from 'ai';
 import { fromZonedTime } from 'date-fns-tz';
 import { z } from 'zod';
 import { getInsightsModel } from '@/lib/ai';
+import { type CurrencyConverter, createCurrencyConverter, DEFAULT_CURRENCY } from '@/lib/currency';
+import type { ExchangeRateRepository } from '@/repositories/exchange-rate.repository';
 import type { InsightsRepository } from '@/repositories/insights.repository';
 import type {
   TransactionRepository,
   TransactionWithCategory,
 } from '@/repositories/transaction.repository';
+import type {
+  TransactionSplitRepository,
+  TransactionSplitWithCategory,
+} from '@/repositories/transaction-split.repository';
 
 const INSIGHTS_TRANSACTION_LIMIT = 500;
 
@@ -50,6 +56,7 @@ export interface InsightsService {
       periodStart?: Date;
       periodEnd?: Date;
       timezone?: string;
+      baseCurrency?: string;
     }
   ): Promise<{
     id: string;
@@ -64,7 +71,9 @@ export interface InsightsService {
 export class InsightsServiceImpl implements InsightsService {
   constructor(
     private readonly transactionRepo: TransactionRepository,
-    private readonly insightsRepo: InsightsRepository
+    private readonly insightsRepo: InsightsRepository,
+    private readonly exchangeRateRepo: ExchangeRateRepository,
+    private readonly transactionSplitRepo: TransactionSplitRepository
   ) {}
 
   async generateInsights(
@@ -73,6 +82,7 @@ export class InsightsServiceImpl implements InsightsService {
       periodStart?: Date;
       periodEnd?: Date;
       timezone?: string;
+      baseCurrency?: string;
     } = {}
   ): Promise<{
     id: string;
@@ -83,6 +93,7 @@ export class InsightsServiceImpl implements InsightsService {
     createdAt: Date;
   }> {
     const timezone = options.timezone ?? 'Asia/Kathmandu';
+    const baseCurrency = options.baseCurrency ?? DEFAULT_CURRENCY;
     const now = new Date();
 
     let periodStart: Date;
@@ -113,21 +124,33 @@ export class InsightsServiceImpl implements InsightsService {
       );
     }
 
-    const [transactions, summary] = await Promise.all([
+    const [transactions, summary, rates] = await Promise.all([
       this.transactionRepo.findAllForUser(
         userId,
-        { startDate: periodStart, endDate: periodEnd },
+        { startDate: periodStart, endDate: periodEnd, excludeTransfers: true },
         INSIGHTS_TRANSACTION_LIMIT,
         0
       ),
-      this.transactionRepo.getSummaryForUser(userId, periodStart, periodEnd),
+      this.transactionRepo.getSummaryForUser(userId, periodStart, periodEnd, baseCurrency),
+      this.exchangeRateRepo.findAllForUser(userId),
     ]);
 
     if (summary.transactionCount === 0) {
       throw new Error('No transactions in the selected period');
     }
 
-    const prompt = this.buildPrompt(transactions, summary, timezone);
+    const splits = await this.transactionSplitRepo.findForTransactions(
+      transactions.map((t) => t.id)
+    );
+    const splitsByTransaction = new Map<string, TransactionSplitWithCategory[]>();
+    for (const split of splits) {
+      const existing = splitsByTransaction.get(split.transactionId) ?? [];
+      existing.push(split);
+      splitsByTransaction.set(split.transactionId, existing);
+    }
+
+    const convert = createCurrencyConverter(rates, baseCurrency);
+    const prompt = this.buildPrompt(transactions, splitsByTransaction, summary, timezone, convert);
     const model = getInsightsModel();
 
     console.info('Generating insights...');
@@ -162,35 +185,52 @@ export class InsightsServiceImpl implements InsightsService {
 
   private buildPrompt(
     transactions: TransactionWithCategory[],
-    summary: { totalDebit: number; totalCredit: number; transactionCount: number },
-    timezone: string
+    splitsByTransaction: Map<string, TransactionSplitWithCategory[]>,
+    summary: {
+      totalDebit: number;
+      totalCredit: number;
+      transactionCount: number;
+      currency: string;
+      unconvertedCount: number;
+    },
+    timezone: string,
+    convert: CurrencyConverter
   ): string {
+    const base = summary.currency;
     const netAmount = summary.totalCredit - summary.totalDebit;
     const txnsFormatted = transactions
       .slice(0, 100) // Limit to 100 for prompt size
       .map((t) => {
         const amt = Number.parseFloat(t.amount);
         const sign = t.type === 'debit' ? '-' : '+';
-        const cat = t.category?.name ?? 'Uncategorized';
+        const splits = splitsByTransaction.get(t.id);
+        const cat = splits
+          ? splits.map((s) => `${s.category?.name ?? 'Uncategorized'} ${s.amount}`).join(' + ')
+          : (t.category?.name ?? 'Uncategorized');
         const date = t.transactionDate
           ? new Date(t.transactionDate).toLocaleDateString('en-IN', { timeZone: timezone })
           : 'N/A';
-        return `- ${date} | ${sign}${amt} ${t.currency ?? 'NPR'} | ${t.merchant ?? 'N/A'} | ${cat}`;
+        return `- ${date} | ${sign}${amt} ${t.currency ?? DEFAULT_CURRENCY} | ${t.merchant ?? 'N/A'} | ${cat}`;
       })
       .join('\n');
 
-    const categoryTotals = this.aggregateByCategory(transactions);
+    const categoryTotals = this.aggregateByCategory(transactions, splitsByTransaction, convert);
+    const unconvertedNote =
+      summary.unconvertedCount > 0
+        ? `\n- ${summary.unconvertedCount} transaction(s) in other currencies have no exchange rate and are excluded from totals`
+        : '';
 
     return `## Transaction Summary
-- Total debits (spending): ${summary.totalDebit} NPR
-- Total credits (income): ${summary.totalCredit} NPR
-- Net: ${netAmount} NPR
-- Transaction count: ${summary.transactionCount}
+All totals are converted to ${base}.
+- Total debits (spending): ${summary.totalDebit.toFixed(2)} ${base}
+- Total credits (income): ${summary.totalCredit.toFixed(2)} ${base}
+- Net: ${netAmount.toFixed(2)} ${base}
+- Transaction count: ${summary.transactionCount}${unconvertedNote}
 
 ## Spending by Category
 ${Object.entries(categoryTotals)
   .sort(([, a], [, b]) => b - a)
-  .map(([cat, amt]) => `- ${cat}: ${amt} NPR`)
+  .map(([cat, amt]) => `- ${cat}: ${amt.toFixed(2)} ${base}`)
   .join('\n')}
 
 ## Recent Transactions (sample)
@@ -201,13 +241,26 @@ Sahakari is a bank loan
 Based on this data, provide personalized financial advice. Refer to actual numbers when providing advice. Also provide the recommended amount to save and the recommended amount to spend.`;
   }
 
-  private aggregateByCategory(transactions: TransactionWithCategory[]): Record<string, number> {
+  /**
+   * Spending per category name; split transactions count each split in its own category
+   */
+  private aggregateByCategory(
+    transactions: TransactionWithCategory[],
+    splitsByTransaction: Map<string, TransactionSplitWithCategory[]>,
+    convert: CurrencyConverter
+  ): Record<string, number> {
     const totals: Record<string, number> = {};
     for (const t of transactions) {
       if (t.type !== 'debit') continue;
-      const cat = t.category?.name ?? 'Uncategorized';
-      const amt = Number.parseFloat(t.amount);
-      totals[cat] = (totals[cat] ?? 0) + amt;
+      const parts = splitsByTransaction.get(t.id)?.map((s) => ({
+        cat: s.category?.name ?? 'Uncategorized',
+        amount: s.amount,
+      })) ?? [{ cat: t.category?.name ?? 'Uncategorized', amount: t.amount }];
+      for (const { cat, amount } of parts) {
+        const amt = convert(Number.parseFloat(amount), t.currency, t.transactionDate);
+        if (amt === null) continue;
+        totals[cat] = (totals[cat] ?? 0) + amt;
+      }
     }
     return totals;
   }
@@ -0,0 +1,239 @@
+import type { Merchant } from '@/db/schema';
+import { isMerchantKeyMatch, normalizeMerchant } from '@/lib/normalize';
+import type { CategoryRepository } from '@/repositories/category.repository';
+import type { MerchantRepository } from '@/repositories/merchant.repository';
+
+export interface MerchantInput {
+  name: string;
+  aliases?: string[]; // merchant names as they appear in transactions; normalized before saving
+  categoryId?: string | null;
+  logo?: string | null;
+}
+
+export interface MerchantMergeResult {
+  merchant: Merchant;
+  mergedCount: number; // merchants merged into `merchant` and deleted
+  transactionCount: number; // transactions moved to `merchant`
+}
+
+export interface MerchantLinkResult {
+  linked: number; // transactions linked to a merchant
+  created: number; // merchants created for names not in the directory
+}
+
+/**
+ * MerchantService - the user's merchant directory.
+ *
+ * Each merchant has a canonical name and aliases: normalized merchant names (see lib/normalize.ts)
+ * that identify it in incoming transactions. An alias belongs to one merchant per user; the
+ * normalized canonical name is always one of them. A name without an alias of its own belongs to
+ * the merchant with an alias it starts with or that starts with it, word by word ("Daraz" and
+ * "DARAZ KAALIKA PVT"); resolving adds it to that merchant's aliases.
+ */
+export interface MerchantService {
+  /**
+   * Find the merchant of an incoming transaction by its merchant name, creating it when the
+   * directory has none. Returns null when the name normalizes to nothing.
+   */
+  resolve(userId: string, merchantName: string | null): Promise<Merchant | null>;
+
+  /**
+   * Find the merchant a merchant name belongs to, without creating one
+   */
+  find(userId: string, merchantName: string | null): Promise<Merchant | null>;
+
+  /**
+   * Create a merchant. Throws 'Category not found' and 'Alias belongs to another merchant'.
+   */
+  create(userId: string, input: MerchantInput): Promise<Merchant>;
+
+  /**
+   * Update a merchant. Throws 'Merchant not found', 'Category not found' and
+   * 'Alias belongs to another merchant'.
+   */
+  update(userId: string, id: string, input: Partial<MerchantInput>): Promise<Merchant>;
+
+  /**
+   * Merge merchants into one: it takes over their aliases and transactions and they are deleted.
+   * Throws 'Merchant not found' and 'Cannot merge a merchant into itself'.
+   */
+  merge(userId: string, targetId: string, sourceIds: string[]): Promise<MerchantMergeResult>;
+
+  /**
+   * Link the user's transactions without a merchant (e.g. created before the directory, imported
+   * or entered by hand) to merchants, creating merchants for names not in the directory yet
+   */
+  linkTransactions(userId: string): Promise<MerchantLinkResult>;
+}
+
+/** Normalized, distinct aliases for a merchant name and extra aliases */
+function normalizeAliases(name: string, aliases: string[] = []): string[] {
+  const keys = [name, ...aliases]
+    .map((alias) => normalizeMerchant(alias))
+    .filter((key): key is string => key !== null);
+  return Array.from(new Set(keys));
+}
+
+export class MerchantServiceImpl implements MerchantService {
+  constructor(
+    private readonly merchantRepo: MerchantRepository,
+    private readonly categoryRepo: CategoryRepository
+  ) {}
+
+  async resolve(userId: string, merchantName: string | null): Promise<Merchant | null> {
+    const key = normalizeMerchant(merchantName);
+    if (!merchantName || !key) return null;
+
+    const existing = await this.findByKey(userId, key);
+    if (existing) return this.addAlias(userId, existing, key);
+
+    return this.merchantRepo.create({
+      id: crypto.randomUUID(),
+      userId,
+      name: merchantName.trim(),
+      aliases: [key],
+    });
+  }
+
+  async find(userId: string, merchantName: string | null): Promise<Merchant | null> {
+    const key = normalizeMerchant(merchantName);
+    if (!key) return null;
+    return this.findByKey(userId, key);
+  }
+
+  async create(userId: string, input: MerchantInput): Promise<Merchant> {
+    if (input.categoryId) await this.assertCategory(userId, input.categoryId);
+
+    const aliases = normalizeAliases(input.name, input.aliases);
+    await this.assertAliasesFree(userId, aliases);
+
+    return this.merchantRepo.create({
+      id: crypto.randomUUID(),
+      userId,
+      name: input.name.trim(),
+      aliases,
+      categoryId: input.categoryId ?? null,
+      logo: input.logo ?? null,
+    });
+  }
+
+  async update(userId: string, id: string, input: Partial<MerchantInput>): Promise<Merchant> {
+    const existing = await this.merchantRepo.findById(id, userId);
+    if (!existing) {
+      throw new Error('Merchant not found');
+    }
+    if (input.categoryId) await this.assertCategory(userId, input.categoryId);
+
+    // Renaming keeps the old aliases so transactions under the old name still match
+    let aliases: string[] | undefined;
+    if (input.name !== undefined || input.aliases !== undefined) {
+      aliases = normalizeAliases(input.name ?? existing.name, input.aliases ?? existing.aliases);
+      await this.assertAliasesFree(userId, aliases, id);
+    }
+
+    const merchant = await this.merchantRepo.update(id, userId, {
+      name: input.name?.trim(),
+      aliases,
+      categoryId: input.categoryId,
+      logo: input.logo,
+    });
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+    return merchant;
+  }
+
+  async merge(userId: string, targetId: string, sourceIds: string[]): Promise<MerchantMergeResult> {
+    const ids = Array.from(new Set(sourceIds));
+    if (ids.includes(targetId)) {
+      throw new Error('Cannot merge a merchant into itself');
+    }
+
+    const [target, sources] = await Promise.all([
+      this.merchantRepo.findById(targetId, userId),
+      this.merchantRepo.findByIds(ids, userId),
+    ]);
+    if (!target || sources.length !== ids.length) {
+      throw new Error('Merchant not found');
+    }
+
+    const aliases = Array.from(
+      new Set([...target.aliases, ...sources.flatMap((source) => source.aliases)])
+    );
+    const transactionCount = await this.merchantRepo.merge(userId, targetId, ids, aliases);
+
+    return {
+      merchant: { ...target, aliases },
+      mergedCount: sources.length,
+      transactionCount,
+    };
+  }
+
+  async linkTransactions(userId: string): Promise<MerchantLinkResult> {
+    const names = await this.merchantRepo.findUnlinkedMerchantNames(userId);
+
+    // Names that normalize the same ("Daraz", "DARAZ") go to one merchant
+    const namesByKey = new Map<string, string[]>();
+    for (const name of names) {
+      const key = normalizeMerchant(name);
+      if (!key) continue;
+      namesByKey.set(key, [...(namesByKey.get(key) ?? []), name]);
+    }
+
+    let linked = 0;
+    let created = 0;
+    for (const [key, keyNames] of Array.from(namesByKey.entries())) {
+      let merchant = await this.findByKey(userId, key);
+      if (merchant) {
+        merchant = await this.addAlias(userId, merchant, key);
+      } else {
+        merchant = await this.merchantRepo.create({
+          id: crypto.randomUUID(),
+          userId,
+          name: keyNames[0].trim(),
+          aliases: [key],
+        });
+        created++;
+      }
+      linked += await this.merchantRepo.linkTransactions(userId, merchant.id, keyNames);
+    }
+
+    return { linked, created };
+  }
+
+  /**
+   * Find the merchant a normalized name belongs to: by alias, then by a matching leading alias
+   */
+  private async findByKey(userId: string, key: string): Promise<Merchant | null> {
+    const exact = await this.merchantRepo.findByAlias(userId, key);
+    if (exact) return exact;
+
+    const candidates = await this.merchantRepo.findByAliasFirstWord(userId, key.split(' ')[0]);
+    return (
+      candidates.find((merchant) =>
+        merchant.aliases.some((alias) => isMerchantKeyMatch(alias, key))
+      ) ?? null
+    );
+  }
+
+  /** Add a normalized name to a merchant's aliases, so it is found directly from now on */
+  private async addAlias(userId: string, merchant: Merchant, key: string): Promise<Merchant> {
+    if (merchant.aliases.includes(key)) return merchant;
+    const aliases = [...merchant.aliases, key];
+    return (await this.merchantRepo.update(merchant.id, userId, { aliases })) ?? merchant;
+  }
+
+  private async assertCategory(userId: string, categoryId: string): Promise<void> {
+    const category = await this.categoryRepo.findById(categoryId);
+    if (!category || (category.userId !== null && category.userId !== userId)) {
+      throw new Error('Category not found');
+    }
+  }
+
+  private async assertAliasesFree(userId: string, aliases: string[], merchantId?: string) {
+    const owners = await this.merchantRepo.findWithAnyAlias(userId, aliases, merchantId);
+    if (owners.length > 0) {
+      throw new Error('Alias belongs to another merchant');
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Tests for recurring series detection.
+ * Run with: bun test src/services/recurring.service.test.ts
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { Transaction } from '@/db/schema';
+import { detectRecurringSeries, nextCadenceDate } from './recurring.service';
+
+const TIMEZONE = 'Asia/Kathmandu';
+
+let nextId = 0;
+
+/** A confirmed debit on `date` (YYYY-MM-DD, midday in Kathmandu) */
+const charge = (date: string, amount: number, merchant = 'Netflix'): Transaction =>
+  ({
+    id: `txn-${++nextId}`,
+    userId: 'user-1',
+    amount: amount.toFixed(2),
+    type: 'debit',
+    currency: 'NPR',
+    merchant,
+    remarks: null,
+    transactionDate: new Date(`${date}T06:00:00Z`),
+    status: 'confirmed',
+  }) as Transaction;
+
+describe('nextCadenceDate', () => {
+  test.each([
+    ['2026-01-15', 'weekly', 15, '2026-01-22'],
+    ['2026-12-29', 'weekly', 29, '2027-01-05'],
+    ['2026-01-15', 'monthly', 15, '2026-02-15'],
+    ['2026-01-31', 'monthly', 31, '2026-02-28'],
+    ['2028-01-31', 'monthly', 31, '2028-02-29'],
+    ['2026-02-28', 'monthly', 31, '2026-03-31'],
+    ['2026-12-05', 'monthly', 5, '2027-01-05'],
+    ['2024-02-29', 'yearly', 29, '2025-02-28'],
+  ] as const)('%s %s on day %d -> %s', (date, cadence, anchorDay, expected) => {
+    expect(nextCadenceDate(date, cadence, anchorDay)).toBe(expected);
+  });
+});
+
+describe('detectRecurringSeries', () => {
+  test('detects a monthly charge', () => {
+    const [series] = detectRecurringSeries(
+      [charge('2026-01-05', 1500), charge('2026-02-05', 1500), charge('2026-03-04', 1500)],
+      TIMEZONE
+    );
+    expect(series).toMatchObject({
+      matchField: 'merchant',
+      matchKey: 'netflix',
+      cadence: 'monthly',
+      averageAmount: 1500,
+      occurrenceCount: 3,
+      lastDate: '2026-03-04',
+      nextExpectedDate: '2026-04-05',
+    });
+  });
+
+  test('needs enough regular charges', () => {
+    expect(
+      detectRecurringSeries([charge('2026-01-05', 1500), charge('2026-02-05', 1500)], TIMEZONE)
+    ).toEqual([]);
+    expect(
+      detectRecurringSeries(
+        [charge('2026-01-05', 1500), charge('2026-01-20', 1500), charge('2026-03-30', 1500)],
+        TIMEZONE
+      )
+    ).toEqual([]);
+  });
+
+  test('keeps subscriptions at different prices apart', () => {
+    const transactions = ['2026-01', '2026-02', '2026-03'].flatMap((month) => [
+      charge(`${month}-05`, 500),
+      charge(`${month}-20`, 1500),
+    ]);
+    const series = detectRecurringSeries(transactions, TIMEZONE);
+    expect(series.map((s) => s.averageAmount).sort((a, b) => a - b)).toEqual([500, 1500]);
+  });
+
+  test('continues a series through a price change above the amount tolerance', () => {
+    const old = [
+      charge('2026-01-05', 1000),
+      charge('2026-02-05', 1000),
+      charge('2026-03-05', 1000),
+    ];
+    const raised = charge('2026-04-06', 1500);
+    const [series, ...others] = detectRecurringSeries([...old, raised], TIMEZONE);
+
+    expect(others).toEqual([]);
+    expect(series).toMatchObject({
+      lastAmount: 1500,
+      averageAmount: 1500,
+      occurrenceCount: 4,
+      lastTransactionId: raised.id,
+      nextExpectedDate: '2026-05-05',
+    });
+    expect(series.transactionIds).toEqual([...old, raised].map((txn) => txn.id));
+  });
+
+  test('reports charges at the new price as the same series', () => {
+    const transactions = [
+      ...['2026-01-05', '2026-02-05', '2026-03-05'].map((date) => charge(date, 1000)),
+      ...['2026-04-05', '2026-05-05', '2026-06-05'].map((date) => charge(date, 1500)),
+    ];
+    const series = detectRecurringSeries(transactions, TIMEZONE);
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({ averageAmount: 1500, occurrenceCount: 6 });
+  });
+
+  test('does not take in a charge away from the expected date', () => {
+    const [series] = detectRecurringSeries(
+      [
+        charge('2026-01-05', 1000),
+        charge('2026-02-05', 1000),
+        charge('2026-03-05', 1000),
+        charge('2026-03-20', 1500),
+      ],
+      TIMEZONE
+    );
+    expect(series).toMatchObject({ lastAmount: 1000, occurrenceCount: 3 });
+  });
+});
@@ -0,0 +1,434 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { RecurringSeries, Transaction } from '@/db/schema';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { normalizeMerchant, normalizeRemarks } from '@/lib/normalize';
+import type { RecurringSeriesRepository } from '@/repositories/recurring-series.repository';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+import type { DiscordService } from './discord.service';
+
+export type RecurringCadence = 'weekly' | 'monthly' | 'yearly';
+export type RecurringStatus = 'active' | 'missed' | 'ended';
+
+interface CadenceSpec {
+  minDays: number; // shortest interval between charges that fits the cadence
+  maxDays: number; // longest interval between charges that fits the cadence
+  minOccurrences: number; // charges needed before a series is reported
+  graceDays: number; // days past the expected date before a charge counts as missed
+  periodDays: number;
+}
+
+const CADENCES: Record<RecurringCadence, CadenceSpec> = {
+  weekly: { minDays: 6, maxDays: 8, minOccurrences: 4, graceDays: 3, periodDays: 7 },
+  monthly: { minDays: 26, maxDays: 35, minOccurrences: 3, graceDays: 5, periodDays: 30 },
+  yearly: { minDays: 350, maxDays: 380, minOccurrences: 2, graceDays: 14, periodDays: 365 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days of history scanned, long enough to see a yearly charge twice */
+const DETECTION_LOOKBACK_DAYS = 800;
+
+/** Amounts within this fraction of the smallest one belong to the same series */
+const AMOUNT_TOLERANCE = 0.2;
+
+/** Share of intervals between charges that must fit the cadence */
+const MIN_REGULAR_INTERVAL_SHARE = 0.75;
+
+/** A new charge differing from the usual amount by at least this fraction is alerted */
+const AMOUNT_CHANGE_THRESHOLD = 0.05;
+
+/** Series with no charge for this many periods past the expected date are considered ended */
+const ENDED_AFTER_PERIODS = 3;
+
+/** Charges averaged into a series' usual amount */
+const AVERAGE_OF_LAST = 3;
+
+/**
+ * A recurring series found in a user's transactions (not yet stored)
+ */
+export interface DetectedSeries {
+  matchField: 'merchant' | 'remarks';
+  matchKey: string;
+  merchant: string | null;
+  type: 'debit' | 'credit';
+  currency: string;
+  cadence: RecurringCadence;
+  averageAmount: number;
+  lastAmount: number;
+  occurrenceCount: number;
+  firstDate: string; // YYYY-MM-DD in the user's timezone
+  lastDate: string;
+  nextExpectedDate: string;
+  lastTransactionId: string;
+  transactionIds: string[]; // charges of the series, oldest first
+}
+
+export interface RecurringDetectionResult {
+  series: RecurringSeries[];
+  missedAlerts: number;
+  amountChangeAlerts: number;
+}
+
+export interface RecurringService {
+  /**
+   * Detect a user's recurring series from their transactions and store them, then update
+   * each series' status and send Discord alerts for missing charges and changed amounts.
+   * Each missed expected date and each changed charge is alerted once.
+   */
+  detectForUser(userId: string, now?: Date): Promise<RecurringDetectionResult>;
+}
+
+interface Occurrence {
+  txn: Transaction;
+  date: string; // YYYY-MM-DD in the user's timezone
+  amount: number;
+}
+
+/**
+ * Charges of a series, oldest first, with the cadence they follow
+ */
+interface SeriesCharges {
+  occurrences: Occurrence[];
+  cadence: RecurringCadence;
+}
+
+const toDayNumber = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const isSameAmount = (a: number, b: number): boolean =>
+  Math.abs(a - b) <= Math.min(a, b) * AMOUNT_TOLERANCE;
+
+/** Usual day of the month of the latest charges */
+const anchorDay = (occurrences: Occurrence[]): number =>
+  Math.round(median(occurrences.slice(-AVERAGE_OF_LAST).map((o) => Number(o.date.slice(8, 10)))));
+
+/**
+ * Next expected date after `date`. Monthly and yearly cadences land on `anchorDay`
+ * (the usual day of the month), clamped to the length of the target month.
+ *
+ * @example
+ * nextCadenceDate('2026-01-31', 'monthly', 31) // '2026-02-28'
+ */
+export function nextCadenceDate(
+  date: string,
+  cadence: RecurringCadence,
+  anchorDay: number
+): string {
+  if (cadence === 'weekly') {
+    return new Date((toDayNumber(date) + 7) * DAY_MS).toISOString().slice(0, 10);
+  }
+  const [year, month] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + (cadence === 'monthly' ? 1 : 12), 1));
+  const daysInMonth = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(anchorDay, daysInMonth));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Split occurrences into groups of similar amounts
+ */
+function clusterByAmount(occurrences: Occurrence[]): Occurrence[][] {
+  const clusters: Occurrence[][] = [];
+  for (const occurrence of [...occurrences].sort((a, b) => a.amount - b.amount)) {
+    const current = clusters[clusters.length - 1];
+    if (current && occurrence.amount <= current[0].amount * (1 + AMOUNT_TOLERANCE)) {
+      current.push(occurrence);
+    } else {
+      clusters.push([occurrence]);
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Detect a series in charges of similar amounts: the median interval between them picks the
+ * cadence, and most intervals must fit it. Returns null when the charges are not regular.
+ */
+function detectCadence(cluster: Occurrence[]): SeriesCharges | null {
+  // One charge per day; a same-day duplicate would otherwise break the interval pattern
+  const byDate = new Map<string, Occurrence>();
+  for (const occurrence of cluster) byDate.set(occurrence.date, occurrence);
+  const occurrences = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  if (occurrences.length < 2) return null;
+
+  const intervals = occurrences
+    .slice(1)
+    .map((occurrence, i) => toDayNumber(occurrence.date) - toDayNumber(occurrences[i].date));
+  const typicalInterval = median(intervals);
+
+  const cadence = (Object.keys(CADENCES) as RecurringCadence[]).find(
+    (c) => typicalInterval >= CADENCES[c].minDays && typicalInterval <= CADENCES[c].maxDays
+  );
+  if (!cadence) return null;
+
+  const spec = CADENCES[cadence];
+  const regular = intervals.filter((days) => days >= spec.minDays && days <= spec.maxDays);
+  if (
+    occurrences.length < spec.minOccurrences ||
+    regular.length / intervals.length < MIN_REGULAR_INTERVAL_SHARE
+  ) {
+    return null;
+  }
+
+  return { occurrences, cadence };
+}
+
+/**
+ * Continue a series with the later charges that fall on its expected dates, whatever their
+ * amount, so a price change continues the series instead of starting another one
+ */
+function extendSeries(series: SeriesCharges, candidates: Occurrence[]): SeriesCharges {
+  const { graceDays } = CADENCES[series.cadence];
+  const occurrences = [...series.occurrences];
+  for (;;) {
+    const last = occurrences[occurrences.length - 1];
+    const expected = toDayNumber(
+      nextCadenceDate(last.date, series.cadence, anchorDay(occurrences))
+    );
+    const next = candidates
+      .filter((o) => o.date > last.date && Math.abs(toDayNumber(o.date) - expected) <= graceDays)
+      .sort((a, b) => Math.abs(a.amount - last.amount) - Math.abs(b.amount - last.amount))[0];
+    if (!next) return { ...series, occurrences };
+    occurrences.push(next);
+  }
+}
+
+/**
+ * Describe a series from its charges. The usual amount averages the latest charges at the
+ * current price.
+ */
+function toDetectedSeries({
+  occurrences,
+  cadence,
+}: SeriesCharges): Omit<DetectedSeries, 'matchField' | 'matchKey' | 'type' | 'currency'> {
+  const last = occurrences[occurrences.length - 1];
+  const recent = occurrences
+    .slice(-AVERAGE_OF_LAST)
+    .filter((o) => isSameAmount(o.amount, last.amount));
+
+  return {
+    merchant: last.txn.merchant,
+    cadence,
+    averageAmount: recent.reduce((sum, o) => sum + o.amount, 0) / recent.length,
+    lastAmount: last.amount,
+    occurrenceCount: occurrences.length,
+    firstDate: occurrences[0].date,
+    lastDate: last.date,
+    nextExpectedDate: nextCadenceDate(last.date, cadence, anchorDay(occurrences)),
+    lastTransactionId: last.txn.id,
+    transactionIds: occurrences.map((o) => o.txn.id),
+  };
+}
+
+/**
+ * Find recurring series in a user's transactions. Transactions are grouped by normalized
+ * merchant (or remarks when there is no merchant), type and currency, then by similar amounts,
+ * so e.g. two subscriptions billed by the same merchant at different prices are separate series.
+ * A series then takes in the later charges on its expected dates at any amount (a price change).
+ */
+export function detectRecurringSeries(
+  transactions: Transaction[],
+  timezone: string
+): DetectedSeries[] {
+  const groups = new Map<string, Occurrence[]>();
+  for (const txn of transactions) {
+    if (!txn.transactionDate) continue;
+    const merchantKey = normalizeMerchant(txn.merchant);
+    const matchField = merchantKey ? 'merchant' : 'remarks';
+    const matchKey = merchantKey ?? normalizeRemarks(txn.remarks);
+    if (!matchKey) continue;
+
+    const key = [matchField, matchKey, txn.type, txn.currency ?? DEFAULT_CURRENCY].join('\u0000');
+    const group = groups.get(key) ?? [];
+    group.push({
+      txn,
+      date: formatInTimeZone(txn.transactionDate, timezone, 'yyyy-MM-dd'),
+      amount: Number.parseFloat(txn.amount),
+    });
+    groups.set(key, group);
+  }
+
+  const detected: DetectedSeries[] = [];
+  for (const [key, occurrences] of Array.from(groups)) {
+    const [matchField, matchKey, type, currency] = key.split('\u0000');
+    const found = clusterByAmount(occurrences)
+      .map(detectCadence)
+      .filter((series): series is SeriesCharges => series !== null)
+      .map((series) => extendSeries(series, occurrences));
+
+    for (const series of found) {
+      // Charges at a new price that an older series was continued with belong to it
+      const last = series.occurrences[series.occurrences.length - 1];
+      const continues = found.some(
+        (other) =>
+          other !== series &&
+          other.occurrences[0].date < series.occurrences[0].date &&
+          other.occurrences.includes(last)
+      );
+      if (continues) continue;
+
+      detected.push({
+        ...toDetectedSeries(series),
+        matchField: matchField as 'merchant' | 'remarks',
+        matchKey,
+        type: type as 'debit' | 'credit',
+        currency,
+      });
+    }
+  }
+  return detected;
+}
+
+/**
+ * Status of a series on `today`, from how far its expected date has passed
+ */
+function seriesStatus(series: RecurringSeries, today: string): RecurringStatus {
+  const spec = CADENCES[series.cadence as RecurringCadence];
+  const overdueDays = toDayNumber(today) - toDayNumber(series.nextExpectedDate);
+  if (overdueDays > spec.periodDays * ENDED_AFTER_PERIODS) return 'ended';
+  if (overdueDays > spec.graceDays) return 'missed';
+  return 'active';
+}
+
+export class RecurringServiceImpl implements RecurringService {
+  constructor(
+    private readonly transactionRepo: TransactionRepository,
+    private readonly recurringSeriesRepo: RecurringSeriesRepository,
+    private readonly userRepo: UserRepository,
+    private readonly discordService: DiscordService
+  ) {}
+
+  async detectForUser(userId: string, now: Date = new Date()): Promise<RecurringDetectionResult> {
+    const user = await this.userRepo.findById(userId);
+    const timezone = user?.timezone ?? 'Asia/Kathmandu';
+    const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+
+    const transactions = await this.transactionRepo.findInDateRange(
+      userId,
+      new Date(now.getTime() - DETECTION_LOOKBACK_DAYS * DAY_MS),
+      now
+    );
+    // Transactions pending review may not be real charges
+    const detected = detectRecurringSeries(
+      transactions.filter((txn) => txn.status === 'confirmed'),
+      timezone
+    );
+
+    const stored = await this.recurringSeriesRepo.findAllForUser(userId);
+    const unmatched = new Set(stored);
+    const current: RecurringSeries[] = [];
+    let amountChangeAlerts = 0;
+
+    for (const series of detected) {
+      const values = {
+        merchant: series.merchant,
+        averageAmount: series.averageAmount.toFixed(2),
+        lastAmount: series.lastAmount.toFixed(2),
+        occurrenceCount: series.occurrenceCount,
+        firstDate: series.firstDate,
+        lastDate: series.lastDate,
+        nextExpectedDate: series.nextExpectedDate,
+        lastTransactionId: series.lastTransactionId,
+      };
+
+      // The stored series this one continues: the one whose last charge it contains, otherwise
+      // one with a similar amount
+      const candidates = Array.from(unmatched).filter(
+        (s) =>
+          s.matchField === series.matchField &&
+          s.matchKey === series.matchKey &&
+          s.type === series.type &&
+          s.currency === series.currency &&
+          s.cadence === series.cadence
+      );
+      const existing =
+        candidates.find(
+          (s) => s.lastTransactionId && series.transactionIds.includes(s.lastTransactionId)
+        ) ??
+        candidates.find((s) =>
+          isSameAmount(Number.parseFloat(s.averageAmount), series.averageAmount)
+        );
+
+      if (!existing) {
+        current.push(
+          await this.recurringSeriesRepo.create({
+            id: crypto.randomUUID(),
+            userId,
+            matchField: series.matchField,
+            matchKey: series.matchKey,
+            type: series.type,
+            currency: series.currency,
+            cadence: series.cadence,
+            ...values,
+          })
+        );
+        continue;
+      }
+
+      unmatched.delete(existing);
+
+      // A new charge arrived: compare it with the usual amount before it is averaged in
+      const usualAmount = Number.parseFloat(existing.averageAmount);
+      if (
+        existing.lastTransactionId !== series.lastTransactionId &&
+        Math.abs(series.lastAmount - usualAmount) >= usualAmount * AMOUNT_CHANGE_THRESHOLD
+      ) {
+        amountChangeAlerts++;
+        void this.discordService.notifyRecurringAlert({
+          kind: 'amount_changed',
+          merchant: series.merchant ?? series.matchKey,
+          cadence: series.cadence,
+          currency: series.currency,
+          expectedAmount: existing.averageAmount,
+          newAmount: series.lastAmount.toFixed(2),
+          date: series.lastDate,
+        });
+      }
+
+      const updated = await this.recurringSeriesRepo.update(existing.id, values);
+      if (updated) current.push(updated);
+    }
+
+    // Series no longer detected keep their last known schedule
+    current.push(...Array.from(unmatched));
+
+    let missedAlerts = 0;
+    for (const series of current) {
+      const status = seriesStatus(series, today);
+      const alertMissed =
+        status === 'missed' && series.missedAlertedFor !== series.nextExpectedDate;
+      if (status === series.status && !alertMissed) continue;
+
+      if (alertMissed) {
+        missedAlerts++;
+        void this.discordService.notifyRecurringAlert({
+          kind: 'missed',
+          merchant: series.merchant ?? series.matchKey,
+          cadence: series.cadence,
+          currency: series.currency,
+          expectedAmount: series.lastAmount,
+          date: series.nextExpectedDate,
+        });
+      }
+
+      await this.recurringSeriesRepo.update(series.id, {
+        status,
+        ...(alertMissed ? { missedAlertedFor: series.nextExpectedDate } : {}),
+      });
+    }
+
+    return {
+      series: await this.recurringSeriesRepo.findAllForUser(userId),
+      missedAlerts,
+      amountChangeAlerts,
+    };
+  }
+}
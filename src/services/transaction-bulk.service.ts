@@ -0,0 +1,69 @@
+import type { Database } from '@/db/connection';
+import type {
+  TransactionFilters,
+  TransactionRepository,
+  TransactionWithCategory,
+} from '@/repositories/transaction.repository';
+import { BaseService } from './base.service';
+
+/** Number of matching transactions returned with a bulk operation result */
+const BULK_SAMPLE_SIZE = 10;
+
+export type BulkOperation =
+  | { type: 'set_category'; categoryId: string }
+  | { type: 'set_remarks'; remarks: string | null }
+  | { type: 'delete' };
+
+export interface BulkOperationResult {
+  dryRun: boolean;
+  affectedCount: number;
+  sample: TransactionWithCategory[];
+}
+
+/**
+ * TransactionBulkService - applies one operation to every transaction matching a filter.
+ *
+ * Dry runs only count the matches and return a sample. Real runs apply the change
+ * inside a single DB transaction, so either every matching row changes or none does.
+ * Changes are recorded in each transaction's history and deleted transactions can be restored.
+ * Callers validate the operation (e.g. category ownership) beforehand.
+ */
+export class TransactionBulkService extends BaseService {
+  constructor(
+    db: Database,
+    private readonly transactionRepo: TransactionRepository
+  ) {
+    super(db);
+  }
+
+  async run(
+    userId: string,
+    filters: TransactionFilters,
+    operation: BulkOperation,
+    dryRun: boolean
+  ): Promise<BulkOperationResult> {
+    // Sample is taken before the change so deleted rows can still be shown
+    const sample = await this.transactionRepo.findAllForUser(userId, filters, BULK_SAMPLE_SIZE);
+
+    if (dryRun) {
+      const affectedCount = await this.transactionRepo.countForUser(userId, filters);
+      return { dryRun, affectedCount, sample };
+    }
+
+    const affectedCount =
+      operation.type === 'delete'
+        ? await this.transactionRepo.deleteMany(userId, filters)
+        : await this.transactionRepo.updateMany(
+            userId,
+            filters,
+            operation.type === 'set_category'
+              ? {
+                  categoryId: operation.categoryId,
+                  categoryRuleId: null, // chosen by the user, no longer explained by a rule
+                }
+              : { remarks: operation.remarks }
+          );
+
+    return { dryRun, affectedCount, sample };
+  }
+}
@@ -0,0 +1,262 @@
+import { formatInTimeZone, getTimezoneOffset } from 'date-fns-tz';
+import { type CurrencyConverter, createCurrencyConverter } from '@/lib/currency';
+import type { ExchangeRateRepository } from '@/repositories/exchange-rate.repository';
+import type {
+  TransactionFilters,
+  TransactionRepository,
+  TransactionWithCategory,
+} from '@/repositories/transaction.repository';
+
+/** Rows fetched per query while streaming an export */
+const EXPORT_PAGE_SIZE = 500;
+
+export type ExportFormat = 'csv' | 'ofx' | 'qif' | 'json';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ofx: 'application/x-ofx; charset=utf-8',
+  qif: 'application/qif; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  timezone: string; // IANA timezone dates are rendered in
+  currency: string; // user's base currency, used as the OFX statement currency
+}
+
+export interface TransactionExportService {
+  /**
+   * Stream a user's transactions matching `filters` as chunks of the requested format.
+   * Rows are read page by page, so memory use does not grow with the number of transactions.
+   */
+  export(
+    userId: string,
+    filters: TransactionFilters,
+    options: ExportOptions
+  ): AsyncGenerator<string, void, undefined>;
+}
+
+/**
+ * Options along with the user's exchange rates, converting amounts to the base currency
+ */
+interface ExportContext extends ExportOptions {
+  convert: CurrencyConverter;
+}
+
+/**
+ * Render one format: a header, one chunk per transaction and a footer
+ */
+interface ExportFormatter {
+  header(options: ExportOptions, filters: TransactionFilters): string;
+  row(txn: TransactionWithCategory, context: ExportContext, index: number): string;
+  footer(options: ExportOptions): string;
+}
+
+const signedAmount = (txn: TransactionWithCategory): string => {
+  const amount = Number.parseFloat(txn.amount).toFixed(2);
+  return txn.type === 'debit' ? `-${amount}` : amount;
+};
+
+const txnDate = (txn: TransactionWithCategory): Date => txn.transactionDate ?? txn.createdAt;
+
+/**
+ * Quote a CSV field. Text starting with a formula character is prefixed with
+ * a quote so spreadsheets do not evaluate it (numbers like "-10.50" are left alone).
+ */
+const csvField = (value: string | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const isFormula = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+  const safe = isFormula ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Single-line text for QIF/OFX, which are line/tag based
+ */
+const singleLine = (value: string | null | undefined): string =>
+  (value ?? '').replace(/\s+/g, ' ').trim();
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * OFX datetime in the user's timezone, e.g. "20260115143000[+5.75]"
+ */
+const ofxDate = (date: Date, timezone: string): string => {
+  const offsetHours = getTimezoneOffset(timezone, date) / 3_600_000;
+  const sign = offsetHours < 0 ? '-' : '+';
+  return `${formatInTimeZone(date, timezone, 'yyyyMMddHHmmss')}[${sign}${Math.abs(offsetHours)}]`;
+};
+
+const csvFormatter: ExportFormatter = {
+  header: () =>
+    `${['Date', 'Time', 'Type', 'Amount', 'Currency', 'Merchant', 'Category', 'Bank', 'Account', 'Remarks', 'ID'].join(',')}\r\n`,
+  row: (txn, { timezone }) =>
+    `${[
+      formatInTimeZone(txnDate(txn), timezone, 'yyyy-MM-dd'),
+      formatInTimeZone(txnDate(txn), timezone, 'HH:mm:ss'),
+      txn.type,
+      signedAmount(txn),
+      txn.currency,
+      txn.merchant,
+      txn.category?.name ?? 'Uncategorized',
+      txn.bankName,
+      txn.accountNumber,
+      txn.remarks,
+      txn.id,
+    ]
+      .map(csvField)
+      .join(',')}\r\n`,
+  footer: () => '',
+};
+
+/**
+ * QIF bank register (read by GnuCash and YNAB). Dates use the US MM/DD/YYYY convention.
+ */
+const qifFormatter: ExportFormatter = {
+  header: () => '!Type:Bank\n',
+  row: (txn, { timezone }) =>
+    [
+      `D${formatInTimeZone(txnDate(txn), timezone, 'MM/dd/yyyy')}`,
+      `T${signedAmount(txn)}`,
+      `P${singleLine(txn.merchant)}`,
+      `M${singleLine(txn.remarks)}`,
+      `L${singleLine(txn.category?.name ?? 'Uncategorized')}`,
+      `N${txn.id}`,
+      '^',
+      '',
+    ].join('\n'),
+  footer: () => '',
+};
+
+/**
+ * OFX 2.2 bank statement. Category names go in MEMO since OFX has no category field.
+ * Amounts are exported in each transaction's own currency; CURDEF is the user's base currency.
+ * Transactions in another currency carry a CURRENCY aggregate with its rate to CURDEF. OFX has no
+ * way to mark a currency without a rate, so when no exchange rate is known, the currency code is
+ * added to MEMO instead.
+ */
+const ofxFormatter: ExportFormatter = {
+  header: ({ currency, timezone }, { startDate, endDate }) => {
+    const now = ofxDate(new Date(), timezone);
+    const start = ofxDate(startDate ?? new Date(0), timezone);
+    const end = ofxDate(endDate ?? new Date(), timezone);
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      `<DTSERVER>${now}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+      '<BANKMSGSRSV1><STMTTRNRS><TRNUID>1</TRNUID>',
+      '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      `<STMTRS><CURDEF>${escapeXml(currency)}</CURDEF>`,
+      '<BANKACCTFROM><BANKID>AUTOFIN</BANKID><ACCTID>AUTOFIN</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>',
+      `<BANKTRANLIST><DTSTART>${start}</DTSTART><DTEND>${end}</DTEND>`,
+      '',
+    ].join('\n');
+  },
+  row: (txn, { timezone, currency, convert }) => {
+    const category = txn.category?.name ?? 'Uncategorized';
+    const isForeign = txn.currency !== null && txn.currency !== currency;
+    // Units of the base currency per unit of the transaction's currency
+    const rate = isForeign ? convert(1, txn.currency, txnDate(txn)) : null;
+    const label = isForeign && rate === null ? `${category}, ${txn.currency}` : category;
+    const memo = singleLine(txn.remarks ? `[${label}] ${txn.remarks}` : `[${label}]`);
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${txn.type === 'debit' ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+      `<DTPOSTED>${ofxDate(txnDate(txn), timezone)}</DTPOSTED>`,
+      `<TRNAMT>${signedAmount(txn)}</TRNAMT>`,
+      `<FITID>${escapeXml(txn.id)}</FITID>`,
+      `<NAME>${escapeXml(singleLine(txn.merchant || category).slice(0, 32))}</NAME>`,
+      `<MEMO>${escapeXml(memo.slice(0, 255))}</MEMO>`,
+      ...(rate !== null && txn.currency
+        ? [
+            `<CURRENCY><CURRATE>${rate.toFixed(8)}</CURRATE><CURSYM>${escapeXml(txn.currency)}</CURSYM></CURRENCY>`,
+          ]
+        : []),
+      '</STMTTRN>',
+      '',
+    ].join('\n');
+  },
+  footer: ({ timezone }) =>
+    [
+      '</BANKTRANLIST>',
+      `<LEDGERBAL><BALAMT>0.00</BALAMT><DTASOF>${ofxDate(new Date(), timezone)}</DTASOF></LEDGERBAL>`,
+      '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+      '</OFX>',
+      '',
+    ].join('\n'),
+};
+
+const jsonFormatter: ExportFormatter = {
+  header: () => '[',
+  row: (txn, { timezone }, index) =>
+    `${index > 0 ? ',' : ''}\n${JSON.stringify({
+      id: txn.id,
+      date: formatInTimeZone(txnDate(txn), timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+      type: txn.type,
+      amount: txn.amount,
+      currency: txn.currency,
+      merchant: txn.merchant,
+      category: txn.category?.name ?? 'Uncategorized',
+      bankName: txn.bankName,
+      accountNumber: txn.accountNumber,
+      remarks: txn.remarks,
+    })}`,
+  footer: () => '\n]\n',
+};
+
+const FORMATTERS: Record<ExportFormat, ExportFormatter> = {
+  csv: csvFormatter,
+  ofx: ofxFormatter,
+  qif: qifFormatter,
+  json: jsonFormatter,
+};
+
+export class TransactionExportServiceImpl implements TransactionExportService {
+  constructor(
+    private readonly transactionRepo: TransactionRepository,
+    private readonly exchangeRateRepo: ExchangeRateRepository
+  ) {}
+
+  async *export(
+    userId: string,
+    filters: TransactionFilters,
+    options: ExportOptions
+  ): AsyncGenerator<string, void, undefined> {
+    const formatter = FORMATTERS[options.format];
+    const rates = await this.exchangeRateRepo.findAllForUser(userId);
+    const context: ExportContext = {
+      ...options,
+      convert: createCurrencyConverter(rates, options.currency),
+    };
+    yield formatter.header(options, filters);
+
+    let index = 0;
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const page = await this.transactionRepo.findAllForUser(
+        userId,
+        filters,
+        EXPORT_PAGE_SIZE,
+        offset
+      );
+
+      let chunk = '';
+      for (const txn of page) {
+        chunk += formatter.row(txn, context, index++);
+      }
+      if (chunk) yield chunk;
+
+      if (page.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    yield formatter.footer(options);
+  }
+}
@@ -1,6 +1,7 @@
 import { generateText, Output } from 'ai';
 import { z } from 'zod';
 import { getAIModel } from '@/lib/ai';
+import { parseBankEmail } from '@/lib/bank-parsers';
 import type { DiscordService } from '@/services/discord.service';
 import type { LoggerService } from '@/services/logger.service';
 
@@ -33,14 +34,52 @@ function resolveCategoryId(
 }
 
 /**
- * Schema for extracted transaction data with category selection or creation.
+ * Fields extracted for every transaction, shared by message and statement extraction
+ */
+const transactionFieldsSchema = z.object({
+  amount: z.number().describe('Transaction amount as a positive number'),
+  currency: z
+    .string()
+    .nullable()
+    .describe(
+      'ISO 4217 code of the currency the amount is in (e.g., "NPR", "USD", "INR"), null if not stated'
+    ),
+  type: z.enum(['debit', 'credit']).describe('Whether money was debited or credited'),
+  merchant: z.string().nullable().describe('Merchant/payee name if identifiable, null otherwise'),
+  accountLastFour: z
+    .string()
+    .nullable()
+    .describe('Last 4 digits of the account/card number if present'),
+  bankName: z
+    .string()
+    .nullable()
+    .describe(
+      'Full official bank name with proper spacing (e.g., "HDFC Bank", "ICICI Bank", "State Bank of India"). Extract the complete name as it appears in the email, ensuring proper spacing between words. Do not use abbreviations or short forms.'
+    ),
+  date: z.string().nullable().describe('Transaction date in ISO format (YYYY-MM-DD) if present'),
+  time: z.string().nullable().describe('Transaction time if present (HH:MM:SS)'),
+  remarks: z
+    .string()
+    .nullable()
+    .describe(
+      'Transaction remarks/description extracted from the email. This field often contains detailed merchant information, location, transaction reference numbers, and other details. Extract the complete remarks text as it appears in the email.'
+    ),
+  availableBalance: z
+    .number()
+    .nullable()
+    .describe(
+      'Available/remaining account balance after the transaction if the message states it, as a number; null otherwise'
+    ),
+});
+
+/**
+ * Category selection: either pick existing or create new.
  * categoryId is accepted as string (not strict enum) so we can tolerate the model
  * returning category name or malformed ID and resolve it in code.
+ * Accept both "categoryId" and "id" so model output matches (some models return "id")
  */
-function createExtractionSchema(_categoryIds: string[]) {
-  // Category selection: either pick existing or create new
-  // Accept both "categoryId" and "id" so model output matches (some models return "id")
-  const categorySchema = z.discriminatedUnion('action', [
+const categorySchema = z
+  .discriminatedUnion('action', [
     z
       .object({
         action: z.literal('select_existing'),
@@ -104,42 +143,20 @@ function createExtractionSchema(_categoryIds: string[]) {
         action: 'uncategorized',
         categoryId: o.categoryId ?? o.id ?? '',
       })),
-  ]);
+  ])
+  .describe(
+    'Category selection: either select an existing category by ID, or create a new category if none fit well'
+  );
 
+/**
+ * Schema for extracted transaction data with category selection or creation
+ */
+function createExtractionSchema(_categoryIds: string[]) {
   return z.object({
     isTransaction: z.boolean().describe('Whether this email is a bank transaction notification'),
-    transaction: z
-      .object({
-        amount: z.number().describe('Transaction amount as a positive number'),
-        type: z.enum(['debit', 'credit']).describe('Whether money was debited or credited'),
-        merchant: z
-          .string()
-          .nullable()
-          .describe('Merchant/payee name if identifiable, null otherwise'),
-        accountLastFour: z
-          .string()
-          .nullable()
-          .describe('Last 4 digits of the account/card number if present'),
-        bankName: z
-          .string()
-          .nullable()
-          .describe(
-            'Full official bank name with proper spacing (e.g., "HDFC Bank", "ICICI Bank", "State Bank of India"). Extract the complete name as it appears in the email, ensuring proper spacing between words. Do not use abbreviations or short forms.'
-          ),
-        date: z
-          .string()
-          .nullable()
-          .describe('Transaction date in ISO format (YYYY-MM-DD) if present'),
-        time: z.string().nullable().describe('Transaction time if present (HH:MM:SS)'),
-        remarks: z
-          .string()
-          .nullable()
-          .describe(
-            'Transaction remarks/description extracted from the email. This field often contains detailed merchant information, location, transaction reference numbers, and other details. Extract the complete remarks text as it appears in the email.'
-          ),
-        category: categorySchema.describe(
-          'Category selection: either select an existing category by ID, or create a new category if none fit well'
-        ),
+    transaction: transactionFieldsSchema
+      .extend({
+        category: categorySchema,
         confidence: z.number().min(0).max(1).describe('Confidence score for the extraction (0-1)'),
       })
       .nullable()
@@ -147,8 +164,28 @@ function createExtractionSchema(_categoryIds: string[]) {
   });
 }
 
+/**
+ * Schema for the category of a transaction whose fields were already read
+ */
+const categorizationSchema = z.object({ category: categorySchema });
+
+/**
+ * Schema for the transactions listed in a chunk of bank statement text.
+ * Statement rows are not categorized by the AI; imports apply the user's rules and memories.
+ */
+const statementExtractionSchema = z.object({
+  transactions: z
+    .array(
+      transactionFieldsSchema.extend({
+        confidence: z.number().min(0).max(1).describe('Confidence score for the extraction (0-1)'),
+      })
+    )
+    .describe('Every transaction row in the statement text, in order; empty if there are none'),
+});
+
 export type TransactionData = {
   amount: number;
+  currency: string | null;
   type: 'debit' | 'credit';
   merchant: string | null;
   accountLastFour: string | null;
@@ -156,6 +193,7 @@ export type TransactionData = {
   date: string | null;
   time: string | null;
   remarks: string | null;
+  availableBalance?: number | null; // account balance after the transaction, when the message states it
   confidence: number;
 };
 
@@ -167,6 +205,72 @@ export type CategoryAction =
   | { action: 'create_new'; newCategoryName: string; newCategoryIcon: string; reason?: string }
   | { action: 'uncategorized'; categoryId: string };
 
+/**
+ * Category picked for a transaction: an existing category, or a new one the AI wants created
+ */
+export interface CategorySelection {
+  categoryId: string | null;
+  categoryName: string | null;
+  newCategory: { name: string; icon: string } | null;
+}
+
+/**
+ * Resolve the AI's category action against the available categories.
+ * Falls back to Uncategorized for unknown categories and generic "Other" suggestions.
+ */
+function toCategorySelection(
+  categoryAction: CategoryAction,
+  availableCategories: CategoryInfo[]
+): CategorySelection {
+  const categoryMap = new Map(availableCategories.map((c) => [c.id, c]));
+  const uncategorized = availableCategories.find((c) => c.name.toLowerCase() === 'uncategorized');
+
+  if (categoryAction.action === 'select_existing') {
+    // Use existing category (resolve ID/name from model to valid categoryId)
+    const resolvedId = resolveCategoryId(categoryAction.categoryId, categoryMap, uncategorized);
+    const selectedCategory = resolvedId ? categoryMap.get(resolvedId) : null;
+    const categoryId = selectedCategory?.id || uncategorized?.id || null;
+    const categoryName = selectedCategory?.name || uncategorized?.name || null;
+
+    console.log(
+      `AI selected existing category: ${categoryName} (${categoryId})${categoryAction.reason ? ` - Reason: ${categoryAction.reason}` : ''}`
+    );
+    return { categoryId, categoryName, newCategory: null };
+  }
+
+  if (categoryAction.action === 'uncategorized') {
+    // AI explicitly chose uncategorized (resolve ID/name to valid categoryId)
+    const resolvedId = resolveCategoryId(categoryAction.categoryId, categoryMap, uncategorized);
+    const selectedCategory = resolvedId ? categoryMap.get(resolvedId) : null;
+    const categoryId = selectedCategory?.id || uncategorized?.id || null;
+    const categoryName = selectedCategory?.name || uncategorized?.name || 'Uncategorized';
+
+    console.log(`AI selected uncategorized category: ${categoryName} (${categoryId})`);
+    return { categoryId, categoryName, newCategory: null };
+  }
+
+  const name = categoryAction.newCategoryName.trim();
+  const isGenericOther = !name || name.toLowerCase() === 'other' || name.toLowerCase() === 'others';
+  if (isGenericOther) {
+    // No meaningful new category – use Uncategorized instead
+    const categoryId = uncategorized?.id ?? null;
+    const categoryName = uncategorized?.name ?? 'Uncategorized';
+    console.log(
+      `AI suggested generic/empty category – using Uncategorized: ${categoryName} (${categoryId})`
+    );
+    return { categoryId, categoryName, newCategory: null };
+  }
+
+  console.log(
+    `AI suggests new category: ${categoryAction.newCategoryIcon} ${categoryAction.newCategoryName}${categoryAction.reason ? ` - Reason: ${categoryAction.reason}` : ''}`
+  );
+  return {
+    categoryId: null,
+    categoryName: categoryAction.newCategoryName,
+    newCategory: { name: categoryAction.newCategoryName, icon: categoryAction.newCategoryIcon },
+  };
+}
+
 /**
  * Final extraction result including the selected/new category
  */
@@ -180,6 +284,17 @@ export interface TransactionExtractionResult {
         newCategory: { name: string; icon: string } | null;
       })
     | null;
+  // ID of the bank parser that read the email; unset when the AI extracted it
+  parser?: string;
+}
+
+/**
+ * A past user correction, used as a few-shot example for category selection
+ */
+export interface CategoryExample {
+  merchant: string | null;
+  remarks: string | null;
+  categoryName: string;
 }
 
 export interface EmailInput {
@@ -194,13 +309,27 @@ export interface SmsInput {
 }
 
 /**
- * Build system prompt with available categories
+ * Build system prompt with available categories and the user's learned category examples
  */
-function buildSystemPrompt(categories: CategoryInfo[]): string {
+function buildSystemPrompt(categories: CategoryInfo[], examples: CategoryExample[] = []): string {
   const categoryList = categories
     .map((c) => `- "${c.name}" (id: ${c.id})${c.icon ? ` ${c.icon}` : ''}`)
     .join('\n');
 
+  const exampleList = examples
+    .map((e) => {
+      const fields = [
+        e.merchant && `merchant "${e.merchant}"`,
+        e.remarks && `remarks "${e.remarks}"`,
+      ];
+      return `- ${fields.filter(Boolean).join(', ')} → "${e.categoryName}"`;
+    })
+    .join('\n');
+  const examplesSection =
+    examples.length > 0
+      ? `\n\nCATEGORIES CHOSEN BY THIS USER (learned from their corrections - follow them for the same or similar merchants/remarks):\n${exampleList}`
+      : '';
+
   return `You are a financial message parser specialized in extracting transaction information from bank notification emails and SMS messages.
 
 Your task is to:
@@ -227,6 +356,10 @@ IMPORTANT GUIDELINES:
 - Only mark isTransaction=true for actual bank transaction alerts (not promotional messages, statements, or other notifications)
 - For SMS, look for specific patterns like "withdrawn by", "debited by", "credited with", "deposited", etc.
 - Extract the exact amount as a positive number (regardless of debit/credit)
+- For currency: return the ISO 4217 code of the amount as charged (e.g., "USD" for a card charge in dollars)
+  - "Rs", "Rs." and "NRs" in alerts from Nepali banks mean "NPR"; "INR" or "₹" mean Indian Rupees
+  - If a foreign charge also shows the converted local amount, use the amount and currency actually debited/credited to the account
+  - Use null if the currency is not stated
 - Determine if it's a 'debit' (money spent/withdrawn) or 'credit' (money received/deposited)
 - For remarks: Extract the COMPLETE remarks/description text from the email
   - Look for fields labeled "Remarks", "Description", "Transaction Details", "Narration", or similar
@@ -260,9 +393,25 @@ EXAMPLES OF WHEN TO CREATE NEW CATEGORIES:
 - Gym membership → Create "Fitness" if not in list
 - Tuition payment → Create "Education" if not in list
 - Pet store purchase → Create "Pet Care" if not in list
-- Charity donation → Create "Donations" if not in list`;
+- Charity donation → Create "Donations" if not in list${examplesSection}`;
 }
 
+const STATEMENT_SYSTEM_PROMPT = `You are a financial document parser specialized in extracting transactions from bank account and credit card statements.
+
+You receive a chunk of text extracted from a statement (e.g. copied from a PDF). It may start or end in the middle of the statement.
+
+Your task is to list EVERY transaction row in the chunk, in order:
+- Skip headers, opening/closing balances, totals, interest summaries and other non-transaction lines
+- Extract the amount as a positive number; use the debit/withdrawal and credit/deposit columns or DR/CR markers to set type
+- Do NOT use the running balance column as the amount
+- Use the transaction (value) date in ISO format (YYYY-MM-DD); use the statement period to resolve missing years
+- For remarks: extract the complete description/narration text of the row, joining wrapped lines
+- For merchant: the merchant/payee name if identifiable from the description, null otherwise
+- For currency: return the ISO 4217 code; "Rs", "Rs." and "NRs" from Nepali banks mean "NPR"; null if not stated
+- For bankName and accountLastFour: take them from the statement header when present in the chunk, otherwise null
+- Set confidence between 0 and 1 based on how certain you are about each row
+- Return an empty list if the chunk contains no transactions`;
+
 /**
  * TransactionExtractorService
  *
@@ -277,25 +426,40 @@ export class TransactionExtractorService {
 
   /**
    * Extract transaction data from an email using AI
-   * The AI can select from existing categories or suggest creating a new one
+   * The AI can select from existing categories or suggest creating a new one.
+   * Alerts in a known bank template are read by its parser instead, without calling the AI.
    *
    * @param email - The email content to analyze
    * @param availableCategories - List of categories from the database
+   * @param modelId - Model of the configured provider to use instead of the default one
    * @returns Extracted transaction data with selected or new category
    */
   async extractFromEmail(
     email: EmailInput,
-    availableCategories: CategoryInfo[]
+    availableCategories: CategoryInfo[],
+    examples: CategoryExample[] = [],
+    modelId?: string
   ): Promise<TransactionExtractionResult> {
-    const model = getAIModel();
-    const emailContent = this.formatEmailForPrompt(email);
-    const systemPrompt = buildSystemPrompt(availableCategories);
-
-    // Create a map for quick category lookup
-    const categoryMap = new Map(availableCategories.map((c) => [c.id, c]));
+    // Known bank alert templates are read deterministically without a category; the ingest
+    // pipeline applies rules, memories and merchant defaults and asks categorize() otherwise
+    const parsed = parseBankEmail(email);
+    if (parsed) {
+      console.log(`Email read by bank parser: ${parsed.parser}`);
+      return {
+        isTransaction: true,
+        parser: parsed.parser,
+        transaction: {
+          ...parsed.transaction,
+          categoryId: null,
+          categoryName: null,
+          newCategory: null,
+        },
+      };
+    }
 
-    // Find uncategorized as fallback
-    const uncategorized = availableCategories.find((c) => c.name.toLowerCase() === 'uncategorized');
+    const model = getAIModel(modelId);
+    const emailContent = this.formatEmailForPrompt(email);
+    const systemPrompt = buildSystemPrompt(availableCategories, examples);
 
     // Get category IDs for the schema enum
     const categoryIds = availableCategories.map((c) => c.id);
@@ -329,57 +493,13 @@ export class TransactionExtractorService {
       }
 
       const txn = extracted.transaction;
-      const categoryAction = txn.category as CategoryAction;
-
-      let categoryId: string | null = null;
-      let categoryName: string | null = null;
-      let newCategory: { name: string; icon: string } | null = null;
-
-      if (categoryAction.action === 'select_existing') {
-        // Use existing category (resolve ID/name from model to valid categoryId)
-        const resolvedId = resolveCategoryId(categoryAction.categoryId, categoryMap, uncategorized);
-        const selectedCategory = resolvedId ? categoryMap.get(resolvedId) : null;
-        categoryId = selectedCategory?.id || uncategorized?.id || null;
-        categoryName = selectedCategory?.name || uncategorized?.name || null;
-
-        console.log(
-          `AI selected existing category: ${categoryName} (${categoryId})${categoryAction.reason ? ` - Reason: ${categoryAction.reason}` : ''}`
-        );
-      } else if (categoryAction.action === 'uncategorized') {
-        // AI explicitly chose uncategorized (resolve ID/name to valid categoryId)
-        const resolvedId = resolveCategoryId(categoryAction.categoryId, categoryMap, uncategorized);
-        const selectedCategory = resolvedId ? categoryMap.get(resolvedId) : null;
-        categoryId = selectedCategory?.id || uncategorized?.id || null;
-        categoryName = selectedCategory?.name || uncategorized?.name || 'Uncategorized';
-
-        console.log(`AI selected uncategorized category: ${categoryName} (${categoryId})`);
-      } else if (categoryAction.action === 'create_new') {
-        const name = categoryAction.newCategoryName.trim();
-        const isGenericOther =
-          !name || name.toLowerCase() === 'other' || name.toLowerCase() === 'others';
-        if (isGenericOther) {
-          // No meaningful new category – use Uncategorized instead
-          categoryId = uncategorized?.id ?? null;
-          categoryName = uncategorized?.name ?? 'Uncategorized';
-          console.log(
-            `AI suggested generic/empty category – using Uncategorized: ${categoryName} (${categoryId})`
-          );
-        } else {
-          newCategory = {
-            name: categoryAction.newCategoryName,
-            icon: categoryAction.newCategoryIcon,
-          };
-          categoryName = categoryAction.newCategoryName;
-          console.log(
-            `AI suggests new category: ${categoryAction.newCategoryIcon} ${categoryAction.newCategoryName}${categoryAction.reason ? ` - Reason: ${categoryAction.reason}` : ''}`
-          );
-        }
-      }
+      const category = toCategorySelection(txn.category as CategoryAction, availableCategories);
 
       return {
         isTransaction: true,
         transaction: {
           amount: txn.amount,
+          currency: txn.currency,
           type: txn.type,
           merchant: txn.merchant,
           accountLastFour: txn.accountLastFour,
@@ -387,10 +507,9 @@ export class TransactionExtractorService {
           date: txn.date,
           time: txn.time,
           remarks: txn.remarks,
+          availableBalance: txn.availableBalance,
           confidence: txn.confidence,
-          categoryId,
-          categoryName,
-          newCategory,
+          ...category,
         },
       };
     } catch (error) {
@@ -414,17 +533,12 @@ export class TransactionExtractorService {
    */
   async extractFromSms(
     sms: SmsInput,
-    availableCategories: CategoryInfo[]
+    availableCategories: CategoryInfo[],
+    examples: CategoryExample[] = []
   ): Promise<TransactionExtractionResult> {
     const model = getAIModel();
     const smsContent = this.formatSmsForPrompt(sms);
-    const systemPrompt = buildSystemPrompt(availableCategories);
-
-    // Create a map for quick category lookup
-    const categoryMap = new Map(availableCategories.map((c) => [c.id, c]));
-
-    // Find uncategorized as fallback
-    const uncategorized = availableCategories.find((c) => c.name.toLowerCase() === 'uncategorized');
+    const systemPrompt = buildSystemPrompt(availableCategories, examples);
 
     // Get category IDs for the schema enum
     const categoryIds = availableCategories.map((c) => c.id);
@@ -457,42 +571,13 @@ export class TransactionExtractorService {
       }
 
       const txn = extracted.transaction;
-      const categoryAction = txn.category as CategoryAction;
-
-      let categoryId: string | null = null;
-      let categoryName: string | null = null;
-      let newCategory: { name: string; icon: string } | null = null;
-
-      if (categoryAction.action === 'select_existing') {
-        const resolvedId = resolveCategoryId(categoryAction.categoryId, categoryMap, uncategorized);
-        const selectedCategory = resolvedId ? categoryMap.get(resolvedId) : null;
-        categoryId = selectedCategory?.id || uncategorized?.id || null;
-        categoryName = selectedCategory?.name || uncategorized?.name || null;
-      } else if (categoryAction.action === 'uncategorized') {
-        const resolvedId = resolveCategoryId(categoryAction.categoryId, categoryMap, uncategorized);
-        const selectedCategory = resolvedId ? categoryMap.get(resolvedId) : null;
-        categoryId = selectedCategory?.id || uncategorized?.id || null;
-        categoryName = selectedCategory?.name || uncategorized?.name || 'Uncategorized';
-      } else if (categoryAction.action === 'create_new') {
-        const name = categoryAction.newCategoryName.trim();
-        const isGenericOther =
-          !name || name.toLowerCase() === 'other' || name.toLowerCase() === 'others';
-        if (isGenericOther) {
-          categoryId = uncategorized?.id ?? null;
-          categoryName = uncategorized?.name ?? 'Uncategorized';
-        } else {
-          newCategory = {
-            name: categoryAction.newCategoryName,
-            icon: categoryAction.newCategoryIcon,
-          };
-          categoryName = categoryAction.newCategoryName;
-        }
-      }
+      const category = toCategorySelection(txn.category as CategoryAction, availableCategories);
 
       return {
         isTransaction: true,
         transaction: {
           amount: txn.amount,
+          currency: txn.currency,
           type: txn.type,
           merchant: txn.merchant,
           accountLastFour: txn.accountLastFour,
@@ -500,10 +585,9 @@ export class TransactionExtractorService {
           date: txn.date,
           time: txn.time,
           remarks: txn.remarks,
+          availableBalance: txn.availableBalance,
           confidence: txn.confidence,
-          categoryId,
-          categoryName,
-          newCategory,
+          ...category,
         },
       };
     } catch (error) {
@@ -516,6 +600,72 @@ export class TransactionExtractorService {
     }
   }
 
+  /**
+   * Pick the category of a transaction whose fields were already read, e.g. by a bank parser.
+   * Only the category is asked from the AI; failures fall back to Uncategorized.
+   *
+   * @param txn - The transaction read from the message
+   * @param availableCategories - List of categories from the database
+   * @param modelId - Model of the configured provider to use instead of the default one
+   * @returns The selected category, or the new category the AI suggests
+   */
+  async categorize(
+    txn: TransactionData,
+    availableCategories: CategoryInfo[],
+    examples: CategoryExample[] = [],
+    modelId?: string
+  ): Promise<CategorySelection> {
+    const uncategorized = availableCategories.find((c) => c.name.toLowerCase() === 'uncategorized');
+    const fallback: CategorySelection = {
+      categoryId: uncategorized?.id ?? null,
+      categoryName: uncategorized?.name ?? null,
+      newCategory: null,
+    };
+    if (availableCategories.length === 0) {
+      return fallback;
+    }
+
+    try {
+      const result = await generateText({
+        model: getAIModel(modelId),
+        output: Output.object({ schema: categorizationSchema }),
+        system: buildSystemPrompt(availableCategories, examples),
+        prompt: this.formatTransactionForPrompt(txn),
+      });
+
+      return toCategorySelection(result.output.category as CategoryAction, availableCategories);
+    } catch (error) {
+      this.loggerService.error('AI categorization failed', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Extract the transaction rows from a chunk of bank statement text using AI.
+   * Callers split long statements into chunks; errors are thrown so the caller can report
+   * which part of the statement could not be read.
+   *
+   * @param text - Statement text, e.g. extracted from a PDF
+   * @returns Transactions in the order they appear, without categories
+   */
+  async extractFromStatement(text: string): Promise<TransactionData[]> {
+    const model = getAIModel();
+
+    try {
+      const result = await generateText({
+        model,
+        output: Output.object({ schema: statementExtractionSchema }),
+        system: STATEMENT_SYSTEM_PROMPT,
+        prompt: `Statement text:\n${text}`,
+      });
+
+      return result.output.transactions;
+    } catch (error) {
+      this.loggerService.error('AI statement extraction failed', error);
+      throw error;
+    }
+  }
+
   /**
    * Format SMS content for the AI prompt
    */
@@ -554,6 +704,28 @@ export class TransactionExtractorService {
     return parts.join('\n');
   }
 
+  /**
+   * Format an already-read transaction for the categorize() prompt
+   */
+  private formatTransactionForPrompt(txn: TransactionData): string {
+    const parts = [
+      'This bank transaction was already read from the alert. Only choose its category.',
+      '',
+      `Type: ${txn.type}`,
+      `Amount: ${txn.amount}${txn.currency ? ` ${txn.currency}` : ''}`,
+    ];
+
+    if (txn.merchant) {
+      parts.push(`Merchant: ${txn.merchant}`);
+    }
+
+    if (txn.remarks) {
+      parts.push(`Remarks: ${txn.remarks}`);
+    }
+
+    return parts.join('\n');
+  }
+
   /**
    * Check if extraction result has valid transaction data
    */
@@ -570,6 +742,7 @@ export class TransactionExtractorService {
 // Export a basic schema for reference (not used directly, schema is generated dynamically)
 export const transactionDataSchema = z.object({
   amount: z.number(),
+  currency: z.string().nullable(),
   type: z.enum(['debit', 'credit']),
   merchant: z.string().nullable(),
   accountLastFour: z.string().nullable(),
@@ -577,5 +750,6 @@ export const transactionDataSchema = z.object({
   date: z.string().nullable(),
   time: z.string().nullable(),
   remarks: z.string().nullable(),
+  availableBalance: z.number().nullable().optional(),
   confidence: z.number().min(0).max(1),
 });
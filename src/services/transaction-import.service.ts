@@ -0,0 +1,469 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Database } from '@/db/connection';
+import {
+  type NewTransaction,
+  type StatementImport,
+  type Transaction,
+  transactions,
+} from '@/db/schema';
+import { parseCsv } from '@/lib/csv';
+import { DEFAULT_CURRENCY, normalizeCurrency } from '@/lib/currency';
+import {
+  batchStatementLines,
+  parseStatementAmount,
+  parseStatementDate,
+  type StatementDateOrder,
+} from '@/lib/statement';
+import { localToUtc } from '@/lib/timezone';
+import type { StatementImportRepository } from '@/repositories/statement-import.repository';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+import { BaseService } from './base.service';
+import type { CategorizationService } from './categorization.service';
+import type { TransactionExtractorService } from './transaction-extractor.service';
+
+/** Most statement text lines sent to the extractor per AI call */
+const STATEMENT_BATCH_LINES = 60;
+
+/** Most rows a single import may contain */
+export const MAX_IMPORT_ROWS = 2000;
+
+/** Days a statement date may differ from a recorded transaction (posting vs alert date) */
+const DUPLICATE_DATE_TOLERANCE_DAYS = 1;
+
+/**
+ * CSV header names holding each field. Amounts come either from one signed `amount` column
+ * (negative = debit, unless a `type` column says otherwise) or from separate `debit`/`credit` columns.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  type?: string; // values like "DR"/"CR" or "debit"/"credit"
+  description?: string; // stored as remarks
+  merchant?: string;
+  currency?: string;
+  account?: string;
+}
+
+/**
+ * Values applied to rows that do not state them
+ */
+export interface StatementDefaults {
+  currency?: string;
+  bankName?: string;
+  accountNumber?: string;
+}
+
+/**
+ * A CSV statement to preview. Statement text is imported in the background instead.
+ */
+export interface StatementImportInput {
+  format: 'csv';
+  content: string;
+  mapping: CsvColumnMapping;
+  dateOrder: StatementDateOrder;
+  delimiter: string;
+  skipRows: number; // lines before the header row (bank name, statement period, ...)
+  defaults: StatementDefaults;
+}
+
+/**
+ * A normalized statement row. Previews return these and commits accept them back,
+ * so users can drop or fix rows in between.
+ */
+export interface StatementRow {
+  line: number | null; // 1-based source line, null for rows read by the AI
+  date: string; // YYYY-MM-DD in the user's timezone
+  time: string | null; // HH:MM:SS
+  amount: number; // positive
+  type: 'debit' | 'credit';
+  currency: string;
+  merchant: string | null;
+  remarks: string | null;
+  accountNumber: string | null;
+  bankName: string | null;
+  confidence: number | null; // AI confidence for rows read from statement text
+}
+
+export interface StatementRowError {
+  line: number | null;
+  message: string;
+}
+
+export interface ImportPreviewRow extends StatementRow {
+  duplicateOf: Transaction | null; // existing transaction this row was matched to
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  duplicateCount: number;
+  errors: StatementRowError[];
+}
+
+export interface ImportCommitResult {
+  imported: Transaction[];
+  skippedDuplicates: number;
+}
+
+/**
+ * Last four digits of an account number, null when it has none
+ */
+const lastFour = (value: string | null | undefined): string | null => {
+  const digits = (value ?? '').replace(/\D/g, '');
+  return digits ? digits.slice(-4) : null;
+};
+
+const dayNumber = (date: string): number => Date.parse(`${date}T00:00:00Z`) / 86_400_000;
+
+const emptyToNull = (value: string | undefined): string | null => value?.trim() || null;
+
+/**
+ * Non-empty lines of statement text in the batches read per AI call, with the 0-based index of
+ * each batch's first line. Batches start at a row so wrapped rows are read whole.
+ */
+export function batchStatementText(content: string): { offset: number; lines: string[] }[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+  let offset = 0;
+  return batchStatementLines(lines, STATEMENT_BATCH_LINES).map((batch) => {
+    const start = offset;
+    offset += batch.length;
+    return { offset: start, lines: batch };
+  });
+}
+
+/**
+ * TransactionImportService - imports bank statements (CSV or statement text).
+ *
+ * Imports happen in two steps: `preview` parses the statement and matches every row against
+ * transactions already recorded (usually from bank alert emails) without writing anything;
+ * `commit` saves the confirmed rows in a single DB transaction, skipping duplicates again so
+ * nothing is counted twice even if new alerts arrived in between.
+ *
+ * Statement text is read by the AI in the background instead (`statement-import` Inngest function,
+ * one `readTextBatch` per batch of lines); `getTextImport` returns its preview once all batches
+ * are read.
+ */
+export class TransactionImportService extends BaseService {
+  constructor(
+    db: Database,
+    private readonly transactionRepo: TransactionRepository,
+    private readonly userRepo: UserRepository,
+    private readonly categorizationService: CategorizationService,
+    private readonly transactionExtractor: TransactionExtractorService,
+    private readonly statementImportRepo: StatementImportRepository
+  ) {
+    super(db);
+  }
+
+  async preview(userId: string, input: StatementImportInput): Promise<ImportPreview> {
+    const user = await this.userRepo.findById(userId);
+    const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+    const { rows, errors } = this.parseCsvStatement(input, baseCurrency);
+    return this.toPreview(userId, rows, errors);
+  }
+
+  /**
+   * Read one batch of a statement text import with the AI.
+   * Rows the AI could not read, and batches it failed on, are returned as errors.
+   */
+  async readTextBatch(
+    statementImport: StatementImport,
+    batchIndex: number
+  ): Promise<{ rows: StatementRow[]; errors: StatementRowError[] }> {
+    const batch = batchStatementText(statementImport.content)[batchIndex];
+    if (!batch) {
+      return { rows: [], errors: [] };
+    }
+
+    const user = await this.userRepo.findById(statementImport.userId);
+    const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+    return this.extractTextBatch(batch, statementImport.defaults, baseCurrency);
+  }
+
+  /**
+   * Get a user's statement text import, with its preview once every batch is read.
+   * Throws 'Statement import not found'.
+   */
+  async getTextImport(
+    userId: string,
+    importId: string
+  ): Promise<{ statementImport: StatementImport; preview: ImportPreview | null }> {
+    const statementImport = await this.statementImportRepo.findById(importId, userId);
+    if (!statementImport) {
+      throw new Error('Statement import not found');
+    }
+    if (statementImport.status !== 'completed') {
+      return { statementImport, preview: null };
+    }
+
+    // Duplicates are matched now, against the transactions recorded by the time of the request
+    const preview = await this.toPreview(
+      userId,
+      [...(statementImport.rows as StatementRow[])],
+      [...(statementImport.errors as StatementRowError[])]
+    );
+    return { statementImport, preview };
+  }
+
+  /**
+   * Cap the rows of a parsed statement and match them against recorded transactions
+   */
+  private async toPreview(
+    userId: string,
+    rows: StatementRow[],
+    errors: StatementRowError[]
+  ): Promise<ImportPreview> {
+    const user = await this.userRepo.findById(userId);
+    const timezone = user?.timezone ?? 'Asia/Kathmandu';
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      errors.push({
+        line: null,
+        message: `Statement has ${rows.length} rows; only the first ${MAX_IMPORT_ROWS} are imported`,
+      });
+      rows.length = MAX_IMPORT_ROWS;
+    }
+
+    const duplicates = await this.matchDuplicates(userId, rows, timezone);
+    const previewRows = rows.map((row, i) => ({ ...row, duplicateOf: duplicates[i] }));
+
+    return {
+      rows: previewRows,
+      duplicateCount: duplicates.filter(Boolean).length,
+      errors,
+    };
+  }
+
+  async commit(
+    userId: string,
+    rows: StatementRow[],
+    skipDuplicates: boolean
+  ): Promise<ImportCommitResult> {
+    const user = await this.userRepo.findById(userId);
+    const timezone = user?.timezone ?? 'Asia/Kathmandu';
+
+    const duplicates = skipDuplicates ? await this.matchDuplicates(userId, rows, timezone) : [];
+    const toImport = rows.filter((_, i) => !duplicates[i]);
+
+    const values: NewTransaction[] = [];
+    for (const row of toImport) {
+      const match = await this.categorizationService.categorize(userId, {
+        merchant: row.merchant,
+        remarks: row.remarks,
+      });
+      values.push({
+        id: crypto.randomUUID(),
+        userId,
+        categoryId: match?.categoryId ?? null,
+        categoryRuleId: match?.ruleId ?? null,
+        amount: row.amount.toFixed(2),
+        type: row.type,
+        currency: row.currency,
+        merchant: row.merchant,
+        accountNumber: lastFour(row.accountNumber),
+        bankName: row.bankName,
+        transactionDate: localToUtc(row.date, row.time, timezone),
+        remarks: row.remarks,
+        aiConfidence: row.confidence?.toFixed(2) ?? null,
+        isAiCreated: row.confidence !== null,
+      });
+    }
+
+    const imported =
+      values.length > 0
+        ? await this.db.transaction((tx) => tx.insert(transactions).values(values).returning())
+        : [];
+
+    return { imported, skippedDuplicates: rows.length - toImport.length };
+  }
+
+  /**
+   * Match statement rows to recorded transactions with the same amount, type and currency,
+   * a date at most one day apart and the same account (when both sides know it).
+   * Each recorded transaction matches at most one row, so repeated identical purchases
+   * on a statement are only flagged as often as they were recorded.
+   */
+  private async matchDuplicates(
+    userId: string,
+    rows: StatementRow[],
+    timezone: string
+  ): Promise<(Transaction | null)[]> {
+    if (rows.length === 0) return [];
+
+    const dates = rows.map((row) => row.date).sort();
+    const start = localToUtc(dates[0], null, timezone);
+    const end = localToUtc(dates[dates.length - 1], '23:59:59', timezone);
+    const toleranceMs = DUPLICATE_DATE_TOLERANCE_DAYS * 86_400_000;
+
+    const existing = await this.transactionRepo.findInDateRange(
+      userId,
+      new Date(start.getTime() - toleranceMs),
+      new Date(end.getTime() + toleranceMs)
+    );
+    const candidates = existing.map((txn) => ({
+      txn,
+      day: dayNumber(
+        formatInTimeZone(txn.transactionDate ?? txn.createdAt, timezone, 'yyyy-MM-dd')
+      ),
+      cents: Math.round(Number.parseFloat(txn.amount) * 100),
+      account: lastFour(txn.accountNumber),
+    }));
+    const matched = new Set<string>();
+
+    return rows.map((row) => {
+      const day = dayNumber(row.date);
+      const cents = Math.round(row.amount * 100);
+      const account = lastFour(row.accountNumber);
+
+      let best: { txn: Transaction; distance: number } | null = null;
+      for (const candidate of candidates) {
+        const distance = Math.abs(candidate.day - day);
+        if (
+          matched.has(candidate.txn.id) ||
+          candidate.cents !== cents ||
+          candidate.txn.type !== row.type ||
+          (candidate.txn.currency ?? DEFAULT_CURRENCY) !== row.currency ||
+          distance > DUPLICATE_DATE_TOLERANCE_DAYS ||
+          (account && candidate.account && account !== candidate.account)
+        ) {
+          continue;
+        }
+        if (!best || distance < best.distance) best = { txn: candidate.txn, distance };
+      }
+
+      if (!best) return null;
+      matched.add(best.txn.id);
+      return best.txn;
+    });
+  }
+
+  private parseCsvStatement(
+    input: StatementImportInput,
+    baseCurrency: string
+  ): { rows: StatementRow[]; errors: StatementRowError[] } {
+    const { mapping, defaults } = input;
+    const rows: StatementRow[] = [];
+    const errors: StatementRowError[] = [];
+
+    const records = parseCsv(input.content, input.delimiter).slice(input.skipRows);
+    const header = records[0]?.map((name) => name.trim().toLowerCase()) ?? [];
+
+    const columns: Partial<Record<keyof CsvColumnMapping, number>> = {};
+    for (const [field, name] of Object.entries(mapping) as [keyof CsvColumnMapping, string][]) {
+      if (!name) continue;
+      const index = header.indexOf(name.trim().toLowerCase());
+      if (index === -1) {
+        errors.push({ line: null, message: `Column "${name}" not found in the header row` });
+      }
+      columns[field] = index;
+    }
+    if (errors.length > 0) return { rows, errors };
+
+    const cell = (record: string[], field: keyof CsvColumnMapping): string | undefined =>
+      columns[field] === undefined ? undefined : record[columns[field]];
+
+    records.slice(1).forEach((record, i) => {
+      const line = input.skipRows + i + 2; // 1-based, after the header row
+
+      const parsedDate = parseStatementDate(cell(record, 'date') ?? '', input.dateOrder);
+      if (!parsedDate) {
+        errors.push({ line, message: `Invalid date "${cell(record, 'date') ?? ''}"` });
+        return;
+      }
+
+      let signed: number | null;
+      if (columns.amount !== undefined) {
+        signed = parseStatementAmount(cell(record, 'amount') ?? '');
+      } else {
+        const debit = parseStatementAmount(cell(record, 'debit') ?? '');
+        const credit = parseStatementAmount(cell(record, 'credit') ?? '');
+        signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+      }
+      if (!signed) {
+        errors.push({ line, message: 'Missing or zero amount' });
+        return;
+      }
+
+      const typeCell = cell(record, 'type')?.trim().toLowerCase();
+      const type: 'debit' | 'credit' = typeCell
+        ? /^(dr|debit|withdrawal|d)\b/.test(typeCell)
+          ? 'debit'
+          : 'credit'
+        : signed < 0
+          ? 'debit'
+          : 'credit';
+
+      rows.push({
+        line,
+        date: parsedDate.date,
+        time: parsedDate.time,
+        amount: Math.abs(signed),
+        type,
+        currency: normalizeCurrency(
+          emptyToNull(cell(record, 'currency')) ?? defaults.currency,
+          baseCurrency
+        ),
+        merchant: emptyToNull(cell(record, 'merchant')),
+        remarks: emptyToNull(cell(record, 'description')),
+        accountNumber: emptyToNull(cell(record, 'account')) ?? defaults.accountNumber ?? null,
+        bankName: defaults.bankName ?? null,
+        confidence: null,
+      });
+    });
+
+    return { rows, errors };
+  }
+
+  /**
+   * Read a batch of statement text lines with the AI
+   */
+  private async extractTextBatch(
+    batch: { offset: number; lines: string[] },
+    defaults: StatementDefaults,
+    baseCurrency: string
+  ): Promise<{ rows: StatementRow[]; errors: StatementRowError[] }> {
+    const rows: StatementRow[] = [];
+    const errors: StatementRowError[] = [];
+    const batchLabel = `lines ${batch.offset + 1}-${batch.offset + batch.lines.length}`;
+
+    let extracted: Awaited<ReturnType<TransactionExtractorService['extractFromStatement']>>;
+    try {
+      extracted = await this.transactionExtractor.extractFromStatement(batch.lines.join('\n'));
+    } catch {
+      errors.push({ line: null, message: `Could not read statement ${batchLabel}` });
+      return { rows, errors };
+    }
+
+    for (const txn of extracted) {
+      const parsedDate = txn.date
+        ? parseStatementDate(`${txn.date} ${txn.time ?? ''}`, 'YMD')
+        : null;
+      if (!parsedDate || !(txn.amount > 0)) {
+        errors.push({
+          line: null,
+          message: `Skipped a row without a valid date or amount in ${batchLabel}`,
+        });
+        continue;
+      }
+
+      rows.push({
+        line: null,
+        date: parsedDate.date,
+        time: parsedDate.time,
+        amount: txn.amount,
+        type: txn.type,
+        currency: normalizeCurrency(txn.currency ?? defaults.currency, baseCurrency),
+        merchant: txn.merchant,
+        remarks: txn.remarks,
+        accountNumber: defaults.accountNumber ?? txn.accountLastFour,
+        bankName: defaults.bankName ?? txn.bankName,
+        confidence: txn.confidence,
+      });
+    }
+
+    return { rows, errors };
+  }
+}
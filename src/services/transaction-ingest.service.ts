@@ -0,0 +1,279 @@
+import type { Merchant, Transaction } from '@/db/schema';
+import { DEFAULT_CURRENCY, normalizeCurrency } from '@/lib/currency';
+import { localToUtc } from '@/lib/timezone';
+import type { CategoryRepository } from '@/repositories/category.repository';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+import type { AccountService } from './account.service';
+import type { BudgetService } from './budget.service';
+import type { CategorizationService } from './categorization.service';
+import type { DiscordService } from './discord.service';
+import type { MerchantService } from './merchant.service';
+import type {
+  CategorySelection,
+  TransactionExtractionResult,
+  TransactionExtractorService,
+} from './transaction-extractor.service';
+import type { TransferService } from './transfer.service';
+
+type ExtractedTransaction = NonNullable<TransactionExtractionResult['transaction']>;
+
+export interface SaveExtractedTransactionInput {
+  userId: string;
+  extraction: TransactionExtractionResult;
+  source: 'gmail' | 'api_sms';
+  emailId?: string;
+  mailbox?: string; // Gmail address the email was received in
+  rawEmailContent?: string;
+}
+
+/**
+ * TransactionIngestService - saves transactions extracted by the AI from emails and SMS.
+ *
+ * Shared by the Gmail pipeline and the SMS route so both apply the same steps:
+ * 1. Look up the merchant in the directory, creating it when new
+ * 2. Look up the account by bank name and last 4 digits
+ * 3. Pick the category: rules, learned categories and the merchant's default category override
+ *    the AI, whose suggested new category is created otherwise. Transactions read by a bank
+ *    parser carry no category, so the AI is asked for the category alone
+ * 4. Convert the date from the user's timezone and save; extractions less confident than the
+ *    user's review threshold are saved as `pending_review`
+ * 5. Record the reported account balance, notify Discord, match transfers and send budget alerts
+ */
+export interface TransactionIngestService {
+  /**
+   * Save an extracted transaction. Throws if the extraction holds no transaction.
+   * Unique constraint errors (duplicate emailId) are propagated to the caller.
+   */
+  saveExtracted(input: SaveExtractedTransactionInput): Promise<Transaction>;
+}
+
+export class TransactionIngestServiceImpl implements TransactionIngestService {
+  constructor(
+    private readonly transactionRepo: TransactionRepository,
+    private readonly categoryRepo: CategoryRepository,
+    private readonly userRepo: UserRepository,
+    private readonly categorizationService: CategorizationService,
+    private readonly discordService: DiscordService,
+    private readonly budgetService: BudgetService,
+    private readonly transferService: TransferService,
+    private readonly merchantService: MerchantService,
+    private readonly accountService: AccountService,
+    private readonly transactionExtractor: TransactionExtractorService
+  ) {}
+
+  async saveExtracted(input: SaveExtractedTransactionInput): Promise<Transaction> {
+    const { userId, extraction, source } = input;
+    const txn = extraction.transaction;
+    if (!txn) {
+      throw new Error('Extraction result does not contain a transaction');
+    }
+
+    // Fetch user timezone for date conversion and base currency as the fallback currency
+    const user = await this.userRepo.findById(userId);
+    const userTimezone = user?.timezone ?? 'Asia/Kathmandu';
+    const userBaseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+    // Unsure extractions wait in the review queue instead of counting right away
+    const pendingReview = txn.confidence < Number(user?.reviewThreshold ?? 0);
+
+    // Link to the merchant directory; a failed lookup must not fail the save
+    const merchant = await this.merchantService.resolve(userId, txn.merchant).catch((error) => {
+      console.error('Merchant resolution failed:', error);
+      return null;
+    });
+
+    const account = await this.accountService
+      .findForTransaction(userId, txn.bankName, txn.accountLastFour)
+      .catch((error) => {
+        console.error('Account lookup failed:', error);
+        return null;
+      });
+
+    const { categoryId, categoryRuleId, categoryLabel } = await this.resolveCategory(
+      userId,
+      txn,
+      merchant,
+      extraction.parser
+    );
+
+    // Parse transaction date and convert from user's timezone to UTC
+    let transactionDate: Date | null = null;
+    if (txn.date) {
+      try {
+        transactionDate = localToUtc(txn.date, txn.time ?? null, userTimezone);
+      } catch {
+        console.warn(`Failed to parse transaction date: ${txn.date}`);
+      }
+    }
+
+    const created = await this.transactionRepo.create({
+      id: crypto.randomUUID(),
+      userId,
+      categoryId,
+      categoryRuleId,
+      amount: txn.amount.toString(),
+      type: txn.type,
+      currency: normalizeCurrency(txn.currency, userBaseCurrency),
+      merchant: txn.merchant,
+      merchantId: merchant?.id ?? null,
+      accountId: account?.id ?? null,
+      accountNumber: txn.accountLastFour,
+      bankName: txn.bankName,
+      transactionDate,
+      remarks: txn.remarks,
+      emailId: input.emailId,
+      mailbox: input.mailbox,
+      rawEmailContent: input.rawEmailContent?.substring(0, 10000), // Limit storage size
+      aiConfidence: txn.confidence.toString(),
+      aiExtractedData: extraction,
+      isAiCreated: true,
+      status: pendingReview ? 'pending_review' : 'confirmed',
+    });
+
+    // Alerts that state the available balance keep the account's reported balance current
+    if (account && txn.availableBalance != null) {
+      await this.accountService
+        .recordReportedBalance(
+          account.id,
+          txn.availableBalance,
+          transactionDate ?? created.createdAt
+        )
+        .catch((error) => console.error('Recording reported balance failed:', error));
+    }
+
+    void this.discordService.notifyNewTransaction({
+      id: created.id,
+      amount: created.amount,
+      type: txn.type,
+      merchant: txn.merchant,
+      source,
+      category: categoryLabel,
+      transactionDate: transactionDate?.toISOString() ?? null,
+      pendingReview,
+    });
+
+    // Failed transfer matching or budget checks must not fail the save;
+    // pending transactions are checked on approval
+    if (!pendingReview) {
+      const transferPeer = await this.transferService.matchTransaction(created).catch((error) => {
+        console.error('Transfer matching failed:', error);
+        return null;
+      });
+      if (transferPeer) {
+        console.log(`Transaction ${created.id} linked as a transfer with ${transferPeer.id}`);
+      } else {
+        await this.budgetService
+          .notifyThresholdsCrossed(created)
+          .catch((error) => console.error('Budget threshold check failed:', error));
+      }
+    }
+
+    console.log(
+      `Transaction saved: ${txn.type} ${txn.amount} from ${txn.merchant || 'Unknown'} [${categoryLabel}]`
+    );
+
+    return created;
+  }
+
+  /**
+   * Pick the category for an extracted transaction.
+   * A matching user rule or learned memory, then the merchant's default category, wins over the AI;
+   * otherwise use the AI's choice, creating the category it suggested when needed.
+   * Parser-read transactions have no AI choice yet, so the AI is asked for the category only.
+   */
+  private async resolveCategory(
+    userId: string,
+    txn: ExtractedTransaction,
+    merchant: Merchant | null,
+    parser: string | undefined
+  ): Promise<{ categoryId: string | null; categoryRuleId: string | null; categoryLabel: string }> {
+    const match = await this.categorizationService.categorize(userId, {
+      merchant: txn.merchant,
+      remarks: txn.remarks,
+    });
+    if (match) {
+      const category = await this.categoryRepo.findById(match.categoryId);
+      const origin = match.ruleId ? 'rule' : 'learned';
+      console.log(`Category ${origin} matched, overriding AI category`);
+      return {
+        categoryId: match.categoryId,
+        categoryRuleId: match.ruleId,
+        categoryLabel: category ? `${category.icon} ${category.name} (${origin})` : 'Uncategorized',
+      };
+    }
+
+    if (merchant?.categoryId) {
+      const category = await this.categoryRepo.findById(merchant.categoryId);
+      if (category) {
+        console.log(`Merchant ${merchant.name} has a default category, overriding AI category`);
+        return {
+          categoryId: category.id,
+          categoryRuleId: null,
+          categoryLabel: `${category.icon} ${category.name} (merchant)`,
+        };
+      }
+    }
+
+    const choice: CategorySelection = parser ? await this.categorizeParsed(userId, txn) : txn;
+    if (!choice.newCategory) {
+      return {
+        categoryId: choice.categoryId,
+        categoryRuleId: null,
+        categoryLabel: choice.categoryName || 'Uncategorized',
+      };
+    }
+
+    // AI suggested creating a new category
+    const suggested = choice.newCategory;
+    let categoryId = choice.categoryId;
+    try {
+      const newCategory = await this.categoryRepo.create({
+        id: crypto.randomUUID(),
+        userId, // Associate with this user
+        name: suggested.name,
+        icon: suggested.icon,
+        isDefault: false, // User-specific category created by AI
+        isAiCreated: true, // Created by AI
+      });
+      categoryId = newCategory.id;
+      console.log(
+        `Created new category: ${newCategory.icon} ${newCategory.name} (${newCategory.id})`
+      );
+    } catch (categoryError) {
+      // If category creation fails (e.g., duplicate name), try to find existing
+      console.warn(
+        `Failed to create category "${suggested.name}", looking for existing:`,
+        categoryError
+      );
+      const existingCategory = await this.categoryRepo.findByNameForUser(suggested.name, userId);
+      if (existingCategory) {
+        categoryId = existingCategory.id;
+        console.log(`Using existing category: ${existingCategory.name}`);
+      }
+    }
+
+    return {
+      categoryId,
+      categoryRuleId: null,
+      categoryLabel: `${suggested.icon} ${suggested.name} (new)`,
+    };
+  }
+
+  /**
+   * Ask the AI for the category of a transaction read by a bank parser
+   */
+  private async categorizeParsed(
+    userId: string,
+    txn: ExtractedTransaction
+  ): Promise<CategorySelection> {
+    const [categories, examples] = await Promise.all([
+      this.categoryRepo.findAllForUser(userId),
+      this.categorizationService.getPromptExamples(userId),
+    ]);
+    return this.transactionExtractor.categorize(
+      txn,
+      categories.map((c) => ({ id: c.id, name: c.name, icon: c.icon })),
+      examples
+    );
+  }
+}
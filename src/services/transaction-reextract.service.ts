@@ -0,0 +1,444 @@
+import type { Transaction, TransactionReextraction, TransactionReextractJob } from '@/db/schema';
+import { DEFAULT_CURRENCY, normalizeCurrency } from '@/lib/currency';
+import { localToUtc } from '@/lib/timezone';
+import type { CategoryRepository } from '@/repositories/category.repository';
+import type { EmailIngestionRepository } from '@/repositories/email-ingestion.repository';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type { TransactionReextractJobRepository } from '@/repositories/transaction-reextract-job.repository';
+import type { TransactionReextractionRepository } from '@/repositories/transaction-reextraction.repository';
+import type { TransactionSplitRepository } from '@/repositories/transaction-split.repository';
+import type { UserRepository } from '@/repositories/user.repository';
+import type { AccountService } from './account.service';
+import type { CategorizationService } from './categorization.service';
+import type { MerchantService } from './merchant.service';
+import type {
+  CategoryExample,
+  CategoryInfo,
+  TransactionExtractionResult,
+  TransactionExtractorService,
+} from './transaction-extractor.service';
+
+/** Transaction fields compared and updated by a re-extraction */
+export const REEXTRACT_FIELDS = [
+  'amount',
+  'type',
+  'currency',
+  'merchant',
+  'accountNumber',
+  'bankName',
+  'transactionDate',
+  'remarks',
+  'categoryId',
+] as const;
+
+export type ReextractField = (typeof REEXTRACT_FIELDS)[number];
+
+export interface ReextractFieldChange {
+  field: ReextractField;
+  current: string | null;
+  proposed: string | null;
+}
+
+export interface ReextractOptions {
+  modelId?: string;
+}
+
+export interface ReextractResult {
+  id: string; // re-extraction to apply the changes of
+  transaction: Transaction; // updated row when applied, otherwise the current one
+  isTransaction: boolean;
+  confidence: number | null;
+  changes: ReextractFieldChange[];
+  applied: boolean;
+}
+
+interface ReextractContext {
+  categories: CategoryInfo[];
+  examples: CategoryExample[];
+  timezone: string;
+  baseCurrency: string;
+}
+
+type ProposedFields = Record<ReextractField, string | null> & { categoryRuleId: string | null };
+
+/**
+ * Transaction column values in the form re-extractions compare them
+ */
+function toCurrentFields(transaction: Transaction): Record<ReextractField, string | null> {
+  return {
+    amount: Number(transaction.amount).toFixed(2),
+    type: transaction.type,
+    currency: transaction.currency,
+    merchant: transaction.merchant,
+    accountNumber: transaction.accountNumber,
+    bankName: transaction.bankName,
+    transactionDate: transaction.transactionDate?.toISOString() ?? null,
+    remarks: transaction.remarks,
+    categoryId: transaction.categoryId,
+  };
+}
+
+/**
+ * TransactionReextractService - runs the AI extractor again on the raw email stored with a
+ * transaction and compares the result with the saved row, field by field. The email's sender and
+ * subject are taken from its `email_ingestions` record, so known bank templates are parsed again.
+ *
+ * Re-extracting stores the result as a preview (`transaction_reextractions`) without changing the
+ * transaction; the least confident transactions are re-extracted in a background job
+ * (`transaction-reextract` Inngest function). Applying a preview writes its stored values, never extracting again, along with the
+ * AI confidence and extraction data. Categories follow the ingest pipeline (rules, learned
+ * categories and the merchant's default category win over the AI), but re-extraction never creates
+ * a category: when the AI suggests a new one, the current category is kept. A changed merchant
+ * name is linked to its merchant in the directory, and a changed bank or account number to the
+ * matching account. Applying a new amount removes the transaction's splits, which no longer add up
+ * to it.
+ */
+export interface TransactionReextractService {
+  /**
+   * Re-extract one transaction and store the result as a preview to apply.
+   * Throws 'Transaction not found' and, for transactions without a stored email,
+   * 'Transaction has no stored email content'.
+   */
+  reextract(
+    userId: string,
+    transactionId: string,
+    options: ReextractOptions
+  ): Promise<ReextractResult>;
+
+  /**
+   * Apply the changes of a re-extraction preview, or only those of the given fields.
+   * Throws 'Transaction not found', 'Re-extraction not found', 'Re-extraction found no
+   * transaction', 'Re-extraction already applied' and, when a field to change was edited after
+   * the preview, 'Transaction changed since the re-extraction'.
+   */
+  apply(
+    userId: string,
+    transactionId: string,
+    reextractionId: string,
+    fields?: ReextractField[]
+  ): Promise<ReextractResult>;
+
+  /**
+   * Re-extract one transaction for a background job over the user's least confident
+   * transactions, storing the result under the job and applying its changes right away when the
+   * job applies them
+   */
+  reextractForJob(job: TransactionReextractJob, transactionId: string): Promise<ReextractResult>;
+
+  /**
+   * Get a user's re-extract job with its results so far.
+   * Throws 'Re-extract job not found'.
+   */
+  getJob(
+    userId: string,
+    jobId: string
+  ): Promise<{ job: TransactionReextractJob; results: ReextractResult[] }>;
+}
+
+export class TransactionReextractServiceImpl implements TransactionReextractService {
+  constructor(
+    private readonly transactionRepo: TransactionRepository,
+    private readonly categoryRepo: CategoryRepository,
+    private readonly userRepo: UserRepository,
+    private readonly categorizationService: CategorizationService,
+    private readonly transactionExtractor: TransactionExtractorService,
+    private readonly transactionSplitRepo: TransactionSplitRepository,
+    private readonly merchantService: MerchantService,
+    private readonly accountService: AccountService,
+    private readonly emailIngestionRepo: EmailIngestionRepository,
+    private readonly transactionReextractionRepo: TransactionReextractionRepository,
+    private readonly transactionReextractJobRepo: TransactionReextractJobRepository
+  ) {}
+
+  async reextract(
+    userId: string,
+    transactionId: string,
+    options: ReextractOptions
+  ): Promise<ReextractResult> {
+    const transaction = await this.findTransaction(userId, transactionId);
+    if (!transaction.rawEmailContent) {
+      throw new Error('Transaction has no stored email content');
+    }
+
+    const context = await this.getContext(userId);
+    const { result } = await this.preview(transaction, context, options);
+    return result;
+  }
+
+  async apply(
+    userId: string,
+    transactionId: string,
+    reextractionId: string,
+    fields?: ReextractField[]
+  ): Promise<ReextractResult> {
+    const transaction = await this.findTransaction(userId, transactionId);
+    const reextraction = await this.transactionReextractionRepo.findById(reextractionId, userId);
+    if (!reextraction || reextraction.transactionId !== transaction.id) {
+      throw new Error('Re-extraction not found');
+    }
+    return this.applyChanges(transaction, reextraction, fields);
+  }
+
+  async reextractForJob(
+    job: TransactionReextractJob,
+    transactionId: string
+  ): Promise<ReextractResult> {
+    const transaction = await this.findTransaction(job.userId, transactionId);
+    const context = await this.getContext(job.userId);
+    const { result, reextraction } = await this.preview(transaction, context, {
+      modelId: job.modelId ?? undefined,
+      jobId: job.id,
+    });
+    if (!job.apply || result.changes.length === 0) {
+      return result;
+    }
+    return this.applyChanges(transaction, reextraction);
+  }
+
+  async getJob(
+    userId: string,
+    jobId: string
+  ): Promise<{ job: TransactionReextractJob; results: ReextractResult[] }> {
+    const job = await this.transactionReextractJobRepo.findById(jobId, userId);
+    if (!job) {
+      throw new Error('Re-extract job not found');
+    }
+
+    const rows = await this.transactionReextractionRepo.findAllForJob(job.id);
+    const results = rows.map(({ reextraction, transaction }) => ({
+      id: reextraction.id,
+      transaction,
+      isTransaction: reextraction.isTransaction,
+      confidence: reextraction.confidence === null ? null : Number(reextraction.confidence),
+      changes: reextraction.changes as ReextractFieldChange[],
+      applied: reextraction.appliedAt !== null,
+    }));
+    return { job, results };
+  }
+
+  private async findTransaction(userId: string, transactionId: string): Promise<Transaction> {
+    const transaction = await this.transactionRepo.findById(transactionId);
+    if (!transaction || transaction.userId !== userId) {
+      throw new Error('Transaction not found');
+    }
+    return transaction;
+  }
+
+  private async getContext(userId: string): Promise<ReextractContext> {
+    const [user, categories, examples] = await Promise.all([
+      this.userRepo.findById(userId),
+      this.categoryRepo.findAllForUser(userId),
+      this.categorizationService.getPromptExamples(userId),
+    ]);
+    return {
+      categories: categories.map((c) => ({ id: c.id, name: c.name, icon: c.icon })),
+      examples,
+      timezone: user?.timezone ?? 'Asia/Kathmandu',
+      baseCurrency: user?.baseCurrency ?? DEFAULT_CURRENCY,
+    };
+  }
+
+  /**
+   * Extract the transaction's email again and store the differences as a re-extraction
+   */
+  private async preview(
+    transaction: Transaction,
+    context: ReextractContext,
+    options: ReextractOptions & { jobId?: string }
+  ): Promise<{ result: ReextractResult; reextraction: TransactionReextraction }> {
+    // Sender and subject come from the ingestion log so bank parsers can match the email again
+    const ingestion = transaction.emailId
+      ? await this.emailIngestionRepo.findByMessageId(transaction.userId, transaction.emailId)
+      : null;
+    const extraction = await this.transactionExtractor.extractFromEmail(
+      {
+        subject: ingestion?.subject ?? undefined,
+        from: ingestion?.sender ?? undefined,
+        body: transaction.rawEmailContent ?? '',
+      },
+      context.categories,
+      context.examples,
+      options.modelId
+    );
+
+    const isTransaction =
+      this.transactionExtractor.isValidTransaction(extraction) && extraction.transaction !== null;
+    let changes: ReextractFieldChange[] = [];
+    let categoryRuleId: string | null = null;
+    if (isTransaction) {
+      const proposed = await this.toTransactionFields(transaction, extraction, context, options);
+      const current = toCurrentFields(transaction);
+      changes = REEXTRACT_FIELDS.filter((field) => current[field] !== proposed[field]).map(
+        (field) => ({ field, current: current[field], proposed: proposed[field] })
+      );
+      categoryRuleId = proposed.categoryRuleId;
+    }
+    const confidence = isTransaction ? (extraction.transaction?.confidence ?? null) : null;
+
+    const reextraction = await this.transactionReextractionRepo.create({
+      id: crypto.randomUUID(),
+      transactionId: transaction.id,
+      userId: transaction.userId,
+      jobId: options.jobId ?? null,
+      modelId: options.modelId ?? null,
+      isTransaction,
+      confidence: confidence?.toString() ?? null,
+      changes,
+      categoryRuleId,
+      extraction: isTransaction ? extraction : null,
+    });
+
+    return {
+      result: {
+        id: reextraction.id,
+        transaction,
+        isTransaction,
+        confidence,
+        changes,
+        applied: false,
+      },
+      reextraction,
+    };
+  }
+
+  /**
+   * Write the stored values of a re-extraction to its transaction
+   */
+  private async applyChanges(
+    transaction: Transaction,
+    reextraction: TransactionReextraction,
+    fields?: ReextractField[]
+  ): Promise<ReextractResult> {
+    if (!reextraction.isTransaction) {
+      throw new Error('Re-extraction found no transaction');
+    }
+    if (reextraction.appliedAt) {
+      throw new Error('Re-extraction already applied');
+    }
+
+    const changes = reextraction.changes as ReextractFieldChange[];
+    const current = toCurrentFields(transaction);
+    const toApply = changes.filter(({ field }) => !fields || fields.includes(field));
+    if (toApply.some(({ field, current: previewed }) => current[field] !== previewed)) {
+      throw new Error('Transaction changed since the re-extraction');
+    }
+
+    const update: Parameters<TransactionRepository['update']>[2] = {
+      aiConfidence: reextraction.confidence,
+      aiExtractedData: reextraction.extraction,
+    };
+    for (const { field, proposed } of toApply) {
+      if (field === 'transactionDate') {
+        update.transactionDate = proposed ? new Date(proposed) : null;
+      } else if (field === 'amount' || field === 'type' || field === 'currency') {
+        // Never null: the extractor always returns an amount and type, currency falls back
+        update[field] = proposed as string;
+      } else {
+        update[field] = proposed;
+      }
+      if (field === 'categoryId') {
+        update.categoryRuleId = reextraction.categoryRuleId;
+      }
+    }
+
+    if (update.merchant !== undefined) {
+      const merchant = await this.merchantService.resolve(transaction.userId, update.merchant);
+      update.merchantId = merchant?.id ?? null;
+    }
+    if (update.bankName !== undefined || update.accountNumber !== undefined) {
+      const account = await this.accountService.findForTransaction(
+        transaction.userId,
+        update.bankName !== undefined ? update.bankName : transaction.bankName,
+        update.accountNumber !== undefined ? update.accountNumber : transaction.accountNumber
+      );
+      update.accountId = account?.id ?? null;
+    }
+
+    const updated = await this.transactionRepo.update(transaction.id, transaction.userId, update);
+    if (updated && update.amount !== undefined) {
+      await this.transactionSplitRepo.deleteForTransaction(transaction.id);
+    }
+    if (updated) {
+      await this.transactionReextractionRepo.markApplied(reextraction.id);
+    }
+    return {
+      id: reextraction.id,
+      transaction: updated ?? transaction,
+      isTransaction: true,
+      confidence: reextraction.confidence === null ? null : Number(reextraction.confidence),
+      changes,
+      applied: updated !== null,
+    };
+  }
+
+  /**
+   * Convert an extraction to transaction column values the way the ingest pipeline saves them
+   */
+  private async toTransactionFields(
+    transaction: Transaction,
+    extraction: TransactionExtractionResult,
+    context: ReextractContext,
+    options: ReextractOptions
+  ): Promise<ProposedFields> {
+    const txn = extraction.transaction as NonNullable<TransactionExtractionResult['transaction']>;
+
+    let transactionDate: Date | null = null;
+    if (txn.date) {
+      try {
+        transactionDate = localToUtc(txn.date, txn.time ?? null, context.timezone);
+      } catch {
+        console.warn(`Failed to parse re-extracted transaction date: ${txn.date}`);
+      }
+    }
+
+    // Same precedence as ingestion: rule or learned category, then the merchant's default
+    // category, then the AI's existing category (asked separately for parser-read emails)
+    const match = await this.categorizationService.categorize(
+      transaction.userId,
+      { merchant: txn.merchant, remarks: txn.remarks },
+      { dryRun: true } // rule hits are not counted for previews
+    );
+    // Looked up without creating it: a merchant new to the directory has no default category
+    const merchant = match
+      ? null
+      : await this.merchantService.find(transaction.userId, txn.merchant);
+    const merchantCategory = merchant?.categoryId
+      ? await this.categoryRepo.findById(merchant.categoryId)
+      : null;
+    let categoryId: string | null = transaction.categoryId;
+    let categoryRuleId: string | null = transaction.categoryRuleId;
+    if (match) {
+      categoryId = match.categoryId;
+      categoryRuleId = match.ruleId;
+    } else if (merchantCategory) {
+      categoryId = merchantCategory.id;
+      categoryRuleId = null;
+    } else {
+      const choice = extraction.parser
+        ? await this.transactionExtractor.categorize(
+            txn,
+            context.categories,
+            context.examples,
+            options.modelId
+          )
+        : txn;
+      if (!choice.newCategory) {
+        categoryId = choice.categoryId;
+        categoryRuleId = null;
+      }
+    }
+
+    return {
+      amount: txn.amount.toFixed(2),
+      type: txn.type,
+      currency: normalizeCurrency(txn.currency, context.baseCurrency),
+      merchant: txn.merchant,
+      accountNumber: txn.accountLastFour,
+      bankName: txn.bankName,
+      transactionDate: transactionDate?.toISOString() ?? null,
+      remarks: txn.remarks,
+      categoryId,
+      categoryRuleId,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import type { Transaction } from '@/db/schema';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type { BudgetService } from './budget.service';
+import type { CategorizationService } from './categorization.service';
+import type { MerchantService } from './merchant.service';
+import type { TransferService } from './transfer.service';
+
+/**
+ * Corrections a user can make while approving a transaction
+ */
+export interface ReviewEdits {
+  categoryId?: string;
+  merchant?: string;
+  remarks?: string;
+  transactionDate?: Date;
+}
+
+/**
+ * TransactionReviewService - resolves transactions held in the review queue
+ * (`pending_review`: the AI was less confident than the user's review threshold).
+ *
+ * Approving confirms the transaction, optionally with corrections, so it counts in totals and
+ * budgets. The approved category is remembered for the merchant like a manual correction, unless
+ * it was set by a category rule. Rejecting deletes the transaction permanently (it is not kept for
+ * restore like other deletes), so its email can be reprocessed from the ingestion log.
+ */
+export interface TransactionReviewService {
+  /**
+   * Approve a pending transaction.
+   * Throws 'Transaction not found' and 'Transaction is not pending review'.
+   */
+  approve(userId: string, transactionId: string, edits: ReviewEdits): Promise<Transaction>;
+
+  /**
+   * Reject (permanently delete) a pending transaction.
+   * Throws 'Transaction not found' and 'Transaction is not pending review'.
+   */
+  reject(userId: string, transactionId: string): Promise<void>;
+}
+
+export class TransactionReviewServiceImpl implements TransactionReviewService {
+  constructor(
+    private readonly transactionRepo: TransactionRepository,
+    private readonly categorizationService: CategorizationService,
+    private readonly budgetService: BudgetService,
+    private readonly transferService: TransferService,
+    private readonly merchantService: MerchantService
+  ) {}
+
+  async approve(userId: string, transactionId: string, edits: ReviewEdits): Promise<Transaction> {
+    const existing = await this.findPending(userId, transactionId);
+
+    // A category change is a correction: the rule (if any) no longer explains the category
+    const categoryChanged =
+      edits.categoryId !== undefined && edits.categoryId !== existing.categoryId;
+
+    // A corrected merchant name moves the transaction to the merchant it belongs to
+    const merchantChanged = edits.merchant !== undefined && edits.merchant !== existing.merchant;
+    const merchant = merchantChanged
+      ? await this.merchantService.resolve(userId, edits.merchant ?? null)
+      : null;
+
+    const approved = await this.transactionRepo.update(transactionId, userId, {
+      ...edits,
+      ...(categoryChanged ? { categoryRuleId: null } : {}),
+      ...(merchantChanged ? { merchantId: merchant?.id ?? null } : {}),
+      status: 'confirmed',
+    });
+    if (!approved) {
+      throw new Error('Transaction not found');
+    }
+
+    if (approved.categoryId && !approved.categoryRuleId) {
+      await this.categorizationService.learnFromCorrection(userId, approved, approved.categoryId);
+    }
+
+    // Pending transactions were left out of transfer matching and budgets until now
+    const transferPeer = await this.transferService.matchTransaction(approved).catch((error) => {
+      console.error('Transfer matching failed:', error);
+      return null;
+    });
+    if (!transferPeer) {
+      await this.budgetService
+        .notifyThresholdsCrossed(approved)
+        .catch((error) => console.error('Budget threshold check failed:', error));
+    }
+
+    return approved;
+  }
+
+  async reject(userId: string, transactionId: string): Promise<void> {
+    await this.findPending(userId, transactionId);
+    await this.transactionRepo.purge(transactionId, userId);
+  }
+
+  private async findPending(userId: string, transactionId: string): Promise<Transaction> {
+    const transaction = await this.transactionRepo.findById(transactionId);
+    if (!transaction || transaction.userId !== userId) {
+      throw new Error('Transaction not found');
+    }
+    if (transaction.status !== 'pending_review') {
+      throw new Error('Transaction is not pending review');
+    }
+    return transaction;
+  }
+}
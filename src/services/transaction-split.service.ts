@@ -0,0 +1,113 @@
+import type { CategoryRepository } from '@/repositories/category.repository';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+import type {
+  TransactionSplitRepository,
+  TransactionSplitWithCategory,
+} from '@/repositories/transaction-split.repository';
+
+/**
+ * A part of a transaction assigned to a category, in the transaction's currency
+ */
+export interface SplitInput {
+  categoryId: string;
+  amount: number;
+  note?: string | null;
+}
+
+/**
+ * TransactionSplitService - spreads one transaction across several categories
+ * (e.g. a supermarket bill covering groceries and household items).
+ *
+ * Split amounts must add up to the transaction amount exactly. While a transaction has splits,
+ * category totals, budgets and insights count the splits instead of the transaction's own
+ * category; removing the splits puts the whole amount back in that category.
+ */
+export interface TransactionSplitService {
+  /**
+   * Get a transaction's splits (empty when it is not split).
+   * Throws 'Transaction not found'.
+   */
+  getSplits(userId: string, transactionId: string): Promise<TransactionSplitWithCategory[]>;
+
+  /**
+   * Replace a transaction's splits.
+   * Throws 'Transaction not found', 'Category not found' and
+   * 'Split amounts must add up to the transaction amount'.
+   */
+  setSplits(
+    userId: string,
+    transactionId: string,
+    splits: SplitInput[]
+  ): Promise<TransactionSplitWithCategory[]>;
+
+  /**
+   * Remove a transaction's splits.
+   * Throws 'Transaction not found' and 'Transaction is not split'.
+   */
+  clearSplits(userId: string, transactionId: string): Promise<void>;
+}
+
+/** Amount in cents, so split totals are compared without floating point drift */
+const toCents = (amount: number | string): number =>
+  Math.round(Number.parseFloat(String(amount)) * 100);
+
+export class TransactionSplitServiceImpl implements TransactionSplitService {
+  constructor(
+    private readonly transactionRepo: TransactionRepository,
+    private readonly transactionSplitRepo: TransactionSplitRepository,
+    private readonly categoryRepo: CategoryRepository
+  ) {}
+
+  async getSplits(userId: string, transactionId: string): Promise<TransactionSplitWithCategory[]> {
+    await this.findOwned(userId, transactionId);
+    return this.transactionSplitRepo.findForTransaction(transactionId);
+  }
+
+  async setSplits(
+    userId: string,
+    transactionId: string,
+    splits: SplitInput[]
+  ): Promise<TransactionSplitWithCategory[]> {
+    const transaction = await this.findOwned(userId, transactionId);
+
+    const categoryIds = Array.from(new Set(splits.map((split) => split.categoryId)));
+    for (const categoryId of categoryIds) {
+      const category = await this.categoryRepo.findById(categoryId);
+      if (!category || (category.userId !== null && category.userId !== userId)) {
+        throw new Error('Category not found');
+      }
+    }
+
+    const total = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    if (total !== toCents(transaction.amount)) {
+      throw new Error('Split amounts must add up to the transaction amount');
+    }
+
+    await this.transactionSplitRepo.replaceForTransaction(
+      transactionId,
+      splits.map((split) => ({
+        userId,
+        categoryId: split.categoryId,
+        amount: (toCents(split.amount) / 100).toFixed(2),
+        note: split.note ?? null,
+      }))
+    );
+    return this.transactionSplitRepo.findForTransaction(transactionId);
+  }
+
+  async clearSplits(userId: string, transactionId: string): Promise<void> {
+    await this.findOwned(userId, transactionId);
+    const deleted = await this.transactionSplitRepo.deleteForTransaction(transactionId);
+    if (deleted === 0) {
+      throw new Error('Transaction is not split');
+    }
+  }
+
+  private async findOwned(userId: string, transactionId: string) {
+    const transaction = await this.transactionRepo.findById(transactionId);
+    if (!transaction || transaction.userId !== userId) {
+      throw new Error('Transaction not found');
+    }
+    return transaction;
+  }
+}
@@ -0,0 +1,217 @@
+import type { Transaction } from '@/db/schema';
+import type { TransactionRepository } from '@/repositories/transaction.repository';
+
+/** Default hours between the two sides of a transfer */
+export const DEFAULT_TRANSFER_WINDOW_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Days of history scanned when detecting transfers without a date range */
+const DETECTION_LOOKBACK_DAYS = 90;
+
+/**
+ * A transfer between two of the user's accounts: money leaving one (debit)
+ * and arriving in the other (credit)
+ */
+export interface TransferPair {
+  debit: Transaction;
+  credit: Transaction;
+}
+
+export interface TransferDetectionOptions {
+  startDate?: Date;
+  endDate?: Date;
+  windowHours?: number;
+  dryRun?: boolean; // only report the pairs found, without linking them
+}
+
+/**
+ * TransferService - finds and links transfers between a user's own accounts, e.g. a bank
+ * debit email and the eSewa credit SMS for the same top-up.
+ *
+ * Both sides are linked through `transferPeerId` and left out of totals, budgets and insights.
+ * A debit and a credit are matched when they are confirmed, not yet linked, have the same amount
+ * and currency, come from different accounts (bank name and account number) and happened within
+ * the time window of each other.
+ */
+export interface TransferService {
+  /**
+   * Find the other side of a transfer for a transaction and link the two.
+   * Returns the linked peer, or null when no transaction matches.
+   */
+  matchTransaction(transaction: Transaction, windowHours?: number): Promise<Transaction | null>;
+
+  /**
+   * Pair up a user's unlinked transactions (default: the last 90 days) and link the pairs
+   */
+  detectForUser(userId: string, options?: TransferDetectionOptions): Promise<TransferPair[]>;
+
+  /**
+   * Link a debit and a credit as a transfer by hand (amounts may differ, e.g. by a fee).
+   * Throws 'Transaction not found', 'A transfer links a debit to a credit' and
+   * 'Transaction is already part of a transfer'.
+   */
+  link(userId: string, debitId: string, creditId: string): Promise<TransferPair>;
+
+  /**
+   * Unlink the transfer a transaction is part of, so both sides count again.
+   * Throws 'Transaction not found' and 'Transaction is not part of a transfer'.
+   */
+  unlink(userId: string, transactionId: string): Promise<void>;
+}
+
+/** When the transaction happened; undated transactions use the time they were recorded */
+const occurredAt = (txn: Transaction): number => (txn.transactionDate ?? txn.createdAt).getTime();
+
+/** Bank and account a transaction was made from, compared case-insensitively */
+const accountKey = (txn: Transaction): string =>
+  `${(txn.bankName ?? '').trim().toLowerCase()}|${txn.accountNumber ?? ''}`;
+
+/**
+ * Whether a debit and a credit can be the two sides of one transfer
+ */
+export function isTransferMatch(
+  debit: Transaction,
+  credit: Transaction,
+  windowMs: number
+): boolean {
+  return (
+    debit.type === 'debit' &&
+    credit.type === 'credit' &&
+    debit.userId === credit.userId &&
+    Number.parseFloat(debit.amount) === Number.parseFloat(credit.amount) &&
+    (debit.currency ?? '') === (credit.currency ?? '') &&
+    accountKey(debit) !== accountKey(credit) &&
+    Math.abs(occurredAt(debit) - occurredAt(credit)) <= windowMs
+  );
+}
+
+/**
+ * Pair debits with matching credits. Each transaction is used once; a debit takes the closest
+ * credit in time, debits being paired oldest first.
+ */
+export function findTransferPairs(transactions: Transaction[], windowMs: number): TransferPair[] {
+  const debits = transactions
+    .filter((txn) => txn.type === 'debit')
+    .sort((a, b) => occurredAt(a) - occurredAt(b));
+  const credits = transactions.filter((txn) => txn.type === 'credit');
+  const used = new Set<string>();
+  const pairs: TransferPair[] = [];
+
+  for (const debit of debits) {
+    let best: Transaction | null = null;
+    for (const credit of credits) {
+      if (used.has(credit.id) || !isTransferMatch(debit, credit, windowMs)) continue;
+      const distance = Math.abs(occurredAt(debit) - occurredAt(credit));
+      if (!best || distance < Math.abs(occurredAt(debit) - occurredAt(best))) {
+        best = credit;
+      }
+    }
+    if (best) {
+      used.add(best.id);
+      pairs.push({ debit, credit: best });
+    }
+  }
+
+  return pairs;
+}
+
+export class TransferServiceImpl implements TransferService {
+  constructor(private readonly transactionRepo: TransactionRepository) {}
+
+  async matchTransaction(
+    transaction: Transaction,
+    windowHours = DEFAULT_TRANSFER_WINDOW_HOURS
+  ): Promise<Transaction | null> {
+    if (transaction.status !== 'confirmed' || transaction.transferPeerId) return null;
+
+    const windowMs = windowHours * HOUR_MS;
+    const at = occurredAt(transaction);
+    const candidates = await this.transactionRepo.findUnlinkedTransferCandidates(
+      transaction.userId,
+      new Date(at - windowMs),
+      new Date(at + windowMs),
+      transaction
+    );
+
+    const isDebit = transaction.type === 'debit';
+    const peer = candidates
+      .filter((candidate) =>
+        isDebit
+          ? isTransferMatch(transaction, candidate, windowMs)
+          : isTransferMatch(candidate, transaction, windowMs)
+      )
+      .sort((a, b) => Math.abs(occurredAt(a) - at) - Math.abs(occurredAt(b) - at))[0];
+    if (!peer) return null;
+
+    await this.transactionRepo.linkTransfer(
+      transaction.userId,
+      isDebit ? transaction.id : peer.id,
+      isDebit ? peer.id : transaction.id
+    );
+    return peer;
+  }
+
+  async detectForUser(
+    userId: string,
+    options: TransferDetectionOptions = {}
+  ): Promise<TransferPair[]> {
+    const windowMs = (options.windowHours ?? DEFAULT_TRANSFER_WINDOW_HOURS) * HOUR_MS;
+    const endDate = options.endDate ?? new Date();
+    const startDate =
+      options.startDate ?? new Date(endDate.getTime() - DETECTION_LOOKBACK_DAYS * 24 * HOUR_MS);
+
+    const transactions = await this.transactionRepo.findUnlinkedTransferCandidates(
+      userId,
+      startDate,
+      endDate
+    );
+    const pairs = findTransferPairs(transactions, windowMs);
+    if (options.dryRun) return pairs;
+
+    const linked: TransferPair[] = [];
+    for (const { debit, credit } of pairs) {
+      await this.transactionRepo.linkTransfer(userId, debit.id, credit.id);
+      linked.push({
+        debit: { ...debit, transferPeerId: credit.id },
+        credit: { ...credit, transferPeerId: debit.id },
+      });
+    }
+    return linked;
+  }
+
+  async link(userId: string, debitId: string, creditId: string): Promise<TransferPair> {
+    const [debit, credit] = await Promise.all([
+      this.findOwned(userId, debitId),
+      this.findOwned(userId, creditId),
+    ]);
+    if (debit.type !== 'debit' || credit.type !== 'credit') {
+      throw new Error('A transfer links a debit to a credit');
+    }
+    if (debit.transferPeerId || credit.transferPeerId) {
+      throw new Error('Transaction is already part of a transfer');
+    }
+
+    await this.transactionRepo.linkTransfer(userId, debit.id, credit.id);
+    return {
+      debit: { ...debit, transferPeerId: credit.id },
+      credit: { ...credit, transferPeerId: debit.id },
+    };
+  }
+
+  async unlink(userId: string, transactionId: string): Promise<void> {
+    const transaction = await this.findOwned(userId, transactionId);
+    if (!transaction.transferPeerId) {
+      throw new Error('Transaction is not part of a transfer');
+    }
+    await this.transactionRepo.unlinkTransfer(userId, transaction.id);
+  }
+
+  private async findOwned(userId: string, transactionId: string): Promise<Transaction> {
+    const transaction = await this.transactionRepo.findById(transactionId);
+    if (!transaction || transaction.userId !== userId) {
+      throw new Error('Transaction not found');
+    }
+    return transaction;
+  }
+}